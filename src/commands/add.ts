@@ -5,13 +5,15 @@ import { logger } from '../utils/logger';
 import { registryClient } from '../services/registry-client';
 import { installer } from '../services/installer';
 import { gitResolver } from '../services/git-resolver';
-import { calculateFileChecksum } from '../utils/crypto';
 import { pluginResolver } from '../services/plugin-resolver';
 import { craftWrapper } from '../services/craft-wrapper';
 import { DependencyConfig } from '../types/craftdesk-json';
 import { LockEntry, CraftDeskLock } from '../types/craftdesk-lock';
+import { updateDependencyTree } from '../utils/dependency-tree';
+import { LOCKFILE_VERSION } from '../utils/lockfile-migration';
+import { isIntegrityRequired } from '../utils/integrity-policy';
+import { toLockSignature } from '../utils/signing';
 import fs from 'fs-extra';
-import os from 'os';
 
 /**
  * Options for the add command
@@ -22,6 +24,7 @@ interface AddCommandOptions {
   saveExact?: boolean;
   type?: string;
   asPlugin?: boolean;
+  requireIntegrity?: boolean;
 }
 
 /**
@@ -51,6 +54,7 @@ export function createAddCommand(): Command {
     .option('-E, --save-exact', 'Save exact version')
     .option('-t, --type <type>', 'Specify craft type (skill, agent, command, hook, plugin)')
     .option('--as-plugin', 'Wrap individual craft as a plugin')
+    .option('--require-integrity', 'Refuse registry crafts without an integrity hash (default: install.requireIntegrity in craftdesk.json)')
     .action(async (craftArg: string, options: AddCommandOptions) => {
       await addCommand(craftArg, options);
     });
@@ -66,6 +70,8 @@ async function addCommand(craftArg: string, options: AddCommandOptions): Promise
       process.exit(1);
     }
 
+    const requireIntegrity = isIntegrityRequired(craftDeskJson, options.requireIntegrity);
+
     // Parse craft name and version
     let craftName: string;
     let versionConstraint: string = '*';
@@ -183,25 +189,13 @@ async function addCommand(craftArg: string, options: AddCommandOptions): Promise
 
       const downloadUrl = craftInfo.download_url;
 
-      // Calculate checksum if not provided by API
-      let integrity = craftInfo.integrity;
-      if (!integrity) {
+      // The archive is hashed if the registry does not provide its integrity
+      if (!craftInfo.integrity) {
         logger.startSpinner('Computing checksum for security verification...');
-        const tempDir = path.join(os.tmpdir(), 'craftdesk-verify');
-        const tempFile = path.join(tempDir, `${craftInfo.name}-${craftInfo.version}.zip`);
-
-        try {
-          await fs.ensureDir(tempDir);
-          // Download to temp location
-          await registryClient.downloadCraft(downloadUrl, tempFile);
-          // Calculate checksum
-          integrity = await calculateFileChecksum(tempFile);
-          logger.succeedSpinner(`Checksum computed: ${integrity.substring(0, 12)}...`);
-        } finally {
-          // Clean up temp file and directory
-          await fs.remove(tempFile).catch(() => {});  // Ignore errors if file doesn't exist
-          await fs.remove(tempDir).catch(() => {});   // Ignore errors if directory doesn't exist
-        }
+      }
+      const integrity = await registryClient.resolveIntegrity(craftInfo, { require: requireIntegrity });
+      if (!craftInfo.integrity) {
+        logger.succeedSpinner(`Checksum computed: ${integrity.substring(0, 12)}...`);
       }
 
       lockEntry = {
@@ -210,7 +204,8 @@ async function addCommand(craftArg: string, options: AddCommandOptions): Promise
         integrity: integrity,
         type: craftInfo.type,
         author: craftInfo.author,
-        dependencies: craftInfo.dependencies || {}
+        dependencies: craftInfo.dependencies || {},
+        ...toLockSignature(craftInfo)
       };
 
       displayInfo = `${craftInfo.name}@${craftInfo.version}`;
@@ -262,7 +257,7 @@ async function addCommand(craftArg: string, options: AddCommandOptions): Promise
     if (!lockfile) {
       lockfile = {
         version: '1.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: LOCKFILE_VERSION,
         generatedAt: new Date().toISOString(),
         crafts: {}
       };
@@ -291,13 +286,14 @@ async function addCommand(craftArg: string, options: AddCommandOptions): Promise
 
       if (pluginDetected) {
         logger.info('Plugin detected - resolving dependencies...');
-        await handlePluginInstall(craftName, lockEntry, craftDir, lockfile);
+        await handlePluginInstall(craftName, lockEntry, craftDir, lockfile, requireIntegrity);
       }
     }
 
     // Add or update the craft in the lockfile
     lockfile.crafts[craftName] = lockEntry;
     lockfile.generatedAt = new Date().toISOString();
+    await updateDependencyTree(lockfile, craftDeskJson);
 
     await writeCraftDeskLock(lockfile);
 
@@ -456,13 +452,15 @@ async function isPlugin(craftDir: string): Promise<boolean> {
  * @param lockEntry - Lock entry containing version and dependency information
  * @param craftDir - Path to the craft installation directory
  * @param lockfile - Current lockfile object to update with resolved dependencies
+ * @param requireIntegrity - Refuse registry dependencies without an integrity hash
  * @returns Promise that resolves when plugin and dependencies are installed
  */
 async function handlePluginInstall(
   craftName: string,
   lockEntry: LockEntry,
   craftDir: string,
-  lockfile: CraftDeskLock
+  lockfile: CraftDeskLock,
+  requireIntegrity: boolean
 ): Promise<void> {
   logger.startSpinner('Resolving plugin dependencies...');
 
@@ -494,7 +492,7 @@ async function handlePluginInstall(
       logger.info(`Installing plugin dependency: ${depName}...`);
 
       try {
-        await installPluginDependency(depName, depInfo, lockfile);
+        await installPluginDependency(depName, depInfo, lockfile, requireIntegrity);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         logger.error(`Failed to install ${depName}: ${message}`);
@@ -518,12 +516,14 @@ async function handlePluginInstall(
  * @param depName - Name of the dependency to install
  * @param depInfo - Dependency specification (version string, git object, or registry object)
  * @param lockfile - Current lockfile object to update with the new dependency
+ * @param requireIntegrity - Refuse registry dependencies without an integrity hash
  * @returns Promise that resolves when dependency is installed
  */
 async function installPluginDependency(
   depName: string,
   depInfo: string | DependencyConfig,
-  lockfile: CraftDeskLock
+  lockfile: CraftDeskLock,
+  requireIntegrity: boolean
 ): Promise<void> {
   let depLockEntry: LockEntry;
 
@@ -540,22 +540,7 @@ async function installPluginDependency(
       throw new Error(`Registry did not provide download URL for ${depName}@${craftInfo.version}`);
     }
 
-    // Calculate checksum if not provided by API
-    let integrity = craftInfo.integrity;
-    if (!integrity) {
-      logger.debug(`Computing checksum for ${depName}...`);
-      const tempDir = path.join(os.tmpdir(), 'craftdesk-verify');
-      const tempFile = path.join(tempDir, `${craftInfo.name}-${craftInfo.version}.zip`);
-
-      try {
-        await fs.ensureDir(tempDir);
-        await registryClient.downloadCraft(craftInfo.download_url, tempFile);
-        integrity = await calculateFileChecksum(tempFile);
-      } finally {
-        await fs.remove(tempFile).catch(() => {});
-        await fs.remove(tempDir).catch(() => {});
-      }
-    }
+    const integrity = await registryClient.resolveIntegrity(craftInfo, { require: requireIntegrity });
 
     depLockEntry = {
       version: craftInfo.version,
@@ -564,6 +549,7 @@ async function installPluginDependency(
       type: craftInfo.type,
       author: craftInfo.author,
       dependencies: craftInfo.dependencies || {},
+      ...toLockSignature(craftInfo),
       installedAs: 'dependency'
     };
 
@@ -616,22 +602,7 @@ async function installPluginDependency(
       throw new Error(`Registry did not provide download URL for ${depName}@${craftInfo.version}`);
     }
 
-    // Calculate checksum if not provided
-    let integrity = craftInfo.integrity;
-    if (!integrity) {
-      logger.debug(`Computing checksum for ${depName}...`);
-      const tempDir = path.join(os.tmpdir(), 'craftdesk-verify');
-      const tempFile = path.join(tempDir, `${craftInfo.name}-${craftInfo.version}.zip`);
-
-      try {
-        await fs.ensureDir(tempDir);
-        await registryClient.downloadCraft(craftInfo.download_url, tempFile);
-        integrity = await calculateFileChecksum(tempFile);
-      } finally {
-        await fs.remove(tempFile).catch(() => {});
-        await fs.remove(tempDir).catch(() => {});
-      }
-    }
+    const integrity = await registryClient.resolveIntegrity(craftInfo, { require: requireIntegrity });
 
     depLockEntry = {
       version: craftInfo.version,
@@ -640,6 +611,7 @@ async function installPluginDependency(
       type: craftInfo.type,
       author: craftInfo.author,
       dependencies: craftInfo.dependencies || {},
+      ...toLockSignature(craftInfo),
       installedAs: 'dependency'
     };
 
@@ -661,7 +633,7 @@ async function installPluginDependency(
 
   if (isDepPlugin) {
     logger.debug(`Dependency ${depName} is a plugin, resolving its dependencies...`);
-    await handlePluginInstall(depName, depLockEntry, depDir, lockfile);
+    await handlePluginInstall(depName, depLockEntry, depDir, lockfile, requireIntegrity);
   }
 }
 
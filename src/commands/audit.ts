@@ -0,0 +1,245 @@
+import { Command } from 'commander';
+import path from 'path';
+import fs from 'fs-extra';
+import { readCraftDeskJson, readCraftDeskLock } from '../utils/file-system';
+import { logger } from '../utils/logger';
+import { installer } from '../services/installer';
+import { registryClient, Advisory } from '../services/registry-client';
+import { auditor, AuditFinding, AuditSeverity, AUDIT_SEVERITIES, compareSeverity } from '../services/auditor';
+import { applyUpdates, UpdateInfo } from './update';
+import { findVersionConstraint } from '../utils/version-utils';
+import { maxSatisfying, maxVersion, satisfies } from '../utils/semver';
+import { CraftDeskJson } from '../types/craftdesk-json';
+import { CraftDeskLock, LockEntry } from '../types/craftdesk-lock';
+
+interface AuditCommandOptions {
+  json?: boolean;
+  auditLevel: string;
+  advisories: boolean;
+  fix?: boolean;
+}
+
+/**
+ * Creates the 'audit' command for scanning installed crafts
+ *
+ * @returns Commander command instance configured for auditing crafts
+ */
+export function createAuditCommand(): Command {
+  return new Command('audit')
+    .description('Scan installed crafts for risky hooks, MCP servers, scripts, unknown hosts and secrets')
+    .argument('[craft]', 'Only audit this craft')
+    .option('--json', 'Output as JSON')
+    .option('--audit-level <severity>', `Exit with an error for findings at or above this severity (${AUDIT_SEVERITIES.join(', ')})`, 'high')
+    .option('--no-advisories', 'Skip checking registry crafts against registry advisories')
+    .option('--fix', 'Update crafts with advisories to the newest version that fixes them')
+    .action(async (craftName: string | undefined, options: AuditCommandOptions) => {
+      await auditCommand(craftName, options);
+    });
+}
+
+async function auditCommand(craftName: string | undefined, options: AuditCommandOptions): Promise<void> {
+  try {
+    const auditLevel = options.auditLevel as AuditSeverity;
+    if (!AUDIT_SEVERITIES.includes(auditLevel)) {
+      logger.error(`Invalid audit level: ${options.auditLevel} (expected one of ${AUDIT_SEVERITIES.join(', ')})`);
+      process.exit(1);
+    }
+
+    const craftDeskJson = await readCraftDeskJson();
+    if (!craftDeskJson) {
+      logger.error('No craftdesk.json found in current directory');
+      process.exit(1);
+    }
+
+    if (options.fix && (options.json || !options.advisories)) {
+      logger.error('--fix cannot be combined with --json or --no-advisories');
+      process.exit(1);
+    }
+
+    let lockfile = await readCraftDeskLock();
+    if (!lockfile) {
+      logger.error('No craftdesk.lock found in current directory');
+      logger.info('Run "craftdesk install" first');
+      process.exit(1);
+    }
+
+    if (craftName && !lockfile.crafts[craftName]) {
+      logger.error(`${craftName} is not in craftdesk.lock`);
+      process.exit(1);
+    }
+
+    const craftNames = craftName ? [craftName] : undefined;
+    if (options.fix) {
+      const { findings: advisoryFindings } = await auditor.auditAdvisories(lockfile, craftNames);
+      await fixAdvisories(craftDeskJson, lockfile, advisoryFindings);
+      lockfile = (await readCraftDeskLock()) || lockfile;
+    }
+
+    const allowedHosts = [...getRegistryHosts(craftDeskJson, lockfile), ...(craftDeskJson.audit?.allowedHosts || [])];
+    const findings: AuditFinding[] = [];
+    let audited = 0;
+
+    for (const [name, entry] of Object.entries(lockfile.crafts)) {
+      if (craftName && name !== craftName) continue;
+
+      const craftDir = path.join(process.cwd(), installer.getInstallPath(), installer.getTypeDirectory(entry.type), name);
+      if (!await fs.pathExists(craftDir)) {
+        if (!options.json) logger.warn(`${name} is not installed, skipping`);
+        continue;
+      }
+
+      findings.push(...await auditor.auditCraft(name, entry.version, craftDir, { allowedHosts }));
+      audited++;
+    }
+
+    const errors: string[] = [];
+    if (options.advisories) {
+      const advisoryResult = await auditor.auditAdvisories(lockfile, craftNames);
+      findings.push(...advisoryResult.findings);
+      errors.push(...advisoryResult.errors);
+    }
+
+    const summary = Object.fromEntries(
+      AUDIT_SEVERITIES.map(severity => [severity, findings.filter(f => f.severity === severity).length])
+    ) as Record<AuditSeverity, number>;
+    const failing = findings.filter(f => compareSeverity(f.severity, auditLevel) >= 0);
+
+    if (options.json) {
+      console.log(JSON.stringify({ crafts: audited, findings, summary, errors }, null, 2));
+    } else {
+      errors.forEach(error => logger.warn(error));
+      printFindings(findings);
+
+      if (findings.length === 0) {
+        logger.success(`No issues found in ${audited} craft(s)`);
+      } else {
+        const counts = [...AUDIT_SEVERITIES].reverse()
+          .filter(severity => summary[severity] > 0)
+          .map(severity => `${summary[severity]} ${severity}`);
+        const crafts = new Set(findings.map(f => f.craft)).size;
+        logger.log(`Found ${findings.length} issue(s) in ${crafts} of ${audited} craft(s): ${counts.join(', ')}`);
+      }
+    }
+
+    if (failing.length > 0) {
+      if (!options.json) {
+        logger.error(`${failing.length} issue(s) at or above ${auditLevel} severity`);
+      }
+      process.exit(1);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to audit crafts: ${message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Prints findings grouped by craft, most severe first
+ *
+ * @param findings - Findings to print
+ */
+function printFindings(findings: AuditFinding[]): void {
+  const byCraft = new Map<string, AuditFinding[]>();
+  for (const finding of findings) {
+    const key = `${finding.craft}@${finding.version}`;
+    byCraft.set(key, [...(byCraft.get(key) || []), finding]);
+  }
+
+  for (const [craft, craftFindings] of byCraft) {
+    logger.log(logger.bold(craft));
+    for (const finding of [...craftFindings].sort((a, b) => compareSeverity(b.severity, a.severity))) {
+      const location = finding.line ? `${finding.file}:${finding.line}` : finding.file;
+      logger.log(`  ${finding.severity.toUpperCase().padEnd(9)} ${finding.message}`);
+      logger.log(`  ${' '.repeat(9)} ${logger.dim(location)}${finding.evidence ? logger.dim(`  ${finding.evidence}`) : ''}`);
+    }
+    logger.log('');
+  }
+}
+
+/**
+ * Updates crafts with advisories through the same code path as `update`
+ *
+ * @param craftDeskJson - Project manifest
+ * @param lockfile - Project lockfile
+ * @param findings - Advisory findings
+ */
+async function fixAdvisories(craftDeskJson: CraftDeskJson, lockfile: CraftDeskLock, findings: AuditFinding[]): Promise<void> {
+  const byCraft = new Map<string, Advisory[]>();
+  for (const finding of findings) {
+    if (finding.advisory) byCraft.set(finding.craft, [...(byCraft.get(finding.craft) || []), finding.advisory]);
+  }
+
+  const updates: UpdateInfo[] = [];
+  for (const [name, advisories] of byCraft) {
+    const entry = lockfile.crafts[name];
+    const target = await findFixedVersion(name, entry, advisories, findVersionConstraint(name, craftDeskJson, lockfile));
+    if (!target) {
+      logger.warn(`No version of ${name} fixes ${advisories.map(a => a.id).join(', ')}`);
+      continue;
+    }
+    updates.push({ name, current: entry.version, latest: target, type: entry.type, source: 'registry', lockEntry: entry });
+  }
+
+  if (updates.length === 0) {
+    logger.info('Nothing to fix');
+    return;
+  }
+
+  await applyUpdates(craftDeskJson, lockfile, updates);
+  logger.log('');
+}
+
+/**
+ * Picks the version to update a craft with advisories to
+ *
+ * Candidates are newer than the installed version, at or above every advisory's
+ * fixed version and outside every vulnerable range. The newest candidate within
+ * the project's constraint wins, otherwise the newest candidate overall.
+ *
+ * @param name - Craft name
+ * @param entry - Lock entry of the craft
+ * @param advisories - Advisories affecting the installed version
+ * @param constraint - Version range the project declares for the craft
+ * @returns The version to update to, or null if no version fixes the advisories
+ */
+async function findFixedVersion(name: string, entry: LockEntry, advisories: Advisory[], constraint: string): Promise<string | null> {
+  const published = await registryClient.listVersions(name, entry.registry);
+  const versions = published.length > 0
+    ? published
+    : advisories.map(a => a.fixed_in).filter((v): v is string => !!v);
+
+  const fixed = versions.filter(version =>
+    satisfies(version, `>${entry.version}`) &&
+    advisories.every(a =>
+      (!a.fixed_in || satisfies(version, `>=${a.fixed_in}`)) &&
+      (!a.vulnerable_versions || !satisfies(version, a.vulnerable_versions))
+    )
+  );
+
+  return maxSatisfying(fixed, constraint) || maxVersion(fixed);
+}
+
+/**
+ * Collects the hosts of the registries the project uses
+ *
+ * @param craftDeskJson - Project manifest
+ * @param lockfile - Project lockfile
+ * @returns Registry hostnames
+ */
+function getRegistryHosts(craftDeskJson: CraftDeskJson, lockfile: CraftDeskLock): string[] {
+  const urls = [
+    ...Object.values(craftDeskJson.registries || {}).map(registry => registry.url),
+    ...Object.values(lockfile.crafts).map(entry => entry.registry)
+  ];
+
+  const hosts: string[] = [];
+  for (const url of urls) {
+    try {
+      if (url) hosts.push(new URL(url).hostname);
+    } catch {
+      // Not a URL
+    }
+  }
+  return hosts;
+}
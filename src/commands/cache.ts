@@ -0,0 +1,148 @@
+import { Command } from 'commander';
+import { logger } from '../utils/logger';
+import { cacheManager, CacheEntry } from '../services/cache-manager';
+
+/**
+ * Creates the 'cache' command for inspecting and maintaining the global cache
+ *
+ * @returns Commander command instance with ls, verify and clean subcommands
+ */
+export function createCacheCommand(): Command {
+  const command = new Command('cache')
+    .description('Manage the global download and git cache')
+    .action(async () => {
+      await cacheSummaryCommand();
+    });
+
+  command
+    .command('ls')
+    .description('List cached archives and git mirrors')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      await cacheListCommand(options);
+    });
+
+  command
+    .command('verify')
+    .description('Check cache integrity and remove corrupt entries')
+    .action(async () => {
+      await cacheVerifyCommand();
+    });
+
+  command
+    .command('clean')
+    .description('Remove everything from the cache')
+    .action(async () => {
+      await cacheCleanCommand();
+    });
+
+  return command;
+}
+
+async function cacheSummaryCommand(): Promise<void> {
+  try {
+    const entries = await cacheManager.list();
+    const archives = entries.filter(e => e.kind === 'archive');
+    const mirrors = entries.filter(e => e.kind === 'git');
+
+    logger.log(`Cache directory: ${cacheManager.getCacheDir()}`);
+    logger.log(`  Archives:    ${archives.length} (${formatBytes(sumSizes(archives))})`);
+    logger.log(`  Git mirrors: ${mirrors.length} (${formatBytes(sumSizes(mirrors))})`);
+    logger.log(`  Total:       ${formatBytes(await cacheManager.getSize())}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to read cache: ${message}`);
+    process.exit(1);
+  }
+}
+
+async function cacheListCommand(options: { json?: boolean }): Promise<void> {
+  try {
+    const entries = await cacheManager.list();
+
+    if (options.json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+
+    if (entries.length === 0) {
+      logger.info('Cache is empty');
+      return;
+    }
+
+    const archives = entries.filter(e => e.kind === 'archive');
+    const mirrors = entries.filter(e => e.kind === 'git');
+
+    if (archives.length > 0) {
+      logger.log(logger.bold('Archives:'));
+      for (const entry of archives) {
+        logger.log(`  ${entry.key.slice(0, 12)}  ${formatBytes(entry.size).padStart(9)}  ${logger.dim(entry.modifiedAt.toISOString())}`);
+      }
+    }
+
+    if (mirrors.length > 0) {
+      logger.log(logger.bold('Git mirrors:'));
+      for (const entry of mirrors) {
+        logger.log(`  ${entry.url || entry.key}  ${formatBytes(entry.size).padStart(9)}  ${logger.dim(entry.modifiedAt.toISOString())}`);
+      }
+    }
+
+    logger.log(`\n${entries.length} entries, ${formatBytes(sumSizes(entries))} total`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to list cache: ${message}`);
+    process.exit(1);
+  }
+}
+
+async function cacheVerifyCommand(): Promise<void> {
+  try {
+    logger.startSpinner('Verifying cache...');
+    const { valid, removed } = await cacheManager.verify();
+    logger.succeedSpinner(`Verified ${valid.length + removed.length} entries`);
+
+    for (const entry of removed) {
+      logger.warn(`Removed corrupt ${entry.kind === 'git' ? 'git mirror' : 'archive'}: ${entry.url || entry.key}`);
+    }
+
+    logger.log(`  Valid:   ${valid.length} (${formatBytes(sumSizes(valid))})`);
+    logger.log(`  Removed: ${removed.length} (${formatBytes(sumSizes(removed))})`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.failSpinner();
+    logger.error(`Failed to verify cache: ${message}`);
+    process.exit(1);
+  }
+}
+
+async function cacheCleanCommand(): Promise<void> {
+  try {
+    const freed = await cacheManager.clean();
+    logger.success(`Cache cleaned (${formatBytes(freed)} freed)`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to clean cache: ${message}`);
+    process.exit(1);
+  }
+}
+
+function sumSizes(entries: CacheEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.size, 0);
+}
+
+/**
+ * Formats a byte count for display
+ *
+ * @param bytes - Size in bytes
+ * @returns Human-readable size (e.g. "1.5 MB")
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${size} ${units[unit]}` : `${size.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,91 @@
+import { Command } from 'commander';
+import path from 'path';
+import fs from 'fs-extra';
+import { readCraftDeskJson, readCraftDeskLock } from '../utils/file-system';
+import { logger } from '../utils/logger';
+import { buildDependencyGraph, formatDot, formatMermaid } from '../utils/dependency-graph';
+import { checkForUpdates } from './outdated';
+
+interface GraphCommandOptions {
+  format: string;
+  type?: string;
+  outdated?: boolean;
+  output?: string;
+}
+
+const FORMATS = ['dot', 'mermaid', 'json'];
+const CRAFT_TYPES = ['skill', 'agent', 'command', 'hook', 'plugin', 'collection'];
+
+/**
+ * Creates the 'graph' command for exporting the dependency graph
+ *
+ * @returns Commander command instance configured for graph export
+ */
+export function createGraphCommand(): Command {
+  return new Command('graph')
+    .description('Export the dependency graph from craftdesk.lock as DOT, Mermaid or JSON')
+    .option('-f, --format <format>', 'Output format: dot, mermaid, json', 'dot')
+    .option('-t, --type <types>', 'Only include crafts of these types (comma-separated, e.g. skill,agent)')
+    .option('--outdated', 'Highlight crafts with newer versions available (checks the registry and git remotes)')
+    .option('-o, --output <file>', 'Write the graph to a file instead of stdout')
+    .action(async (options: GraphCommandOptions) => {
+      await graphCommand(options);
+    });
+}
+
+async function graphCommand(options: GraphCommandOptions): Promise<void> {
+  try {
+    if (!FORMATS.includes(options.format)) {
+      logger.error(`Invalid format: ${options.format}. Must be one of: ${FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+
+    const types = options.type ? options.type.split(',').map(type => type.trim()).filter(Boolean) : [];
+    const invalid = types.filter(type => !CRAFT_TYPES.includes(type));
+    if (invalid.length > 0) {
+      logger.error(`Invalid type: ${invalid.join(', ')}. Must be: ${CRAFT_TYPES.join(', ')}`);
+      process.exit(1);
+    }
+
+    const craftDeskJson = await readCraftDeskJson();
+    if (!craftDeskJson) {
+      logger.error('No craftdesk.json found in current directory');
+      process.exit(1);
+    }
+
+    const lockfile = await readCraftDeskLock();
+    if (!lockfile) {
+      logger.error('No craftdesk.lock found in current directory');
+      logger.info('Run "craftdesk install" first');
+      process.exit(1);
+    }
+
+    const graph = buildDependencyGraph(craftDeskJson, lockfile, types);
+
+    if (options.outdated) {
+      // Same checks as `craftdesk outdated`
+      const updates = await checkForUpdates(craftDeskJson, lockfile);
+      for (const update of updates.filter(u => u.hasUpdate)) {
+        const node = graph.nodes.find(n => n.id === update.name);
+        if (node) {
+          node.outdated = { wanted: update.wanted, latest: update.latest };
+        }
+      }
+    }
+
+    const rendered = options.format === 'json'
+      ? JSON.stringify(graph, null, 2)
+      : options.format === 'mermaid' ? formatMermaid(graph) : formatDot(graph);
+
+    if (options.output) {
+      await fs.outputFile(path.resolve(options.output), rendered + '\n');
+      logger.success(`Wrote ${graph.nodes.length - 1} craft(s) to ${options.output}`);
+    } else {
+      console.log(rendered);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to export graph: ${message}`);
+    process.exit(1);
+  }
+}
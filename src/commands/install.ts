@@ -4,13 +4,27 @@ import { logger } from '../utils/logger';
 import { registryClient } from '../services/registry-client';
 import { gitResolver } from '../services/git-resolver';
 import { installer } from '../services/installer';
-import { CraftDeskLock } from '../types/craftdesk-lock';
-import { DependencyConfig } from '../types/craftdesk-json';
+import { cacheManager } from '../services/cache-manager';
+import { CraftDeskLock, LockEntry } from '../types/craftdesk-lock';
+import { CraftDeskJson, DependencyConfig } from '../types/craftdesk-json';
+import { parseConcurrency } from '../utils/concurrency';
+import { diffLockfile, findChangedLocalCrafts, findChangedOverrides, findReachableCrafts, isLockfileInSync, formatLockfileDiff, mergeLockfile, LockfileDiff } from '../utils/lockfile-diff';
+import { findPeerDependencyProblems, formatPeerDependencyProblems } from '../utils/peer-dependencies';
+import { findWorkspaces, addWorkspaceDependencies, Workspace } from '../utils/workspaces';
+import { buildDependencyTree } from '../utils/dependency-tree';
+import { findCraftsWithoutIntegrity, isIntegrityRequired } from '../utils/integrity-policy';
+import { toLockSignature } from '../utils/signing';
 
 interface InstallCommandOptions {
   lockfile?: boolean;
-  noLockfile?: boolean;
   production?: boolean;
+  frozenLockfile?: boolean;
+  concurrency?: string;
+  offline?: boolean;
+  preferOffline?: boolean;
+  prune?: boolean;
+  strictPeerDeps?: boolean;
+  requireIntegrity?: boolean;
 }
 
 /**
@@ -23,6 +37,13 @@ export function createInstallCommand(): Command {
     .description('Install all dependencies from craftdesk.json')
     .option('--no-lockfile', 'Ignore craftdesk.lock and re-resolve dependencies')
     .option('--production', 'Skip devDependencies')
+    .option('--frozen-lockfile', 'Fail if craftdesk.lock is missing or out of sync with craftdesk.json (never writes the lockfile)')
+    .option('--offline', 'Install only from the global cache, never contacting a registry or git remote (requires an up-to-date craftdesk.lock)')
+    .option('--prefer-offline', 'Use the global cache and only contact a registry or git remote on a cache miss')
+    .option('--no-prune', 'Keep installed crafts that are no longer in craftdesk.lock')
+    .option('--strict-peer-deps', 'Fail instead of warning when peer dependencies are missing or mismatched')
+    .option('--require-integrity', 'Refuse to lock or install registry crafts without an integrity hash (default: install.requireIntegrity in craftdesk.json)')
+    .option('--concurrency <n>', 'Maximum number of crafts fetched at once (default: install.concurrency in craftdesk.json, or 4)')
     .action(async (options) => {
       await installCommand(options);
     });
@@ -31,23 +52,58 @@ export function createInstallCommand(): Command {
 async function installCommand(options: InstallCommandOptions): Promise<void> {
   try {
     // Read craftdesk.json
-    const craftDeskJson = await readCraftDeskJson();
-    if (!craftDeskJson) {
+    const manifest = await readCraftDeskJson();
+    if (!manifest) {
       logger.error('No craftdesk.json found in current directory');
       logger.info('Run "craftdesk init" to create one');
       process.exit(1);
     }
 
+    // Workspace crafts are installed as linked local dependencies of the root project
+    const workspaces = await findWorkspaces(process.cwd(), manifest.workspaces);
+    const craftDeskJson = addWorkspaceDependencies(manifest, workspaces);
+    if (workspaces.length > 0) {
+      logger.info(`Found ${workspaces.length} workspace(s)`);
+    }
+
+    const concurrency = options.concurrency !== undefined ? parseConcurrency(options.concurrency) : undefined;
+
+    if (options.offline && options.preferOffline) {
+      logger.error('--offline cannot be combined with --prefer-offline');
+      process.exit(1);
+    }
+
+    if (options.offline) {
+      cacheManager.setNetworkMode('offline');
+    } else if (options.preferOffline) {
+      cacheManager.setNetworkMode('prefer-offline');
+    }
+
+    // Offline installs cannot resolve anything, so they are frozen installs from the cache
+    if (options.frozenLockfile || options.offline) {
+      await frozenInstall(craftDeskJson, options, concurrency);
+      await showInstalledSummary();
+      return;
+    }
+
     logger.info('Installing dependencies from craftdesk.json...');
 
     let lockfile: CraftDeskLock | null = null;
 
     // Check for existing lockfile
-    if (!options.noLockfile) {
+    if (options.lockfile !== false) {
       lockfile = await readCraftDeskLock();
     }
 
     if (lockfile) {
+      // Re-resolve only what changed in craftdesk.json since the lockfile was written
+      const diff = await diffDeclared(craftDeskJson, lockfile);
+      const stale = !isLockfileInSync(diff);
+      let remove: Array<{ name: string; type: string }> = [];
+      if (stale) {
+        ({ lockfile, remove } = await refreshLockfile(lockfile, craftDeskJson, workspaces, diff, options));
+      }
+
       // Install from lockfile
       logger.info('Installing from craftdesk.lock...');
 
@@ -60,9 +116,25 @@ async function installCommand(options: InstallCommandOptions): Promise<void> {
         logger.info(`Plugin dependencies: ${directPlugins} direct, ${depPlugins} transitive`);
       }
 
+      checkPeerDependencies(lockfile, craftDeskJson, options);
+      checkIntegrity(lockfile, craftDeskJson, options);
       logger.startSpinner('Installing crafts...');
 
-      await installer.installFromLockfile(lockfile);
+      remove = await addOrphanedCrafts(lockfile, remove, options);
+      const { recorded, approved } = await installer.installFromLockfile(
+        selectInstalled(lockfile, craftDeskJson, options),
+        { concurrency, remove }
+      );
+
+      // Crafts locked before lockfile v2 get their tree hash recorded on this install
+      if (stale) {
+        await writeCraftDeskLock(lockfile);
+        logger.success('Updated craftdesk.lock');
+      } else if (recorded.length > 0 || approved.length > 0) {
+        await writeCraftDeskLock(lockfile);
+        if (recorded.length > 0) logger.success(`Recorded tree hashes of ${recorded.length} craft(s) in craftdesk.lock`);
+        if (approved.length > 0) logger.success(`Recorded approved permissions of ${approved.length} craft(s) in craftdesk.lock`);
+      }
 
       logger.success('Installation complete!');
     } else {
@@ -70,23 +142,25 @@ async function installCommand(options: InstallCommandOptions): Promise<void> {
       logger.info('No lockfile found. Resolving dependencies...');
       logger.startSpinner('Resolving dependencies...');
 
-      const rawDependencies = craftDeskJson.dependencies || {};
+      // Collect all dependencies; devDependencies are locked even with --production
+      const allDependencies: Record<string, string | DependencyConfig> = {
+        ...(craftDeskJson.dependencies || {}),
+        ...(craftDeskJson.devDependencies || {})
+      };
+      const optionalDependencies = collectOptional(craftDeskJson);
 
-      if (Object.keys(rawDependencies).length === 0) {
+      if (Object.keys(allDependencies).length === 0 && Object.keys(optionalDependencies).length === 0) {
         logger.stopSpinner();
         logger.info('No dependencies to install');
         return;
       }
 
-      // Collect all dependencies (including devDependencies if not --production)
-      const allDependencies: Record<string, string | DependencyConfig> = { ...rawDependencies };
-
-      if (!options.production && craftDeskJson.devDependencies) {
-        Object.assign(allDependencies, craftDeskJson.devDependencies);
-      }
-
       // Use git resolver which handles both git AND registry dependencies
-      const resolution = await gitResolver.resolveAllDependencies(allDependencies);
+      const resolution = await gitResolver.resolveAllDependencies(allDependencies, {
+        optionalDependencies,
+        overrides: craftDeskJson.overrides,
+        workspaces
+      });
 
       if (!resolution) {
         logger.failSpinner('Failed to resolve dependencies');
@@ -95,43 +169,21 @@ async function installCommand(options: InstallCommandOptions): Promise<void> {
 
       logger.succeedSpinner('Dependencies resolved');
 
-      // For registry dependencies that need resolution, fetch their info
-      logger.startSpinner('Fetching registry crafts...');
-
-      for (const [name, entry] of Object.entries(resolution.resolved)) {
-        // Check if this is a registry dependency that needs resolution
-        if (entry.resolved === 'registry' && entry.integrity === 'pending') {
-          const craftInfo = await registryClient.getCraftInfo(name, entry.version, entry.registry);
-          if (craftInfo) {
-            // Require download_url from registry - no defaults for security
-            if (!craftInfo.download_url) {
-              logger.failSpinner();
-              logger.error(`Registry did not provide download URL for ${name}@${craftInfo.version}`);
-              process.exit(1);
-            }
-
-            resolution.resolved[name] = {
-              version: craftInfo.version,
-              resolved: craftInfo.download_url,
-              integrity: craftInfo.integrity || 'sha256-pending',
-              type: craftInfo.type,
-              author: craftInfo.author,
-              dependencies: craftInfo.dependencies || {}
-            };
-          } else {
-            logger.failSpinner(`Failed to resolve craft: ${name}`);
-            process.exit(1);
-          }
-        }
-      }
+      await fetchRegistryEntries(resolution.resolved, isIntegrityRequired(craftDeskJson, options.requireIntegrity));
 
-      logger.succeedSpinner('Registry crafts fetched');
+      // Rebuild the tree now that registry crafts have their versions
+      const newLockfile: CraftDeskLock = {
+        ...resolution.lockfile,
+        tree: buildDependencyTree([...Object.keys(allDependencies), ...Object.keys(optionalDependencies)], resolution.lockfile)
+      };
+      checkPeerDependencies(newLockfile, craftDeskJson, options);
+      checkIntegrity(newLockfile, craftDeskJson, options);
 
       // Install resolved crafts
       logger.startSpinner('Installing crafts...');
 
-      const newLockfile = resolution.lockfile;
-      await installer.installFromLockfile(newLockfile);
+      const remove = await addOrphanedCrafts(newLockfile, [], options);
+      await installer.installFromLockfile(selectInstalled(newLockfile, craftDeskJson, options), { concurrency, remove });
 
       // Save lockfile
       await writeCraftDeskLock(newLockfile);
@@ -140,18 +192,368 @@ async function installCommand(options: InstallCommandOptions): Promise<void> {
       logger.success('Installation complete!');
     }
 
-    // Show summary
-    const installedCrafts = await installer.listInstalled();
-    if (installedCrafts.length > 0) {
-      logger.log('\nInstalled crafts:');
-      for (const craft of installedCrafts) {
-        logger.log(`  • ${craft.name}@${craft.version} (${craft.type})`);
-      }
-    }
+    await showInstalledSummary();
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     logger.failSpinner();
     logger.error(`Installation failed: ${message}`);
     process.exit(1);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Installs strictly from craftdesk.lock, failing if it is missing or disagrees
+ * with craftdesk.json. Used for --frozen-lockfile (CI) and --offline, so the
+ * lockfile is never written. Offline installs also fail up front, listing
+ * every craft that is not in the global cache.
+ *
+ * @param craftDeskJson - Project manifest
+ * @param options - Install command options
+ * @param concurrency - Maximum number of crafts fetched at once
+ */
+async function frozenInstall(
+  craftDeskJson: CraftDeskJson,
+  options: InstallCommandOptions,
+  concurrency: number | undefined
+): Promise<void> {
+  const flag = options.frozenLockfile ? '--frozen-lockfile' : '--offline';
+
+  if (options.lockfile === false) {
+    logger.error(`${flag} cannot be combined with --no-lockfile`);
+    process.exit(1);
+  }
+
+  const lockfile = await readCraftDeskLock();
+  if (!lockfile) {
+    logger.error(`craftdesk.lock is required with ${flag}`);
+    logger.info('Run "craftdesk install" locally and commit craftdesk.lock');
+    process.exit(1);
+  }
+
+  const diff = await diffDeclared(craftDeskJson, lockfile);
+
+  // Optional dependencies that failed to resolve when the lockfile was written are skipped
+  const optional = collectOptional(craftDeskJson);
+  const skipped = diff.missing.filter(({ name }) => name in optional);
+  diff.missing = diff.missing.filter(({ name }) => !(name in optional));
+  if (skipped.length > 0) {
+    logger.warn(`Skipping optional dependencies not in craftdesk.lock: ${skipped.map(({ name }) => name).join(', ')}`);
+  }
+
+  if (!isLockfileInSync(diff)) {
+    logger.error('craftdesk.lock is out of sync with craftdesk.json:');
+    for (const line of formatLockfileDiff(diff)) {
+      logger.log(line);
+    }
+    logger.info(`Run "craftdesk install" without ${flag} to update craftdesk.lock`);
+    process.exit(1);
+  }
+
+  if (options.offline) {
+    // Optional crafts that are not cached are skipped by the install
+    const uncached = (await installer.findUncachedCrafts(lockfile)).filter(({ entry }) => !entry.optional);
+    if (uncached.length > 0) {
+      logger.error(`${uncached.length} craft(s) are not in the cache:`);
+      for (const { name, entry, reason } of uncached) {
+        logger.log(`  - ${name}@${entry.version}: ${reason}`);
+      }
+      logger.info('Run "craftdesk install --prefer-offline" while online to populate the cache');
+      process.exit(1);
+    }
+  }
+
+  checkPeerDependencies(lockfile, craftDeskJson, options);
+  checkIntegrity(lockfile, craftDeskJson, options);
+
+  logger.info(`Installing from craftdesk.lock (${options.offline ? 'offline' : 'frozen'})...`);
+  logger.startSpinner('Installing crafts...');
+
+  const remove = await addOrphanedCrafts(lockfile, [], options);
+  const { recorded: unverified, approved } = await installer.installFromLockfile(
+    selectInstalled(lockfile, craftDeskJson, options),
+    { concurrency, remove }
+  );
+
+  if (unverified.length > 0) {
+    logger.warn(`${unverified.length} craft(s) have no tree hash in craftdesk.lock and were not verified: ${unverified.join(', ')}`);
+    logger.info(`Run "craftdesk install" without ${flag} to record them`);
+  }
+  if (approved.length > 0) {
+    logger.warn(`Permissions approved for ${approved.join(', ')} were not recorded in craftdesk.lock`);
+    logger.info(`Run "craftdesk install" without ${flag} to record them`);
+  }
+
+  logger.success('Installation complete!');
+}
+
+/**
+ * Brings a stale lockfile in line with craftdesk.json
+ *
+ * Added and changed dependencies are resolved (including their transitive
+ * dependencies); everything else keeps its locked entry. Crafts that are no
+ * longer reachable are pruned from the lockfile; they are removed from disk
+ * by the install that follows.
+ * Optional dependencies that fail to resolve are left out of the lockfile.
+ *
+ * @param lockfile - Current lockfile
+ * @param craftDeskJson - Project manifest
+ * @param workspaces - The project's workspace crafts
+ * @param diff - Differences between craftdesk.json and the lockfile
+ * @param options - Install command options
+ * @returns The updated lockfile (not yet written) and the pruned crafts to remove
+ */
+async function refreshLockfile(
+  lockfile: CraftDeskLock,
+  craftDeskJson: CraftDeskJson,
+  workspaces: Workspace[],
+  diff: LockfileDiff,
+  options: InstallCommandOptions
+): Promise<{ lockfile: CraftDeskLock; remove: Array<{ name: string; type: string }> }> {
+  logger.warn('craftdesk.lock is out of sync with craftdesk.json:');
+  for (const line of formatLockfileDiff(diff)) {
+    logger.log(line);
+  }
+
+  const optional = collectOptional(craftDeskJson);
+  const toResolve: Record<string, string | DependencyConfig> = {};
+  const toResolveOptional: Record<string, string | DependencyConfig> = {};
+  for (const { name, declared } of [...diff.missing, ...diff.changed]) {
+    if (name in optional) {
+      toResolveOptional[name] = declared;
+    } else {
+      toResolve[name] = declared;
+    }
+  }
+
+  let resolved: Record<string, LockEntry> = {};
+  const count = Object.keys(toResolve).length + Object.keys(toResolveOptional).length;
+  if (count > 0) {
+    logger.startSpinner(`Resolving ${count} changed dependencies...`);
+    const resolution = await gitResolver.resolveAllDependencies(toResolve, {
+      optionalDependencies: toResolveOptional,
+      overrides: craftDeskJson.overrides,
+      workspaces
+    });
+    logger.succeedSpinner('Dependencies resolved');
+
+    await fetchRegistryEntries(resolution.resolved, isIntegrityRequired(craftDeskJson, options.requireIntegrity));
+    resolved = resolution.resolved;
+  }
+
+  const { lockfile: merged, pruned } = mergeLockfile(lockfile, collectDeclared(craftDeskJson), resolved);
+  if (Object.keys(craftDeskJson.overrides || {}).length > 0) {
+    merged.overrides = craftDeskJson.overrides;
+  } else {
+    delete merged.overrides;
+  }
+
+  return {
+    lockfile: merged,
+    remove: pruned.map(({ name, locked }) => ({ name, type: locked.type }))
+  };
+}
+
+/**
+ * Compares craftdesk.json against the lockfile, including changed overrides and
+ * changes to local crafts on disk
+ *
+ * @param craftDeskJson - Project manifest
+ * @param lockfile - Lockfile to compare against
+ * @returns The missing, extra and changed dependencies
+ */
+async function diffDeclared(craftDeskJson: CraftDeskJson, lockfile: CraftDeskLock): Promise<LockfileDiff> {
+  const declared = collectDeclared(craftDeskJson);
+  const diff = diffLockfile(declared, lockfile);
+  diff.changed.push(...findChangedOverrides(declared, craftDeskJson.overrides || {}, lockfile, diff));
+  diff.changed.push(...await findChangedLocalCrafts(declared, lockfile, diff));
+  return diff;
+}
+
+/**
+ * Adds installed crafts that are not in the lockfile to the crafts an install removes
+ *
+ * @param lockfile - Lockfile being installed
+ * @param remove - Crafts already scheduled for removal
+ * @param options - Install command options (--no-prune keeps orphaned crafts)
+ * @returns Crafts to remove, without duplicates
+ */
+async function addOrphanedCrafts(
+  lockfile: CraftDeskLock,
+  remove: Array<{ name: string; type: string }>,
+  options: InstallCommandOptions
+): Promise<Array<{ name: string; type: string }>> {
+  if (options.prune === false) {
+    return remove;
+  }
+
+  const scheduled = new Set(remove.map(({ name, type }) => `${type}:${name}`));
+  const orphaned = (await installer.findOrphanedCrafts(lockfile))
+    .filter(({ name, type }) => !scheduled.has(`${type}:${name}`));
+
+  return [...remove, ...orphaned];
+}
+
+/**
+ * Replaces registry placeholder entries produced by the git resolver with
+ * the download details reported by the registry
+ *
+ * @param resolved - Resolved entries, updated in place
+ * @param requireIntegrity - Fail for crafts the registry reports no integrity for, instead of hashing their archive
+ */
+async function fetchRegistryEntries(resolved: Record<string, LockEntry>, requireIntegrity: boolean): Promise<void> {
+  logger.startSpinner('Fetching registry crafts...');
+
+  for (const [name, entry] of Object.entries(resolved)) {
+    // Registry placeholders are marked by their pending integrity; their `resolved` is
+    // 'registry' or, for dependencies declaring a registry, that registry
+    if (entry.integrity === 'pending') {
+      const craftInfo = await registryClient.getCraftInfo(name, entry.version, entry.registry);
+
+      // Optional crafts the registry cannot provide are left out of the lockfile
+      if (entry.optional && !craftInfo?.download_url) {
+        logger.warn(`Skipping optional dependency ${name}: ${craftInfo ? 'registry did not provide a download URL' : 'not found in registry'}`);
+        delete resolved[name];
+        continue;
+      }
+
+      if (craftInfo) {
+        // Require download_url from registry - no defaults for security
+        if (!craftInfo.download_url) {
+          logger.failSpinner();
+          logger.error(`Registry did not provide download URL for ${name}@${craftInfo.version}`);
+          process.exit(1);
+        }
+
+        resolved[name] = {
+          version: craftInfo.version,
+          resolved: craftInfo.download_url,
+          integrity: await registryClient.resolveIntegrity(craftInfo, { require: requireIntegrity }),
+          type: craftInfo.type,
+          author: craftInfo.author,
+          ...(entry.registry && { registry: entry.registry }),
+          dependencies: craftInfo.dependencies || {},
+          ...(craftInfo.peerDependencies && { peerDependencies: craftInfo.peerDependencies }),
+          ...toLockSignature(craftInfo),
+          ...(entry.optional && { optional: true }),
+          ...(entry.override && { override: entry.override }),
+          ...(entry.memberOf && { memberOf: entry.memberOf })
+        };
+      } else {
+        logger.failSpinner(`Failed to resolve craft: ${name}`);
+        process.exit(1);
+      }
+    }
+  }
+
+  logger.succeedSpinner('Registry crafts fetched');
+}
+
+/**
+ * Leaves out the crafts only devDependencies need when installing with --production
+ *
+ * The lockfile keeps them, so it stays complete for installs without --production.
+ *
+ * @param lockfile - Lockfile to install
+ * @param craftDeskJson - Project manifest
+ * @param options - Install command options
+ * @returns The lockfile with only the crafts to install
+ */
+function selectInstalled(lockfile: CraftDeskLock, craftDeskJson: CraftDeskJson, options: InstallCommandOptions): CraftDeskLock {
+  if (!options.production || Object.keys(craftDeskJson.devDependencies || {}).length === 0) {
+    return lockfile;
+  }
+
+  const needed = findReachableCrafts(lockfile, [
+    ...Object.keys(collectOptional(craftDeskJson)),
+    ...Object.keys(craftDeskJson.dependencies || {})
+  ]);
+  return {
+    ...lockfile,
+    crafts: Object.fromEntries(Object.entries(lockfile.crafts).filter(([name]) => needed.has(name)))
+  };
+}
+
+/**
+ * Collects every declared dependency. The lockfile always covers
+ * devDependencies, even when installing with --production.
+ *
+ * @param craftDeskJson - Project manifest
+ * @returns Dependencies, devDependencies and optionalDependencies merged
+ */
+function collectDeclared(craftDeskJson: CraftDeskJson): Record<string, string | DependencyConfig> {
+  return {
+    ...collectOptional(craftDeskJson),
+    ...(craftDeskJson.dependencies || {}),
+    ...(craftDeskJson.devDependencies || {})
+  };
+}
+
+/**
+ * Collects the optional dependencies that are not also declared as required
+ *
+ * @param craftDeskJson - Project manifest
+ * @returns Optional dependencies
+ */
+function collectOptional(craftDeskJson: CraftDeskJson): Record<string, string | DependencyConfig> {
+  return Object.fromEntries(
+    Object.entries(craftDeskJson.optionalDependencies || {})
+      .filter(([name]) => !craftDeskJson.dependencies?.[name] && !craftDeskJson.devDependencies?.[name])
+  );
+}
+
+/**
+ * Reports peer dependencies of locked crafts that the project does not satisfy
+ *
+ * @param lockfile - Lockfile about to be installed
+ * @param craftDeskJson - Project manifest
+ * @param options - Install command options (--strict-peer-deps fails the install)
+ */
+function checkPeerDependencies(lockfile: CraftDeskLock, craftDeskJson: CraftDeskJson, options: InstallCommandOptions): void {
+  const problems = findPeerDependencyProblems(lockfile, Object.keys(collectDeclared(craftDeskJson)));
+  if (problems.length === 0) return;
+
+  logger.stopSpinner();
+  const report = options.strictPeerDeps ? logger.error.bind(logger) : logger.warn.bind(logger);
+  report(`${problems.length} peer dependency problem(s):`);
+  for (const line of formatPeerDependencyProblems(problems)) {
+    logger.log(line);
+  }
+
+  if (options.strictPeerDeps) {
+    logger.info('Add the missing peers to craftdesk.json or align their versions');
+    process.exit(1);
+  }
+}
+
+/**
+ * Fails the install if integrity is required and registry crafts in the
+ * lockfile have none
+ *
+ * @param lockfile - Lockfile about to be installed
+ * @param craftDeskJson - Project manifest (`install.requireIntegrity`)
+ * @param options - Install command options (--require-integrity)
+ */
+function checkIntegrity(lockfile: CraftDeskLock, craftDeskJson: CraftDeskJson, options: InstallCommandOptions): void {
+  if (!isIntegrityRequired(craftDeskJson, options.requireIntegrity)) return;
+
+  const missing = findCraftsWithoutIntegrity(lockfile);
+  if (missing.length === 0) return;
+
+  logger.stopSpinner();
+  logger.error(`${missing.length} registry craft(s) have no integrity hash in craftdesk.lock: ${missing.join(', ')}`);
+  logger.info('Run "craftdesk install --no-lockfile" to re-resolve them once the registry provides integrity hashes');
+  process.exit(1);
+}
+
+/**
+ * Prints the crafts currently installed in the project
+ */
+async function showInstalledSummary(): Promise<void> {
+  const installedCrafts = await installer.listInstalled();
+  if (installedCrafts.length > 0) {
+    logger.log('\nInstalled crafts:');
+    for (const craft of installedCrafts) {
+      logger.log(`  • ${craft.name}@${craft.version} (${craft.type})`);
+    }
+  }
+}
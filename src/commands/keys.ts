@@ -0,0 +1,66 @@
+import { Command } from 'commander';
+import { logger } from '../utils/logger';
+import { keyManager } from '../services/key-manager';
+
+/**
+ * Creates the 'keys' command for managing the keys crafts are signed with
+ *
+ * @returns Commander command instance with a generate subcommand
+ */
+export function createKeysCommand(): Command {
+  const command = new Command('keys')
+    .description('List the signing keys used by publish')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      await keysListCommand(options);
+    });
+
+  command
+    .command('generate')
+    .description('Generate an ed25519 signing key')
+    .argument('[name]', 'Key name', 'default')
+    .option('--force', 'Replace an existing key with the same name')
+    .action(async (name: string, options) => {
+      await keysGenerateCommand(name, options);
+    });
+
+  return command;
+}
+
+async function keysListCommand(options: { json?: boolean }): Promise<void> {
+  try {
+    const keys = await keyManager.list();
+
+    if (options.json) {
+      console.log(JSON.stringify(keys, null, 2));
+      return;
+    }
+
+    if (keys.length === 0) {
+      logger.info(`No signing keys in ${keyManager.getKeysDir()}`);
+      logger.info('Run "craftdesk keys generate" to create one');
+      return;
+    }
+
+    for (const key of keys) {
+      logger.log(`  ${key.name.padEnd(16)} ${key.fingerprint}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to list signing keys: ${message}`);
+    process.exit(1);
+  }
+}
+
+async function keysGenerateCommand(name: string, options: { force?: boolean }): Promise<void> {
+  try {
+    const key = await keyManager.generate(name, options);
+    logger.success(`Generated signing key "${key.name}"`);
+    logger.log(`  Fingerprint: ${key.fingerprint}`);
+    logger.info('Projects can trust crafts you publish by adding the fingerprint to "trustedSigners" in their craftdesk.json');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to generate signing key: ${message}`);
+    process.exit(1);
+  }
+}
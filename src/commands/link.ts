@@ -0,0 +1,125 @@
+import { Command } from 'commander';
+import path from 'path';
+import fs from 'fs-extra';
+import { readCraftDeskJson, readCraftDeskLock, writeCraftDeskLock } from '../utils/file-system';
+import { logger } from '../utils/logger';
+import { installer } from '../services/installer';
+import { linkManager } from '../services/link-manager';
+import { gitResolver } from '../services/git-resolver';
+import { CraftDeskLock } from '../types/craftdesk-lock';
+import { LOCKFILE_VERSION } from '../utils/lockfile-migration';
+
+interface LinkCommandOptions {
+  list?: boolean;
+}
+
+/**
+ * Creates the 'link' command for developing a craft against a consuming project
+ *
+ * @returns Commander command instance configured for linking
+ */
+export function createLinkCommand(): Command {
+  return new Command('link')
+    .description('Register the current craft for linking, or link a registered craft into this project')
+    .argument('[name]', 'Registered craft to link into this project')
+    .option('--list', 'List registered crafts')
+    .action(async (name: string | undefined, options: LinkCommandOptions) => {
+      await linkCommand(name, options);
+    });
+}
+
+async function linkCommand(name: string | undefined, options: LinkCommandOptions): Promise<void> {
+  try {
+    if (options.list) {
+      await listLinks();
+    } else if (name) {
+      await linkIntoProject(name);
+    } else {
+      await registerCurrentCraft();
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to link: ${message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Registers the craft in the current directory under its name
+ */
+async function registerCurrentCraft(): Promise<void> {
+  const craftDeskJson = await readCraftDeskJson();
+  if (!craftDeskJson?.name) {
+    logger.error('No craftdesk.json with a name found in current directory');
+    process.exit(1);
+  }
+
+  await linkManager.register(craftDeskJson.name, process.cwd());
+  logger.success(`Registered ${craftDeskJson.name} -> ${process.cwd()}`);
+  logger.info(`Run "craftdesk link ${craftDeskJson.name}" in a project to use it`);
+}
+
+/**
+ * Symlinks a registered craft into the project and marks it as linked in craftdesk.lock
+ *
+ * @param name - Registered craft name
+ */
+async function linkIntoProject(name: string): Promise<void> {
+  if (!await readCraftDeskJson()) {
+    logger.error('No craftdesk.json found in current directory');
+    process.exit(1);
+  }
+
+  const target = await linkManager.resolve(name);
+  if (!target) {
+    logger.error(`${name} is not registered`);
+    logger.info(`Run "craftdesk link" in the craft's directory first`);
+    process.exit(1);
+  }
+
+  const craftJson = await gitResolver.resolveLocalDependency(target);
+  const type = craftJson.type || 'skill';
+
+  const lockfile: CraftDeskLock = await readCraftDeskLock() || {
+    version: '1.0.0',
+    lockfileVersion: LOCKFILE_VERSION,
+    generatedAt: new Date().toISOString(),
+    crafts: {}
+  };
+  const locked = lockfile.crafts[name];
+
+  // The installed copy may live in another type directory than the linked craft
+  if (locked && !locked.linked && locked.type !== type) {
+    await fs.remove(path.join(process.cwd(), installer.getInstallPath(), installer.getTypeDirectory(locked.type), name));
+  }
+  await installer.unlinkCraft(name);
+  await installer.linkCraft(name, type, target);
+
+  // Keep the locked entry so that unlink can restore it
+  lockfile.crafts[name] = locked
+    ? { ...locked, linked: target }
+    : { version: craftJson.version || '0.0.0', resolved: `link:${target}`, integrity: '', type, linked: target };
+  await writeCraftDeskLock(lockfile);
+
+  logger.success(`Linked ${name} -> ${target}`);
+  if (locked) {
+    logger.info(`Run "craftdesk unlink ${name}" to restore ${name}@${locked.version}`);
+  }
+}
+
+/**
+ * Prints every registered craft and where it points
+ */
+async function listLinks(): Promise<void> {
+  const links = await linkManager.list();
+
+  if (links.length === 0) {
+    logger.info('No crafts registered. Run "craftdesk link" in a craft directory to register it');
+    return;
+  }
+
+  for (const { name, target } of links) {
+    const missing = await fs.pathExists(target) ? '' : logger.dim(' (missing)');
+    logger.log(`  ${name} -> ${target}${missing}`);
+  }
+}
@@ -2,7 +2,10 @@ import { Command } from 'commander';
 import { readCraftDeskJson, readCraftDeskLock } from '../utils/file-system';
 import { logger } from '../utils/logger';
 import { installer } from '../services/installer';
-import { CraftDeskLock } from '../types/craftdesk-lock';
+import { CraftDeskLock, DependencyTree, LockEntry } from '../types/craftdesk-lock';
+import { CraftDeskJson } from '../types/craftdesk-json';
+import { describeDeclaration } from '../utils/lockfile-diff';
+import { buildDependencyTree, getDeclaredNames, parseTreeKey, SHARED_TREE_NODE } from '../utils/dependency-tree';
 
 interface ListCommandOptions {
   tree?: boolean;
@@ -64,7 +67,8 @@ async function listCommand(options: ListCommandOptions): Promise<void> {
         logger.warn('No craftdesk.lock found. Cannot show dependency tree.');
         logger.info('Run "craftdesk install" to generate lockfile');
       } else {
-        displayDependencyTree(lockfile, options.depth);
+        displayDependencyTree(lockfile, craftDeskJson, options.depth);
+        displayOverrides(lockfile);
       }
     } else {
       // Group crafts by type
@@ -170,34 +174,51 @@ function _getTypeIcon(type: string): string {
   }
 }
 
-interface DependencyTreeNode {
-  dependencies?: Record<string, DependencyTreeNode | string>;
-}
-
-function displayDependencyTree(lockfile: CraftDeskLock, maxDepth?: number): void {
+/**
+ * Prints the lockfile's dependency tree
+ *
+ * Lockfiles written before the tree was recorded get one built from their
+ * entries' dependencies.
+ *
+ * @param lockfile - Project lockfile
+ * @param craftDeskJson - Project manifest (the tree's top level when the lockfile has no tree)
+ * @param maxDepth - Deepest level to print (0 prints only the top level)
+ */
+function displayDependencyTree(lockfile: CraftDeskLock, craftDeskJson: CraftDeskJson, maxDepth?: number): void {
   logger.log('\nDependency tree:');
 
-  if (!lockfile.tree) {
-    logger.warn('No dependency tree information in lockfile');
+  const tree = lockfile.tree || buildDependencyTree(getDeclaredNames(craftDeskJson), lockfile);
+  const keys = Object.keys(tree);
+
+  if (keys.length === 0) {
+    logger.info('No dependencies in craftdesk.lock');
     return;
   }
 
-  const tree = lockfile.tree;
-  const depth = 0;
-  const prefix = '';
-
-  for (const [key, value] of Object.entries(tree)) {
-    displayTreeNode(key, value, depth, maxDepth || Infinity, prefix, Object.keys(tree).indexOf(key) === Object.keys(tree).length - 1);
-  }
+  keys.forEach((key, index) => {
+    displayTreeNode(key, tree[key], 0, maxDepth ?? Infinity, '', index === keys.length - 1, lockfile.crafts);
+  });
 }
 
-function displayTreeNode(key: string, node: DependencyTreeNode | string, depth: number, maxDepth: number, prefix: string, isLast: boolean): void {
+function displayTreeNode(
+  key: string,
+  node: DependencyTree[string],
+  depth: number,
+  maxDepth: number,
+  prefix: string,
+  isLast: boolean,
+  crafts: Record<string, LockEntry>
+): void {
   if (depth > maxDepth) return;
 
   const connector = isLast ? '└── ' : '├── ';
-  const [name, version] = key.split('@');
+  const { name, version } = parseTreeKey(key);
+  const entry = crafts[name];
+  const source = entry ? ` (${describeSource(entry)})` : '';
+  const override = entry?.override ? ` [override "${entry.override}"]` : '';
+  const shared = node === SHARED_TREE_NODE ? ' (shared)' : '';
 
-  logger.log(`${prefix}${connector}${name}@${version}`);
+  logger.log(`${prefix}${connector}${name}@${version}${source}${override}${shared}`);
 
   if (typeof node === 'object' && node.dependencies && depth < maxDepth) {
     const newPrefix = prefix + (isLast ? '    ' : '│   ');
@@ -205,10 +226,45 @@ function displayTreeNode(key: string, node: DependencyTreeNode | string, depth:
 
     deps.forEach(([depKey, depValue], index) => {
       const isLastDep = index === deps.length - 1;
-      displayTreeNode(depKey, depValue, depth + 1, maxDepth, newPrefix, isLastDep);
+      displayTreeNode(depKey, depValue, depth + 1, maxDepth, newPrefix, isLastDep, crafts);
     });
-  } else if (typeof node === 'string' && node === '(shared)') {
-    // Shared dependency indicator
-    logger.log(' (shared)');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Describes where a locked craft comes from
+ *
+ * @param entry - Lock entry
+ * @returns `registry`, `git <url>#<ref>` or `local <path>`
+ */
+function describeSource(entry: LockEntry): string {
+  if (entry.linked) {
+    return `linked ${entry.linked}`;
+  }
+  if (entry.local) {
+    return `${entry.link ? 'link' : 'local'} ${entry.local}`;
+  }
+  if (entry.git) {
+    const ref = entry.tag || entry.branch || entry.commit?.slice(0, 7);
+    return `git ${entry.git}${ref ? `#${ref}` : ''}${entry.path ? ` ${entry.path}` : ''}`;
+  }
+  return entry.registry ? `registry ${entry.registry}` : 'registry';
+}
+
+/**
+ * Prints the overrides the lockfile was resolved with and the crafts each one applied to
+ *
+ * @param lockfile - Project lockfile
+ */
+function displayOverrides(lockfile: CraftDeskLock): void {
+  const overrides = Object.entries(lockfile.overrides || {});
+  if (overrides.length === 0) return;
+
+  logger.log('\nOverrides:');
+  for (const [key, dep] of overrides) {
+    const applied = Object.entries(lockfile.crafts)
+      .filter(([, entry]) => entry.override === key)
+      .map(([name, entry]) => `${name}@${entry.version}`);
+    logger.log(`  ${key} → ${describeDeclaration(dep)} ${applied.length > 0 ? `(${applied.join(', ')})` : '(unused)'}`);
+  }
+}
@@ -3,16 +3,22 @@ import { execFileSync } from 'child_process';
 import { readCraftDeskJson, readCraftDeskLock } from '../utils/file-system';
 import { logger } from '../utils/logger';
 import { registryClient } from '../services/registry-client';
-import { LockEntry } from '../types/craftdesk-lock';
+import { CraftDeskLock, LockEntry } from '../types/craftdesk-lock';
+import { CraftDeskJson } from '../types/craftdesk-json';
 import {
   isNewerVersion,
   sortTagsBySemver,
   getUpdateType,
+  findVersionConstraint,
   padRight,
   colorize
 } from '../utils/version-utils';
+import { maxSatisfying, maxVersion } from '../utils/semver';
 
-interface OutdatedInfo {
+/**
+ * Update status of an installed craft
+ */
+export interface OutdatedInfo {
   name: string;
   current: string;
   wanted: string;
@@ -65,36 +71,7 @@ async function outdatedCommand(options: OutdatedCommandOptions): Promise<void> {
       logger.info('Checking for updates...\n');
     }
 
-    const outdatedList: OutdatedInfo[] = [];
-    const crafts = lockfile.crafts;
-
-    // Check each installed craft
-    for (const [name, entry] of Object.entries(crafts)) {
-      const lockEntry = entry as LockEntry;
-
-      // Skip based on options
-      if (options.gitOnly && !lockEntry.git) continue;
-      if (options.registryOnly && lockEntry.git) continue;
-
-      try {
-        let outdatedInfo: OutdatedInfo | null = null;
-
-        if (lockEntry.git) {
-          // Git-based dependency
-          outdatedInfo = await checkGitUpdate(name, lockEntry);
-        } else {
-          // Registry-based dependency
-          outdatedInfo = await checkRegistryUpdate(name, lockEntry);
-        }
-
-        if (outdatedInfo) {
-          outdatedList.push(outdatedInfo);
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        logger.debug(`Failed to check ${name}: ${message}`);
-      }
-    }
+    const outdatedList = await checkForUpdates(craftDeskJson, lockfile, options);
 
     // Output results
     if (options.json) {
@@ -140,8 +117,8 @@ async function outdatedCommand(options: OutdatedCommandOptions): Promise<void> {
 
     console.log('');
     logger.info(`${withUpdates.length} craft(s) have updates available.`);
-    logger.info('Run "craftdesk install" to update to wanted versions.');
-    logger.info('Run "craftdesk add <craft>@latest" to update to latest version.');
+    logger.info('Run "craftdesk update" to update to wanted versions.');
+    logger.info('Run "craftdesk update --latest" to update to latest versions.');
 
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -150,10 +127,62 @@ async function outdatedCommand(options: OutdatedCommandOptions): Promise<void> {
   }
 }
 
-async function checkRegistryUpdate(name: string, entry: LockEntry): Promise<OutdatedInfo | null> {
+/**
+ * Checks every locked registry and git craft for newer versions
+ *
+ * Local crafts are skipped: they are always installed from their current contents.
+ *
+ * @param craftDeskJson - Project manifest (for the declared version ranges)
+ * @param lockfile - Project lockfile
+ * @param options - Which sources to check
+ * @param options.gitOnly - Only check git crafts
+ * @param options.registryOnly - Only check registry crafts
+ * @returns Update status of each craft that could be checked
+ */
+export async function checkForUpdates(
+  craftDeskJson: CraftDeskJson,
+  lockfile: CraftDeskLock,
+  options: { gitOnly?: boolean; registryOnly?: boolean } = {}
+): Promise<OutdatedInfo[]> {
+  const outdatedList: OutdatedInfo[] = [];
+
+  // Check each installed craft
+  for (const [name, lockEntry] of Object.entries(lockfile.crafts)) {
+    // Local crafts are always installed from their current contents
+    if (lockEntry.local) continue;
+
+    // Skip based on options
+    if (options.gitOnly && !lockEntry.git) continue;
+    if (options.registryOnly && lockEntry.git) continue;
+
+    try {
+      let outdatedInfo: OutdatedInfo | null = null;
+
+      if (lockEntry.git) {
+        // Git-based dependency
+        outdatedInfo = await checkGitUpdate(name, lockEntry);
+      } else {
+        // Registry-based dependency
+        const constraint = findVersionConstraint(name, craftDeskJson, lockfile);
+        outdatedInfo = await checkRegistryUpdate(name, lockEntry, constraint);
+      }
+
+      if (outdatedInfo) {
+        outdatedList.push(outdatedInfo);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.debug(`Failed to check ${name}: ${message}`);
+    }
+  }
+
+  return outdatedList;
+}
+
+async function checkRegistryUpdate(name: string, entry: LockEntry, constraint: string): Promise<OutdatedInfo | null> {
   try {
     // Get craft info from registry
-    const craftInfo = await registryClient.getCraftInfo(name);
+    const craftInfo = await registryClient.getCraftInfo(name, undefined, entry.registry);
 
     if (!craftInfo) {
       logger.debug(`Could not fetch registry info for ${name}`);
@@ -168,16 +197,22 @@ async function checkRegistryUpdate(name: string, entry: LockEntry): Promise<Outd
       };
     }
 
-    const latestVersion = craftInfo.version || 'unknown';
+    const versions = await registryClient.listVersions(name, entry.registry);
+    const latestVersion = maxVersion(versions) || craftInfo.version || 'unknown';
     const currentVersion = entry.version;
 
+    // Wanted is the highest published version allowed by the declared range
+    const wantedVersion = versions.length > 0
+      ? (maxSatisfying(versions, constraint) || currentVersion)
+      : latestVersion;
+
     // Compare versions
     const hasUpdate = latestVersion !== 'unknown' && latestVersion !== currentVersion;
 
     return {
       name,
       current: currentVersion,
-      wanted: latestVersion,  // For now, wanted = latest (semver resolution would be more complex)
+      wanted: wantedVersion,
       latest: latestVersion,
       type: entry.type,
       source: 'registry',
@@ -0,0 +1,66 @@
+import { Command } from 'commander';
+import { readCraftDeskLock } from '../utils/file-system';
+import { logger } from '../utils/logger';
+import { installer } from '../services/installer';
+import { gitIgnoreManager } from '../services/gitignore-manager';
+
+interface PruneCommandOptions {
+  dryRun?: boolean;
+}
+
+/**
+ * Creates the 'prune' command for removing installed crafts that are no longer in craftdesk.lock
+ *
+ * @returns Commander command instance configured for pruning
+ */
+export function createPruneCommand(): Command {
+  return new Command('prune')
+    .description('Remove installed crafts that are no longer in craftdesk.lock')
+    .option('--dry-run', 'List the crafts that would be removed without removing them')
+    .action(async (options: PruneCommandOptions) => {
+      await pruneCommand(options);
+    });
+}
+
+async function pruneCommand(options: PruneCommandOptions): Promise<void> {
+  try {
+    const lockfile = await readCraftDeskLock();
+    if (!lockfile) {
+      logger.error('No craftdesk.lock found in current directory');
+      logger.info('Run "craftdesk install" first');
+      process.exit(1);
+    }
+
+    const orphaned = await installer.findOrphanedCrafts(lockfile);
+
+    if (orphaned.length === 0) {
+      logger.info('Nothing to prune');
+      return;
+    }
+
+    if (options.dryRun) {
+      logger.info(`Would remove ${orphaned.length} craft(s):`);
+      for (const { name, type } of orphaned) {
+        logger.log(`  - ${name} (${type})`);
+      }
+      return;
+    }
+
+    for (const { name, type } of orphaned) {
+      await installer.removeCraft(name, type);
+    }
+
+    try {
+      await gitIgnoreManager.autoUpdate();
+    } catch {
+      // Don't fail pruning if .gitignore update fails
+      logger.warn('Failed to update .gitignore');
+    }
+
+    logger.success(`Pruned ${orphaned.length} craft(s)`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to prune: ${message}`);
+    process.exit(1);
+  }
+}
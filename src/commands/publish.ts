@@ -6,13 +6,26 @@ import { logger } from '../utils/logger';
 import { registryClient } from '../services/registry-client';
 import { configManager } from '../services/config-manager';
 import { CraftDeskJson } from '../types/craftdesk-json';
+import { findWorkspaces, sortWorkspaces } from '../utils/workspaces';
+import { keyManager } from '../services/key-manager';
+import { calculateFilesDigest, createSignaturePayload } from '../utils/signing';
+import { findSecrets, SecretMatch } from '../utils/secrets';
+import { readIgnoreFile, IGNORE_FILE } from '../utils/craftdeskignore';
 
 interface PublishOptions {
   access?: 'public' | 'private' | 'organization';
   tag?: string;
   dryRun?: boolean;
+  workspaces?: boolean;
+  sign?: boolean;
+  key?: string;
+  allowSecrets?: boolean;
 }
 
+type CraftFile = { path: string; content: string };
+
+type SecretFinding = SecretMatch & { file: string };
+
 /**
  * Creates the publish command for publishing a craft to the registry.
  *
@@ -25,8 +38,16 @@ export function createPublishCommand(): Command {
     .option('--access <level>', 'Access level: public, private, organization', 'public')
     .option('--tag <tag>', 'Publish with dist-tag (e.g., beta, latest)')
     .option('--dry-run', 'Validate without publishing')
+    .option('--workspaces', 'Publish every workspace whose version is not yet published, in dependency order')
+    .option('--key <name>', 'Signing key from ~/.craftdesk/keys (default: "default")')
+    .option('--no-sign', 'Publish without a signature')
+    .option('--allow-secrets', 'Publish even if files appear to contain secrets')
     .action(async (craftPath, options) => {
-      await publishCommand(craftPath, options);
+      if (options.workspaces) {
+        await publishWorkspacesCommand(craftPath, options);
+      } else {
+        await publishCommand(craftPath, options);
+      }
     });
 }
 
@@ -71,68 +92,132 @@ async function publishCommand(craftPath: string, options: PublishOptions): Promi
     files.forEach(f => logger.info(`  ${f.path}`));
     logger.info(`\nTotal: ${files.length} file(s)`);
 
-    // 6. If dry-run, stop here (before auth check)
+    // 6. Refuse files that appear to contain secrets (also on dry-run)
+    if (!checkSecrets([{ label: `${craftJson.name}@${craftJson.version}`, files }], options)) {
+      process.exit(1);
+    }
+
+    // 7. If dry-run, stop here (before auth check)
     if (options.dryRun) {
       logger.success('\nDry run complete. No changes made.');
       logger.info('Run without --dry-run to publish.');
       return;
     }
 
-    // 7. Check registry and authentication (only for actual publish)
-    const registryUrl = await configManager.getDefaultRegistry();
-    if (!registryUrl) {
-      logger.error('No registry configured.');
-      logger.info('Add a registry to your craftdesk.json:');
-      logger.info('  "registries": { "default": { "url": "https://your-registry.com" } }');
+    // 8. Check registry and authentication (only for actual publish)
+    const registryUrl = await requireAuthenticatedRegistry();
+
+    // 9. Upload version
+    logger.startSpinner('Publishing...');
+
+    const result = await uploadCraft(craftJson, files, options);
+
+    logger.succeedSpinner(`Published ${craftJson.name}@${craftJson.version}`);
+
+    // 10. Display success
+    console.log('');
+    logger.success('Publication successful!');
+    logger.info(`\nView at: ${registryUrl}/crafts/${craftJson.author}/${craftJson.name}`);
+
+    if (result.download_url) {
+      logger.info(`Download: ${registryUrl}${result.download_url}`);
+    }
+
+  } catch (error) {
+    logger.failSpinner('Publication failed');
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(message);
+    process.exit(1);
+  }
+}
+
+async function publishWorkspacesCommand(rootPath: string, options: PublishOptions): Promise<void> {
+  try {
+    const rootDir = path.resolve(rootPath);
+    const rootJson = await readCraftDeskJson(rootDir);
+
+    if (!rootJson?.workspaces?.length) {
+      logger.error('No workspaces configured in craftdesk.json');
+      logger.info('Add a "workspaces" list of glob patterns, e.g. "workspaces": ["skills/*"]');
       process.exit(1);
     }
 
-    const token = await configManager.getAuthToken(registryUrl);
-    if (!token) {
-      logger.error('Not authenticated.');
-      logger.info('Run "craftdesk login" first to authenticate with the registry.');
+    const workspaces = sortWorkspaces(await findWorkspaces(rootDir, rootJson.workspaces));
+    if (workspaces.length === 0) {
+      logger.error('No workspace crafts match the workspaces patterns');
       process.exit(1);
     }
 
-    // 8. Upload version
-    logger.startSpinner('Publishing...');
+    // Validate everything up front so a bad workspace does not leave a half-published set
+    let invalid = false;
+    for (const workspace of workspaces) {
+      const validation = validateCraftJson(workspace.craftDeskJson);
+      if (!validation.valid) {
+        logger.error(`Invalid craftdesk.json in ${workspace.path}:`);
+        validation.errors.forEach(err => logger.error(`  - ${err}`));
+        invalid = true;
+      }
+    }
+    if (invalid) {
+      process.exit(1);
+    }
+
+    const filesByWorkspace = new Map<string, CraftFile[]>();
+    for (const workspace of workspaces) {
+      filesByWorkspace.set(workspace.directory, await collectCraftFiles(workspace.directory, workspace.craftDeskJson));
+    }
 
-    // Author is validated earlier, but TypeScript needs explicit check
-    if (!craftJson.author) {
-      logger.error('Author is required for publishing');
+    const scanned = workspaces.map(workspace => ({
+      label: `${workspace.name}@${workspace.craftDeskJson.version}`,
+      files: filesByWorkspace.get(workspace.directory) || []
+    }));
+    if (!checkSecrets(scanned, options)) {
       process.exit(1);
     }
 
-    const result = await registryClient.createVersion(
-      craftJson.author,
-      craftJson.name,
-      {
-        version: craftJson.version,
-        type: craftJson.type || 'skill',
-        description: craftJson.description,
-        main_file: detectMainFile(craftJson),
-        files: files
-      }
-    );
+    logger.info(`\nPublishing ${workspaces.length} workspace(s) in dependency order:\n`);
 
-    // 9. Set visibility if public
-    if (options.access === 'public') {
-      await registryClient.publishCraft(
-        craftJson.author,
-        craftJson.name,
-        { visibility: 'public' }
-      );
+    if (options.dryRun) {
+      for (const workspace of workspaces) {
+        const files = filesByWorkspace.get(workspace.directory) || [];
+        logger.info(`  ${workspace.name}@${workspace.craftDeskJson.version} (${workspace.path}, ${files.length} file(s))`);
+      }
+      logger.success('\nDry run complete. No changes made.');
+      logger.info('Run without --dry-run to publish.');
+      return;
     }
 
-    logger.succeedSpinner(`Published ${craftJson.name}@${craftJson.version}`);
+    const registryUrl = await requireAuthenticatedRegistry();
+    let published = 0;
 
-    // 9. Display success
-    console.log('');
-    logger.success('Publication successful!');
-    logger.info(`\nView at: ${registryUrl}/crafts/${craftJson.author}/${craftJson.name}`);
+    for (const workspace of workspaces) {
+      const craftJson = workspace.craftDeskJson;
+      const label = `${craftJson.name}@${craftJson.version}`;
 
-    if (result.download_url) {
-      logger.info(`Download: ${registryUrl}${result.download_url}`);
+      // Only workspaces whose version changed since the last publish are uploaded
+      const versions = await registryClient.listVersions(`${craftJson.author}/${craftJson.name}`, registryUrl);
+      if (versions.includes(craftJson.version)) {
+        logger.info(`  ${label} already published, skipping`);
+        continue;
+      }
+
+      const files = filesByWorkspace.get(workspace.directory) || [];
+      if (files.length === 0) {
+        logger.error(`No files to publish in ${workspace.path}`);
+        process.exit(1);
+      }
+
+      logger.startSpinner(`Publishing ${label}...`);
+      await uploadCraft(craftJson, files, options);
+      logger.succeedSpinner(`Published ${label}`);
+      published++;
+    }
+
+    console.log('');
+    if (published > 0) {
+      logger.success(`Published ${published} workspace(s)`);
+    } else {
+      logger.info('All workspaces are already published');
     }
 
   } catch (error) {
@@ -143,6 +228,145 @@ async function publishCommand(craftPath: string, options: PublishOptions): Promi
   }
 }
 
+/**
+ * Gets the default registry, exiting if none is configured or the user is not logged in
+ *
+ * @returns The default registry URL
+ */
+async function requireAuthenticatedRegistry(): Promise<string> {
+  const registryUrl = await configManager.getDefaultRegistry();
+  if (!registryUrl) {
+    logger.error('No registry configured.');
+    logger.info('Add a registry to your craftdesk.json:');
+    logger.info('  "registries": { "default": { "url": "https://your-registry.com" } }');
+    process.exit(1);
+  }
+
+  const token = await configManager.getAuthToken(registryUrl);
+  if (!token) {
+    logger.error('Not authenticated.');
+    logger.info('Run "craftdesk login" first to authenticate with the registry.');
+    process.exit(1);
+  }
+
+  return registryUrl;
+}
+
+/**
+ * Uploads a new craft version and makes the craft public when requested
+ *
+ * @param craftJson - Validated craftdesk.json of the craft
+ * @param files - Files to upload
+ * @param options - Publish options
+ * @returns The registry's response for the created version
+ */
+async function uploadCraft(craftJson: CraftDeskJson, files: CraftFile[], options: PublishOptions) {
+  // Author is validated earlier, but TypeScript needs explicit check
+  if (!craftJson.author) {
+    throw new Error('Author is required for publishing');
+  }
+
+  const result = await registryClient.createVersion(
+    craftJson.author,
+    craftJson.name,
+    {
+      version: craftJson.version,
+      type: craftJson.type || 'skill',
+      description: craftJson.description,
+      main_file: detectMainFile(craftJson),
+      files: files,
+      ...await signCraft(craftJson, files, options)
+    }
+  );
+
+  // Set visibility if public
+  if (options.access === 'public') {
+    await registryClient.publishCraft(
+      craftJson.author,
+      craftJson.name,
+      { visibility: 'public' }
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Signs the files of a craft version with the publisher's key
+ *
+ * Without --key, the "default" key is used if it exists; otherwise the craft
+ * is published unsigned with a warning.
+ *
+ * @param craftJson - Validated craftdesk.json of the craft
+ * @param files - Files to upload
+ * @param options - Publish options (--key, --no-sign)
+ * @returns Signature and public key to send to the registry, or nothing
+ * @throws Error if the key given with --key does not exist
+ */
+async function signCraft(
+  craftJson: CraftDeskJson,
+  files: CraftFile[],
+  options: PublishOptions
+): Promise<{ signature?: string; public_key?: string }> {
+  if (options.sign === false) return {};
+
+  const key = await keyManager.get(options.key || 'default');
+  if (!key) {
+    if (options.key) {
+      throw new Error(`Signing key "${options.key}" not found in ${keyManager.getKeysDir()}`);
+    }
+    logger.warn(`No signing key found - publishing ${craftJson.name}@${craftJson.version} unsigned`);
+    logger.info('Run "craftdesk keys generate" to create one');
+    return {};
+  }
+
+  const payload = createSignaturePayload(craftJson.author || '', craftJson.name, craftJson.version, calculateFilesDigest(files));
+  logger.debug(`Signing ${craftJson.name}@${craftJson.version} with ${key.name} (${key.fingerprint})`);
+
+  return {
+    signature: await keyManager.sign(key.name, payload),
+    public_key: key.publicKey
+  };
+}
+
+/**
+ * Scans the files to publish for secrets and reports what was found
+ *
+ * @param crafts - Files of each craft to publish, with a label for the report
+ * @param options - Publish options (--allow-secrets)
+ * @returns False if secrets were found and publishing must stop
+ */
+function checkSecrets(crafts: Array<{ label: string; files: CraftFile[] }>, options: PublishOptions): boolean {
+  const findings = new Map<string, SecretFinding[]>();
+  for (const { label, files } of crafts) {
+    const found = files.flatMap(file =>
+      findSecrets(file.content, { highEntropy: true }).map(match => ({ ...match, file: file.path }))
+    );
+    if (found.length > 0) findings.set(label, found);
+  }
+
+  const total = [...findings.values()].reduce((sum, found) => sum + found.length, 0);
+  if (total === 0) return true;
+
+  const report = options.allowSecrets ? logger.warn.bind(logger) : logger.error.bind(logger);
+  report(`Found ${total} possible secret(s) in the files to publish:`);
+  const indent = crafts.length > 1 ? '    ' : '  ';
+  for (const [label, found] of findings) {
+    if (crafts.length > 1) report(`  ${label}`);
+    for (const finding of found) {
+      report(`${indent}${finding.file}:${finding.line}  ${finding.description} (${finding.preview})`);
+    }
+  }
+
+  if (options.allowSecrets) {
+    logger.warn('Publishing anyway (--allow-secrets)');
+    return true;
+  }
+
+  logger.info(`Remove the secrets, list the files in ${IGNORE_FILE}, or pass --allow-secrets to publish anyway.`);
+  return false;
+}
+
 function validateCraftJson(craftJson: CraftDeskJson): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
 
@@ -173,8 +397,9 @@ function validateCraftJson(craftJson: CraftDeskJson): { valid: boolean; errors:
 async function collectCraftFiles(
   craftPath: string,
   _craftJson: CraftDeskJson
-): Promise<Array<{ path: string; content: string }>> {
-  const files: Array<{ path: string; content: string }> = [];
+): Promise<CraftFile[]> {
+  const files: CraftFile[] = [];
+  const isIgnored = await readIgnoreFile(craftPath);
 
   // File extensions to include
   const includeExtensions = [
@@ -194,6 +419,11 @@ async function collectCraftFiles(
       const fullPath = path.join(dir, entry.name);
       const relativePath = basePath ? path.join(basePath, entry.name) : entry.name;
 
+      // Skip paths listed in .craftdeskignore
+      if (isIgnored(relativePath.split(path.sep).join('/'), entry.isDirectory())) {
+        continue;
+      }
+
       if (entry.isDirectory()) {
         // Skip excluded directories
         if (excludeDirs.includes(entry.name)) {
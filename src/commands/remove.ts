@@ -2,6 +2,9 @@ import { Command } from 'commander';
 import { readCraftDeskJson, writeCraftDeskJson, readCraftDeskLock, writeCraftDeskLock } from '../utils/file-system';
 import { logger } from '../utils/logger';
 import { installer } from '../services/installer';
+import { updateDependencyTree, getDeclaredNames } from '../utils/dependency-tree';
+import { findExclusiveMembers } from '../utils/lockfile-diff';
+import { CraftDeskLock } from '../types/craftdesk-lock';
 
 interface RemoveCommandOptions {
   force?: boolean;
@@ -88,36 +91,31 @@ async function removeCommand(craftName: string, options: RemoveCommandOptions =
     // Update lockfile if it exists
     if (lockfile && lockfile.crafts[craftName]) {
       const craftEntry = lockfile.crafts[craftName];
+      const members = craftEntry.type === 'collection'
+        ? findExclusiveMembers(lockfile, getDeclaredNames(craftDeskJson), craftName)
+        : [];
 
-      // Remove from file system
+      // Remove from file system and lockfile
       await installer.removeCraft(craftName, craftEntry.type);
+      removeFromLockfile(lockfile, craftName);
 
-      // Remove from lockfile
-      delete lockfile.crafts[craftName];
-
-      // Clean up plugin tree in lockfile
-      if (lockfile.pluginTree && lockfile.pluginTree[craftName]) {
-        delete lockfile.pluginTree[craftName];
+      // Members only this collection required go with it
+      if (members.length > 0) {
+        logger.info(`Removing ${members.length} member(s) of ${craftName}`);
       }
-
-      // Update requiredBy for other plugins
-      if (lockfile.pluginTree) {
-        for (const [_pluginName, pluginInfo] of Object.entries(lockfile.pluginTree)) {
-          if (pluginInfo.requiredBy) {
-            pluginInfo.requiredBy = pluginInfo.requiredBy.filter(dep => dep !== craftName);
-          }
-          if (pluginInfo.dependencies) {
-            pluginInfo.dependencies = pluginInfo.dependencies.filter(dep => dep !== craftName);
-          }
-        }
+      for (const member of members) {
+        await installer.removeCraft(member, lockfile.crafts[member].type);
+        removeFromLockfile(lockfile, member);
       }
 
+      await updateDependencyTree(lockfile, craftDeskJson);
+
       // Save updated lockfile
       await writeCraftDeskLock(lockfile);
       logger.success('Updated craftdesk.lock');
     } else {
       // Try to remove from file system anyway (best effort)
-      const typesToTry = ['skill', 'agent', 'command', 'hook', 'plugin'];
+      const typesToTry = ['skill', 'agent', 'command', 'hook', 'plugin', 'collection'];
       for (const type of typesToTry) {
         await installer.removeCraft(craftName, type);
       }
@@ -129,4 +127,42 @@ async function removeCommand(craftName: string, options: RemoveCommandOptions =
     logger.error(`Failed to remove craft: ${message}`);
     process.exit(1);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Deletes a craft from the lockfile, including its plugin tree entry and
+ * every reference other plugins and collection members hold to it
+ *
+ * @param lockfile - Lockfile, updated in place
+ * @param craftName - Craft to delete
+ */
+function removeFromLockfile(lockfile: CraftDeskLock, craftName: string): void {
+  delete lockfile.crafts[craftName];
+
+  // Clean up plugin tree in lockfile
+  if (lockfile.pluginTree && lockfile.pluginTree[craftName]) {
+    delete lockfile.pluginTree[craftName];
+  }
+
+  // Update requiredBy for other plugins
+  if (lockfile.pluginTree) {
+    for (const [_pluginName, pluginInfo] of Object.entries(lockfile.pluginTree)) {
+      if (pluginInfo.requiredBy) {
+        pluginInfo.requiredBy = pluginInfo.requiredBy.filter(dep => dep !== craftName);
+      }
+      if (pluginInfo.dependencies) {
+        pluginInfo.dependencies = pluginInfo.dependencies.filter(dep => dep !== craftName);
+      }
+    }
+  }
+
+  // Members kept by another dependency are no longer part of a removed collection
+  for (const entry of Object.values(lockfile.crafts)) {
+    if (entry.memberOf?.includes(craftName)) {
+      entry.memberOf = entry.memberOf.filter(collection => collection !== craftName);
+      if (entry.memberOf.length === 0) {
+        delete entry.memberOf;
+      }
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { Command } from 'commander';
+import { readCraftDeskJson, readCraftDeskLock, writeCraftDeskLock } from '../utils/file-system';
+import { logger } from '../utils/logger';
+import { installer } from '../services/installer';
+import { linkManager } from '../services/link-manager';
+
+/**
+ * Creates the 'unlink' command for undoing `craftdesk link`
+ *
+ * @returns Commander command instance configured for unlinking
+ */
+export function createUnlinkCommand(): Command {
+  return new Command('unlink')
+    .description('Unregister the current craft, or replace a linked craft with its locked version')
+    .argument('[name]', 'Linked craft to restore in this project')
+    .action(async (name: string | undefined) => {
+      await unlinkCommand(name);
+    });
+}
+
+async function unlinkCommand(name: string | undefined): Promise<void> {
+  try {
+    if (name) {
+      await unlinkFromProject(name);
+    } else {
+      await unregisterCurrentCraft();
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to unlink: ${message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Removes the global registration of the craft in the current directory
+ */
+async function unregisterCurrentCraft(): Promise<void> {
+  const craftDeskJson = await readCraftDeskJson();
+  if (!craftDeskJson?.name) {
+    logger.error('No craftdesk.json with a name found in current directory');
+    process.exit(1);
+  }
+
+  if (await linkManager.unregister(craftDeskJson.name)) {
+    logger.success(`Unregistered ${craftDeskJson.name}`);
+  } else {
+    logger.warn(`${craftDeskJson.name} is not registered`);
+  }
+}
+
+/**
+ * Removes a linked craft from the project and installs its locked version again
+ *
+ * @param name - Linked craft name
+ */
+async function unlinkFromProject(name: string): Promise<void> {
+  const lockfile = await readCraftDeskLock();
+  const entry = lockfile?.crafts[name];
+  if (!lockfile || !entry?.linked) {
+    logger.error(`${name} is not linked`);
+    process.exit(1);
+  }
+
+  await installer.unlinkCraft(name);
+
+  // Crafts that were only linked have no locked version to go back to
+  if (entry.resolved.startsWith('link:')) {
+    delete lockfile.crafts[name];
+    await writeCraftDeskLock(lockfile);
+    logger.success(`Unlinked ${name}`);
+    return;
+  }
+
+  delete entry.linked;
+  logger.startSpinner(`Installing ${name}@${entry.version}...`);
+  await installer.installCraft(name, entry);
+  logger.succeedSpinner(`Installed ${name}@${entry.version}`);
+
+  await writeCraftDeskLock(lockfile);
+  logger.success(`Unlinked ${name}`);
+}
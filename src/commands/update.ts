@@ -13,16 +13,24 @@ import { registryClient } from '../services/registry-client';
 import { installer } from '../services/installer';
 import { configManager } from '../services/config-manager';
 import { LockEntry, CraftDeskLock } from '../types/craftdesk-lock';
-import { DependencyConfig } from '../types/craftdesk-json';
+import { CraftDeskJson } from '../types/craftdesk-json';
 import {
   isNewerVersion,
   sortTagsBySemver,
   getUpdateType,
+  findVersionConstraint,
   padRight,
   colorize
 } from '../utils/version-utils';
+import { maxSatisfying, maxVersion, satisfies } from '../utils/semver';
+import { updateDependencyTree } from '../utils/dependency-tree';
+import { isIntegrityRequired } from '../utils/integrity-policy';
+import { toLockSignature } from '../utils/signing';
 
-interface UpdateInfo {
+/**
+ * A craft to update and the version to update it to
+ */
+export interface UpdateInfo {
   name: string;
   current: string;
   latest: string;
@@ -32,7 +40,10 @@ interface UpdateInfo {
   newLockEntry?: LockEntry;
 }
 
-interface UpdateOptions {
+/**
+ * Options of the update command
+ */
+export interface UpdateOptions {
   dryRun?: boolean;
   gitOnly?: boolean;
   registryOnly?: boolean;
@@ -76,7 +87,7 @@ async function updateCommand(craftName: string | undefined, options: UpdateOptio
     logger.info('Checking for updates...\n');
 
     // Find available updates
-    const updates = await findAvailableUpdates(lockfile, options);
+    const updates = await findAvailableUpdates(craftDeskJson, lockfile, options);
 
     // Filter to specific craft if provided
     const toUpdate = craftName
@@ -109,95 +120,106 @@ async function updateCommand(craftName: string | undefined, options: UpdateOptio
       return;
     }
 
-    // Perform updates
-    logger.info('\nUpdating crafts...\n');
-
-    let successCount = 0;
-    let errorCount = 0;
-
-    for (const update of toUpdate) {
-      try {
-        logger.startSpinner(`Updating ${update.name}...`);
-
-        // Get new lock entry
-        const newEntry = await fetchNewLockEntry(update, options.latest);
-        if (!newEntry) {
-          logger.failSpinner(`Failed to fetch update info for ${update.name}`);
-          errorCount++;
-          continue;
-        }
-
-        // Remove old installation
-        const installPath = configManager.getInstallPath();
-        const typeDir = installer.getTypeDirectory(update.lockEntry.type);
-        const craftDir = path.join(process.cwd(), installPath, typeDir, update.name);
-
-        if (await fs.pathExists(craftDir)) {
-          await fs.remove(craftDir);
-        }
-
-        // Install new version
-        await installer.installCraft(update.name, newEntry);
-
-        // Update lockfile entry
-        lockfile.crafts[update.name] = newEntry;
-
-        // Update craftdesk.json dependency if needed
-        if (craftDeskJson.dependencies && craftDeskJson.dependencies[update.name]) {
-          const currentDep = craftDeskJson.dependencies[update.name];
-          // Only update if using exact version or if --latest flag
-          const isString = typeof currentDep === 'string';
-          const usesCaretRange = isString && currentDep.startsWith('^');
-
-          if (options.latest || !usesCaretRange) {
-            if (isString) {
-              craftDeskJson.dependencies[update.name] = newEntry.version;
-            } else {
-              // It's a DependencyConfig - update version field
-              const depConfig = craftDeskJson.dependencies[update.name] as DependencyConfig;
-              depConfig.version = newEntry.version;
-            }
-          }
-        }
-
-        logger.succeedSpinner(
-          `Updated ${update.name}: ${colorize(update.current, 'red')} → ${colorize(newEntry.version, 'green')}`
-        );
-        successCount++;
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        logger.failSpinner(`Failed to update ${update.name}: ${message}`);
+    await applyUpdates(craftDeskJson, lockfile, toUpdate, options);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to update: ${message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Installs new versions of crafts and records them in craftdesk.lock and craftdesk.json
+ *
+ * Used by `update` and by `audit --fix`.
+ *
+ * @param craftDeskJson - Project manifest (constraints that exclude a new version are rewritten)
+ * @param lockfile - Project lockfile
+ * @param updates - Crafts to update and their target versions
+ * @param options - Update options
+ * @returns Number of crafts updated and failed
+ */
+export async function applyUpdates(
+  craftDeskJson: CraftDeskJson,
+  lockfile: CraftDeskLock,
+  updates: UpdateInfo[],
+  options: UpdateOptions = {}
+): Promise<{ successCount: number; errorCount: number }> {
+  logger.info('\nUpdating crafts...\n');
+
+  let successCount = 0;
+  let errorCount = 0;
+
+  for (const update of updates) {
+    try {
+      logger.startSpinner(`Updating ${update.name}...`);
+
+      // Get new lock entry
+      const newEntry = await fetchNewLockEntry(update, options.latest, isIntegrityRequired(craftDeskJson));
+      if (!newEntry) {
+        logger.failSpinner(`Failed to fetch update info for ${update.name}`);
         errorCount++;
+        continue;
       }
-    }
 
-    // Update lockfile metadata
-    lockfile.generatedAt = new Date().toISOString();
-    if (lockfile.metadata) {
-      lockfile.metadata.totalCrafts = Object.keys(lockfile.crafts).length;
-    }
+      // Remove old installation
+      const installPath = configManager.getInstallPath();
+      const typeDir = installer.getTypeDirectory(update.lockEntry.type);
+      const craftDir = path.join(process.cwd(), installPath, typeDir, update.name);
+
+      if (await fs.pathExists(craftDir)) {
+        await fs.remove(craftDir);
+      }
 
-    // Write updated files
-    await writeCraftDeskLock(lockfile);
-    await writeCraftDeskJson(craftDeskJson);
+      // Install new version
+      await installer.installCraft(update.name, newEntry);
 
-    // Summary
-    console.log('');
-    if (successCount > 0) {
-      logger.success(`Updated ${successCount} craft(s)`);
-    }
-    if (errorCount > 0) {
-      logger.warn(`${errorCount} craft(s) failed to update`);
+      // Update lockfile entry
+      lockfile.crafts[update.name] = newEntry;
+
+      // Update craftdesk.json when the new version falls outside the declared range
+      updateManifestConstraint(craftDeskJson, update.name, newEntry.version);
+      if (newEntry.git && newEntry.tag) {
+        updateManifestTag(craftDeskJson, update.name, newEntry.tag);
+      }
+
+      logger.succeedSpinner(
+        `Updated ${update.name}: ${colorize(update.current, 'red')} → ${colorize(newEntry.version, 'green')}`
+      );
+      successCount++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.failSpinner(`Failed to update ${update.name}: ${message}`);
+      errorCount++;
     }
+  }
 
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    logger.error(`Failed to update: ${message}`);
-    process.exit(1);
+  // Update lockfile metadata
+  lockfile.generatedAt = new Date().toISOString();
+  if (lockfile.metadata) {
+    lockfile.metadata.totalCrafts = Object.keys(lockfile.crafts).length;
+  }
+
+  await updateDependencyTree(lockfile, craftDeskJson);
+
+  // Write updated files
+  await writeCraftDeskLock(lockfile);
+  await writeCraftDeskJson(craftDeskJson);
+
+  // Summary
+  console.log('');
+  if (successCount > 0) {
+    logger.success(`Updated ${successCount} craft(s)`);
   }
+  if (errorCount > 0) {
+    logger.warn(`${errorCount} craft(s) failed to update`);
+  }
+
+  return { successCount, errorCount };
 }
 
 async function findAvailableUpdates(
+  craftDeskJson: CraftDeskJson,
   lockfile: CraftDeskLock,
   options: UpdateOptions
 ): Promise<UpdateInfo[]> {
@@ -206,6 +228,9 @@ async function findAvailableUpdates(
   for (const [name, entry] of Object.entries(lockfile.crafts)) {
     const lockEntry = entry as LockEntry;
 
+    // Local crafts are always installed from their current contents
+    if (lockEntry.local) continue;
+
     // Skip based on options
     if (options.gitOnly && !lockEntry.git) continue;
     if (options.registryOnly && lockEntry.git) continue;
@@ -218,7 +243,8 @@ async function findAvailableUpdates(
         updateInfo = await checkGitUpdate(name, lockEntry);
       } else {
         // Registry-based dependency
-        updateInfo = await checkRegistryUpdate(name, lockEntry);
+        const constraint = options.latest ? '*' : findVersionConstraint(name, craftDeskJson, lockfile);
+        updateInfo = await checkRegistryUpdate(name, lockEntry, constraint);
       }
 
       if (updateInfo && updateInfo.current !== updateInfo.latest) {
@@ -233,26 +259,30 @@ async function findAvailableUpdates(
   return updates;
 }
 
-async function checkRegistryUpdate(name: string, entry: LockEntry): Promise<UpdateInfo | null> {
+async function checkRegistryUpdate(name: string, entry: LockEntry, constraint: string): Promise<UpdateInfo | null> {
   try {
-    const craftInfo = await registryClient.getCraftInfo(name);
+    const versions = await registryClient.listVersions(name, entry.registry);
+    let targetVersion: string | null;
 
-    if (!craftInfo) {
-      logger.debug(`Could not fetch registry info for ${name}`);
-      return null;
+    if (versions.length > 0) {
+      // '*' means --latest: take the newest stable release regardless of range
+      targetVersion = constraint === '*' ? maxVersion(versions) : maxSatisfying(versions, constraint);
+    } else {
+      // Registry doesn't list versions - fall back to latest if it fits the range
+      const craftInfo = await registryClient.getCraftInfo(name, undefined, entry.registry);
+      targetVersion = craftInfo && satisfies(craftInfo.version, constraint) ? craftInfo.version : null;
     }
 
-    const latestVersion = craftInfo.version || 'unknown';
     const currentVersion = entry.version;
 
-    if (latestVersion === 'unknown' || latestVersion === currentVersion) {
+    if (!targetVersion || targetVersion === currentVersion || !isNewerVersion(currentVersion, targetVersion)) {
       return null;
     }
 
     return {
       name,
       current: currentVersion,
-      latest: latestVersion,
+      latest: targetVersion,
       type: entry.type,
       source: 'registry',
       lockEntry: entry
@@ -264,6 +294,48 @@ async function checkRegistryUpdate(name: string, entry: LockEntry): Promise<Upda
   }
 }
 
+/**
+ * Rewrites a craft's constraint in craftdesk.json when the installed version no
+ * longer satisfies it, preserving the caret/tilde style of the original range
+ *
+ * @param craftDeskJson - Project manifest to modify in place
+ * @param name - Craft name
+ * @param newVersion - Newly installed version
+ */
+function updateManifestConstraint(craftDeskJson: CraftDeskJson, name: string, newVersion: string): void {
+  for (const deps of [craftDeskJson.dependencies, craftDeskJson.devDependencies, craftDeskJson.optionalDependencies]) {
+    const current = deps?.[name];
+    if (!deps || current === undefined) continue;
+
+    const range = typeof current === 'string' ? current : current.version;
+    if (!range || satisfies(newVersion, range)) continue;
+
+    const prefix = range.startsWith('^') ? '^' : range.startsWith('~') ? '~' : '';
+    if (typeof current === 'string') {
+      deps[name] = `${prefix}${newVersion}`;
+    } else {
+      current.version = `${prefix}${newVersion}`;
+    }
+  }
+}
+
+/**
+ * Rewrites the tag a git craft is declared with in craftdesk.json, so the next
+ * install does not see the updated lockfile as stale and go back to the old tag
+ *
+ * @param craftDeskJson - Project manifest to modify in place
+ * @param name - Craft name
+ * @param tag - Tag the craft was updated to
+ */
+function updateManifestTag(craftDeskJson: CraftDeskJson, name: string, tag: string): void {
+  for (const deps of [craftDeskJson.dependencies, craftDeskJson.devDependencies, craftDeskJson.optionalDependencies]) {
+    const current = deps?.[name];
+    if (typeof current === 'object' && current.git && current.tag) {
+      current.tag = tag;
+    }
+  }
+}
+
 async function checkGitUpdate(name: string, entry: LockEntry): Promise<UpdateInfo | null> {
   if (!entry.git) return null;
 
@@ -318,24 +390,37 @@ async function checkGitUpdate(name: string, entry: LockEntry): Promise<UpdateInf
   }
 }
 
-async function fetchNewLockEntry(update: UpdateInfo, _latest?: boolean): Promise<LockEntry | null> {
+async function fetchNewLockEntry(update: UpdateInfo, _latest?: boolean, requireIntegrity = false): Promise<LockEntry | null> {
   if (update.source === 'registry') {
     // Fetch from registry
-    const craftInfo = await registryClient.getCraftInfo(update.name, update.latest);
+    const craftInfo = await registryClient.getCraftInfo(update.name, update.latest, update.lockEntry.registry);
     if (!craftInfo) return null;
 
     return {
       version: craftInfo.version,
       resolved: craftInfo.download_url || update.lockEntry.resolved,
-      integrity: craftInfo.integrity || update.lockEntry.integrity,
+      integrity: await registryClient.resolveIntegrity(
+        { ...craftInfo, download_url: craftInfo.download_url || update.lockEntry.resolved },
+        { require: requireIntegrity }
+      ),
       type: craftInfo.type,
       author: craftInfo.author,
       registry: update.lockEntry.registry,
-      dependencies: craftInfo.dependencies || update.lockEntry.dependencies
+      dependencies: craftInfo.dependencies || update.lockEntry.dependencies,
+      ...((craftInfo.peerDependencies || update.lockEntry.peerDependencies) && {
+        peerDependencies: craftInfo.peerDependencies || update.lockEntry.peerDependencies
+      }),
+      ...toLockSignature(craftInfo),
+      // Only permissions the new version adds need consent
+      ...(update.lockEntry.permissions && { permissions: update.lockEntry.permissions }),
+      ...(update.lockEntry.optional && { optional: true }),
+      ...(update.lockEntry.override && { override: update.lockEntry.override }),
+      ...(update.lockEntry.memberOf && { memberOf: update.lockEntry.memberOf })
     };
   } else {
-    // Git source - update tag/commit
+    // Git source - update tag/commit (the new contents get their own tree hash on install)
     const newEntry: LockEntry = { ...update.lockEntry };
+    delete newEntry.treeHash;
 
     if (!update.lockEntry.git) {
       throw new Error('Git URL is required for git-based update');
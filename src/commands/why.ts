@@ -0,0 +1,86 @@
+import { Command } from 'commander';
+import { readCraftDeskJson, readCraftDeskLock } from '../utils/file-system';
+import { logger } from '../utils/logger';
+import { findDependencyPaths, formatDependencyPath } from '../utils/dependency-paths';
+import { findWorkspaces, addWorkspaceDependencies } from '../utils/workspaces';
+
+interface WhyCommandOptions {
+  json?: boolean;
+}
+
+/**
+ * Creates the 'why' command for explaining why a craft is installed
+ *
+ * @returns Commander command instance configured for explaining crafts
+ */
+export function createWhyCommand(): Command {
+  return new Command('why')
+    .description('Show every dependency path that leads to an installed craft')
+    .argument('<craft>', 'Craft name')
+    .option('--json', 'Output as JSON')
+    .action(async (craftName: string, options: WhyCommandOptions) => {
+      await whyCommand(craftName, options);
+    });
+}
+
+async function whyCommand(craftName: string, options: WhyCommandOptions): Promise<void> {
+  try {
+    const manifest = await readCraftDeskJson();
+    if (!manifest) {
+      logger.error('No craftdesk.json found in current directory');
+      process.exit(1);
+    }
+
+    const lockfile = await readCraftDeskLock();
+    if (!lockfile) {
+      logger.error('No craftdesk.lock found in current directory');
+      logger.info('Run "craftdesk install" first');
+      process.exit(1);
+    }
+
+    const entry = lockfile.crafts[craftName];
+    if (!entry) {
+      logger.error(`${craftName} is not in craftdesk.lock`);
+      process.exit(1);
+    }
+
+    // Workspace crafts are dependencies of the root even when it does not declare them
+    const craftDeskJson = addWorkspaceDependencies(manifest, await findWorkspaces(process.cwd(), manifest.workspaces));
+    const paths = findDependencyPaths(craftDeskJson, lockfile, craftName);
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        name: craftName,
+        version: entry.version,
+        type: entry.type,
+        ...(entry.linked && { linked: entry.linked }),
+        paths
+      }, null, 2));
+      return;
+    }
+
+    logger.log(`${craftName}@${entry.version} (${entry.type})`);
+
+    if (paths.length === 0) {
+      logger.log('');
+      if (entry.linked) {
+        logger.info(`Not required by craftdesk.json; linked from ${entry.linked} with "craftdesk link"`);
+      } else {
+        logger.info('Not required by craftdesk.json; run "craftdesk install" to remove it');
+      }
+      return;
+    }
+
+    for (const path of paths) {
+      logger.log('');
+      formatDependencyPath(path, lockfile).forEach(line => logger.log(line));
+    }
+
+    logger.log('');
+    logger.info(`${paths.length} dependency path(s) lead to ${craftName}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to explain ${craftName}: ${message}`);
+    process.exit(1);
+  }
+}
@@ -5,7 +5,10 @@ import { createInitCommand } from './commands/init';
 import { createInstallCommand } from './commands/install';
 import { createAddCommand } from './commands/add';
 import { createRemoveCommand } from './commands/remove';
+import { createPruneCommand } from './commands/prune';
 import { createListCommand } from './commands/list';
+import { createWhyCommand } from './commands/why';
+import { createGraphCommand } from './commands/graph';
 import { createSearchCommand } from './commands/search';
 import { createInfoCommand } from './commands/info';
 import { createOutdatedCommand } from './commands/outdated';
@@ -21,6 +24,11 @@ import { createVerifyCommand } from './commands/verify';
 import { createSetupMultiAgentCommand } from './commands/setup-multi-agent';
 import { createEmbedCommand } from './commands/embed';
 import { createUnembedCommand } from './commands/unembed';
+import { createCacheCommand } from './commands/cache';
+import { createKeysCommand } from './commands/keys';
+import { createAuditCommand } from './commands/audit';
+import { createLinkCommand } from './commands/link';
+import { createUnlinkCommand } from './commands/unlink';
 import { logger } from './utils/logger';
 import { getCliVersion } from './utils/version-utils';
 
@@ -39,10 +47,14 @@ program.addCommand(createInitCommand());
 program.addCommand(createInstallCommand());
 program.addCommand(createAddCommand());
 program.addCommand(createRemoveCommand());
+program.addCommand(createPruneCommand());
 program.addCommand(createListCommand());
+program.addCommand(createWhyCommand());
+program.addCommand(createGraphCommand());
 program.addCommand(createSearchCommand());
 program.addCommand(createInfoCommand());
 program.addCommand(createOutdatedCommand());
+program.addCommand(createAuditCommand());
 program.addCommand(createUpdateCommand());
 program.addCommand(createPublishCommand());
 program.addCommand(createLoginCommand());
@@ -55,6 +67,10 @@ program.addCommand(createVerifyCommand());
 program.addCommand(createSetupMultiAgentCommand());
 program.addCommand(createEmbedCommand());
 program.addCommand(createUnembedCommand());
+program.addCommand(createCacheCommand());
+program.addCommand(createKeysCommand());
+program.addCommand(createLinkCommand());
+program.addCommand(createUnlinkCommand());
 
 // Add aliases
 program.command('i', { hidden: true }).action(() => {
@@ -80,6 +96,9 @@ if (process.argv.length === 2) {
   logger.log('  craftdesk info <name>  Show craft information');
   logger.log('  craftdesk add <pkg>    Add a new dependency');
   logger.log('  craftdesk install      Install all dependencies');
+  logger.log('  craftdesk prune        Remove crafts no longer in craftdesk.lock');
+  logger.log('  craftdesk why <name>   Show why a craft is installed');
+  logger.log('  craftdesk graph        Export the dependency graph (DOT, Mermaid, JSON)');
   logger.log('  craftdesk outdated     Check for newer versions');
   logger.log('  craftdesk update       Update crafts to newer versions');
   logger.log('  craftdesk publish      Publish a craft to the registry');
@@ -97,6 +116,16 @@ if (process.argv.length === 2) {
   logger.log('  craftdesk embed <name>       Register a local/embedded skill');
   logger.log('  craftdesk unembed <name>     Unregister an embedded skill');
   logger.log('');
+  logger.log('Linking:');
+  logger.log('  craftdesk link         Register the current craft for linking');
+  logger.log('  craftdesk link <name>  Link a registered craft into this project');
+  logger.log('  craftdesk unlink <name>  Restore the locked version of a linked craft');
+  logger.log('');
+  logger.log('Cache:');
+  logger.log('  craftdesk cache        Show cache location and size');
+  logger.log('  craftdesk cache ls     List cached archives and git mirrors');
+  logger.log('  craftdesk cache clean  Remove everything from the cache');
+  logger.log('');
   logger.log('Authentication:');
   logger.log('  craftdesk login        Authenticate with a registry');
   logger.log('  craftdesk logout       Remove authentication');
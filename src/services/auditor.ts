@@ -0,0 +1,375 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { findSecrets } from '../utils/secrets';
+import { collectHookCommands, collectMCPServers } from '../utils/permissions';
+import { configManager } from './config-manager';
+import { registryClient, Advisory } from './registry-client';
+import type { PluginManifest } from '../types/claude-settings';
+import type { CraftDeskLock } from '../types/craftdesk-lock';
+
+/** Finding severities, from lowest to highest */
+export const AUDIT_SEVERITIES = ['info', 'low', 'moderate', 'high', 'critical'] as const;
+
+/** Severity of an audit finding */
+export type AuditSeverity = typeof AUDIT_SEVERITIES[number];
+
+/**
+ * Something in an installed craft that deserves a closer look
+ */
+export interface AuditFinding {
+  /** Craft the finding is in */
+  craft: string;
+  /** Installed version of the craft */
+  version: string;
+  /** How dangerous the finding is */
+  severity: AuditSeverity;
+  /** Check that produced the finding */
+  rule: 'hook-command' | 'mcp-server' | 'lifecycle-script' | 'markdown-shell' | 'unknown-host' | 'secret' | 'advisory';
+  /** What was found */
+  message: string;
+  /** File, relative to the craft directory */
+  file: string;
+  /** 1-based line number, when known */
+  line?: number;
+  /** The command, URL or redacted secret that was found */
+  evidence?: string;
+  /** Registry advisory the finding reports (advisory findings only) */
+  advisory?: Advisory;
+}
+
+/**
+ * Options for auditing a craft
+ */
+export interface AuditOptions {
+  /** Hosts URLs may point to besides the well-known ones (subdomains included) */
+  allowedHosts?: string[];
+}
+
+/**
+ * Shell command patterns, each with the severity and reason reported when a
+ * command matches. The highest matching severity wins.
+ */
+const COMMAND_RULES: Array<{ severity: AuditSeverity; pattern: RegExp; reason: string }> = [
+  { severity: 'critical', pattern: /\b(?:curl|wget)\b[^|;&\n]*\|\s*(?:sudo\s+)?(?:ba|z|da|k)?sh\b/, reason: 'pipes a download into a shell' },
+  { severity: 'critical', pattern: /\bbase64\s+(?:-d|--decode)\b[^|\n]*\|\s*(?:ba|z)?sh\b/, reason: 'runs base64-decoded code' },
+  { severity: 'critical', pattern: /\brm\s+-[a-zA-Z]*(?:rf|fr)[a-zA-Z]*\s+(?:\/|~|\$HOME)(?:\s|$|\/\*)/, reason: 'deletes the home or root directory' },
+  { severity: 'high', pattern: /\/dev\/tcp\/|\bnc\b[^\n]*\s-e\s|\b(?:ncat|socat)\b/, reason: 'opens a network shell' },
+  { severity: 'high', pattern: /\b(?:curl|wget)\b[^\n]*(?:\s-d\s|\s--data|\s-F\s|\s--form|--upload-file|\s-T\s|-X\s*POST)/, reason: 'sends data to a remote host' },
+  { severity: 'high', pattern: /\bsudo\b/, reason: 'runs commands as root' },
+  { severity: 'high', pattern: /\beval\b/, reason: 'evaluates dynamically built code' },
+  { severity: 'high', pattern: /\brm\s+-[a-zA-Z]*(?:rf|fr)/, reason: 'deletes files recursively' },
+  { severity: 'high', pattern: /\.(?:bashrc|zshrc|bash_profile|profile)\b|\.ssh\/|\bcrontab\b/, reason: 'touches shell startup files, SSH keys or cron jobs' },
+  { severity: 'high', pattern: /\bchmod\s+(?:[0-7]*777|[ug]?\+s)\b/, reason: 'loosens file permissions' },
+  { severity: 'moderate', pattern: /\b(?:curl|wget|Invoke-WebRequest|iwr)\b/, reason: 'downloads from the network' },
+  { severity: 'moderate', pattern: /\b(?:npm|pnpm|yarn)\s+(?:install|add|i)\s+-g\b|\bnpx\s+(?:-y|--yes)\b|\bpip3?\s+install\b|\bgem\s+install\b/, reason: 'installs packages' }
+];
+
+/** Hosts that URLs in crafts commonly and legitimately point to (subdomains included) */
+const KNOWN_HOSTS = [
+  'anthropic.com', 'claude.ai', 'claude.com', 'craftdesk.ai', 'modelcontextprotocol.io',
+  'github.com', 'githubusercontent.com', 'github.io', 'gitlab.com', 'bitbucket.org',
+  'npmjs.com', 'npmjs.org', 'pypi.org', 'rubygems.org', 'crates.io', 'pkg.go.dev',
+  'nodejs.org', 'python.org', 'ruby-lang.org', 'rubyonrails.org', 'typescriptlang.org',
+  'mozilla.org', 'w3.org', 'wikipedia.org', 'json-schema.org', 'semver.org', 'shields.io',
+  'example.com', 'example.org', 'example.net', 'localhost', '127.0.0.1', '0.0.0.0'
+];
+
+/** Code fence languages treated as shell snippets (unlabeled fences included) */
+const SHELL_FENCES = new Set(['', 'bash', 'sh', 'shell', 'zsh', 'console', 'terminal']);
+
+/** Files larger than this are not scanned */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Compares two severities
+ *
+ * @param a - First severity
+ * @param b - Second severity
+ * @returns Negative if a is lower than b, zero if equal, positive if higher
+ */
+export function compareSeverity(a: AuditSeverity, b: AuditSeverity): number {
+  return AUDIT_SEVERITIES.indexOf(a) - AUDIT_SEVERITIES.indexOf(b);
+}
+
+/**
+ * Rates what a shell command may do
+ *
+ * @param command - Command string
+ * @returns The highest matching severity and its reason ('low' for commands that match nothing)
+ */
+export function classifyCommand(command: string): { severity: AuditSeverity; reason: string } {
+  let result: { severity: AuditSeverity; reason: string } = { severity: 'low', reason: 'runs a shell command' };
+
+  for (const rule of COMMAND_RULES) {
+    if (rule.pattern.test(command) && compareSeverity(rule.severity, result.severity) > 0) {
+      result = { severity: rule.severity, reason: rule.reason };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Statically inspects installed crafts for code they may run and data they may leak
+ *
+ * Nothing from the crafts is executed. Reported are:
+ * - hook commands (craftdesk.json `hooks` and hooks.json files)
+ * - MCP servers from plugin manifests and .mcp.json
+ * - `scripts.postInstall` / `scripts.preRemove` of plugin manifests
+ * - shell snippets in markdown that download, delete or escalate
+ * - URLs pointing to hosts that are not well known or allowed
+ * - embedded secrets
+ *
+ * Registry crafts can additionally be checked against the advisories their
+ * registry publishes for known-vulnerable and malicious versions.
+ */
+export class Auditor {
+  /**
+   * Audits one installed craft
+   *
+   * @param craft - Craft name
+   * @param version - Installed version
+   * @param craftDir - Directory the craft is installed in
+   * @param options - Audit options
+   * @returns Findings, in file order
+   */
+  async auditCraft(craft: string, version: string, craftDir: string, options: AuditOptions = {}): Promise<AuditFinding[]> {
+    const findings: AuditFinding[] = [];
+    const report = (finding: Omit<AuditFinding, 'craft' | 'version'>) => findings.push({ craft, version, ...finding });
+
+    const files = await this.listFiles(craftDir);
+    const manifest = await this.readJson<PluginManifest>(path.join(craftDir, '.claude-plugin', 'plugin.json'));
+    const craftJson = await this.readJson<{ hooks?: unknown }>(path.join(craftDir, 'craftdesk.json'));
+
+    // Hooks
+    const hookFiles = new Map<string, unknown>();
+    if (craftJson?.hooks) hookFiles.set('craftdesk.json', craftJson.hooks);
+    if (manifest?.hooks && typeof manifest.hooks === 'object') hookFiles.set('.claude-plugin/plugin.json', manifest.hooks);
+    for (const file of files.filter(f => path.basename(f) === 'hooks.json')) {
+      hookFiles.set(file, await this.readJson(path.join(craftDir, file)));
+    }
+    for (const [file, hooks] of hookFiles) {
+      for (const { event, command } of collectHookCommands(hooks)) {
+        const { severity, reason } = classifyCommand(command);
+        report({ severity, rule: 'hook-command', message: `${event} hook ${reason}`, file, evidence: truncate(command) });
+      }
+    }
+
+    // MCP servers
+    const serverFiles = new Map<string, unknown>();
+    if (manifest?.mcpServers && typeof manifest.mcpServers === 'object') {
+      serverFiles.set('.claude-plugin/plugin.json', manifest.mcpServers);
+    }
+    for (const file of files.filter(f => path.basename(f) === '.mcp.json')) {
+      serverFiles.set(file, await this.readJson(path.join(craftDir, file)));
+    }
+    for (const [file, servers] of serverFiles) {
+      for (const [name, server] of collectMCPServers(servers)) {
+        if (server.command) {
+          const command = [server.command, ...(server.args || [])].join(' ');
+          const classified = classifyCommand(command);
+          const severity = compareSeverity(classified.severity, 'moderate') > 0 ? classified.severity : 'moderate';
+          const reason = classified.severity === 'low' ? 'starts a local process' : classified.reason;
+          report({ severity, rule: 'mcp-server', message: `MCP server "${name}" ${reason}`, file, evidence: truncate(command) });
+        } else if (server.url) {
+          report({ severity: 'low', rule: 'mcp-server', message: `MCP server "${name}" connects to a remote server`, file, evidence: server.url });
+        }
+      }
+    }
+
+    // Lifecycle scripts
+    for (const [script, command] of Object.entries(manifest?.scripts || {})) {
+      if (typeof command !== 'string') continue;
+      const classified = classifyCommand(command);
+      const severity = compareSeverity(classified.severity, 'moderate') > 0 ? classified.severity : 'moderate';
+      report({ severity, rule: 'lifecycle-script', message: `${script} script ${classified.reason}`, file: '.claude-plugin/plugin.json', evidence: truncate(command) });
+    }
+
+    // Markdown shell snippets, URLs and secrets in every text file
+    const allowedHosts = [...KNOWN_HOSTS, ...(options.allowedHosts || [])];
+    const reportedHosts = new Set<string>();
+    for (const file of files) {
+      const content = await this.readText(path.join(craftDir, file));
+      if (content === null) continue;
+
+      if (path.extname(file).toLowerCase() === '.md') {
+        for (const snippet of findShellSnippets(content)) {
+          const { severity, reason } = classifyCommand(snippet.command);
+          // Inline !`command` runs as soon as a slash command is used; fenced snippets only when followed
+          if (!snippet.inline && compareSeverity(severity, 'moderate') < 0) continue;
+          const message = `${snippet.inline ? 'Inline command' : 'Shell snippet'} ${reason}`;
+          report({ severity, rule: 'markdown-shell', message, file, line: snippet.line, evidence: truncate(snippet.command) });
+        }
+      }
+
+      for (const { host, url, line } of findUrls(content)) {
+        if (reportedHosts.has(host) || isAllowedHost(host, allowedHosts)) continue;
+        reportedHosts.add(host);
+        report({ severity: 'low', rule: 'unknown-host', message: `References unknown host ${host}`, file, line, evidence: truncate(url) });
+      }
+
+      for (const secret of findSecrets(content)) {
+        const severity = secret.rule === 'private-key' ? 'critical' : secret.rule === 'generic-secret' ? 'moderate' : 'high';
+        report({ severity, rule: 'secret', message: secret.description, file, line: secret.line, evidence: secret.preview });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Checks locked registry crafts against the advisories of their registries
+   *
+   * @param lockfile - Project lockfile
+   * @param craftNames - Only check these crafts (defaults to every registry craft)
+   * @returns One finding per advisory, and an error message per registry that could not be queried
+   */
+  async auditAdvisories(lockfile: CraftDeskLock, craftNames?: string[]): Promise<{ findings: AuditFinding[]; errors: string[] }> {
+    const byRegistry = new Map<string, Record<string, string>>();
+    for (const [name, entry] of Object.entries(lockfile.crafts)) {
+      if (craftNames && !craftNames.includes(name)) continue;
+      if (entry.git || entry.local || entry.linked) continue;
+
+      const registryUrl = entry.registry
+        ? await configManager.resolveRegistryUrl(entry.registry)
+        : await configManager.getRegistryForCraft(name);
+      byRegistry.set(registryUrl, { ...byRegistry.get(registryUrl), [name]: entry.version });
+    }
+
+    const findings: AuditFinding[] = [];
+    const errors: string[] = [];
+    for (const [registryUrl, crafts] of byRegistry) {
+      try {
+        for (const advisory of await registryClient.getAdvisories(crafts, registryUrl)) {
+          const severity = advisory.malicious ? 'critical' : AUDIT_SEVERITIES.includes(advisory.severity) ? advisory.severity : 'high';
+          const fix = advisory.fixed_in ? `fixed in ${advisory.fixed_in}` : 'no fix available';
+          findings.push({
+            craft: advisory.craft,
+            version: crafts[advisory.craft],
+            severity,
+            rule: 'advisory',
+            message: `${advisory.malicious ? 'Malicious version: ' : ''}${advisory.title} (${fix})`,
+            file: 'craftdesk.lock',
+            evidence: advisory.url ? `${advisory.id} ${advisory.url}` : advisory.id,
+            advisory
+          });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`Could not fetch advisories from ${registryUrl}: ${message}`);
+      }
+    }
+
+    return { findings, errors };
+  }
+
+  /**
+   * Lists the files of a craft, skipping git data, dependencies and craftdesk metadata
+   *
+   * @param craftDir - Craft directory
+   * @returns Paths relative to the craft directory, with forward slashes, sorted
+   */
+  private async listFiles(craftDir: string): Promise<string[]> {
+    const files: string[] = [];
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      for (const entry of await fs.readdir(path.join(craftDir, relativeDir), { withFileTypes: true })) {
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (entry.name !== '.git' && entry.name !== 'node_modules') await walk(relativePath);
+        } else if (entry.isFile() && entry.name !== '.craftdesk-metadata.json') {
+          files.push(relativePath);
+        }
+      }
+    };
+
+    await walk('');
+    return files.sort();
+  }
+
+  private async readJson<T = unknown>(filePath: string): Promise<T | null> {
+    return fs.readJson(filePath).catch(() => null);
+  }
+
+  /**
+   * Reads a file if it is text
+   *
+   * @param filePath - File to read
+   * @returns File contents, or null for binary and oversized files
+   */
+  private async readText(filePath: string): Promise<string | null> {
+    const stat = await fs.stat(filePath);
+    if (stat.size > MAX_FILE_SIZE) return null;
+
+    const buffer = await fs.readFile(filePath);
+    if (buffer.subarray(0, 8000).includes(0)) return null;
+
+    return buffer.toString('utf-8');
+  }
+}
+
+/**
+ * Finds shell commands in markdown: lines of shell code fences and inline
+ * !`command` (run by Claude Code when a slash command is used)
+ *
+ * @param content - Markdown
+ * @returns Commands with their line number
+ */
+function findShellSnippets(content: string): Array<{ command: string; line: number; inline: boolean }> {
+  const snippets: Array<{ command: string; line: number; inline: boolean }> = [];
+  let fence: string | null = null;
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    const marker = text.match(/^\s*(```|~~~)\s*([\w-]*)/);
+    if (marker) {
+      fence = fence === null ? marker[2].toLowerCase() : null;
+      return;
+    }
+
+    if (fence !== null) {
+      if (SHELL_FENCES.has(fence) && text.trim()) {
+        snippets.push({ command: text.trim().replace(/^\$\s+/, ''), line: index + 1, inline: false });
+      }
+      return;
+    }
+
+    for (const match of text.matchAll(/!`([^`]+)`/g)) {
+      snippets.push({ command: match[1], line: index + 1, inline: true });
+    }
+  });
+
+  return snippets;
+}
+
+/**
+ * Finds http(s) URLs in text
+ *
+ * @param content - File contents
+ * @returns URLs with their lowercase host and line number
+ */
+function findUrls(content: string): Array<{ url: string; host: string; line: number }> {
+  const urls: Array<{ url: string; host: string; line: number }> = [];
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    for (const match of text.matchAll(/https?:\/\/[^\s"'`<>()[\]{}]+/g)) {
+      try {
+        urls.push({ url: match[0], host: new URL(match[0]).hostname.toLowerCase(), line: index + 1 });
+      } catch {
+        // Not a valid URL
+      }
+    }
+  });
+
+  return urls;
+}
+
+function isAllowedHost(host: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some(allowed => host === allowed.toLowerCase() || host.endsWith(`.${allowed.toLowerCase()}`));
+}
+
+function truncate(text: string): string {
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+// Export singleton instance
+export const auditor = new Auditor();
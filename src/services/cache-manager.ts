@@ -0,0 +1,495 @@
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import { execFile } from 'child_process';
+import { logger } from '../utils/logger';
+import { getStrongestHashes, isValidIntegrity, verifyIntegrity } from '../utils/crypto';
+
+/**
+ * A single entry in the global cache
+ */
+export interface CacheEntry {
+  /** Entry kind: a registry archive or a bare git mirror */
+  kind: 'archive' | 'git';
+  /** Cache key (hex digest of the archive's integrity, mirror directory name for git) */
+  key: string;
+  /** Absolute path of the cached file or directory */
+  path: string;
+  /** Size on disk in bytes */
+  size: number;
+  /** Last modification time */
+  modifiedAt: Date;
+  /** Remote URL (git mirrors only) */
+  url?: string;
+}
+
+/**
+ * Result of verifying the cache
+ */
+export interface CacheVerifyResult {
+  /** Entries that passed verification */
+  valid: CacheEntry[];
+  /** Entries that failed verification and were removed */
+  removed: CacheEntry[];
+}
+
+/**
+ * How the cache may use the network
+ *
+ * - `online`: cache first for archives; git mirrors fetch new refs once per process
+ * - `prefer-offline`: only contact a remote when the cache cannot serve the request
+ * - `offline`: never contact a remote; cache misses are errors
+ */
+export type NetworkMode = 'online' | 'prefer-offline' | 'offline';
+
+/** Archive cache key: a hex digest, prefixed with its algorithm unless it is sha256 */
+const ARCHIVE_KEY = /^(?:(sha384|sha512)-)?([a-f0-9]+)$/;
+
+/**
+ * Manages the global, content-addressed cache in ~/.craftdesk/cache
+ *
+ * Registry archives are stored by their integrity hash (the strongest one when
+ * there are several), so the same archive is downloaded once no matter how
+ * many projects use it. Git
+ * repositories are kept as bare mirrors keyed by URL; installs clone from
+ * the local mirror, and the mirror only fetches new refs from the remote.
+ *
+ * The cache location can be overridden with the CRAFTDESK_CACHE_DIR
+ * environment variable.
+ *
+ * @example
+ * ```typescript
+ * // Reuse a cached archive, or download and cache it
+ * if (!await cacheManager.restoreArchive(entry.integrity, archivePath)) {
+ *   await download(entry.resolved, archivePath);
+ *   await cacheManager.storeArchive(archivePath, entry.integrity);
+ * }
+ *
+ * // Clone from a local mirror instead of the network
+ * const mirror = await cacheManager.getGitMirror('https://github.com/company/auth.git');
+ * ```
+ */
+export class CacheManager {
+  /** Pending mirror operations per mirror directory, so concurrent installs don't race */
+  private mirrorLocks: Map<string, Promise<string>> = new Map();
+  /** Mirrors already fetched by this process */
+  private fetchedMirrors: Set<string> = new Set();
+  /** Network mode for the current command */
+  private networkMode: NetworkMode = 'online';
+
+  /**
+   * Sets how the cache may use the network for the rest of the process
+   *
+   * @param mode - Network mode (see {@link NetworkMode})
+   */
+  setNetworkMode(mode: NetworkMode): void {
+    this.networkMode = mode;
+  }
+
+  /**
+   * Gets the current network mode
+   *
+   * @returns The network mode set for this process (online by default)
+   */
+  getNetworkMode(): NetworkMode {
+    return this.networkMode;
+  }
+
+  /**
+   * Gets the root directory of the cache
+   *
+   * @returns CRAFTDESK_CACHE_DIR if set, otherwise ~/.craftdesk/cache
+   */
+  getCacheDir(): string {
+    return process.env.CRAFTDESK_CACHE_DIR
+      ? path.resolve(process.env.CRAFTDESK_CACHE_DIR)
+      : path.join(os.homedir(), '.craftdesk', 'cache');
+  }
+
+  /**
+   * Checks whether an integrity value can be used as an archive cache key
+   *
+   * Local crafts lock a hex directory hash and git crafts a commit; only
+   * registry archives are cached, and they are only reached with valid SRI
+   * integrity strings (or legacy hex SHA-256).
+   *
+   * @param integrity - Integrity value from a lock entry
+   * @returns True for valid integrity strings
+   */
+  isCacheable(integrity: string | undefined): integrity is string {
+    return isValidIntegrity(integrity);
+  }
+
+  /**
+   * Gets the cache key of an archive
+   *
+   * sha256 archives keep the plain hex keys of caches written before
+   * integrity strings had an algorithm prefix.
+   *
+   * @param integrity - Integrity string of the archive
+   * @returns Hex digest of its strongest hash, prefixed with the algorithm unless sha256
+   * @throws Error if the integrity string is invalid
+   */
+  getArchiveKey(integrity: string): string {
+    const [hash] = getStrongestHashes(integrity);
+    const hex = Buffer.from(hash.digest, 'base64').toString('hex');
+    return hash.algorithm === 'sha256' ? hex : `${hash.algorithm}-${hex}`;
+  }
+
+  /**
+   * Gets the cache path of an archive
+   *
+   * @param integrity - Integrity string of the archive
+   * @returns Path of the cached archive (which may not exist)
+   * @throws Error if the integrity string is invalid
+   */
+  getArchivePath(integrity: string): string {
+    const key = this.getArchiveKey(integrity);
+    const hex = key.slice(key.indexOf('-') + 1);
+    return path.join(this.getCacheDir(), 'archives', hex.slice(0, 2), `${key}.zip`);
+  }
+
+  /**
+   * Copies a cached archive to the given destination
+   *
+   * @param integrity - Integrity string of the archive
+   * @param destination - Where to copy the archive
+   * @returns True if the archive was cached and copied
+   */
+  async restoreArchive(integrity: string | undefined, destination: string): Promise<boolean> {
+    if (!this.isCacheable(integrity)) return false;
+
+    const cachedPath = this.getArchivePath(integrity);
+    if (!await fs.pathExists(cachedPath)) return false;
+
+    await fs.copy(cachedPath, destination);
+    logger.debug(`Using cached archive ${this.getArchiveKey(integrity).slice(0, 12)}...`);
+    return true;
+  }
+
+  /**
+   * Stores a verified archive in the cache
+   *
+   * The archive is written to a temporary file and renamed into place, so a
+   * concurrent reader never sees a partially written archive.
+   *
+   * @param archivePath - Path of the archive (already verified against integrity)
+   * @param integrity - Integrity string of the archive
+   */
+  async storeArchive(archivePath: string, integrity: string | undefined): Promise<void> {
+    if (!this.isCacheable(integrity)) return;
+
+    const cachedPath = this.getArchivePath(integrity);
+    if (await fs.pathExists(cachedPath)) return;
+
+    try {
+      await fs.ensureDir(path.dirname(cachedPath));
+      const tempPath = `${cachedPath}.tmp-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+      await fs.copy(archivePath, tempPath);
+      await fs.move(tempPath, cachedPath, { overwrite: true });
+    } catch (error) {
+      // A read-only or full cache must never fail an install
+      const message = error instanceof Error ? error.message : String(error);
+      logger.debug(`Failed to cache archive ${this.getArchiveKey(integrity).slice(0, 12)}...: ${message}`);
+    }
+  }
+
+  /**
+   * Checks whether an archive is cached
+   *
+   * @param integrity - Integrity string of the archive
+   * @returns True if the archive can be restored from the cache
+   */
+  async hasArchive(integrity: string | undefined): Promise<boolean> {
+    return this.isCacheable(integrity) && fs.pathExists(this.getArchivePath(integrity));
+  }
+
+  /**
+   * Removes an archive from the cache
+   *
+   * @param integrity - Integrity string of the archive
+   */
+  async removeArchive(integrity: string): Promise<void> {
+    if (!this.isCacheable(integrity)) return;
+    await fs.remove(this.getArchivePath(integrity));
+  }
+
+  /**
+   * Gets the cache path of a git mirror
+   *
+   * @param url - Git repository URL
+   * @returns Path of the bare mirror (which may not exist)
+   */
+  getGitMirrorPath(url: string): string {
+    const hash = crypto.createHash('sha256').update(url).digest('hex').slice(0, 16);
+    const repoName = path.basename(url.replace(/[/\\]+$/, ''), '.git').replace(/[^A-Za-z0-9._-]/g, '_') || 'repo';
+    return path.join(this.getCacheDir(), 'git', `${repoName}-${hash}.git`);
+  }
+
+  /**
+   * Checks whether a git repository (and optionally a commit) is mirrored
+   *
+   * @param url - Git repository URL
+   * @param commit - Commit that must be present
+   * @returns True if the mirror exists and contains the commit
+   */
+  async hasGitMirror(url: string, commit?: string): Promise<boolean> {
+    const mirrorPath = this.getGitMirrorPath(url);
+    if (!await fs.pathExists(mirrorPath)) return false;
+    return commit ? this.hasCommit(mirrorPath, commit) : true;
+  }
+
+  /**
+   * Returns an up-to-date bare mirror of a git repository
+   *
+   * Creates the mirror on first use. Afterwards a pinned commit is served
+   * without touching the remote if the mirror already has it; branches and
+   * tags fetch new refs at most once per process. In prefer-offline mode an
+   * existing mirror is only fetched when the commit is missing; in offline
+   * mode the remote is never contacted.
+   *
+   * @param url - Git repository URL
+   * @param commit - Commit that must be available (skips fetching if already mirrored)
+   * @returns Path of the local mirror, usable as a clone source
+   * @throws Error if the mirror cannot be created or fetched, or is not cached in offline mode
+   */
+  async getGitMirror(url: string, commit?: string): Promise<string> {
+    const mirrorPath = this.getGitMirrorPath(url);
+
+    // Serialize operations on the same mirror (e.g. several crafts from one monorepo)
+    const previous = this.mirrorLocks.get(mirrorPath) || Promise.resolve(mirrorPath);
+    const current = previous
+      .catch(() => mirrorPath)
+      .then(() => this.updateGitMirror(url, mirrorPath, commit));
+    this.mirrorLocks.set(mirrorPath, current);
+
+    return current;
+  }
+
+  /**
+   * Lists every cached archive and git mirror
+   *
+   * @returns Cache entries, archives first
+   */
+  async list(): Promise<CacheEntry[]> {
+    const entries: CacheEntry[] = [];
+    const archivesDir = path.join(this.getCacheDir(), 'archives');
+    const gitDir = path.join(this.getCacheDir(), 'git');
+
+    if (await fs.pathExists(archivesDir)) {
+      for (const shard of await fs.readdir(archivesDir)) {
+        const shardDir = path.join(archivesDir, shard);
+        if (!(await fs.stat(shardDir)).isDirectory()) continue;
+
+        for (const file of await fs.readdir(shardDir)) {
+          if (!file.endsWith('.zip')) continue;
+          const filePath = path.join(shardDir, file);
+          const stat = await fs.stat(filePath);
+          entries.push({
+            kind: 'archive',
+            key: path.basename(file, '.zip'),
+            path: filePath,
+            size: stat.size,
+            modifiedAt: stat.mtime
+          });
+        }
+      }
+    }
+
+    if (await fs.pathExists(gitDir)) {
+      for (const name of await fs.readdir(gitDir)) {
+        if (!name.endsWith('.git')) continue;
+        const mirrorPath = path.join(gitDir, name);
+        const stat = await fs.stat(mirrorPath);
+        entries.push({
+          kind: 'git',
+          key: name,
+          path: mirrorPath,
+          size: await getDirectorySize(mirrorPath),
+          modifiedAt: stat.mtime,
+          url: await runGit(['config', '--get', 'remote.origin.url'], mirrorPath).catch(() => undefined)
+        });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Verifies every cache entry and removes the ones that are corrupt
+   *
+   * Archives are re-hashed and compared with the digest in their key; git mirrors are
+   * checked with `git fsck --connectivity-only`.
+   *
+   * @returns Valid and removed entries
+   */
+  async verify(): Promise<CacheVerifyResult> {
+    const result: CacheVerifyResult = { valid: [], removed: [] };
+
+    for (const entry of await this.list()) {
+      let ok: boolean;
+      if (entry.kind === 'archive') {
+        const integrity = integrityFromArchiveKey(entry.key);
+        ok = integrity !== null && await verifyIntegrity(entry.path, integrity);
+      } else {
+        ok = await runGit(['fsck', '--connectivity-only'], entry.path).then(() => true, () => false);
+      }
+
+      if (ok) {
+        result.valid.push(entry);
+      } else {
+        await fs.remove(entry.path);
+        this.fetchedMirrors.delete(entry.path);
+        result.removed.push(entry);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Removes the whole cache
+   *
+   * @returns Number of bytes freed
+   */
+  async clean(): Promise<number> {
+    const cacheDir = this.getCacheDir();
+    if (!await fs.pathExists(cacheDir)) return 0;
+
+    const size = await getDirectorySize(cacheDir);
+    await fs.remove(cacheDir);
+    this.fetchedMirrors.clear();
+    return size;
+  }
+
+  /**
+   * Gets the total size of the cache
+   *
+   * @returns Size on disk in bytes
+   */
+  async getSize(): Promise<number> {
+    const cacheDir = this.getCacheDir();
+    return await fs.pathExists(cacheDir) ? getDirectorySize(cacheDir) : 0;
+  }
+
+  /**
+   * Creates or fetches a mirror
+   *
+   * @param url - Git repository URL
+   * @param mirrorPath - Path of the mirror
+   * @param commit - Commit that must be available
+   * @returns Path of the mirror
+   */
+  private async updateGitMirror(url: string, mirrorPath: string, commit?: string): Promise<string> {
+    if (this.networkMode === 'offline') {
+      if (!await fs.pathExists(mirrorPath)) {
+        throw new Error(`${url} is not in the cache (offline mode)`);
+      }
+      if (commit && !await this.hasCommit(mirrorPath, commit)) {
+        throw new Error(`Commit ${commit.slice(0, 7)} of ${url} is not in the cache (offline mode)`);
+      }
+      return mirrorPath;
+    }
+
+    if (!await fs.pathExists(mirrorPath)) {
+      logger.debug(`Creating git mirror of ${url}`);
+      await fs.ensureDir(path.dirname(mirrorPath));
+
+      // Clone next to the final location and rename, so an interrupted clone never looks complete
+      const tempPath = `${mirrorPath}.tmp-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+      try {
+        await runGit(['clone', '--mirror', '--quiet', url, tempPath]);
+        if (await fs.pathExists(mirrorPath)) {
+          // Another process created the mirror in the meantime
+          await fs.remove(tempPath);
+        } else {
+          await fs.move(tempPath, mirrorPath);
+        }
+      } catch (error) {
+        await fs.remove(tempPath);
+        throw error;
+      }
+
+      this.fetchedMirrors.add(mirrorPath);
+      return mirrorPath;
+    }
+
+    if (commit) {
+      if (await this.hasCommit(mirrorPath, commit)) {
+        logger.debug(`Using cached mirror of ${url} (${commit.slice(0, 7)} already present)`);
+        return mirrorPath;
+      }
+    } else if (this.fetchedMirrors.has(mirrorPath) || this.networkMode === 'prefer-offline') {
+      return mirrorPath;
+    }
+
+    logger.debug(`Fetching new refs for ${url}`);
+    await runGit(['fetch', '--prune', '--quiet', 'origin'], mirrorPath);
+    this.fetchedMirrors.add(mirrorPath);
+
+    return mirrorPath;
+  }
+
+  /**
+   * Checks whether a mirror contains a commit
+   *
+   * @param mirrorPath - Path of the mirror
+   * @param commit - Full or abbreviated commit hash
+   * @returns True if the commit exists in the mirror
+   */
+  private async hasCommit(mirrorPath: string, commit: string): Promise<boolean> {
+    return runGit(['cat-file', '-e', `${commit}^{commit}`], mirrorPath).then(() => true, () => false);
+  }
+}
+
+/**
+ * Runs git asynchronously with arguments passed as an array (no shell)
+ *
+ * @param args - Git arguments
+ * @param cwd - Working directory
+ * @returns Trimmed stdout
+ */
+function runGit(args: string[], cwd?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(String(stdout).trim());
+      }
+    });
+  });
+}
+
+/**
+ * Calculates the total size of all files below a directory
+ *
+ * @param dir - Directory to measure
+ * @returns Size in bytes
+ */
+async function getDirectorySize(dir: string): Promise<number> {
+  let total = 0;
+  for (const name of await fs.readdir(dir)) {
+    const stat = await fs.lstat(path.join(dir, name));
+    total += stat.isDirectory() ? await getDirectorySize(path.join(dir, name)) : stat.size;
+  }
+  return total;
+}
+
+/**
+ * Turns an archive cache key back into an integrity string
+ *
+ * @param key - Key from `getArchiveKey` (the archive's file name without .zip)
+ * @returns The integrity string, or null if the key is not a valid digest
+ */
+function integrityFromArchiveKey(key: string): string | null {
+  const match = key.match(ARCHIVE_KEY);
+  if (!match) return null;
+
+  const integrity = `${match[1] || 'sha256'}-${Buffer.from(match[2], 'hex').toString('base64')}`;
+  return isValidIntegrity(integrity) ? integrity : null;
+}
+
+// Export singleton instance
+export const cacheManager = new CacheManager();
@@ -2,8 +2,15 @@ import path from 'path';
 import fs from 'fs-extra';
 import { execFileSync } from 'child_process';
 import { logger } from '../utils/logger';
+import { cacheManager } from './cache-manager';
+import { intersectRanges, parseVersion, satisfies } from '../utils/semver';
+import { calculateDirectoryChecksum } from '../utils/crypto';
+import { parseLocalDependency, formatLocalDependency, toLockedLocalPath } from '../utils/local-dependency';
+import { buildDependencyTree } from '../utils/dependency-tree';
+import { LOCKFILE_VERSION } from '../utils/lockfile-migration';
 import { CraftDeskJson, DependencyConfig } from '../types/craftdesk-json';
-import type { LockEntry } from '../types/craftdesk-lock';
+import type { LockEntry, DependencyTree } from '../types/craftdesk-lock';
+import type { Workspace } from '../utils/workspaces';
 
 /**
  * Information about a git dependency
@@ -96,22 +103,22 @@ export class GitResolver {
     try {
       await fs.ensureDir(repoTempDir);
 
-      // Clone the repository
+      // Clone from the local mirror in the global cache (fetches from the remote only when needed)
       logger.debug(`Cloning ${gitInfo.url} to analyze dependencies...`);
+      const mirrorPath = await cacheManager.getGitMirror(gitInfo.url, gitInfo.commit);
 
-      const cloneArgs = ['clone', '--depth', '1'];
+      const cloneArgs = ['clone', '--quiet'];
       if (gitInfo.branch) {
         cloneArgs.push('-b', gitInfo.branch);
       } else if (gitInfo.tag) {
         cloneArgs.push('-b', gitInfo.tag);
       }
-      cloneArgs.push(gitInfo.url, repoTempDir);
+      cloneArgs.push(mirrorPath, repoTempDir);
 
       execFileSync('git', cloneArgs, { stdio: 'pipe' });
 
-      // If specific commit, checkout that commit
+      // If specific commit, checkout that commit (local clones of the mirror have full history)
       if (gitInfo.commit) {
-        execFileSync('git', ['fetch', '--unshallow'], { cwd: repoTempDir, stdio: 'pipe' });
         execFileSync('git', ['checkout', gitInfo.commit], { cwd: repoTempDir, stdio: 'pipe' });
       }
 
@@ -214,6 +221,44 @@ export class GitResolver {
     }
   }
 
+  /**
+   * Reads the craftdesk.json of a local craft directory
+   *
+   * Like git dependencies without a craftdesk.json, crafts without one get
+   * minimal metadata with a type inferred from the directory.
+   *
+   * @param directory - Absolute path of the craft directory
+   * @returns The craft's craftdesk.json, or generated metadata
+   * @throws Error if the directory does not exist
+   *
+   * @example
+   * ```typescript
+   * const craftJson = await resolver.resolveLocalDependency('/work/skills/my-skill');
+   * console.log(craftJson.dependencies); // Resolved relative to /work/skills/my-skill
+   * ```
+   */
+  async resolveLocalDependency(directory: string): Promise<CraftDeskJson> {
+    const stat = await fs.stat(directory).catch(() => null);
+    if (!stat?.isDirectory()) {
+      throw new Error(`Local craft directory not found: ${directory}`);
+    }
+
+    const craftPath = path.join(directory, 'craftdesk.json');
+    if (await fs.pathExists(craftPath)) {
+      const craftJson = await fs.readJson(craftPath) as CraftDeskJson;
+      logger.debug(`Found craftdesk.json in ${directory}: ${craftJson.name}@${craftJson.version}`);
+      return craftJson;
+    }
+
+    return {
+      name: path.basename(directory),
+      version: '0.0.0',
+      type: await this.inferCraftType(directory),
+      description: `Local dependency from ${directory}`,
+      dependencies: {}
+    };
+  }
+
   /**
    * Infers the craft type from a filename
    *
@@ -285,10 +330,31 @@ export class GitResolver {
    * Resolves all dependencies including transitive dependencies from git sources
    *
    * Uses a breadth-first traversal algorithm to resolve dependencies recursively.
-   * Tracks visited packages to avoid circular dependencies.
+   * Tracks visited packages to avoid circular dependencies, while still recording
+   * every constraint placed on a craft so incompatible requirements are detected.
+   *
+   * Optional dependencies (and everything they depend on) that fail to resolve
+   * are skipped with a warning. Crafts only required as optional dependencies are
+   * marked `optional` in the lockfile. Peer dependencies are recorded on their
+   * lock entry but never resolved: the project has to provide them.
+   *
+   * Overrides replace the constraint a craft declares on a dependency before
+   * it is queued. A `parent>child` key wins over a plain craft name; overrides
+   * never apply to the project's own dependencies.
+   *
+   * A registry range on a workspace craft that the workspace's version
+   * satisfies is resolved by linking the workspace directory instead.
+   *
+   * The lockfile records the parent/child graph as a dependency tree. Registry
+   * crafts appear in it with their requested range until they are fetched.
    *
    * @param dependencies - Map of dependency names to version strings or config objects
+   * @param options - Resolution options
+   * @param options.optionalDependencies - The project's optional dependencies
+   * @param options.overrides - The project's overrides
+   * @param options.workspaces - The project's workspace crafts
    * @returns Object containing resolved dependencies and generated lockfile
+   * @throws Error with a conflict report if crafts require incompatible versions of the same dependency
    *
    * @example
    * ```typescript
@@ -304,101 +370,518 @@ export class GitResolver {
    * console.log(result.lockfile); // Generated lockfile structure
    * ```
    */
-  async resolveAllDependencies(dependencies: Record<string, string | DependencyConfig>): Promise<{
+  async resolveAllDependencies(
+    dependencies: Record<string, string | DependencyConfig>,
+    options: {
+      optionalDependencies?: Record<string, string | DependencyConfig>;
+      overrides?: Record<string, string | DependencyConfig>;
+      workspaces?: Workspace[];
+    } = {}
+  ): Promise<{
     resolved: Record<string, LockEntry>;
-    lockfile: { version: string; lockfileVersion: number; generatedAt: string; crafts: Record<string, LockEntry> };
+    lockfile: {
+      version: string;
+      lockfileVersion: number;
+      generatedAt: string;
+      crafts: Record<string, LockEntry>;
+      overrides?: Record<string, string | DependencyConfig>;
+      tree: DependencyTree;
+    };
   }> {
+    const { optionalDependencies = {}, overrides = {} } = options;
+    const overrideRules = parseOverrides(overrides);
+    const workspaces = new Map((options.workspaces || []).map(workspace => [workspace.name, workspace]));
     const resolved: Record<string, LockEntry> = {};
     // Queue of dependencies to resolve (breadth-first traversal)
-    const toResolve: Array<[string, string | DependencyConfig]> = Object.entries(dependencies);
+    const toResolve: DependencyRequest[] = [
+      ...Object.entries(dependencies).map(([name, dep]) => ({ name, dep, optional: false })),
+      ...Object.entries(optionalDependencies).map(([name, dep]) => ({ name, dep, optional: true }))
+    ].map(request => ({ ...request, path: [ROOT_REQUESTER], baseDir: process.cwd() }));
     // Track visited packages to prevent infinite loops from circular dependencies
     const visited = new Set<string>();
+    // Every constraint placed on each craft, for conflict detection
+    const requests = new Map<string, DependencyRequest[]>();
 
     // Process queue until all dependencies are resolved
     while (toResolve.length > 0) {
-      const item = toResolve.shift();
-      if (!item) break; // Should never happen due to length check, but satisfies TypeScript
-      const [name, dep] = item;
+      const request = toResolve.shift();
+      if (!request) break; // Should never happen due to length check, but satisfies TypeScript
+      linkWorkspace(request, workspaces);
+      const { name, dep } = request;
+
+      const existing = requests.get(name);
+      if (existing) {
+        existing.push(request);
+      } else {
+        requests.set(name, [request]);
+      }
 
       // Skip if already resolved (handles duplicates and circular deps)
       if (visited.has(name)) continue;
       visited.add(name);
 
-      // Determine if this is a git or registry dependency
-      if (typeof dep === 'object' && dep.git) {
-        // Git dependency - clone repository and extract metadata
-        const gitInfo = await this.resolveGitDependency({
-          url: dep.git,
-          branch: dep.branch,
-          tag: dep.tag,
-          commit: dep.commit,
-          path: dep.path,
-          file: dep.file
-        });
+      try {
+        const local = parseLocalDependency(dep);
+
+        // Determine if this is a git, local or registry dependency
+        if (typeof dep === 'object' && dep.git) {
+          // Git dependency - clone repository and extract metadata
+          const gitInfo = await this.resolveGitDependency({
+            url: dep.git,
+            branch: dep.branch,
+            tag: dep.tag,
+            commit: dep.commit,
+            path: dep.path,
+            file: dep.file
+          });
+
+          const lockEntry: LockEntry = {
+            version: gitInfo.craftDeskJson?.version || '0.0.0',
+            resolved: gitInfo.url,
+            integrity: gitInfo.resolvedCommit || 'git',
+            type: gitInfo.craftDeskJson?.type || 'skill',
+            author: gitInfo.craftDeskJson?.author,
+            git: gitInfo.url,
+            ...(gitInfo.branch && { branch: gitInfo.branch }),
+            ...(gitInfo.tag && { tag: gitInfo.tag }),
+            ...(gitInfo.commit && { commit: gitInfo.resolvedCommit }),
+            ...(gitInfo.path && { path: gitInfo.path }),
+            ...(gitInfo.file && { file: gitInfo.file })
+          };
 
-        const lockEntry: LockEntry = {
-          version: gitInfo.craftDeskJson?.version || '0.0.0',
-          resolved: gitInfo.url,
-          integrity: gitInfo.resolvedCommit || 'git',
-          type: gitInfo.craftDeskJson?.type || 'skill',
-          author: gitInfo.craftDeskJson?.author,
-          git: gitInfo.url,
-          ...(gitInfo.branch && { branch: gitInfo.branch }),
-          ...(gitInfo.tag && { tag: gitInfo.tag }),
-          ...(gitInfo.commit && { commit: gitInfo.resolvedCommit }),
-          ...(gitInfo.path && { path: gitInfo.path }),
-          ...(gitInfo.file && { file: gitInfo.file })
-        };
-
-        // Only add dependencies if they exist
-        if (gitInfo.craftDeskJson?.dependencies && Object.keys(gitInfo.craftDeskJson.dependencies).length > 0) {
-          lockEntry.dependencies = Object.fromEntries(
-            Object.entries(gitInfo.craftDeskJson.dependencies).map(([k, v]) => {
-              const versionStr = typeof v === 'string' ? v : v.version || '*';
-              return [k, versionStr];
-            })
-          );
-        }
+          // Local paths inside a repository cannot be resolved, so transitive deps get no base directory
+          resolved[name] = this.addTransitiveDependencies(lockEntry, gitInfo.craftDeskJson, { ...request, baseDir: undefined }, toResolve, overrideRules);
+        } else if (local) {
+          // Local dependency - read craftdesk.json straight from the directory
+          if (!request.baseDir) {
+            const requester = request.path[request.path.length - 1];
+            throw new Error(`Local dependency ${name} (${formatLocalDependency(local)}) of ${requester} can only be declared by the project or another local craft`);
+          }
 
-        resolved[name] = lockEntry;
+          const directory = path.resolve(request.baseDir, local.path);
+          const craftJson = await this.resolveLocalDependency(directory);
+          const lockedPath = toLockedLocalPath(directory);
+
+          const lockEntry: LockEntry = {
+            version: craftJson.version || '0.0.0',
+            resolved: `file:${lockedPath}`,
+            integrity: await calculateDirectoryChecksum(directory),
+            type: craftJson.type || 'skill',
+            author: craftJson.author,
+            local: lockedPath,
+            ...(local.link && { link: true })
+          };
 
-        // Add transitive dependencies to the resolution queue
-        // This enables recursive dependency resolution
-        if (gitInfo.craftDeskJson?.dependencies) {
-          for (const [depName, depVersion] of Object.entries(gitInfo.craftDeskJson.dependencies)) {
-            // Only add if not already visited (avoids redundant resolution)
-            if (!visited.has(depName)) {
-              toResolve.push([depName, depVersion]);
-            }
-          }
+          // Relative paths in a local craft's own dependencies are relative to its directory
+          resolved[name] = this.addTransitiveDependencies(lockEntry, craftJson, { ...request, baseDir: directory }, toResolve, overrideRules);
+        } else {
+          // Registry dependency - create placeholder entry for resolution by registry client
+          // The actual version resolution happens via the registry API
+          const version = typeof dep === 'string' ? dep : (dep.version || '*');
+          const registry = typeof dep === 'object' ? dep.registry : undefined;
+
+          // Create a minimal LockEntry that will be filled in by registry resolution
+          resolved[name] = {
+            version,
+            resolved: registry || 'registry',
+            integrity: 'pending',
+            type: 'skill', // Default, will be updated by registry
+            ...(registry && { registry })
+          };
         }
-      } else {
-        // Registry dependency - create placeholder entry for resolution by registry client
-        // The actual version resolution happens via the registry API
-        const version = typeof dep === 'string' ? dep : (dep.version || '*');
-        const registry = typeof dep === 'object' ? dep.registry : undefined;
-
-        // Create a minimal LockEntry that will be filled in by registry resolution
-        resolved[name] = {
-          version,
-          resolved: registry || 'registry',
-          integrity: 'pending',
-          type: 'skill', // Default, will be updated by registry
-          ...(registry && { registry })
-        };
+
+        if (request.override) {
+          resolved[name].override = request.override;
+        }
+      } catch (error) {
+        if (!request.optional) throw error;
+
+        // A later required request for the same craft resolves it again (and fails loudly)
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Skipping optional dependency ${name}: ${message}`);
+        visited.delete(name);
       }
     }
 
+    this.markOptionalCrafts(resolved, requests);
+    this.markCollectionMembers(resolved, requests);
+    this.reconcileConstraints(resolved, requests);
+
     return {
       resolved,
       lockfile: {
         version: '1.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: LOCKFILE_VERSION,
         generatedAt: new Date().toISOString(),
-        crafts: resolved
+        crafts: resolved,
+        ...(overrideRules.length > 0 && { overrides }),
+        tree: buildDependencyTree([...Object.keys(dependencies), ...Object.keys(optionalDependencies)], { crafts: resolved })
       }
     };
   }
+
+  /**
+   * Records a craft's dependencies on its lock entry and queues them for resolution
+   *
+   * Already visited crafts are still queued so their constraint is checked,
+   * but not re-resolved.
+   *
+   * @param lockEntry - Lock entry of the resolved craft, updated in place
+   * @param craftJson - The craft's craftdesk.json
+   * @param request - Request that resolved the craft (its base directory is passed on to local dependencies)
+   * @param toResolve - Resolution queue
+   * @param overrideRules - Overrides to apply to the craft's dependencies
+   * @returns The lock entry (its dependencies record the constraints after overrides)
+   * @private
+   */
+  private addTransitiveDependencies(
+    lockEntry: LockEntry,
+    craftJson: CraftDeskJson | undefined,
+    request: DependencyRequest,
+    toResolve: DependencyRequest[],
+    overrideRules: OverrideRule[]
+  ): LockEntry {
+    const requesters = [...request.path.slice(1), request.name];
+    const overridden = new Map<string, OverrideRule>();
+    const withOverrides = (deps: Record<string, string | DependencyConfig>) => Object.fromEntries(
+      Object.entries(deps).map(([depName, dep]) => {
+        const rule = findOverride(overrideRules, requesters, depName);
+        if (rule) overridden.set(depName, rule);
+        return [depName, rule ? rule.dep : dep];
+      })
+    );
+    const dependencies = withOverrides(craftJson?.dependencies || {});
+    const optionalDependencies = withOverrides(craftJson?.optionalDependencies || {});
+    const members = craftJson?.type === 'collection'
+      ? withOverrides(Object.fromEntries(
+        Object.entries(craftJson.members || {}).map(([member, dep]) => [member, resolveMemberSource(dep, lockEntry, request.name)])
+      ))
+      : {};
+
+    // Only add dependencies if they exist
+    if (Object.keys(dependencies).length > 0) {
+      lockEntry.dependencies = describeConstraints(dependencies);
+    }
+    if (Object.keys(optionalDependencies).length > 0) {
+      lockEntry.optionalDependencies = describeConstraints(optionalDependencies);
+    }
+    if (Object.keys(craftJson?.peerDependencies || {}).length > 0) {
+      lockEntry.peerDependencies = describeConstraints(craftJson?.peerDependencies || {});
+    }
+    if (Object.keys(members).length > 0) {
+      lockEntry.members = describeConstraints(members);
+    }
+
+    // Everything an optional craft depends on is optional too
+    const queues = [
+      [dependencies, request.optional, false],
+      [optionalDependencies, true, false],
+      [members, request.optional, true]
+    ] as const;
+    for (const [deps, optional, member] of queues) {
+      for (const [depName, depVersion] of Object.entries(deps)) {
+        const override = overridden.get(depName)?.key;
+        toResolve.push({
+          name: depName,
+          dep: depVersion,
+          path: [...request.path, request.name],
+          // Overrides are declared in the project's craftdesk.json, so their local paths are relative to it
+          baseDir: override ? process.cwd() : request.baseDir,
+          optional,
+          ...(override && { override }),
+          ...(member && { collection: request.name })
+        });
+      }
+    }
+
+    return lockEntry;
+  }
+
+  /**
+   * Marks the crafts that no request required as `optional`
+   *
+   * @param resolved - Resolved lock entries, updated in place
+   * @param requests - Every request made for each craft
+   * @private
+   */
+  private markOptionalCrafts(
+    resolved: Record<string, LockEntry>,
+    requests: Map<string, DependencyRequest[]>
+  ): void {
+    for (const [name, craftRequests] of requests) {
+      if (resolved[name] && craftRequests.every(r => r.optional)) {
+        resolved[name].optional = true;
+      }
+    }
+  }
+
+  /**
+   * Records on each member the collections that list it
+   *
+   * @param resolved - Resolved lock entries, updated in place
+   * @param requests - Every request made for each craft
+   * @private
+   */
+  private markCollectionMembers(
+    resolved: Record<string, LockEntry>,
+    requests: Map<string, DependencyRequest[]>
+  ): void {
+    for (const [name, craftRequests] of requests) {
+      const collections = [...new Set(craftRequests.map(r => r.collection).filter((c): c is string => !!c))];
+      if (resolved[name] && collections.length > 0) {
+        resolved[name].memberOf = collections.sort();
+      }
+    }
+  }
+
+  /**
+   * Checks every craft that was required more than once against all of its constraints
+   *
+   * Registry crafts get the intersection of all requested ranges as their
+   * version (so the registry picks a version satisfying everyone). Git and
+   * local crafts must be requested from the same source, and their version
+   * must satisfy any ranges other crafts declared for them.
+   *
+   * @param resolved - Resolved lock entries, updated in place
+   * @param requests - Every request made for each craft
+   * @throws Error listing each conflict with who required what, and via which path
+   * @private
+   */
+  private reconcileConstraints(
+    resolved: Record<string, LockEntry>,
+    requests: Map<string, DependencyRequest[]>
+  ): void {
+    const conflicts: Array<{ name: string; requests: DependencyRequest[] }> = [];
+
+    for (const [name, craftRequests] of requests) {
+      const entry = resolved[name];
+      // Skipped optional crafts have nothing to reconcile
+      if (craftRequests.length < 2 || !entry) continue;
+
+      const sources = new Set(
+        craftRequests
+          .map(describeSource)
+          .filter((source): source is string => source !== null)
+      );
+      const ranges = craftRequests
+        .filter(r => describeSource(r) === null)
+        .map(r => typeof r.dep === 'string' ? r.dep : (r.dep.version || '*'));
+
+      if (entry.git || entry.local) {
+        const version = parseVersion(entry.version) ? entry.version : null;
+        const rangesSatisfied = ranges.every(range => !version || satisfies(version, range) || range === '*');
+        if (sources.size > 1 || !rangesSatisfied) {
+          conflicts.push({ name, requests: craftRequests });
+        }
+        continue;
+      }
+
+      const combined = sources.size === 0 ? intersectRanges(ranges) : null;
+      if (combined === null) {
+        conflicts.push({ name, requests: craftRequests });
+      } else if (combined !== entry.version) {
+        logger.debug(`Combined constraints for ${name}: ${combined}`);
+        entry.version = combined;
+      }
+    }
+
+    if (conflicts.length > 0) {
+      throw new Error(formatConflictReport(conflicts));
+    }
+  }
+}
+
+/** Name used for the project manifest in dependency paths */
+const ROOT_REQUESTER = 'craftdesk.json';
+
+/**
+ * A single request for a craft made while walking the dependency graph
+ */
+interface DependencyRequest {
+  /** Craft name */
+  name: string;
+  /** Requested version range or source configuration */
+  dep: string | DependencyConfig;
+  /** Chain of requesters from the root manifest to the craft that made this request */
+  path: string[];
+  /** Directory local paths are relative to (the project or the requesting local craft; unset for git crafts) */
+  baseDir?: string;
+  /** Whether the request comes from optionalDependencies (directly or through an optional craft) */
+  optional?: boolean;
+  /** Override key that replaced the constraint declared by the requester */
+  override?: string;
+  /** Collection that lists the craft as a member */
+  collection?: string;
+}
+
+/**
+ * An entry of the project's overrides
+ */
+interface OverrideRule {
+  /** Key as written in craftdesk.json (e.g. 'auth>helper') */
+  key: string;
+  /** Craft names the key matches, ending with the overridden craft */
+  path: string[];
+  /** Constraint used instead of the declared one */
+  dep: string | DependencyConfig;
+}
+
+/**
+ * Parses the overrides of craftdesk.json
+ *
+ * @param overrides - Override keys mapped to constraints
+ * @returns Rules ordered from the most to the least specific path
+ * @throws Error if a key has an empty segment
+ */
+function parseOverrides(overrides: Record<string, string | DependencyConfig>): OverrideRule[] {
+  return Object.entries(overrides)
+    .map(([key, dep]) => {
+      const segments = key.split('>').map(segment => segment.trim());
+      if (segments.some(segment => !segment)) {
+        throw new Error(`Invalid override "${key}": expected a craft name or a parent>child path`);
+      }
+      return { key, path: segments, dep };
+    })
+    .sort((a, b) => b.path.length - a.path.length);
+}
+
+/**
+ * Finds the most specific override for a dependency
+ *
+ * @param rules - Rules from `parseOverrides`
+ * @param requesters - Crafts from the project's dependency down to the craft declaring the dependency
+ * @param name - Name of the dependency
+ * @returns The matching rule, if any
+ */
+function findOverride(rules: OverrideRule[], requesters: string[], name: string): OverrideRule | undefined {
+  const chain = [...requesters, name];
+  return rules.find(rule =>
+    rule.path.length <= chain.length &&
+    rule.path.every((segment, i) => segment === chain[chain.length - rule.path.length + i])
+  );
+}
+
+/**
+ * Describes a dependency constraint as a single string for lockfiles and reports
+ *
+ * @param dep - Version string or dependency configuration
+ * @returns The version range, a git source descriptor (e.g., 'git+https://...#v1.0.0'), or a local path (e.g., 'file:../my-skill')
+ */
+function describeConstraint(dep: string | DependencyConfig): string {
+  const local = parseLocalDependency(dep);
+  if (local) return formatLocalDependency(local);
+  if (typeof dep === 'string') return dep;
+  if (!dep.git) return dep.version || '*';
+
+  const ref = dep.commit || dep.tag || dep.branch;
+  const subpath = dep.path ? `#path:${dep.path}` : dep.file ? `#file:${dep.file}` : '';
+  return `git+${dep.git}${ref ? `#${ref}` : ''}${subpath}`;
+}
+
+/**
+ * Points a local member of a git collection at the same repository
+ *
+ * Members of local collections keep their paths, which are resolved against
+ * the collection's directory. In a git collection, a member path such as
+ * `file:skills/lint` becomes a subdirectory of the collection's repository,
+ * pinned to the commit the collection was resolved at.
+ *
+ * @param dep - Member as declared by the collection
+ * @param collection - Lock entry of the collection
+ * @param name - Name of the collection (for errors)
+ * @returns The member's source
+ * @throws Error if the member path leaves the repository
+ */
+function resolveMemberSource(dep: string | DependencyConfig, collection: LockEntry, name: string): string | DependencyConfig {
+  const local = parseLocalDependency(dep);
+  if (!local || !collection.git) return dep;
+
+  const memberPath = path.posix.normalize(path.posix.join(collection.path || '', local.path));
+  if (memberPath === '..' || memberPath.startsWith('../') || path.posix.isAbsolute(memberPath)) {
+    throw new Error(`Member ${formatLocalDependency(local)} of collection ${name} is outside its repository`);
+  }
+
+  const commit = collection.commit || (/^[0-9a-f]{40}$/.test(collection.integrity) ? collection.integrity : undefined);
+  return {
+    git: collection.git,
+    ...(commit ? { commit } : collection.tag ? { tag: collection.tag } : { branch: collection.branch }),
+    ...(memberPath !== '.' && { path: memberPath })
+  };
+}
+
+/**
+ * Points a request for a workspace craft at the workspace directory
+ *
+ * Only registry ranges the workspace's version satisfies are replaced; git
+ * and local sources, and ranges the workspace doesn't satisfy, are kept.
+ *
+ * @param request - Dependency request, updated in place
+ * @param workspaces - Workspaces by craft name
+ */
+function linkWorkspace(request: DependencyRequest, workspaces: Map<string, Workspace>): void {
+  const workspace = workspaces.get(request.name);
+  const { dep } = request;
+  if (!workspace || parseLocalDependency(dep) || (typeof dep === 'object' && dep.git)) return;
+
+  const range = typeof dep === 'string' ? dep : (dep.version || '*');
+  const version = workspace.craftDeskJson.version;
+  if (range !== '*' && !(version && satisfies(version, range))) {
+    logger.debug(`Workspace ${workspace.name}@${version} does not satisfy ${range}, resolving from the registry`);
+    return;
+  }
+
+  request.dep = `link:${toLockedLocalPath(workspace.directory)}`;
+  request.baseDir = process.cwd();
+}
+
+/**
+ * Describes every constraint in a dependency map
+ *
+ * @param deps - Dependency names mapped to version strings or configuration objects
+ * @returns Dependency names mapped to constraint strings
+ */
+function describeConstraints(deps: Record<string, string | DependencyConfig>): Record<string, string> {
+  return Object.fromEntries(Object.entries(deps).map(([name, dep]) => [name, describeConstraint(dep)]));
+}
+
+/**
+ * Identifies the source a request pins a craft to, if any
+ *
+ * Local paths are resolved against the requester's directory, so the same
+ * directory referenced from different crafts counts as one source.
+ *
+ * @param request - Dependency request
+ * @returns A git or local source descriptor, or null for registry ranges
+ */
+function describeSource(request: DependencyRequest): string | null {
+  const local = parseLocalDependency(request.dep);
+  if (local) {
+    return `local:${request.baseDir ? path.resolve(request.baseDir, local.path) : local.path}`;
+  }
+  return typeof request.dep === 'object' && request.dep.git ? describeConstraint(request.dep) : null;
+}
+
+/**
+ * Builds a human-readable report of version conflicts
+ *
+ * @param conflicts - Crafts with incompatible requirements
+ * @returns Multi-line report
+ */
+function formatConflictReport(conflicts: Array<{ name: string; requests: DependencyRequest[] }>): string {
+  const lines = [`Found ${conflicts.length} version conflict(s):`];
+
+  for (const { name, requests } of conflicts) {
+    lines.push('', `  ${name}`);
+    for (const request of requests) {
+      const requester = request.path[request.path.length - 1];
+      const via = request.path.length > 1 ? ` (via ${[...request.path, name].join(' > ')})` : '';
+      const override = request.override ? ` [override "${request.override}"]` : '';
+      lines.push(`    ${describeConstraint(request.dep)} required by ${requester}${via}${override}`);
+    }
+  }
+
+  lines.push('', 'Align the versions in craftdesk.json or in the crafts that require them.');
+  return lines.join('\n');
 }
 
 export const gitResolver = new GitResolver();
\ No newline at end of file
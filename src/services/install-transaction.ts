@@ -0,0 +1,178 @@
+/**
+ * InstallTransaction - Stages an install and swaps it into place atomically
+ *
+ * Crafts are fetched into a staging directory next to their final location.
+ * Only once every craft has been fetched are they moved into place, with the
+ * directories they replace kept as backups. Shared files (settings.json,
+ * .gitignore files) are snapshotted up front, so a failure at any point
+ * restores the install directory to its previous state.
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import { logger } from '../utils/logger';
+
+/** Name of the directory crafts are fetched into before being swapped into place */
+export const STAGING_DIR = '.craftdesk-staging';
+
+/** Name of the directory replaced crafts are moved to until the install completes */
+export const BACKUP_DIR = '.craftdesk-backup';
+
+/**
+ * A single staged install into an install directory (e.g. .claude)
+ *
+ * @example
+ * ```typescript
+ * const transaction = new InstallTransaction('/project/.claude');
+ * await transaction.begin(['/project/.claude/settings.json']);
+ * try {
+ *   await fetchInto(transaction.getStagingPath('skills/auth'));
+ *   await transaction.replace('skills/auth');
+ *   await transaction.commit();
+ * } catch (error) {
+ *   await transaction.rollback();
+ *   throw error;
+ * }
+ * ```
+ */
+export class InstallTransaction {
+  private stagingDir: string;
+  private backupDir: string;
+
+  /** Original contents of shared files (null if the file did not exist) */
+  private snapshots = new Map<string, Buffer | null>();
+
+  /** Paths moved into place or removed, relative to the install directory, in order */
+  private changes: Array<{ relativePath: string; staged: boolean; backedUp: boolean }> = [];
+
+  constructor(private installDir: string) {
+    this.stagingDir = path.join(installDir, STAGING_DIR);
+    this.backupDir = path.join(installDir, BACKUP_DIR);
+  }
+
+  /**
+   * Snapshots shared files and prepares an empty staging directory
+   *
+   * Leftovers of an interrupted install are discarded: the lockfile is only
+   * written after a successful install, so rerunning it restores every craft.
+   *
+   * @param sharedFiles - Absolute paths of files to restore on rollback
+   */
+  async begin(sharedFiles: string[]): Promise<void> {
+    for (const file of sharedFiles) {
+      this.snapshots.set(file, await fs.pathExists(file) ? await fs.readFile(file) : null);
+    }
+
+    if (await fs.pathExists(this.stagingDir) || await fs.pathExists(this.backupDir)) {
+      logger.debug('Removing leftovers of an interrupted install');
+    }
+    await fs.remove(this.stagingDir);
+    await fs.remove(this.backupDir);
+    await fs.ensureDir(this.stagingDir);
+  }
+
+  /**
+   * Gets the staging location of a path
+   *
+   * @param relativePath - Path relative to the install directory (e.g. skills/auth)
+   * @returns Absolute path inside the staging directory
+   */
+  getStagingPath(relativePath: string): string {
+    return path.join(this.stagingDir, relativePath);
+  }
+
+  /**
+   * Moves a staged path into place, backing up what it replaces
+   *
+   * @param relativePath - Path relative to the install directory
+   */
+  async replace(relativePath: string): Promise<void> {
+    const backedUp = await this.backup(relativePath);
+    this.changes.push({ relativePath, staged: true, backedUp });
+    await fs.move(this.getStagingPath(relativePath), path.join(this.installDir, relativePath));
+  }
+
+  /**
+   * Removes an installed path, keeping a backup until the transaction completes
+   *
+   * @param relativePath - Path relative to the install directory
+   */
+  async remove(relativePath: string): Promise<void> {
+    const backedUp = await this.backup(relativePath);
+    this.changes.push({ relativePath, staged: false, backedUp });
+  }
+
+  /**
+   * Completes the install by discarding backups and the staging directory
+   */
+  async commit(): Promise<void> {
+    await fs.remove(this.backupDir);
+    await fs.remove(this.stagingDir);
+    this.changes = [];
+    this.snapshots.clear();
+  }
+
+  /**
+   * Restores every replaced or removed path and every shared file
+   *
+   * Keeps going when a single restore fails so as much as possible is put
+   * back; those paths are reported as warnings and the backups are kept.
+   */
+  async rollback(): Promise<void> {
+    let restoreFailed = false;
+
+    for (const { relativePath, staged, backedUp } of [...this.changes].reverse()) {
+      const target = path.join(this.installDir, relativePath);
+      try {
+        if (staged) {
+          await fs.remove(target);
+        }
+        if (backedUp) {
+          await fs.move(path.join(this.backupDir, relativePath), target, { overwrite: true });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Failed to restore ${relativePath}: ${message}`);
+        restoreFailed = true;
+      }
+    }
+
+    for (const [file, contents] of this.snapshots) {
+      try {
+        if (contents === null) {
+          await fs.remove(file);
+        } else {
+          await fs.outputFile(file, contents);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Failed to restore ${file}: ${message}`);
+      }
+    }
+
+    await fs.remove(this.stagingDir);
+    if (restoreFailed) {
+      logger.warn(`Previous versions were kept in ${this.backupDir}`);
+    } else {
+      await fs.remove(this.backupDir);
+    }
+    this.changes = [];
+    this.snapshots.clear();
+  }
+
+  /**
+   * Moves an installed path into the backup directory
+   *
+   * @param relativePath - Path relative to the install directory
+   * @returns Whether there was anything to back up
+   */
+  private async backup(relativePath: string): Promise<boolean> {
+    const target = path.join(this.installDir, relativePath);
+    // lstat so that symlinks to linked local crafts are backed up even if their target is gone
+    if (!await fs.lstat(target).catch(() => null)) {
+      return false;
+    }
+    await fs.move(target, path.join(this.backupDir, relativePath));
+    return true;
+  }
+}
@@ -2,17 +2,33 @@ import path from 'path';
 import fs from 'fs-extra';
 import axios from 'axios';
 import AdmZip from 'adm-zip';
-import { execFileSync } from 'child_process';
+import { execFile } from 'child_process';
 import { logger } from '../utils/logger';
 import { configManager } from './config-manager';
 import { settingsManager } from './settings-manager';
 import { multiAgentSync } from './multi-agent-sync';
 import { gitIgnoreManager } from './gitignore-manager';
+import { cacheManager } from './cache-manager';
+import { InstallTransaction } from './install-transaction';
 import { CraftDeskLock, LockEntry } from '../types/craftdesk-lock';
 import { ensureDir } from '../utils/file-system';
-import { verifyFileChecksum, formatChecksum } from '../utils/crypto';
+import { verifyIntegrity, isValidIntegrity, formatChecksum, calculateDirectoryChecksum } from '../utils/crypto';
+import { mapWithConcurrency, parseConcurrency, DEFAULT_CONCURRENCY } from '../utils/concurrency';
+import { calculateFilesDigest, createSignaturePayload, getKeyFingerprint, verifyPayloadSignature } from '../utils/signing';
+import { readCraftPermissions, subtractPermissions, isEmptyPermissions, formatPermissions } from '../utils/permissions';
+import { confirm, isInteractive } from '../utils/prompt';
 import type { PluginManifest, MCPServerConfig } from '../types/claude-settings';
 
+/** Directories crafts are installed into, mapped to the craft type they hold */
+const TYPE_DIRECTORIES: Record<string, string> = {
+  skills: 'skill',
+  agents: 'agent',
+  commands: 'command',
+  hooks: 'hook',
+  plugins: 'plugin',
+  collections: 'collection'
+};
+
 /**
  * Handles installation of crafts from various sources
  *
@@ -45,63 +61,158 @@ export class Installer {
   /**
    * Installs all crafts defined in a lockfile
    *
-   * Processes each craft sequentially, updating progress as it goes.
-   * Fails fast if any installation errors occur.
+   * Downloads, clones and extraction run concurrently (each craft only writes
+   * to its own directory), bounded by `options.concurrency`, the `install.concurrency`
+   * setting in craftdesk.json, or 4. Plugin registration and multi-agent sync
+   * touch shared files, so they run afterwards one craft at a time.
+   *
+   * The install is atomic: crafts are fetched into a staging directory and only
+   * swapped into place once all of them succeeded. If anything fails, the
+   * previous crafts, settings.json and .gitignore files are restored.
+   * Optional crafts that fail to fetch are skipped with a warning instead.
+   *
+   * Each craft's installed files are checked against its locked `treeHash`.
+   * Crafts without one get it recorded on their lock entry. Crafts needing
+   * permissions that are not approved yet ask for consent once all are fetched,
+   * and record the approved permissions on their lock entry. The caller should
+   * save the lockfile when any crafts are returned.
    *
    * @param lockfile - The craftdesk.lock content with all dependencies
-   * @throws Error if any craft fails to install
+   * @param options - Install options
+   * @param options.concurrency - Maximum number of crafts fetched at once
+   * @param options.remove - Installed crafts to remove as part of the same install
+   * @returns Names of the crafts whose tree hash (`recorded`) or permissions (`approved`) were recorded by this install
+   * @throws Error if any craft fails to install, its tree hash does not match, or its permissions are not approved
    *
    * @example
    * ```typescript
    * const lockfile = {
    *   version: '1.0.0',
-   *   lockfileVersion: 1,
+   *   lockfileVersion: 2,
    *   crafts: {
    *     'ruby-on-rails': { version: '7.1.0', ... },
    *     'postgres-expert': { version: '1.2.0', ... }
    *   }
    * };
    *
-   * await installer.installFromLockfile(lockfile);
+   * await installer.installFromLockfile(lockfile, { concurrency: 8 });
    * ```
    */
-  async installFromLockfile(lockfile: CraftDeskLock): Promise<void> {
+  async installFromLockfile(
+    lockfile: CraftDeskLock,
+    options: { concurrency?: number; remove?: Array<{ name: string; type: string }> } = {}
+  ): Promise<{ recorded: string[]; approved: string[] }> {
     const installDir = path.join(process.cwd(), this.installPath);
     await ensureDir(installDir);
 
-    const crafts = Object.entries(lockfile.crafts);
-    let installed = 0;
+    const crafts = Object.entries(lockfile.crafts).filter(([name, entry]) => {
+      if (entry.linked) {
+        logger.info(`Keeping ${name} linked to ${entry.linked} (run "craftdesk unlink ${name}" to install ${entry.version})`);
+      }
+      return !entry.linked;
+    });
+    const removed = options.remove || [];
+    const concurrency = options.concurrency ?? await this.getConfiguredConcurrency();
+
+    const transaction = new InstallTransaction(installDir);
+    await transaction.begin(await this.getSharedFiles(installDir));
+
+    // Optional crafts that failed to fetch, with the reason
+    const skipped = new Map<string, string>();
+    // Crafts installed without a locked tree hash
+    const recorded: string[] = [];
+    // Crafts whose permissions were approved by this install
+    const approved: string[] = [];
+
+    try {
+      if (crafts.length > 1 && concurrency > 1) {
+        logger.updateSpinner(`Fetching ${crafts.length} crafts, ${concurrency} at a time`);
+      }
 
-    for (const [name, entry] of crafts) {
+      logger.startProgress(crafts.length);
       try {
-        logger.updateSpinner(`Installing ${name}@${entry.version} (${installed + 1}/${crafts.length})`);
-        await this.installCraft(name, entry);
-        installed++;
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        logger.failSpinner(`Failed to install ${name}: ${message}`);
-        throw error;
+        await mapWithConcurrency(crafts, concurrency, async ([name, entry]) => {
+          const label = `${name}@${entry.version}`;
+          logger.progressStarted(label);
+          try {
+            const hadTreeHash = !!entry.treeHash;
+            await this.fetchCraft(name, entry, transaction.getStagingPath(this.getCraftPath(name, entry.type)));
+            if (!hadTreeHash && entry.treeHash) {
+              recorded.push(name);
+            }
+            logger.progressSucceeded(label);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.progressFailed(label, message);
+            if (!entry.optional) {
+              throw error;
+            }
+            skipped.set(name, message);
+          }
+        });
+      } finally {
+        logger.stopProgress();
       }
-    }
 
-    logger.succeedSpinner(`Installed ${installed} crafts`);
+      const fetched = crafts.filter(([name]) => !skipped.has(name));
 
-    // Update .gitignore to ignore managed skills but allow embedded ones
-    try {
-      await gitIgnoreManager.autoUpdate();
-      logger.debug('Updated .claude/skills/.gitignore');
-    } catch {
-      // Don't fail installation if .gitignore update fails
-      logger.warn('Failed to update .gitignore');
+      // Ask for consent one craft at a time, before anything is swapped into place
+      for (const [name, entry] of fetched) {
+        if (await this.reviewPermissions(name, entry, transaction.getStagingPath(this.getCraftPath(name, entry.type)))) {
+          approved.push(name);
+        }
+      }
+
+      // Every craft was fetched: swap them into place
+      for (const { name, type } of removed) {
+        if (type === 'plugin') {
+          await this.unregisterPlugin(name);
+        }
+        await transaction.remove(this.getCraftPath(name, type));
+      }
+
+      for (const [name, entry] of fetched) {
+        await transaction.replace(this.getCraftPath(name, entry.type));
+      }
+
+      for (const [name, entry] of fetched) {
+        await this.finalizeCraft(name, entry);
+      }
+
+      // Update .gitignore to ignore managed skills but allow embedded ones
+      try {
+        await gitIgnoreManager.autoUpdate();
+        logger.debug('Updated .claude/skills/.gitignore');
+      } catch {
+        // Don't fail installation if .gitignore update fails
+        logger.warn('Failed to update .gitignore');
+      }
+
+      // Update .gitignore in multi-agent target directories
+      try {
+        await gitIgnoreManager.autoUpdateTargets();
+      } catch {
+        // Don't fail installation if target .gitignore update fails
+        logger.warn('Failed to update .gitignore in target directories');
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      logger.failSpinner();
+      await transaction.rollback();
+      logger.warn(`Install failed - restored the previous contents of ${this.installPath}`);
+      throw error;
     }
 
-    // Update .gitignore in multi-agent target directories
-    try {
-      await gitIgnoreManager.autoUpdateTargets();
-    } catch {
-      // Don't fail installation if target .gitignore update fails
-      logger.warn('Failed to update .gitignore in target directories');
+    logger.succeedSpinner(`Installed ${crafts.length - skipped.size} crafts`);
+    for (const { name } of removed) {
+      logger.success(`Removed ${name}`);
+    }
+    for (const [name, message] of skipped) {
+      logger.warn(`Skipped optional craft ${name}: ${message}`);
     }
+
+    return { recorded: recorded.sort(), approved: approved.sort() };
   }
 
   /**
@@ -110,12 +221,14 @@ export class Installer {
    * Installation process:
    * 1. Determines installation directory based on craft type
    * 2. For git dependencies: clones and extracts subdirectory
-   * 3. For registry: downloads archive, verifies, and extracts
-   * 4. Creates metadata file for tracking installation
+   * 3. For registry: downloads archive, verifies its integrity and signature, and extracts
+   * 4. Verifies the installed files against the locked tree hash (recording it when missing)
+   * 5. Creates metadata file for tracking installation
+   * 6. Asks for consent to permissions that are not approved yet
    *
    * @param name - The name of the craft to install
-   * @param entry - Lockfile entry containing installation details
-   * @throws Error if download or extraction fails
+   * @param entry - Lockfile entry containing installation details (its `treeHash` and `permissions` are recorded on it)
+   * @throws Error if download or extraction fails, the tree hash does not match, or the permissions are not approved
    *
    * @example
    * ```typescript
@@ -138,43 +251,92 @@ export class Installer {
    * ```
    */
   async installCraft(name: string, entry: LockEntry): Promise<void> {
-    const installDir = path.join(process.cwd(), this.installPath);
+    const craftDir = path.join(process.cwd(), this.installPath, this.getCraftPath(name, entry.type));
+    await this.fetchCraft(name, entry, craftDir);
 
-    // Determine install subdirectory based on type
-    const typeDir = this.getTypeDirectory(entry.type);
-    const craftDir = path.join(installDir, typeDir, name);
+    try {
+      await this.reviewPermissions(name, entry, craftDir);
+    } catch (error) {
+      await fs.remove(craftDir);
+      throw error;
+    }
+
+    await this.finalizeCraft(name, entry);
+  }
+
+  /**
+   * Downloads or clones a craft into a directory and writes its metadata
+   *
+   * Only touches that directory, so several crafts can be fetched concurrently.
+   *
+   * @param name - The name of the craft to install
+   * @param entry - Lockfile entry containing installation details (its `treeHash` is set if missing)
+   * @param craftDir - Directory to fetch into (the install location or a staging directory)
+   * @throws Error if download, checksum, signature or tree hash verification, or extraction fails
+   */
+  private async fetchCraft(name: string, entry: LockEntry, craftDir: string): Promise<void> {
+    // Linked local crafts point at their source directory, which must not be written to
+    if (entry.local && entry.link) {
+      await this.linkLocalCraft(craftDir, entry.local);
+      return;
+    }
 
     // Create directory
     await ensureDir(craftDir);
 
-    // Check if this is a git dependency
+    // Check if this is a git or local dependency
     if (entry.git) {
       await this.installFromGit(craftDir, entry);
+    } else if (entry.local) {
+      await this.copyLocalCraft(craftDir, entry.local);
     } else {
-      // Download craft archive (ZIP format from CraftDesk registry)
+      // Placeholders such as 'sha256-pending' cannot be verified
+      const integrity = isValidIntegrity(entry.integrity) ? entry.integrity : undefined;
+
+      // Reuse the archive from the global cache when possible (ZIP format from CraftDesk registry)
       const archivePath = path.join(craftDir, 'archive.zip');
-      await this.downloadFile(entry.resolved, archivePath);
+      let fromCache = await cacheManager.restoreArchive(integrity, archivePath);
+
+      const offline = cacheManager.getNetworkMode() === 'offline';
 
-      // Verify integrity using SHA-256 checksum
-      if (entry.integrity) {
+      if (fromCache && integrity && !await verifyIntegrity(archivePath, integrity)) {
+        logger.warn(`Cached archive for ${name}@${entry.version} is corrupt${offline ? '' : ' - downloading again'}`);
+        await cacheManager.removeArchive(integrity);
+        fromCache = false;
+      }
+
+      if (!fromCache) {
+        if (offline) {
+          throw new Error(`${name}@${entry.version} is not in the cache (offline mode)`);
+        }
+        await this.downloadFile(entry.resolved, archivePath);
+      }
+
+      // Verify against the integrity string (cached archives were verified above)
+      if (fromCache) {
+        logger.debug(`Installing ${name} from cache`);
+      } else if (integrity) {
         logger.debug(`Verifying checksum for ${name}...`);
-        const isValid = await verifyFileChecksum(archivePath, entry.integrity);
+        const isValid = await verifyIntegrity(archivePath, integrity);
 
         if (!isValid) {
           await fs.remove(archivePath);
           throw new Error(
             `Checksum verification failed for ${name}@${entry.version}. ` +
-            `Expected: ${formatChecksum(entry.integrity)}... ` +
+            `Expected: ${formatChecksum(integrity)}... ` +
             `This may indicate a corrupted download or a security issue. ` +
             `Try running 'craftdesk install --no-lockfile' to re-resolve dependencies.`
           );
         }
 
-        logger.debug(`Checksum verified: ${formatChecksum(entry.integrity)}...`);
+        logger.debug(`Checksum verified: ${formatChecksum(integrity)}...`);
+        await cacheManager.storeArchive(archivePath, integrity);
       } else {
         logger.warn(`No checksum available for ${name}@${entry.version} - skipping verification`);
       }
 
+      await this.verifySignature(name, entry, archivePath);
+
       // Extract archive
       await this.extractArchive(archivePath, craftDir);
 
@@ -182,8 +344,151 @@ export class Installer {
       await fs.remove(archivePath);
     }
 
+    await this.verifyTreeHash(name, entry, craftDir);
+
     // Create metadata file
     await this.createMetadata(craftDir, name, entry);
+  }
+
+  /**
+   * Checks a registry archive's signature against the project's trust policy
+   *
+   * Signed crafts must carry a valid signature over the archive's files, by a
+   * key listed in `trustedSigners` when the project has any. With
+   * `requireSignatures`, unsigned crafts are refused. Runs before extraction,
+   * so nothing from a rejected archive reaches the install directory.
+   *
+   * @param name - The name of the craft
+   * @param entry - Lockfile entry with the recorded signature
+   * @param archivePath - Downloaded or cached archive
+   * @throws Error if the signature is invalid or the signer is not trusted, or an unsigned craft is refused
+   */
+  private async verifySignature(name: string, entry: LockEntry, archivePath: string): Promise<void> {
+    const craftDeskJson = await configManager.getCraftDeskJson();
+    const trustedSigners = craftDeskJson?.trustedSigners || [];
+    const label = `${name}@${entry.version}`;
+
+    if (!entry.signature || !entry.publicKey) {
+      if (craftDeskJson?.requireSignatures) {
+        await fs.remove(archivePath);
+        throw new Error(`${label} is not signed, and craftdesk.json sets requireSignatures`);
+      }
+      return;
+    }
+
+    const signer = getKeyFingerprint(entry.publicKey);
+    const files = new AdmZip(archivePath).getEntries()
+      .filter(zipEntry => !zipEntry.isDirectory)
+      .map(zipEntry => ({ path: zipEntry.entryName, content: zipEntry.getData() }));
+    const payload = createSignaturePayload(entry.author || '', name.slice(name.lastIndexOf('/') + 1), entry.version, calculateFilesDigest(files));
+
+    if ((entry.signer && entry.signer !== signer) || !verifyPayloadSignature(payload, entry.signature, entry.publicKey)) {
+      await fs.remove(archivePath);
+      throw new Error(
+        `Signature verification failed for ${label}. ` +
+        `The archive was not signed by ${entry.signer || signer}. ` +
+        `This may indicate a tampered archive or a security issue.`
+      );
+    }
+
+    if (trustedSigners.length > 0 && !trustedSigners.includes(signer)) {
+      await fs.remove(archivePath);
+      throw new Error(`${label} is signed by ${signer}, which is not in trustedSigners`);
+    }
+
+    logger.debug(`Signature verified for ${label}: ${signer}`);
+  }
+
+  /**
+   * Checks freshly fetched files against the locked tree hash
+   *
+   * Catches git crafts whose commit, path or file was rewritten upstream, and
+   * any other difference between what was locked and what got installed.
+   * Must run before the metadata file is written, which is not part of the hash.
+   *
+   * @param name - The name of the craft
+   * @param entry - Lockfile entry; the tree hash is recorded on it when missing
+   * @param craftDir - Directory the craft was fetched into
+   * @throws Error if the installed files do not match the locked tree hash
+   */
+  private async verifyTreeHash(name: string, entry: LockEntry, craftDir: string): Promise<void> {
+    const treeHash = await calculateDirectoryChecksum(craftDir);
+
+    if (!entry.treeHash) {
+      logger.debug(`Recorded tree hash for ${name}: ${formatChecksum(treeHash)}...`);
+      entry.treeHash = treeHash;
+      return;
+    }
+
+    if (treeHash !== entry.treeHash) {
+      throw new Error(
+        `Tree hash verification failed for ${name}@${entry.version}. ` +
+        `Expected: ${formatChecksum(entry.treeHash)}..., got: ${formatChecksum(treeHash)}... ` +
+        `The installed files differ from the ones locked in craftdesk.lock, for example because the source was force-pushed. ` +
+        `Try running 'craftdesk install --no-lockfile' to re-resolve dependencies.`
+      );
+    }
+
+    logger.debug(`Tree hash verified: ${formatChecksum(treeHash)}...`);
+  }
+
+  /**
+   * Asks for consent to the permissions a fetched craft needs
+   *
+   * Permissions approved in the lock entry, or allowed by `allowedPermissions`
+   * in craftdesk.json, are not asked for again. Without a terminal, unapproved
+   * permissions fail the install. Local crafts are the project's own and are
+   * not reviewed.
+   *
+   * @param name - The name of the craft
+   * @param entry - Lockfile entry; the approved permissions are recorded on it
+   * @param craftDir - Directory the craft was fetched into
+   * @returns True if the lock entry's permissions changed
+   * @throws Error if the permissions are not approved
+   */
+  private async reviewPermissions(name: string, entry: LockEntry, craftDir: string): Promise<boolean> {
+    if (entry.local) return false;
+
+    const requested = await readCraftPermissions(craftDir);
+    const unapproved = subtractPermissions(requested, entry.permissions);
+    if (isEmptyPermissions(unapproved)) return false;
+
+    const label = `${name}@${entry.version}`;
+    const allowed = (await configManager.getCraftDeskJson())?.allowedPermissions || {};
+    const remaining = subtractPermissions(subtractPermissions(unapproved, allowed['*']), allowed[name]);
+
+    if (isEmptyPermissions(remaining)) {
+      logger.debug(`Permissions of ${label} are allowed by craftdesk.json`);
+    } else if (isInteractive()) {
+      logger.stopSpinner();
+      logger.log('');
+      logger.warn(`${label} requests ${entry.permissions ? 'new ' : ''}permissions:`);
+      formatPermissions(remaining).forEach(line => logger.log(line));
+      if (!await confirm('Allow?')) {
+        throw new Error(`Permissions of ${label} were not approved`);
+      }
+    } else {
+      throw new Error(
+        `${label} requests permissions that have not been approved:\n${formatPermissions(remaining).join('\n')}\n` +
+        `Run the install in a terminal to approve them, or add them to allowedPermissions in craftdesk.json`
+      );
+    }
+
+    entry.permissions = requested;
+    return true;
+  }
+
+  /**
+   * Registers a fetched plugin and syncs the craft to other agents
+   *
+   * These steps update shared files (.claude/settings.json, agent directories)
+   * and must not run for several crafts at once.
+   *
+   * @param name - The name of the installed craft
+   * @param entry - Lockfile entry of the installed craft
+   */
+  private async finalizeCraft(name: string, entry: LockEntry): Promise<void> {
+    const craftDir = path.join(process.cwd(), this.installPath, this.getCraftPath(name, entry.type));
 
     // Register plugin in settings if this is a plugin type
     if (entry.type === 'plugin') {
@@ -238,10 +543,14 @@ export class Installer {
     }
 
     try {
-      // Clone the repository
+      // Clone from the local mirror in the global cache (fetches from the remote only when needed).
+      // Branch and tag entries are pinned to their locked commit, so commits pushed since the
+      // lockfile was written are not installed and a mirror which already has it is not fetched.
+      const commit = this.getLockedCommit(entry);
+      const mirrorPath = await cacheManager.getGitMirror(entry.git, commit);
 
       // Build clone command args — use array form to prevent shell injection
-      const cloneArgs = ['clone', '--depth', '1'];
+      const cloneArgs = ['clone', '--quiet'];
 
       if (entry.branch) {
         cloneArgs.push('-b', entry.branch);
@@ -249,19 +558,14 @@ export class Installer {
         cloneArgs.push('-b', entry.tag);
       }
 
-      cloneArgs.push(entry.git, tempDir);
+      cloneArgs.push(mirrorPath, tempDir);
 
       logger.debug(`Cloning git repository: git ${cloneArgs.join(' ')}`);
-      execFileSync('git', cloneArgs, { stdio: 'pipe' });
-
-      // If specific commit, checkout that commit
-      if (entry.commit) {
-        // Check if repo is shallow before trying to unshallow
-        const isShallow = await fs.pathExists(path.join(tempDir, '.git', 'shallow'));
-        if (isShallow) {
-          execFileSync('git', ['fetch', '--unshallow'], { cwd: tempDir, stdio: 'pipe' });
-        }
-        execFileSync('git', ['checkout', entry.commit], { cwd: tempDir, stdio: 'pipe' });
+      await this.runGit(cloneArgs);
+
+      // If specific commit, checkout that commit (local clones of the mirror have full history)
+      if (commit) {
+        await this.runGit(['checkout', commit], tempDir);
       }
 
       // Handle direct file reference
@@ -308,6 +612,174 @@ export class Installer {
     }
   }
 
+  /**
+   * Copies a local craft directory into its install directory
+   *
+   * @param craftDir - Directory to copy into
+   * @param localPath - Craft directory relative to the project root
+   * @throws Error if the local directory does not exist
+   */
+  private async copyLocalCraft(craftDir: string, localPath: string): Promise<void> {
+    const source = await this.getLocalSource(localPath);
+    await fs.copy(source, craftDir, {
+      overwrite: true,
+      dereference: true,
+      filter: (src) => path.basename(src) !== '.git'
+    });
+  }
+
+  /**
+   * Symlinks a local craft directory into place
+   *
+   * @param craftDir - Path of the symlink to create
+   * @param localPath - Craft directory relative to the project root
+   * @throws Error if the local directory does not exist
+   */
+  private async linkLocalCraft(craftDir: string, localPath: string): Promise<void> {
+    await this.createLink(craftDir, await this.getLocalSource(localPath));
+  }
+
+  /**
+   * Replaces a craft directory with a symlink
+   *
+   * @param craftDir - Path of the symlink to create
+   * @param source - Absolute directory to link to
+   */
+  private async createLink(craftDir: string, source: string): Promise<void> {
+    await ensureDir(path.dirname(craftDir));
+    await fs.remove(craftDir);
+    // Junctions let Windows users link directories without elevated privileges
+    await fs.symlink(source, craftDir, 'junction');
+  }
+
+  /**
+   * Resolves a locked local path against the project root
+   *
+   * @param localPath - Craft directory relative to the project root
+   * @returns Absolute path of the craft directory
+   * @throws Error if the directory does not exist
+   */
+  private async getLocalSource(localPath: string): Promise<string> {
+    const source = path.resolve(process.cwd(), localPath);
+    if (!await fs.pathExists(source)) {
+      throw new Error(`Local craft directory not found: ${localPath}`);
+    }
+    return source;
+  }
+
+  /**
+   * Lists the crafts of a lockfile that cannot be installed from the cache alone
+   *
+   * Registry crafts need their archive cached under their integrity hash; git
+   * crafts need a mirror containing their locked commit; local crafts need
+   * their directory.
+   *
+   * @param lockfile - Lockfile to check
+   * @returns Crafts missing from the cache, with a description of what is missing
+   */
+  async findUncachedCrafts(lockfile: CraftDeskLock): Promise<Array<{ name: string; entry: LockEntry; reason: string }>> {
+    const uncached: Array<{ name: string; entry: LockEntry; reason: string }> = [];
+
+    for (const [name, entry] of Object.entries(lockfile.crafts)) {
+      if (entry.linked) {
+        continue;
+      } else if (entry.local) {
+        if (!await fs.pathExists(path.resolve(process.cwd(), entry.local))) {
+          uncached.push({ name, entry, reason: `local directory ${entry.local} not found` });
+        }
+      } else if (entry.git) {
+        const commit = this.getLockedCommit(entry);
+        if (!await cacheManager.hasGitMirror(entry.git, commit)) {
+          uncached.push({ name, entry, reason: `git ${entry.git}${commit ? ` @ ${commit.slice(0, 7)}` : ''}` });
+        }
+      } else if (!cacheManager.isCacheable(entry.integrity)) {
+        uncached.push({ name, entry, reason: `no integrity hash to look up (${entry.integrity || 'missing'})` });
+      } else if (!await cacheManager.hasArchive(entry.integrity)) {
+        uncached.push({ name, entry, reason: `archive ${formatChecksum(entry.integrity)}...` });
+      }
+    }
+
+    return uncached;
+  }
+
+  /**
+   * Gets the commit a git lock entry was resolved to
+   *
+   * Entries pinned with `commit` store it directly; branch and tag entries
+   * record the resolved commit as their integrity.
+   *
+   * @param entry - Git lock entry
+   * @returns Full or abbreviated commit hash, if known
+   */
+  private getLockedCommit(entry: LockEntry): string | undefined {
+    if (entry.commit) return entry.commit;
+    return /^[a-f0-9]{40}$/i.test(entry.integrity) ? entry.integrity : undefined;
+  }
+
+  /**
+   * Gets the path of a craft relative to the install directory
+   *
+   * @param name - Craft name
+   * @param type - Craft type
+   * @returns Relative path (e.g. skills/ruby-on-rails)
+   */
+  private getCraftPath(name: string, type: string): string {
+    return path.join(this.getTypeDirectory(type), name);
+  }
+
+  /**
+   * Lists the shared files an install may modify, to be restored if it fails
+   *
+   * @param installDir - Absolute install directory
+   * @returns settings.json and the managed .gitignore files
+   */
+  private async getSharedFiles(installDir: string): Promise<string[]> {
+    const files = [
+      path.join(installDir, 'settings.json'),
+      path.join(installDir, 'skills', '.gitignore')
+    ];
+
+    const config = await configManager.getCraftDeskJson();
+    if (config?.multiAgent?.enabled) {
+      for (const target of config.multiAgent.targets || []) {
+        files.push(path.resolve(process.cwd(), target, '.gitignore'));
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Runs git without blocking the event loop, so concurrent clones overlap
+   *
+   * @param args - Git arguments (passed as an array to prevent shell injection)
+   * @param cwd - Working directory
+   * @returns Promise that resolves when git exits successfully
+   */
+  private runGit(args: string[], cwd?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      execFile('git', args, { cwd }, (error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Reads the install concurrency from craftdesk.json
+   *
+   * @returns The configured limit, or the default when none is set
+   * @throws Error if the configured value is not a positive integer
+   */
+  private async getConfiguredConcurrency(): Promise<number> {
+    const config = await configManager.getCraftDeskJson();
+    const configured = config?.install?.concurrency;
+    return configured === undefined ? DEFAULT_CONCURRENCY : parseConcurrency(configured);
+  }
+
   /**
    * Get the type-specific directory for a craft type
    *
@@ -563,6 +1035,44 @@ export class Installer {
     return components;
   }
 
+  /**
+   * Symlinks a directory into the project in place of a craft (used by `craftdesk link`)
+   *
+   * @param name - Craft name
+   * @param type - Craft type, which decides the install subdirectory
+   * @param source - Absolute directory to link to
+   * @returns Path of the created symlink
+   */
+  async linkCraft(name: string, type: string, source: string): Promise<string> {
+    const craftDir = path.join(process.cwd(), this.installPath, this.getCraftPath(name, type));
+    await this.createLink(craftDir, source);
+    return craftDir;
+  }
+
+  /**
+   * Removes the symlinks created for a craft by `linkCraft`
+   *
+   * Only symlinks are removed, in whichever type directory they were created;
+   * the linked directory itself is never touched.
+   *
+   * @param name - Craft name
+   * @returns True if a symlink was removed
+   */
+  async unlinkCraft(name: string): Promise<boolean> {
+    const installDir = path.join(process.cwd(), this.installPath);
+    let removed = false;
+
+    for (const typeDir of Object.keys(TYPE_DIRECTORIES)) {
+      const craftPath = path.join(installDir, typeDir, name);
+      if ((await fs.lstat(craftPath).catch(() => null))?.isSymbolicLink()) {
+        await fs.remove(craftPath);
+        removed = true;
+      }
+    }
+
+    return removed;
+  }
+
   /**
    * Remove an installed craft from the project
    * Unregisters plugins from settings and removes the craft directory
@@ -578,13 +1088,7 @@ export class Installer {
     if (await fs.pathExists(craftDir)) {
       // Unregister plugin from settings if this is a plugin
       if (type === 'plugin') {
-        try {
-          await settingsManager.unregisterPlugin(name);
-          logger.debug(`Unregistered plugin ${name} from settings`);
-        } catch (error) {
-          const message = error instanceof Error ? error.message : String(error);
-          logger.warn(`Failed to unregister plugin: ${message}`);
-        }
+        await this.unregisterPlugin(name);
       }
 
       await fs.remove(craftDir);
@@ -594,6 +1098,90 @@ export class Installer {
     }
   }
 
+  /**
+   * Unregister a plugin from .claude/settings.json
+   *
+   * @param name - The plugin name
+   * @returns Promise that resolves when the plugin is unregistered (failures are only logged)
+   */
+  private async unregisterPlugin(name: string): Promise<void> {
+    try {
+      await settingsManager.unregisterPlugin(name);
+      logger.debug(`Unregistered plugin ${name} from settings`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to unregister plugin: ${message}`);
+    }
+  }
+
+  /**
+   * Finds installed crafts that are no longer in the lockfile
+   *
+   * Only crafts installed by craftdesk (directories with a .craftdesk-metadata.json,
+   * and symlinks to linked local crafts) are considered, including scoped crafts
+   * installed as `author/name`, and crafts listed in `embedded` are never
+   * reported. Removing a symlink never touches its target.
+   *
+   * @param lockfile - Lockfile describing what should be installed
+   * @returns Orphaned crafts, with the type of the directory they were found in
+   */
+  async findOrphanedCrafts(lockfile: CraftDeskLock): Promise<Array<{ name: string; type: string }>> {
+    const installDir = path.join(process.cwd(), this.installPath);
+    const config = await configManager.getCraftDeskJson();
+    const embedded = new Set(config?.embedded || []);
+    const orphaned: Array<{ name: string; type: string }> = [];
+
+    for (const [typeDir, type] of Object.entries(TYPE_DIRECTORIES)) {
+      const dir = path.join(installDir, typeDir);
+      if (!await fs.pathExists(dir)) continue;
+
+      for (const { name: craftName, isLink } of await this.findInstalledDirectories(dir)) {
+        if (embedded.has(craftName)) continue;
+
+        const entry = lockfile.crafts[craftName];
+        // A linked craft's symlink follows the linked craft's type, not the locked one
+        if (entry?.linked && isLink) continue;
+        if (!entry || this.getTypeDirectory(entry.type) !== typeDir) {
+          orphaned.push({ name: craftName, type });
+        }
+      }
+    }
+
+    return orphaned;
+  }
+
+  /**
+   * Lists the crafts installed by craftdesk in a type directory
+   *
+   * Directories without metadata that are not symlinks are scopes (the `author`
+   * of `author/name`) and are searched one level deeper.
+   *
+   * @param dir - Type directory (e.g. .claude/skills)
+   * @returns Craft names relative to the directory, and whether each is a symlink
+   */
+  private async findInstalledDirectories(dir: string): Promise<Array<{ name: string; isLink: boolean }>> {
+    const found: Array<{ name: string; isLink: boolean }> = [];
+
+    const visit = async (name: string, scoped: boolean): Promise<void> => {
+      const craftPath = path.join(dir, name);
+      const stat = await fs.lstat(craftPath);
+      if (stat.isSymbolicLink()) {
+        found.push({ name, isLink: true });
+      } else if (await fs.pathExists(path.join(craftPath, '.craftdesk-metadata.json'))) {
+        found.push({ name, isLink: false });
+      } else if (!scoped && stat.isDirectory()) {
+        for (const child of await fs.readdir(craftPath)) {
+          await visit(`${name}/${child}`, true);
+        }
+      }
+    };
+
+    for (const name of await fs.readdir(dir)) {
+      await visit(name, false);
+    }
+    return found;
+  }
+
   /**
    * List all installed crafts in the project
    * Scans the installation directory for all craft types and reads their metadata
@@ -608,9 +1196,7 @@ export class Installer {
       return installed;
     }
 
-    const typeDirs = ['skills', 'agents', 'commands', 'hooks', 'plugins', 'collections'];
-
-    for (const typeDir of typeDirs) {
+    for (const typeDir of Object.keys(TYPE_DIRECTORIES)) {
       const dir = path.join(installDir, typeDir);
       if (!await fs.pathExists(dir)) continue;
 
@@ -624,6 +1210,14 @@ export class Installer {
             version: metadata.version,
             type: metadata.type
           });
+        } else if ((await fs.lstat(path.join(dir, craftName))).isSymbolicLink()) {
+          // Linked local crafts carry no metadata; read their own craftdesk.json instead
+          const craftJson = await fs.readJson(path.join(dir, craftName, 'craftdesk.json')).catch(() => null);
+          installed.push({
+            name: craftName,
+            version: craftJson?.version || '0.0.0',
+            type: TYPE_DIRECTORIES[typeDir]
+          });
         }
       }
     }
@@ -0,0 +1,144 @@
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import { getKeyFingerprint, signPayload } from '../utils/signing';
+
+/**
+ * An ed25519 key pair used to sign published crafts
+ */
+export interface SigningKey {
+  /** Key name (file name without extension) */
+  name: string;
+  /** Base64 DER (SPKI) public key, as sent to the registry */
+  publicKey: string;
+  /** Fingerprint of the public key (what projects list in trustedSigners) */
+  fingerprint: string;
+}
+
+/** Key names double as file names */
+const KEY_NAME = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+/**
+ * Manages signing keys in ~/.craftdesk/keys
+ *
+ * Each key is stored as `<name>.key` (PKCS#8 PEM private key, readable by the
+ * owner only) and `<name>.pub` (SPKI PEM public key). `publish` signs with
+ * the key named "default" unless told otherwise.
+ *
+ * The keys location can be overridden with the CRAFTDESK_KEYS_DIR
+ * environment variable.
+ *
+ * @example
+ * ```typescript
+ * const key = await keyManager.generate('default');
+ * const signature = await keyManager.sign('default', payload);
+ * ```
+ */
+export class KeyManager {
+  /**
+   * Gets the directory holding signing keys
+   *
+   * @returns CRAFTDESK_KEYS_DIR if set, otherwise ~/.craftdesk/keys
+   */
+  getKeysDir(): string {
+    return process.env.CRAFTDESK_KEYS_DIR
+      ? path.resolve(process.env.CRAFTDESK_KEYS_DIR)
+      : path.join(os.homedir(), '.craftdesk', 'keys');
+  }
+
+  /**
+   * Generates a new ed25519 key pair
+   *
+   * @param name - Key name
+   * @param options - Generation options
+   * @param options.force - Replace an existing key with the same name
+   * @returns The new key
+   * @throws Error if the name is invalid, or the key exists and force is not set
+   */
+  async generate(name: string, options: { force?: boolean } = {}): Promise<SigningKey> {
+    const privatePath = this.getKeyPath(name, 'key');
+    if (!options.force && await fs.pathExists(privatePath)) {
+      throw new Error(`Signing key "${name}" already exists (use --force to replace it)`);
+    }
+
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    await fs.ensureDir(this.getKeysDir(), 0o700);
+    await fs.writeFile(privatePath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    await fs.writeFile(this.getKeyPath(name, 'pub'), publicKey.export({ type: 'spki', format: 'pem' }));
+
+    return this.toSigningKey(name, publicKey);
+  }
+
+  /**
+   * Looks up a key
+   *
+   * @param name - Key name
+   * @returns The key, or null if there is no key with that name
+   */
+  async get(name: string): Promise<SigningKey | null> {
+    const privatePath = this.getKeyPath(name, 'key');
+    if (!await fs.pathExists(privatePath)) return null;
+
+    const privateKey = crypto.createPrivateKey(await fs.readFile(privatePath, 'utf-8'));
+    return this.toSigningKey(name, crypto.createPublicKey(privateKey));
+  }
+
+  /**
+   * Lists every key
+   *
+   * @returns Keys sorted by name
+   */
+  async list(): Promise<SigningKey[]> {
+    const keysDir = this.getKeysDir();
+    if (!await fs.pathExists(keysDir)) return [];
+
+    const keys: SigningKey[] = [];
+    for (const file of (await fs.readdir(keysDir)).sort()) {
+      if (path.extname(file) !== '.key') continue;
+      const key = await this.get(path.basename(file, '.key'));
+      if (key) keys.push(key);
+    }
+    return keys;
+  }
+
+  /**
+   * Signs a payload with a key
+   *
+   * @param name - Key name
+   * @param payload - Payload to sign
+   * @returns Base64 ed25519 signature
+   * @throws Error if there is no key with that name
+   */
+  async sign(name: string, payload: string): Promise<string> {
+    const privatePath = this.getKeyPath(name, 'key');
+    if (!await fs.pathExists(privatePath)) {
+      throw new Error(`Signing key "${name}" not found in ${this.getKeysDir()}`);
+    }
+
+    return signPayload(payload, await fs.readFile(privatePath, 'utf-8'));
+  }
+
+  /**
+   * Gets the path of a key file
+   *
+   * @param name - Key name
+   * @param extension - 'key' for the private key, 'pub' for the public key
+   * @returns Absolute path inside the keys directory
+   * @throws Error if the name is not a valid file name
+   */
+  private getKeyPath(name: string, extension: 'key' | 'pub'): string {
+    if (!KEY_NAME.test(name)) {
+      throw new Error(`Invalid key name: ${name}`);
+    }
+    return path.join(this.getKeysDir(), `${name}.${extension}`);
+  }
+
+  private toSigningKey(name: string, publicKey: crypto.KeyObject): SigningKey {
+    const der = publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+    return { name, publicKey: der, fingerprint: getKeyFingerprint(der) };
+  }
+}
+
+// Export singleton instance
+export const keyManager = new KeyManager();
@@ -0,0 +1,136 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+
+/**
+ * A craft registered for linking
+ */
+export interface RegisteredLink {
+  /** Craft name from its craftdesk.json */
+  name: string;
+  /** Absolute path of the craft directory */
+  target: string;
+}
+
+/**
+ * Manages globally registered crafts in ~/.craftdesk/links
+ *
+ * Like `npm link`, a craft directory is first registered globally (as a
+ * symlink named after the craft), and projects then link the registered
+ * craft into their install directory by name.
+ *
+ * The links location can be overridden with the CRAFTDESK_LINKS_DIR
+ * environment variable.
+ *
+ * @example
+ * ```typescript
+ * // In the craft directory
+ * await linkManager.register('my-skill', process.cwd());
+ *
+ * // In a consuming project
+ * const target = await linkManager.resolve('my-skill');
+ * ```
+ */
+export class LinkManager {
+  /**
+   * Gets the directory holding registered links
+   *
+   * @returns CRAFTDESK_LINKS_DIR if set, otherwise ~/.craftdesk/links
+   */
+  getLinksDir(): string {
+    return process.env.CRAFTDESK_LINKS_DIR
+      ? path.resolve(process.env.CRAFTDESK_LINKS_DIR)
+      : path.join(os.homedir(), '.craftdesk', 'links');
+  }
+
+  /**
+   * Registers a craft directory under its name, replacing any previous registration
+   *
+   * @param name - Craft name (may contain a scope, e.g. author/name)
+   * @param directory - Craft directory
+   */
+  async register(name: string, directory: string): Promise<void> {
+    const linkPath = this.getLinkPath(name);
+    await fs.ensureDir(path.dirname(linkPath));
+    await fs.remove(linkPath);
+    // Junctions let Windows users link directories without elevated privileges
+    await fs.symlink(path.resolve(directory), linkPath, 'junction');
+  }
+
+  /**
+   * Removes a registration (the craft directory itself is left untouched)
+   *
+   * @param name - Craft name
+   * @returns True if the craft was registered
+   */
+  async unregister(name: string): Promise<boolean> {
+    const linkPath = this.getLinkPath(name);
+    if (!await fs.lstat(linkPath).catch(() => null)) {
+      return false;
+    }
+    await fs.remove(linkPath);
+    return true;
+  }
+
+  /**
+   * Looks up the directory registered under a name
+   *
+   * @param name - Craft name
+   * @returns Absolute path of the craft directory, or null if not registered or the directory is gone
+   */
+  async resolve(name: string): Promise<string | null> {
+    try {
+      return await fs.realpath(this.getLinkPath(name));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Lists every registered craft
+   *
+   * @returns Registered crafts sorted by name, including those whose directory is gone
+   */
+  async list(): Promise<RegisteredLink[]> {
+    const linksDir = this.getLinksDir();
+    const links: RegisteredLink[] = [];
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      const dir = path.join(linksDir, relativeDir);
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const name = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isSymbolicLink()) {
+          links.push({ name, target: path.resolve(dir, await fs.readlink(path.join(dir, entry.name))) });
+        } else if (entry.isDirectory()) {
+          // Scoped names (author/name) are nested one level deep
+          await walk(name);
+        }
+      }
+    };
+
+    if (await fs.pathExists(linksDir)) {
+      await walk('');
+    }
+
+    return links.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Gets the path of the symlink registered for a craft
+   *
+   * @param name - Craft name
+   * @returns Absolute path inside the links directory
+   * @throws Error if the name would escape the links directory
+   */
+  private getLinkPath(name: string): string {
+    const linksDir = this.getLinksDir();
+    const linkPath = path.resolve(linksDir, name);
+    if (!linkPath.startsWith(linksDir + path.sep)) {
+      throw new Error(`Invalid craft name: ${name}`);
+    }
+    return linkPath;
+  }
+}
+
+// Export singleton instance
+export const linkManager = new LinkManager();
@@ -1,8 +1,11 @@
 import axios, { AxiosInstance } from 'axios';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { configManager } from './config-manager';
 import { logger } from '../utils/logger';
+import { isExactVersion, isValidRange, maxSatisfying, satisfies } from '../utils/semver';
+import { calculateIntegrity, isValidIntegrity, normalizeIntegrity } from '../utils/crypto';
 import type { CraftDeskLock, LockEntry } from '../types/craftdesk-lock';
 
 /**
@@ -15,8 +18,30 @@ export interface CraftInfo {
   type: 'skill' | 'agent' | 'command' | 'hook' | 'plugin' | 'collection';
   description?: string;
   dependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
   download_url?: string;
   integrity?: string;
+  signature?: string;
+  public_key?: string;
+}
+
+/**
+ * A known vulnerability in, or a malicious release of, a craft
+ */
+export interface Advisory {
+  /** Advisory identifier */
+  id: string;
+  /** Affected craft */
+  craft: string;
+  /** Version range the advisory applies to */
+  vulnerable_versions: string;
+  /** First version that is no longer affected, if any */
+  fixed_in?: string;
+  severity: 'low' | 'moderate' | 'high' | 'critical';
+  title: string;
+  /** The affected versions were published with malicious intent */
+  malicious?: boolean;
+  url?: string;
 }
 
 /**
@@ -66,12 +91,26 @@ export class RegistryClient {
   /**
    * Get information about a craft from the registry
    *
+   * When a version range (e.g., '^1.2.0') is given, it is first resolved to
+   * the highest published version satisfying it.
+   *
    * @param craftName - Name of the craft (e.g., 'author/name')
-   * @param version - Optional specific version to fetch
+   * @param version - Optional specific version or version range to fetch
    * @param registryOverride - Optional registry URL to use instead of default
    * @returns Craft information or null if not found
    */
   async getCraftInfo(craftName: string, version?: string, registryOverride?: string): Promise<CraftInfo | null> {
+    // Parse craft name (could be @scope/name or just name)
+    const [author, name] = this.parseCraftName(craftName);
+
+    if (version && !isExactVersion(version)) {
+      const resolvedVersion = await this.resolveVersion(craftName, version, registryOverride);
+      if (resolvedVersion === null) {
+        return null;
+      }
+      version = resolvedVersion;
+    }
+
     // Get registry URL - can be overridden by dependency-specific registry
     const registryUrl = registryOverride
       ? await configManager.resolveRegistryUrl(registryOverride)
@@ -79,9 +118,6 @@ export class RegistryClient {
 
     const client = await this.getClient(registryUrl);
 
-    // Parse craft name (could be @scope/name or just name)
-    const [author, name] = this.parseCraftName(craftName);
-
     try {
       const endpoint = version
         ? `/api/v1/crafts/${author}/${name}/versions/${version}`
@@ -102,14 +138,58 @@ export class RegistryClient {
     }
   }
 
+  /**
+   * Resolve a version range to the highest published version satisfying it
+   *
+   * Wildcard ranges ('*', 'latest' or empty) resolve to undefined, meaning
+   * "whatever the registry reports as latest".
+   *
+   * @param craftName - Name of the craft
+   * @param range - Version range (e.g., '^1.2.0', '~1.4', '>=1.0.0 <2.0.0')
+   * @param registryOverride - Optional registry URL to use instead of default
+   * @returns The resolved version, undefined for wildcards, or null if nothing satisfies the range
+   */
+  async resolveVersion(craftName: string, range: string, registryOverride?: string): Promise<string | undefined | null> {
+    const trimmed = range.trim();
+    if (trimmed === '' || trimmed === '*' || trimmed === 'latest') {
+      return undefined;
+    }
+
+    if (isExactVersion(trimmed)) {
+      return trimmed;
+    }
+
+    if (!isValidRange(trimmed)) {
+      logger.error(`Invalid version range '${range}' for ${craftName}`);
+      return null;
+    }
+
+    const versions = await this.listVersions(craftName, registryOverride);
+    const resolved = maxSatisfying(versions, trimmed);
+
+    if (!resolved) {
+      logger.error(
+        `No version of '${craftName}' satisfies ${range}` +
+        (versions.length > 0 ? ` (available: ${versions.join(', ')})` : '')
+      );
+      return null;
+    }
+
+    logger.debug(`Resolved ${craftName}@${range} to ${resolved}`);
+    return resolved;
+  }
+
   /**
    * List all available versions of a craft
    *
    * @param craftName - Name of the craft to list versions for
+   * @param registryOverride - Optional registry URL to use instead of default
    * @returns Array of version strings
    */
-  async listVersions(craftName: string): Promise<string[]> {
-    const registryUrl = await configManager.getRegistryForCraft(craftName);
+  async listVersions(craftName: string, registryOverride?: string): Promise<string[]> {
+    const registryUrl = registryOverride
+      ? await configManager.resolveRegistryUrl(registryOverride)
+      : await configManager.getRegistryForCraft(craftName);
     const client = await this.getClient(registryUrl);
 
     const [author, name] = this.parseCraftName(craftName);
@@ -124,6 +204,28 @@ export class RegistryClient {
     }
   }
 
+  /**
+   * Look up the advisories affecting craft versions
+   *
+   * @param crafts - Map of craft names to installed versions
+   * @param registryUrl - Registry to query
+   * @returns Advisories whose vulnerable range includes the given version
+   * @throws Error if the registry request fails
+   */
+  async getAdvisories(crafts: Record<string, string>, registryUrl: string): Promise<Advisory[]> {
+    const client = await this.getClient(registryUrl);
+
+    logger.debug(`Fetching advisories for ${Object.keys(crafts).length} craft(s) from ${registryUrl}`);
+    const response = await client.post('/api/v1/advisories', { crafts });
+    const advisories: Advisory[] = response.data.advisories || [];
+
+    // Registries may return every advisory of a craft; keep the ones for the installed version
+    return advisories.filter(advisory => {
+      const version = crafts[advisory.craft];
+      return version !== undefined && (!advisory.vulnerable_versions || satisfies(version, advisory.vulnerable_versions));
+    });
+  }
+
   /**
    * Resolve dependencies via the registry API
    *
@@ -201,6 +303,48 @@ export class RegistryClient {
     }
   }
 
+  /**
+   * Resolve the integrity string to lock for a craft version
+   *
+   * Uses the integrity reported by the registry. When the registry reports
+   * none, the archive is downloaded and hashed with sha512 instead, unless
+   * integrity is required.
+   *
+   * @param craftInfo - Craft version from the registry
+   * @param options - Resolution options
+   * @param options.require - Fail instead of hashing the archive when the registry reports no integrity
+   * @returns Integrity string in canonical SRI form
+   * @throws Error if the registry's integrity is invalid, or missing while required
+   */
+  async resolveIntegrity(craftInfo: CraftInfo, options: { require?: boolean } = {}): Promise<string> {
+    const label = `${craftInfo.name}@${craftInfo.version}`;
+
+    if (craftInfo.integrity) {
+      if (!isValidIntegrity(craftInfo.integrity)) {
+        throw new Error(`Registry provided an invalid integrity for ${label}: ${craftInfo.integrity}`);
+      }
+      return normalizeIntegrity(craftInfo.integrity);
+    }
+
+    if (options.require) {
+      throw new Error(`Registry did not provide an integrity for ${label} (integrity is required)`);
+    }
+
+    if (!craftInfo.download_url) {
+      throw new Error(`Registry did not provide download URL for ${label}`);
+    }
+
+    logger.debug(`Computing integrity for ${label}...`);
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'craftdesk-verify-'));
+    try {
+      const archivePath = path.join(tempDir, 'archive.zip');
+      await this.downloadCraft(craftInfo.download_url, archivePath);
+      return await calculateIntegrity(archivePath);
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
   /**
    * Search for crafts in the registry
    *
@@ -254,6 +398,8 @@ export class RegistryClient {
    * @param data.main_file - Path to the main file (e.g., "SKILL.md")
    * @param data.changelog - Markdown formatted changelog for this version
    * @param data.files - Array of file objects with path and content properties
+   * @param data.signature - Base64 ed25519 signature of the files (see utils/signing)
+   * @param data.public_key - Base64 DER public key the signature was made with
    * @returns Response from the API
    * @throws Error if authentication fails or craft creation fails
    */
@@ -267,6 +413,8 @@ export class RegistryClient {
       main_file?: string;
       changelog?: string;
       files: Array<{ path: string; content: string }>;
+      signature?: string;
+      public_key?: string;
     }
   ): Promise<{ success: boolean; download_url?: string; [key: string]: unknown }> {
     const registryUrl = await configManager.getDefaultRegistry();
@@ -5,6 +5,8 @@
  * including MCP server registration and plugin lifecycle.
  */
 
+import type { CraftPermissions } from './craftdesk-json';
+
 /**
  * MCP (Model Context Protocol) Server Configuration
  * Used to register external tools and services with Claude
@@ -175,6 +177,9 @@ export interface PluginManifest {
     preRemove?: string;
   };
 
+  /** CraftDesk-specific: Capabilities the plugin needs (not part of official spec) */
+  permissions?: CraftPermissions;
+
   /** CraftDesk-specific: Wrapped craft metadata (for plugins created from individual crafts) */
   wrapped?: {
     /** Original craft name */
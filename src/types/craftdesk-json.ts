@@ -41,12 +41,18 @@ export interface CraftDeskJson {
   /** Development-only dependencies */
   devDependencies?: Record<string, string | DependencyConfig>;
 
-  /** Dependencies that must be manually installed by the user */
+  /** Dependencies the consuming project must declare itself (validated on install, never installed for this craft) */
   peerDependencies?: Record<string, string | DependencyConfig>;
 
-  /** Dependencies that are not required for core functionality */
+  /** Dependencies that are not required for core functionality (failures to install them are warnings) */
   optionalDependencies?: Record<string, string | DependencyConfig>;
 
+  /**
+   * Crafts a collection bundles (only read when type is 'collection'). Each member
+   * is installed as its own craft and removed together with the collection.
+   */
+  members?: Record<string, string | DependencyConfig>;
+
   /** Registry configuration for dependency resolution */
   registries?: Record<string, RegistryConfig>;
 
@@ -56,6 +62,9 @@ export interface CraftDeskJson {
   /** Hook definitions mapping events to command arrays */
   hooks?: Record<string, string[]>;
 
+  /** Capabilities this craft needs, shown to users for consent on install */
+  permissions?: CraftPermissions;
+
   /** Multi-agent sync configuration */
   multiAgent?: {
     /** Enable multi-agent sync */
@@ -68,13 +77,68 @@ export interface CraftDeskJson {
     autoSync?: boolean;
   };
 
+  /** Fingerprints of the keys registry crafts may be signed with (SHA256:...); crafts signed by other keys are refused */
+  trustedSigners?: string[];
+
+  /** Refuse registry crafts without a valid signature */
+  requireSignatures?: boolean;
+
+  /**
+   * Capabilities crafts may use without asking for consent, keyed by craft name
+   * ('*' for every craft). '*' approves everything, for a craft or within a list.
+   */
+  allowedPermissions?: Record<string, CraftPermissions | '*'>;
+
+  /** Settings for `craftdesk audit` */
+  audit?: {
+    /** Hosts crafts may link to without being reported (subdomains included) */
+    allowedHosts?: string[];
+  };
+
+  /** Install settings */
+  install?: {
+    /** Maximum number of crafts downloaded or cloned at once (defaults to 4) */
+    concurrency?: number;
+
+    /** Refuse to lock or install registry crafts without a valid integrity string */
+    requireIntegrity?: boolean;
+  };
+
   /** Embedded (local) skills that are committed to git (not managed by craftdesk install) */
   embedded?: string[];
 
+  /** Glob patterns of directories holding workspace crafts, each with its own craftdesk.json (e.g. ["skills/*"]) */
+  workspaces?: string[];
+
+  /**
+   * Replacements for the constraints crafts declare on their dependencies, keyed by
+   * craft name (any transitive request) or by a `parent>child` path (e.g. `auth>helper`)
+   */
+  overrides?: Record<string, string | DependencyConfig>;
+
   /** Index signature to allow dynamic property access for future extensibility */
   [key: string]: unknown;
 }
 
+/**
+ * Capabilities a craft needs. Besides what a craft declares, the commands of
+ * its hooks, MCP servers and lifecycle scripts, the environment variables
+ * passed to MCP servers and the hosts of remote MCP servers are included.
+ */
+export interface CraftPermissions {
+  /** Commands run (e.g. 'npx prettier --write .') */
+  commands?: string[];
+
+  /** Hosts connected to */
+  network?: string[];
+
+  /** Environment variables read */
+  env?: string[];
+
+  /** Paths outside the craft directory read or written */
+  filesystem?: string[];
+}
+
 /**
  * Configuration for a dependency with various resolution strategies
  * Supports version ranges, git repositories, and registry-based resolution
@@ -103,6 +167,12 @@ export interface DependencyConfig {
 
   /** Direct file path within the repository */
   file?: string;
+
+  /** Local craft directory, relative to the craftdesk.json declaring it (same as "file:<dir>") */
+  local?: string;
+
+  /** Symlink the local craft instead of copying it (same as "link:<dir>") */
+  link?: boolean;
 }
 
 /**
@@ -1,3 +1,5 @@
+import { CraftPermissions, DependencyConfig } from './craftdesk-json';
+
 /**
  * Lockfile format for CraftDesk (craftdesk.lock)
  * Ensures reproducible installations by recording exact resolved versions
@@ -15,6 +17,9 @@ export interface CraftDeskLock {
   /** Map of craft names to their resolved lock entries */
   crafts: Record<string, LockEntry>;
 
+  /** Overrides from craftdesk.json the lockfile was resolved with */
+  overrides?: Record<string, string | DependencyConfig>;
+
   /** Dependency tree showing parent-child relationships */
   tree?: DependencyTree;
 
@@ -45,7 +50,7 @@ export interface LockEntry {
   /** Download URL or git repository URL */
   resolved: string;
 
-  /** SHA-256 hash for registry downloads or git commit hash */
+  /** Integrity string for registry downloads (e.g. sha512-<base64>), git commit hash, or directory content hash for local crafts */
   integrity: string;
 
   /** Type of craft */
@@ -63,6 +68,24 @@ export interface LockEntry {
   /** Dependencies of this craft mapped to their versions */
   dependencies?: Record<string, string>;
 
+  /** Optional dependencies of this craft mapped to their versions */
+  optionalDependencies?: Record<string, string>;
+
+  /** Peer dependencies of this craft mapped to their versions (provided by the project, never installed for it) */
+  peerDependencies?: Record<string, string>;
+
+  /** Members of this collection mapped to their versions */
+  members?: Record<string, string>;
+
+  /** Collections that list this craft as a member */
+  memberOf?: string[];
+
+  /** Whether the craft is only required as an optional dependency (fetch failures are warnings) */
+  optional?: boolean;
+
+  /** Override key from craftdesk.json that replaced the constraint this craft was resolved with (e.g. auth>helper) */
+  override?: string;
+
   /** Installation method */
   installedAs?: 'plugin' | 'dependency' | 'direct' | 'wrapped';
 
@@ -86,6 +109,34 @@ export interface LockEntry {
 
   /** Direct file path within repository */
   file?: string;
+
+  /** Local craft directory, relative to the project root */
+  local?: string;
+
+  /** Whether the local craft is symlinked instead of copied */
+  link?: boolean;
+
+  /**
+   * SHA-256 hash of the installed files (relative paths and contents), recorded on
+   * the first install and verified after every later one (lockfile v2). Linked
+   * crafts have none.
+   */
+  treeHash?: string;
+
+  /** Fingerprint of the key that signed this registry craft (SHA256:...) */
+  signer?: string;
+
+  /** Base64 ed25519 signature of the craft's files, verified before extraction */
+  signature?: string;
+
+  /** Base64 DER public key of the signer */
+  publicKey?: string;
+
+  /** Capabilities approved for this craft; new ones require consent again */
+  permissions?: CraftPermissions;
+
+  /** Directory linked in place of this craft by `craftdesk link` (install and prune leave it alone) */
+  linked?: string;
 }
 
 /**
@@ -0,0 +1,69 @@
+/**
+ * Helpers for running async work with a bounded number of tasks in flight
+ */
+
+/** Number of crafts installed at once when neither the CLI nor craftdesk.json sets a limit */
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Runs an async function over every item with at most `limit` calls in flight
+ *
+ * Results keep the order of the input. Fails fast: after the first rejection
+ * no new items are started, in-flight calls are allowed to settle, and the
+ * first error is rethrown.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls (at least 1)
+ * @param fn - Async function called for each item with its index
+ * @returns Results in input order
+ * @throws The first error raised by `fn`
+ *
+ * @example
+ * ```typescript
+ * const sizes = await mapWithConcurrency(urls, 4, url => fetchSize(url));
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const errors: unknown[] = [];
+
+  const worker = async (): Promise<void> => {
+    while (errors.length === 0 && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+
+  return results;
+}
+
+/**
+ * Parses a concurrency setting from the CLI or craftdesk.json
+ *
+ * @param value - Raw value (string from the CLI, number from craftdesk.json)
+ * @returns The concurrency limit
+ * @throws Error if the value is not a positive integer
+ */
+export function parseConcurrency(value: string | number): number {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`Invalid concurrency "${value}": expected a positive integer`);
+  }
+  return parsed;
+}
@@ -0,0 +1,101 @@
+/**
+ * .craftdeskignore: files left out when publishing a craft
+ *
+ * Uses .gitignore syntax: one pattern per line, `#` comments, `*` and `?`
+ * within a path segment, `**` across directories, a trailing `/` for
+ * directories only, a leading `/` (or any inner `/`) to anchor the pattern to
+ * the craft directory, and `!` to re-include files. The last matching pattern
+ * wins, and files inside an ignored directory cannot be re-included.
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+
+/** Name of the ignore file in a craft directory */
+export const IGNORE_FILE = '.craftdeskignore';
+
+/**
+ * Decides whether a path is ignored
+ *
+ * @param relativePath - Path relative to the craft directory, with forward slashes
+ * @param isDirectory - Whether the path is a directory
+ * @returns True if the path should be left out
+ */
+export type IgnoreMatcher = (relativePath: string, isDirectory: boolean) => boolean;
+
+interface IgnoreRule {
+  negated: boolean;
+  directoryOnly: boolean;
+  regex: RegExp;
+}
+
+/**
+ * Parses .craftdeskignore contents
+ *
+ * @param content - Contents of the ignore file
+ * @returns Matcher for the patterns
+ */
+export function parseIgnorePatterns(content: string): IgnoreMatcher {
+  const rules = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(compileRule);
+
+  return (relativePath, isDirectory) => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(relativePath)) ignored = !rule.negated;
+    }
+    return ignored;
+  };
+}
+
+/**
+ * Reads the .craftdeskignore of a craft
+ *
+ * @param craftDir - Craft directory
+ * @returns Matcher for its patterns; nothing is ignored without the file
+ */
+export async function readIgnoreFile(craftDir: string): Promise<IgnoreMatcher> {
+  const content = await fs.readFile(path.join(craftDir, IGNORE_FILE), 'utf-8').catch(() => '');
+  return parseIgnorePatterns(content);
+}
+
+function compileRule(line: string): IgnoreRule {
+  let pattern = line.replace(/^\\(?=[#!])/, '');
+  const negated = line.startsWith('!');
+  if (negated) pattern = pattern.slice(1);
+
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) pattern = pattern.slice(0, -1);
+
+  // Patterns without an inner slash match at any depth
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) pattern = pattern.slice(1);
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (pattern.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (pattern.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return {
+    negated,
+    directoryOnly,
+    regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`)
+  };
+}
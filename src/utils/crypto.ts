@@ -1,5 +1,31 @@
 import crypto from 'crypto';
 import fs from 'fs-extra';
+import path from 'path';
+
+/** Hash algorithms accepted in integrity strings, from weakest to strongest */
+export const INTEGRITY_ALGORITHMS = ['sha256', 'sha384', 'sha512'] as const;
+
+/** Hash algorithm of an integrity string */
+export type IntegrityAlgorithm = typeof INTEGRITY_ALGORITHMS[number];
+
+/**
+ * A single hash of an integrity string
+ */
+export interface IntegrityHash {
+  /** Hash algorithm */
+  algorithm: IntegrityAlgorithm;
+  /** Base64-encoded digest */
+  digest: string;
+}
+
+/** Digest length in bytes for each algorithm */
+const DIGEST_LENGTHS: Record<IntegrityAlgorithm, number> = { sha256: 32, sha384: 48, sha512: 64 };
+
+/** One `<algorithm>-<base64 digest>` token, with optional `?options` (ignored, as in SRI) */
+const SRI_TOKEN = /^(sha256|sha384|sha512)-([A-Za-z0-9+/]+={0,2})(\?\S*)?$/;
+
+/** Bare hex SHA-256, written by craftdesk before integrity strings had an algorithm prefix */
+const LEGACY_HEX_SHA256 = /^[a-f0-9]{64}$/i;
 
 /**
  * Calculate SHA-256 checksum of a file
@@ -8,24 +34,144 @@ import fs from 'fs-extra';
  * @returns Promise resolving to hex-encoded SHA-256 hash
  */
 export async function calculateFileChecksum(filePath: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const hash = crypto.createHash('sha256');
-    const stream = fs.createReadStream(filePath);
+  return hashFile(filePath, 'sha256', 'hex');
+}
 
-    stream.on('data', (data) => {
-      hash.update(data);
-    });
+/**
+ * Calculate the integrity string of a file
+ *
+ * @param filePath - Path to the file
+ * @param algorithm - Hash algorithm (defaults to sha512)
+ * @returns Promise resolving to an SRI string such as `sha512-<base64>`
+ */
+export async function calculateIntegrity(filePath: string, algorithm: IntegrityAlgorithm = 'sha512'): Promise<string> {
+  return `${algorithm}-${await hashFile(filePath, algorithm, 'base64')}`;
+}
 
-    stream.on('end', () => {
-      resolve(hash.digest('hex'));
-    });
+/**
+ * Parses an integrity string in Subresource Integrity format
+ *
+ * The string holds one or more whitespace-separated `<algorithm>-<base64>`
+ * hashes (sha256, sha384 or sha512). A bare hex SHA-256, as written by older
+ * versions of craftdesk, is accepted as a sha256 hash.
+ *
+ * @param integrity - Integrity string (e.g. `sha512-z4PhNX7vuL3x... sha256-47DEQpj8...`)
+ * @returns The hashes it contains, in order
+ * @throws Error if the string is empty, uses another algorithm or has a malformed digest
+ */
+export function parseIntegrity(integrity: string): IntegrityHash[] {
+  const tokens = integrity.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) {
+    throw new Error('Invalid integrity "": expected sha256-, sha384- or sha512- followed by a base64 digest');
+  }
 
-    stream.on('error', (err) => {
-      reject(err);
-    });
+  return tokens.map(token => {
+    if (LEGACY_HEX_SHA256.test(token)) {
+      return { algorithm: 'sha256', digest: Buffer.from(token, 'hex').toString('base64') };
+    }
+
+    const match = token.match(SRI_TOKEN);
+    const algorithm = match?.[1] as IntegrityAlgorithm | undefined;
+    if (!match || !algorithm || Buffer.from(match[2], 'base64').length !== DIGEST_LENGTHS[algorithm]) {
+      throw new Error(`Invalid integrity "${token}": expected sha256-, sha384- or sha512- followed by a base64 digest`);
+    }
+    return { algorithm, digest: match[2] };
   });
 }
 
+/**
+ * Checks whether a value is a usable integrity string
+ *
+ * @param integrity - Value from a lock entry or the registry
+ * @returns True if `parseIntegrity` accepts it (placeholders such as 'sha256-pending' are rejected)
+ */
+export function isValidIntegrity(integrity: string | undefined): integrity is string {
+  if (!integrity) return false;
+  try {
+    parseIntegrity(integrity);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rewrites an integrity string in canonical SRI form
+ *
+ * @param integrity - Integrity string (legacy hex SHA-256 included)
+ * @returns Space-separated `<algorithm>-<base64>` hashes, without options
+ * @throws Error if the integrity string is invalid
+ */
+export function normalizeIntegrity(integrity: string): string {
+  return parseIntegrity(integrity).map(hash => `${hash.algorithm}-${hash.digest}`).join(' ');
+}
+
+/**
+ * Picks the hashes of the strongest algorithm in an integrity string
+ *
+ * As in SRI, only these are checked: weaker hashes next to a stronger one
+ * are ignored.
+ *
+ * @param integrity - Integrity string
+ * @returns Every hash using the strongest algorithm present
+ * @throws Error if the integrity string is invalid
+ */
+export function getStrongestHashes(integrity: string): IntegrityHash[] {
+  const hashes = parseIntegrity(integrity);
+  const strongest = hashes.reduce((best, hash) =>
+    INTEGRITY_ALGORITHMS.indexOf(hash.algorithm) > INTEGRITY_ALGORITHMS.indexOf(best) ? hash.algorithm : best,
+  hashes[0].algorithm);
+  return hashes.filter(hash => hash.algorithm === strongest);
+}
+
+/**
+ * Verify a file against an integrity string
+ *
+ * @param filePath - Path to the file to verify
+ * @param integrity - Integrity string (see `parseIntegrity`)
+ * @returns Promise resolving to true if the file matches one of the strongest hashes
+ * @throws Error if the integrity string is invalid
+ */
+export async function verifyIntegrity(filePath: string, integrity: string): Promise<boolean> {
+  const expected = getStrongestHashes(integrity);
+  const actual = await hashFile(filePath, expected[0].algorithm, 'base64');
+  return expected.some(hash => hash.digest === actual);
+}
+
+/**
+ * Calculate SHA-256 checksum of a directory's contents
+ *
+ * Hashes every file's relative path and contents in a stable order, so the
+ * result only changes when a file is added, removed, renamed or edited.
+ * Symlinks are followed, and `.git` directories are skipped.
+ *
+ * @param dirPath - Path to the directory
+ * @returns Promise resolving to hex-encoded SHA-256 hash
+ */
+export async function calculateDirectoryChecksum(dirPath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const names = (await fs.readdir(path.join(dirPath, relativeDir))).sort();
+    for (const name of names) {
+      if (name === '.git') continue;
+      const relativePath = relativeDir ? `${relativeDir}/${name}` : name;
+      const stat = await fs.stat(path.join(dirPath, relativePath));
+
+      if (stat.isDirectory()) {
+        await walk(relativePath);
+      } else {
+        hash.update(`${relativePath}\0`);
+        hash.update(await fs.readFile(path.join(dirPath, relativePath)));
+        hash.update('\0');
+      }
+    }
+  };
+
+  await walk('');
+  return hash.digest('hex');
+}
+
 /**
  * Verify file checksum matches expected value
  *
@@ -47,3 +193,22 @@ export async function verifyFileChecksum(filePath: string, expectedChecksum: str
 export function formatChecksum(checksum: string): string {
   return checksum.substring(0, 12);
 }
+
+function hashFile(filePath: string, algorithm: IntegrityAlgorithm, encoding: 'hex' | 'base64'): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash(algorithm);
+    const stream = fs.createReadStream(filePath);
+
+    stream.on('data', (data) => {
+      hash.update(data);
+    });
+
+    stream.on('end', () => {
+      resolve(hash.digest(encoding));
+    });
+
+    stream.on('error', (err) => {
+      reject(err);
+    });
+  });
+}
@@ -0,0 +1,227 @@
+/**
+ * Builds the resolved dependency graph of a project from craftdesk.lock and
+ * renders it as Graphviz DOT, Mermaid or JSON
+ */
+
+import { CraftDeskJson, DependencyConfig } from '../types/craftdesk-json';
+import { CraftDeskLock, LockEntry } from '../types/craftdesk-lock';
+import { describeDeclaration } from './lockfile-diff';
+
+/** Id of the node standing for the project's craftdesk.json */
+export const GRAPH_ROOT = 'craftdesk.json';
+
+/**
+ * How a craft is connected to the craft (or project) that requires it
+ *
+ * - `dependency` / `devDependency` / `optional`: declared in the matching section
+ * - `plugin`: bundled by a plugin
+ * - `collection`: member of a collection
+ * - `wraps`: wrapped as a plugin with `craftdesk add --as-plugin`
+ */
+export type GraphEdgeKind = 'dependency' | 'devDependency' | 'optional' | 'plugin' | 'collection' | 'wraps';
+
+/**
+ * A craft (or the project itself) in the graph
+ */
+export interface GraphNode {
+  /** Craft name, or GRAPH_ROOT for the project */
+  id: string;
+  /** Display name (the project name for the root) */
+  name: string;
+  /** Locked version */
+  version: string;
+  /** Craft type ('project' for the root) */
+  type: LockEntry['type'] | 'project';
+  /** Where the craft is installed from */
+  source?: 'registry' | 'git' | 'local';
+  /** Set when a newer version is available */
+  outdated?: { wanted: string; latest: string };
+}
+
+/**
+ * A parent/child relationship in the graph
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: GraphEdgeKind;
+  /** Constraint the parent declared, when known */
+  constraint?: string;
+}
+
+/**
+ * The project's dependency graph
+ */
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Builds the dependency graph recorded in a lockfile
+ *
+ * Edges come from each craft's dependencies and members, the plugin tree and wrapped-by
+ * relationships. With a type filter, only crafts of those types (and the
+ * edges between them) are kept.
+ *
+ * @param craftDeskJson - Project manifest
+ * @param lockfile - Project lockfile
+ * @param types - Craft types to keep (all types when empty)
+ * @returns The graph, with the project as its first node
+ */
+export function buildDependencyGraph(craftDeskJson: CraftDeskJson, lockfile: CraftDeskLock, types: string[] = []): DependencyGraph {
+  const crafts = lockfile.crafts || {};
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+
+  nodes.set(GRAPH_ROOT, { id: GRAPH_ROOT, name: craftDeskJson.name, version: craftDeskJson.version, type: 'project' });
+  for (const [name, entry] of Object.entries(crafts)) {
+    nodes.set(name, { id: name, name, version: entry.version, type: entry.type, source: getSource(entry) });
+  }
+
+  const addEdge = (edge: GraphEdge): void => {
+    if (!nodes.has(edge.from) || !nodes.has(edge.to)) return;
+    const key = `${edge.from}\0${edge.to}`;
+    // Edges recorded with a constraint win over ones that only know the relationship
+    if (!edges.get(key)?.constraint) {
+      edges.set(key, edge);
+    }
+  };
+
+  const sections: Array<[GraphEdgeKind, Record<string, string | DependencyConfig> | undefined]> = [
+    ['dependency', craftDeskJson.dependencies],
+    ['devDependency', craftDeskJson.devDependencies],
+    ['optional', craftDeskJson.optionalDependencies]
+  ];
+  for (const [kind, dependencies] of sections) {
+    for (const [name, dep] of Object.entries(dependencies || {})) {
+      addEdge({ from: GRAPH_ROOT, to: name, kind, constraint: describeDeclaration(dep) });
+    }
+  }
+
+  for (const [name, entry] of Object.entries(crafts)) {
+    const kind: GraphEdgeKind = entry.type === 'plugin' || entry.type === 'collection' ? entry.type : 'dependency';
+    for (const [child, constraint] of Object.entries(entry.dependencies || {})) {
+      addEdge({ from: name, to: child, kind, constraint });
+    }
+    for (const [child, constraint] of Object.entries(entry.optionalDependencies || {})) {
+      addEdge({ from: name, to: child, kind: 'optional', constraint });
+    }
+    for (const [child, constraint] of Object.entries(entry.members || {})) {
+      addEdge({ from: name, to: child, kind: 'collection', constraint });
+    }
+
+    // Wrapper plugins are generated on install and have no lock entry of their own
+    if (entry.wrappedBy) {
+      if (!nodes.has(entry.wrappedBy)) {
+        nodes.set(entry.wrappedBy, { id: entry.wrappedBy, name: entry.wrappedBy, version: entry.version, type: 'plugin', source: getSource(entry) });
+      }
+      addEdge({ from: entry.wrappedBy, to: name, kind: 'wraps' });
+    }
+  }
+
+  for (const [plugin, info] of Object.entries(lockfile.pluginTree || {})) {
+    for (const child of info.dependencies || []) {
+      addEdge({ from: plugin, to: child, kind: 'plugin' });
+    }
+    for (const parent of info.requiredBy || []) {
+      addEdge({ from: parent, to: plugin, kind: 'plugin' });
+    }
+  }
+
+  const keep = (id: string): boolean => id === GRAPH_ROOT || types.length === 0 || types.includes(nodes.get(id)?.type || '');
+
+  return {
+    nodes: [...nodes.values()].filter(node => keep(node.id)),
+    edges: [...edges.values()].filter(edge => keep(edge.from) && keep(edge.to))
+  };
+}
+
+/**
+ * Renders a graph as Graphviz DOT
+ *
+ * @param graph - Graph from `buildDependencyGraph`
+ * @returns DOT source (`dot -Tsvg` renders it)
+ */
+export function formatDot(graph: DependencyGraph): string {
+  const lines = ['digraph craftdesk {', '  rankdir=LR;', '  node [shape=box, style=rounded];'];
+
+  for (const node of graph.nodes) {
+    const attributes = [`label=${quoteDot(nodeLabel(node, '\n'))}`];
+    if (node.id === GRAPH_ROOT) {
+      attributes.push('shape=doubleoctagon');
+    }
+    if (node.outdated) {
+      attributes.push('style="rounded,filled"', 'fillcolor="#fde68a"', 'color="#b45309"');
+    }
+    lines.push(`  ${quoteDot(node.id)} [${attributes.join(', ')}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const attributes = [`label=${quoteDot(edgeLabel(edge))}`];
+    if (edge.kind === 'optional' || edge.kind === 'devDependency') {
+      attributes.push('style=dashed');
+    } else if (edge.kind === 'wraps') {
+      attributes.push('style=dotted');
+    }
+    lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)} [${attributes.join(', ')}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Renders a graph as a Mermaid flowchart
+ *
+ * @param graph - Graph from `buildDependencyGraph`
+ * @returns Mermaid source (for a ```mermaid block in Markdown)
+ */
+export function formatMermaid(graph: DependencyGraph): string {
+  // Mermaid ids cannot contain the / and @ of craft names
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const lines = ['flowchart LR'];
+
+  for (const node of graph.nodes) {
+    const label = quoteMermaid(nodeLabel(node, '<br/>'));
+    lines.push(`  ${ids.get(node.id)}${node.id === GRAPH_ROOT ? `[[${label}]]` : `[${label}]`}`);
+  }
+
+  for (const edge of graph.edges) {
+    const arrow = edge.kind === 'optional' || edge.kind === 'devDependency' || edge.kind === 'wraps' ? '-.->' : '-->';
+    lines.push(`  ${ids.get(edge.from)} ${arrow}|${quoteMermaid(edgeLabel(edge))}| ${ids.get(edge.to)}`);
+  }
+
+  const outdated = graph.nodes.filter(node => node.outdated);
+  if (outdated.length > 0) {
+    lines.push('  classDef outdated fill:#fde68a,stroke:#b45309');
+    lines.push(`  class ${outdated.map(node => ids.get(node.id)).join(',')} outdated`);
+  }
+
+  return lines.join('\n');
+}
+
+function getSource(entry: LockEntry): GraphNode['source'] {
+  if (entry.local) return 'local';
+  return entry.git ? 'git' : 'registry';
+}
+
+function nodeLabel(node: GraphNode, newline: string): string {
+  const details = node.id === GRAPH_ROOT ? [] : [node.source ? `${node.type}, ${node.source}` : node.type];
+  if (node.outdated) {
+    details.push(`outdated: ${node.outdated.latest} available`);
+  }
+  return [`${node.name}@${node.version}`, ...details].join(newline);
+}
+
+function edgeLabel(edge: GraphEdge): string {
+  return edge.constraint ? `${edge.kind} ${edge.constraint}` : edge.kind;
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function quoteMermaid(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`;
+}
@@ -0,0 +1,156 @@
+/**
+ * Explains why a craft is installed by finding every dependency path from
+ * craftdesk.json to it in the lockfile
+ *
+ * Edges come from each lock entry's `dependencies`, `optionalDependencies` and
+ * `members`, from `pluginTree` (`dependencies` and `requiredBy`) and from the nested `tree`,
+ * so a path is found whichever of them recorded it.
+ */
+
+import { CraftDeskJson, DependencyConfig } from '../types/craftdesk-json';
+import { CraftDeskLock, DependencyTree } from '../types/craftdesk-lock';
+import { describeDeclaration } from './lockfile-diff';
+import { parseTreeKey } from './dependency-tree';
+
+/**
+ * Where a dependency was declared
+ *
+ * `dependencies`, `devDependencies` and `optionalDependencies` name the section of
+ * craftdesk.json or of the parent craft; `plugin` and `collection` mean the parent
+ * is a plugin or collection that bundles the craft.
+ */
+export type DependencySource = 'dependencies' | 'devDependencies' | 'optionalDependencies' | 'plugin' | 'collection';
+
+/**
+ * One step of a dependency path
+ */
+export interface DependencyHop {
+  /** Craft required at this step */
+  name: string;
+  /** Locked version of the craft */
+  version: string;
+  /** Constraint the parent declared for the craft, when known */
+  constraint?: string;
+  /** Where the parent declared the craft */
+  source: DependencySource;
+}
+
+interface Edge {
+  constraint?: string;
+  source: DependencySource;
+}
+
+/**
+ * Finds every path from the project's declared dependencies to a craft
+ *
+ * @param craftDeskJson - Project manifest
+ * @param lockfile - Project lockfile
+ * @param target - Craft name to explain
+ * @returns Paths (each starting at a dependency of craftdesk.json and ending at the target), shortest first
+ */
+export function findDependencyPaths(craftDeskJson: CraftDeskJson, lockfile: CraftDeskLock, target: string): DependencyHop[][] {
+  const crafts = lockfile.crafts || {};
+  const edges = buildEdges(lockfile);
+  const paths: DependencyHop[][] = [];
+
+  const walk = (name: string, path: DependencyHop[]): void => {
+    if (name === target) {
+      paths.push(path);
+      return;
+    }
+    for (const [child, edge] of edges.get(name) || []) {
+      if (!crafts[child] || path.some(hop => hop.name === child)) continue;
+      walk(child, [...path, { name: child, version: crafts[child].version, ...edge }]);
+    }
+  };
+
+  const sections: Array<[DependencySource, Record<string, string | DependencyConfig> | undefined]> = [
+    ['dependencies', craftDeskJson.dependencies],
+    ['devDependencies', craftDeskJson.devDependencies],
+    ['optionalDependencies', craftDeskJson.optionalDependencies]
+  ];
+  for (const [source, dependencies] of sections) {
+    for (const [name, dep] of Object.entries(dependencies || {})) {
+      if (!crafts[name]) continue;
+      walk(name, [{ name, version: crafts[name].version, constraint: describeDeclaration(dep), source }]);
+    }
+  }
+
+  return paths.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Formats a dependency path as an indented chain starting at craftdesk.json
+ *
+ * @param path - Path from `findDependencyPaths`
+ * @param lockfile - Project lockfile (for override annotations)
+ * @returns Lines to print
+ */
+export function formatDependencyPath(path: DependencyHop[], lockfile: CraftDeskLock): string[] {
+  return ['craftdesk.json', ...path.map((hop, index) => {
+    const declared = hop.constraint ? `${hop.source}: ${hop.constraint}` : hop.source;
+    const override = lockfile.crafts[hop.name]?.override;
+    return `${'    '.repeat(index)}└── ${hop.name}@${hop.version} (${declared})${override ? ` [override "${override}"]` : ''}`;
+  })];
+}
+
+function buildEdges(lockfile: CraftDeskLock): Map<string, Map<string, Edge>> {
+  const crafts = lockfile.crafts || {};
+  const edges = new Map<string, Map<string, Edge>>();
+
+  const sourceFor = (parent: string, declaredIn: DependencySource): DependencySource => {
+    const type = crafts[parent]?.type;
+    return type === 'plugin' || type === 'collection' ? type : declaredIn;
+  };
+
+  // Edges recorded with a constraint win over ones that only know the relationship
+  const addEdge = (parent: string, child: string, edge: Edge): void => {
+    const children = edges.get(parent) || new Map<string, Edge>();
+    edges.set(parent, children);
+    if (!children.get(child)?.constraint) {
+      children.set(child, edge);
+    }
+  };
+
+  const constraintOf = (parent: string, child: string): string | undefined =>
+    crafts[parent]?.dependencies?.[child] ?? crafts[parent]?.optionalDependencies?.[child] ?? crafts[parent]?.members?.[child];
+
+  for (const [name, entry] of Object.entries(crafts)) {
+    for (const [child, constraint] of Object.entries(entry.dependencies || {})) {
+      addEdge(name, child, { constraint, source: sourceFor(name, 'dependencies') });
+    }
+    for (const [child, constraint] of Object.entries(entry.optionalDependencies || {})) {
+      addEdge(name, child, { constraint, source: sourceFor(name, 'optionalDependencies') });
+    }
+    for (const [child, constraint] of Object.entries(entry.members || {})) {
+      addEdge(name, child, { constraint, source: 'collection' });
+    }
+  }
+
+  for (const [plugin, info] of Object.entries(lockfile.pluginTree || {})) {
+    for (const child of info.dependencies || []) {
+      addEdge(plugin, child, { constraint: constraintOf(plugin, child), source: 'plugin' });
+    }
+    for (const parent of info.requiredBy || []) {
+      addEdge(parent, plugin, { constraint: constraintOf(parent, plugin), source: 'plugin' });
+    }
+  }
+
+  const walkTree = (parent: string, tree: DependencyTree): void => {
+    for (const [key, node] of Object.entries(tree)) {
+      const child = parseTreeKey(key).name;
+      addEdge(parent, child, { constraint: constraintOf(parent, child), source: sourceFor(parent, 'dependencies') });
+      if (typeof node === 'object' && node.dependencies) {
+        walkTree(child, node.dependencies);
+      }
+    }
+  };
+
+  for (const [key, node] of Object.entries(lockfile.tree || {})) {
+    if (typeof node === 'object' && node.dependencies) {
+      walkTree(parseTreeKey(key).name, node.dependencies);
+    }
+  }
+
+  return edges;
+}
@@ -0,0 +1,100 @@
+/**
+ * Builds the `tree` section of craftdesk.lock
+ *
+ * The tree starts at the project's declared dependencies and nests every
+ * craft's dependencies below it, keyed `name@version`. A craft is expanded
+ * where it first appears; later appearances (including circular ones) are
+ * marked `(shared)`.
+ */
+
+import { CraftDeskJson } from '../types/craftdesk-json';
+import { CraftDeskLock, DependencyTree } from '../types/craftdesk-lock';
+import { findWorkspaces, addWorkspaceDependencies } from './workspaces';
+
+/** Marker for a craft that is expanded elsewhere in the tree */
+export const SHARED_TREE_NODE = '(shared)';
+
+/**
+ * Builds the dependency tree of a lockfile
+ *
+ * Children come from each craft's `dependencies`, `optionalDependencies` and
+ * collection `members`, and from its `pluginTree` dependencies. Crafts missing from the lockfile
+ * (skipped optional or production-only installs) are left out.
+ *
+ * @param roots - Top-level craft names, in display order
+ * @param lockfile - Lockfile whose crafts (and plugin tree) the tree describes
+ * @returns The dependency tree
+ */
+export function buildDependencyTree(roots: string[], lockfile: Pick<CraftDeskLock, 'crafts' | 'pluginTree'>): DependencyTree {
+  const crafts = lockfile.crafts || {};
+  const seen = new Set<string>();
+
+  const childrenOf = (name: string): string[] => [...new Set([
+    ...Object.keys(crafts[name]?.dependencies || {}),
+    ...Object.keys(crafts[name]?.optionalDependencies || {}),
+    ...Object.keys(crafts[name]?.members || {}),
+    ...(lockfile.pluginTree?.[name]?.dependencies || [])
+  ])];
+
+  const build = (names: string[]): DependencyTree => {
+    const tree: DependencyTree = {};
+
+    for (const name of names) {
+      const entry = crafts[name];
+      if (!entry) continue;
+
+      const key = `${name}@${entry.version}`;
+      if (seen.has(name)) {
+        tree[key] = SHARED_TREE_NODE;
+        continue;
+      }
+      seen.add(name);
+
+      const dependencies = build(childrenOf(name));
+      tree[key] = Object.keys(dependencies).length > 0 ? { dependencies } : {};
+    }
+
+    return tree;
+  };
+
+  return build([...new Set(roots)]);
+}
+
+/**
+ * Rebuilds a lockfile's tree from the project's declared dependencies
+ *
+ * Used by commands that edit craftdesk.lock outside of `install`. Workspace
+ * crafts count as declared dependencies of the root project.
+ *
+ * @param lockfile - Lockfile to update in place
+ * @param craftDeskJson - Project manifest
+ */
+export async function updateDependencyTree(lockfile: CraftDeskLock, craftDeskJson: CraftDeskJson): Promise<void> {
+  const manifest = addWorkspaceDependencies(craftDeskJson, await findWorkspaces(process.cwd(), craftDeskJson.workspaces));
+  lockfile.tree = buildDependencyTree(getDeclaredNames(manifest), lockfile);
+}
+
+/**
+ * Gets the names of every dependency declared in a manifest
+ *
+ * @param craftDeskJson - Project manifest
+ * @returns Names from dependencies, devDependencies and optionalDependencies, in that order
+ */
+export function getDeclaredNames(craftDeskJson: CraftDeskJson): string[] {
+  return [
+    ...Object.keys(craftDeskJson.dependencies || {}),
+    ...Object.keys(craftDeskJson.devDependencies || {}),
+    ...Object.keys(craftDeskJson.optionalDependencies || {})
+  ];
+}
+
+/**
+ * Gets the craft name and version from a `name@version` tree key
+ *
+ * @param key - Tree key (scoped names may start with `@`)
+ * @returns Craft name and version (empty if the key has none)
+ */
+export function parseTreeKey(key: string): { name: string; version: string } {
+  const at = key.lastIndexOf('@');
+  return at > 0 ? { name: key.slice(0, at), version: key.slice(at + 1) } : { name: key, version: '' };
+}
@@ -6,6 +6,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import { CraftDeskJson } from '../types/craftdesk-json';
 import { CraftDeskLock } from '../types/craftdesk-lock';
+import { migrateLockfile } from './lockfile-migration';
 
 /**
  * Reads and parses a craftdesk.json file from the specified directory
@@ -39,18 +40,25 @@ export async function writeCraftDeskJson(data: CraftDeskJson, dir: string = proc
 /**
  * Reads and parses a craftdesk.lock file from the specified directory
  *
+ * Lockfiles in an older format are migrated to the current one in memory;
+ * the migration is saved the next time the lockfile is written.
+ *
  * @param dir - Directory containing craftdesk.lock (defaults to current working directory)
  * @returns Parsed CraftDeskLock object or null if file doesn't exist or is invalid
+ * @throws Error if the lockfile was written by a newer version of craftdesk
  */
 export async function readCraftDeskLock(dir: string = process.cwd()): Promise<CraftDeskLock | null> {
   const filePath = path.join(dir, 'craftdesk.lock');
+  let lockfile: CraftDeskLock;
 
   try {
     const content = await fs.readFile(filePath, 'utf-8');
-    return JSON.parse(content);
+    lockfile = JSON.parse(content);
   } catch {
     return null;
   }
+
+  return migrateLockfile(lockfile);
 }
 
 /**
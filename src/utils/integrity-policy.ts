@@ -0,0 +1,29 @@
+import { CraftDeskJson } from '../types/craftdesk-json';
+import { CraftDeskLock } from '../types/craftdesk-lock';
+import { isValidIntegrity } from './crypto';
+
+/**
+ * Checks whether registry crafts must have a real integrity value
+ *
+ * @param craftDeskJson - Project manifest (`install.requireIntegrity`)
+ * @param flag - Value of the --require-integrity option, if given
+ * @returns True if crafts without integrity must not be locked or installed
+ */
+export function isIntegrityRequired(craftDeskJson: CraftDeskJson | null, flag?: boolean): boolean {
+  return flag === true || craftDeskJson?.install?.requireIntegrity === true;
+}
+
+/**
+ * Finds registry crafts whose lock entry has no usable integrity string
+ *
+ * Git, local and linked crafts lock a commit or directory hash instead and
+ * are never reported.
+ *
+ * @param lockfile - Lockfile to check
+ * @returns Names of the registry crafts with a missing or placeholder integrity (e.g. 'sha256-pending')
+ */
+export function findCraftsWithoutIntegrity(lockfile: CraftDeskLock): string[] {
+  return Object.entries(lockfile.crafts)
+    .filter(([, entry]) => !entry.git && !entry.local && !entry.linked && !isValidIntegrity(entry.integrity))
+    .map(([name]) => name);
+}
@@ -0,0 +1,57 @@
+/**
+ * Helpers for local path dependencies
+ *
+ * A local dependency points at a craft directory on disk instead of a
+ * registry or git repository. It can be declared as a string
+ * (`"file:../skills/my-skill"` to copy, `"link:../skills/my-skill"` to symlink)
+ * or as an object (`{ "local": "../skills/my-skill", "link": true }`).
+ */
+
+import path from 'path';
+import { DependencyConfig } from '../types/craftdesk-json';
+
+/**
+ * A parsed local dependency declaration
+ */
+export interface LocalDependency {
+  /** Directory of the craft, relative to the craftdesk.json declaring it (or absolute) */
+  path: string;
+  /** Whether the craft is symlinked instead of copied */
+  link: boolean;
+}
+
+/**
+ * Parses a dependency declaration as a local dependency
+ *
+ * @param dep - Version string or dependency configuration
+ * @returns The local dependency, or null if the declaration is not local
+ */
+export function parseLocalDependency(dep: string | DependencyConfig): LocalDependency | null {
+  if (typeof dep === 'string') {
+    const match = dep.match(/^(file|link):(.+)$/);
+    return match ? { path: match[2], link: match[1] === 'link' } : null;
+  }
+
+  return dep.local ? { path: dep.local, link: dep.link === true } : null;
+}
+
+/**
+ * Describes a local dependency in its string form
+ *
+ * @param local - Parsed local dependency
+ * @returns `file:<path>` or `link:<path>`
+ */
+export function formatLocalDependency(local: LocalDependency): string {
+  return `${local.link ? 'link' : 'file'}:${local.path}`;
+}
+
+/**
+ * Converts a local directory to the form recorded in craftdesk.lock
+ *
+ * @param directory - Absolute directory of the craft
+ * @param projectDir - Project root the lockfile belongs to
+ * @returns Path relative to the project root, with forward slashes
+ */
+export function toLockedLocalPath(directory: string, projectDir: string = process.cwd()): string {
+  return path.relative(projectDir, directory).split(path.sep).join('/') || '.';
+}
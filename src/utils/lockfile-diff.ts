@@ -0,0 +1,412 @@
+/**
+ * Utilities for comparing declared dependencies in craftdesk.json against
+ * the resolved entries in craftdesk.lock
+ */
+
+import path from 'path';
+import { DependencyConfig } from '../types/craftdesk-json';
+import { CraftDeskLock, LockEntry } from '../types/craftdesk-lock';
+import { parseVersion, satisfies } from './semver';
+import { parseLocalDependency, formatLocalDependency } from './local-dependency';
+import { calculateDirectoryChecksum } from './crypto';
+import { buildDependencyTree } from './dependency-tree';
+
+/**
+ * A declared dependency whose lock entry no longer matches its declaration
+ */
+export interface ChangedDependency {
+  /** Craft name */
+  name: string;
+  /** Declaration from craftdesk.json */
+  declared: string | DependencyConfig;
+  /** Current lock entry */
+  locked: LockEntry;
+  /** Human-readable descriptions of each mismatch */
+  reasons: string[];
+}
+
+/**
+ * Result of comparing craftdesk.json against craftdesk.lock
+ */
+export interface LockfileDiff {
+  /** Declared dependencies with no lock entry */
+  missing: Array<{ name: string; declared: string | DependencyConfig }>;
+  /** Lock entries that are neither declared nor required by another locked craft */
+  extra: Array<{ name: string; locked: LockEntry }>;
+  /** Declared dependencies whose lock entry doesn't match the declaration */
+  changed: ChangedDependency[];
+}
+
+/** Source fields that must match exactly between a git declaration and its lock entry */
+const GIT_FIELDS = ['git', 'branch', 'tag', 'path', 'file'] as const;
+
+/**
+ * Compares declared dependencies against a lockfile
+ *
+ * Transitive crafts (reachable from a declared craft through lock entry
+ * dependencies, collection members or the plugin tree) and linked crafts are not reported as extra.
+ *
+ * @param declared - Declared dependencies (dependencies, devDependencies and optionalDependencies merged)
+ * @param lockfile - Lockfile to compare against
+ * @returns The missing, extra and changed dependencies
+ */
+export function diffLockfile(
+  declared: Record<string, string | DependencyConfig>,
+  lockfile: CraftDeskLock
+): LockfileDiff {
+  const diff: LockfileDiff = { missing: [], extra: [], changed: [] };
+  const crafts = lockfile.crafts || {};
+
+  for (const [name, dep] of Object.entries(declared)) {
+    const locked = crafts[name];
+    if (!locked) {
+      diff.missing.push({ name, declared: dep });
+      continue;
+    }
+
+    const reasons = compareDeclaration(dep, locked);
+    if (reasons.length > 0) {
+      diff.changed.push({ name, declared: dep, locked, reasons });
+    }
+  }
+
+  const reachable = collectReachable(Object.keys(declared), lockfile);
+  for (const [name, locked] of Object.entries(crafts)) {
+    // Crafts linked with `craftdesk link` stay locked until they are unlinked
+    if (!reachable.has(name) && !locked.linked) {
+      diff.extra.push({ name, locked });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Finds declared dependencies whose local crafts changed on disk since they were locked
+ *
+ * Every local craft reachable from a declared dependency is re-hashed, so
+ * editing a transitive local craft marks the declared dependency as changed.
+ * Dependencies already reported by `diffLockfile` are skipped.
+ *
+ * @param declared - Declared dependencies (dependencies, devDependencies and optionalDependencies merged)
+ * @param lockfile - Lockfile to compare against
+ * @param diff - Diff from `diffLockfile`
+ * @returns Changed dependencies, with the local crafts whose contents differ
+ */
+export async function findChangedLocalCrafts(
+  declared: Record<string, string | DependencyConfig>,
+  lockfile: CraftDeskLock,
+  diff: LockfileDiff
+): Promise<ChangedDependency[]> {
+  const reported = new Set([...diff.missing, ...diff.changed].map(({ name }) => name));
+  const checksums = new Map<string, string | null>();
+  const changed: ChangedDependency[] = [];
+
+  for (const [name, dep] of Object.entries(declared)) {
+    const locked = lockfile.crafts?.[name];
+    if (!locked || reported.has(name)) continue;
+
+    const reasons: string[] = [];
+    for (const craft of collectReachable([name], lockfile)) {
+      const entry = lockfile.crafts?.[craft];
+      if (!entry?.local) continue;
+
+      if (!checksums.has(craft)) {
+        checksums.set(craft, await calculateDirectoryChecksum(path.resolve(entry.local)).catch(() => null));
+      }
+      if (checksums.get(craft) !== entry.integrity) {
+        reasons.push(`contents of ${entry.local} changed`);
+      }
+    }
+
+    if (reasons.length > 0) {
+      changed.push({ name, declared: dep, locked, reasons });
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Finds declared dependencies affected by overrides that changed since the lockfile was written
+ *
+ * A declared dependency is affected when the craft an added, removed or
+ * changed override targets is reachable from it. Dependencies already
+ * reported in the diff are skipped.
+ *
+ * @param declared - Declared dependencies (dependencies, devDependencies and optionalDependencies merged)
+ * @param overrides - Overrides from craftdesk.json
+ * @param lockfile - Lockfile to compare against
+ * @param diff - Diff from `diffLockfile`
+ * @returns Changed dependencies, with the overrides that affect them
+ */
+export function findChangedOverrides(
+  declared: Record<string, string | DependencyConfig>,
+  overrides: Record<string, string | DependencyConfig>,
+  lockfile: CraftDeskLock,
+  diff: LockfileDiff
+): ChangedDependency[] {
+  const locked = lockfile.overrides || {};
+  const reasons: Array<{ target: string; reason: string }> = [];
+
+  for (const key of new Set([...Object.keys(locked), ...Object.keys(overrides)])) {
+    const target = key.split('>').pop()?.trim() || key;
+    if (!(key in locked)) {
+      reasons.push({ target, reason: `override "${key}" added` });
+    } else if (!(key in overrides)) {
+      reasons.push({ target, reason: `override "${key}" removed` });
+    } else if (JSON.stringify(locked[key]) !== JSON.stringify(overrides[key])) {
+      reasons.push({ target, reason: `override "${key}" ${describeDeclaration(locked[key])} → ${describeDeclaration(overrides[key])}` });
+    }
+  }
+
+  if (reasons.length === 0) return [];
+
+  const reported = new Set([...diff.missing, ...diff.changed].map(({ name }) => name));
+  const changed: ChangedDependency[] = [];
+
+  for (const [name, dep] of Object.entries(declared)) {
+    const entry = lockfile.crafts?.[name];
+    if (!entry || reported.has(name)) continue;
+
+    const reachable = collectReachable([name], lockfile);
+    const affected = reasons.filter(({ target }) => reachable.has(target)).map(({ reason }) => reason);
+    if (affected.length > 0) {
+      changed.push({ name, declared: dep, locked: entry, reasons: affected });
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Checks whether a diff contains any differences
+ *
+ * @param diff - Diff to check
+ * @returns True if craftdesk.json and craftdesk.lock are in sync
+ */
+export function isLockfileInSync(diff: LockfileDiff): boolean {
+  return diff.missing.length === 0 && diff.extra.length === 0 && diff.changed.length === 0;
+}
+
+/**
+ * Formats a diff as indented lines for terminal output
+ *
+ * @param diff - Diff to format
+ * @returns Lines describing each difference
+ */
+export function formatLockfileDiff(diff: LockfileDiff): string[] {
+  const lines: string[] = [];
+
+  for (const { name, declared } of diff.missing) {
+    lines.push(`  + ${name} (${describeDeclaration(declared)}) is declared but not locked`);
+  }
+  for (const { name, locked } of diff.extra) {
+    lines.push(`  - ${name}@${locked.version} is locked but no longer declared`);
+  }
+  for (const { name, reasons } of diff.changed) {
+    lines.push(`  ~ ${name}: ${reasons.join(', ')}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Describes a declaration as a short string (range or git source)
+ *
+ * @param dep - Declaration from craftdesk.json
+ * @returns Short description for display
+ */
+export function describeDeclaration(dep: string | DependencyConfig): string {
+  const local = parseLocalDependency(dep);
+  if (local) return formatLocalDependency(local);
+  if (typeof dep === 'string') return dep;
+  if (dep.git) {
+    const ref = dep.commit || dep.tag || dep.branch;
+    return `${dep.git}${ref ? `#${ref}` : ''}`;
+  }
+  return dep.version || '*';
+}
+
+/**
+ * Merges freshly resolved entries into an existing lockfile and prunes every
+ * craft that is no longer reachable from the declared dependencies
+ *
+ * Resolved entries replace their locked counterparts, so the transitive
+ * dependencies of a changed craft are pruned once nothing requires them.
+ * Linked crafts are never pruned. The dependency tree is rebuilt.
+ *
+ * @param lockfile - Existing lockfile (not modified)
+ * @param declared - Declared dependencies (dependencies, devDependencies and optionalDependencies merged)
+ * @param resolved - Entries resolved for added or changed dependencies
+ * @returns The merged lockfile and the entries that were pruned from it
+ */
+export function mergeLockfile(
+  lockfile: CraftDeskLock,
+  declared: Record<string, string | DependencyConfig>,
+  resolved: Record<string, LockEntry>
+): { lockfile: CraftDeskLock; pruned: Array<{ name: string; locked: LockEntry }> } {
+  const merged: CraftDeskLock = {
+    ...lockfile,
+    generatedAt: new Date().toISOString(),
+    crafts: { ...(lockfile.crafts || {}), ...resolved }
+  };
+
+  // Re-resolving a craft updates its locked version but keeps its link and approved permissions
+  for (const name of Object.keys(resolved)) {
+    const { linked, permissions } = lockfile.crafts?.[name] || {};
+    if (linked) {
+      merged.crafts[name] = { ...merged.crafts[name], linked };
+    }
+    if (permissions) {
+      merged.crafts[name] = { ...merged.crafts[name], permissions };
+    }
+  }
+
+  if (lockfile.pluginTree) {
+    merged.pluginTree = { ...lockfile.pluginTree };
+    // Re-resolved plugins no longer carry their old dependency list
+    for (const name of Object.keys(resolved)) {
+      delete merged.pluginTree[name];
+    }
+  }
+
+  const reachable = collectReachable(Object.keys(declared), merged);
+  const pruned: Array<{ name: string; locked: LockEntry }> = [];
+
+  for (const [name, locked] of Object.entries(merged.crafts)) {
+    if (!reachable.has(name) && !locked.linked) {
+      pruned.push({ name, locked });
+      delete merged.crafts[name];
+      delete merged.pluginTree?.[name];
+    }
+  }
+
+  merged.tree = buildDependencyTree(Object.keys(declared), merged);
+
+  return { lockfile: merged, pruned };
+}
+
+/**
+ * Finds the members that only a collection leads to
+ *
+ * A member (or a member of a nested collection) is owned exclusively when it
+ * is not reachable from the other declared dependencies: not declared itself,
+ * and neither required nor listed as a member by any craft they lead to.
+ *
+ * @param lockfile - Project lockfile
+ * @param roots - Declared dependencies (the collection itself is ignored)
+ * @param collection - Name of the collection
+ * @returns Names of the members to remove together with the collection
+ */
+export function findExclusiveMembers(lockfile: CraftDeskLock, roots: string[], collection: string): string[] {
+  const crafts = lockfile.crafts || {};
+  const others: CraftDeskLock = { ...lockfile, crafts: { ...crafts } };
+  delete others.crafts[collection];
+
+  const reachable = collectReachable(roots.filter(name => name !== collection), others);
+  const exclusive = new Set<string>();
+  const queue = Object.keys(crafts[collection]?.members || {});
+
+  while (queue.length > 0) {
+    const name = queue.shift();
+    if (!name || name === collection || exclusive.has(name) || reachable.has(name) || !crafts[name]) continue;
+    exclusive.add(name);
+    queue.push(...Object.keys(crafts[name].members || {}));
+  }
+
+  return [...exclusive];
+}
+
+/**
+ * Finds the locked crafts some of the declared dependencies need
+ *
+ * Follows dependencies, optional dependencies, collection members, plugin
+ * dependencies and wrapped crafts.
+ *
+ * @param lockfile - Project lockfile
+ * @param roots - Declared dependencies to start from
+ * @returns Names of the crafts reachable from the roots
+ */
+export function findReachableCrafts(lockfile: CraftDeskLock, roots: string[]): Set<string> {
+  return collectReachable(roots, lockfile);
+}
+
+function compareDeclaration(dep: string | DependencyConfig, locked: LockEntry): string[] {
+  const reasons: string[] = [];
+  const local = parseLocalDependency(dep);
+  const config: DependencyConfig = typeof dep === 'string' ? { version: dep } : dep;
+
+  if (local) {
+    if (!locked.local) {
+      reasons.push(`source ${locked.git ? 'git' : 'registry'} → local`);
+    } else if (path.resolve(local.path) !== path.resolve(locked.local)) {
+      reasons.push(`local ${locked.local} → ${local.path}`);
+    }
+    if (locked.local && local.link !== (locked.link === true)) {
+      reasons.push(local.link ? 'copy → link' : 'link → copy');
+    }
+    return reasons;
+  }
+
+  if (locked.local) {
+    reasons.push(`source local → ${config.git ? 'git' : 'registry'}`);
+    return reasons;
+  }
+
+  if (config.git) {
+    for (const field of GIT_FIELDS) {
+      if ((config[field] || undefined) !== (locked[field] || undefined)) {
+        reasons.push(`${field} ${locked[field] ?? '(none)'} → ${config[field] ?? '(none)'}`);
+      }
+    }
+
+    // Declared commits may be abbreviated; locked commits are always full hashes
+    if (config.commit && !(locked.commit || '').startsWith(config.commit)) {
+      reasons.push(`commit ${locked.commit ?? '(none)'} → ${config.commit}`);
+    }
+
+    return reasons;
+  }
+
+  if (locked.git) {
+    reasons.push(`source git → registry`);
+    return reasons;
+  }
+
+  const range = config.version || '*';
+  if (!parseVersion(locked.version) || !satisfies(locked.version, range)) {
+    reasons.push(`locked ${locked.version} does not satisfy ${range}`);
+  }
+
+  if (config.registry && config.registry !== locked.registry) {
+    reasons.push(`registry ${locked.registry ?? '(default)'} → ${config.registry}`);
+  }
+
+  return reasons;
+}
+
+function collectReachable(roots: string[], lockfile: CraftDeskLock): Set<string> {
+  const reachable = new Set<string>();
+  const queue = [...roots];
+
+  while (queue.length > 0) {
+    const name = queue.shift();
+    if (!name || reachable.has(name)) continue;
+    reachable.add(name);
+
+    const entry = lockfile.crafts?.[name];
+    queue.push(...Object.keys(entry?.dependencies || {}));
+    queue.push(...Object.keys(entry?.optionalDependencies || {}));
+    queue.push(...Object.keys(entry?.members || {}));
+    queue.push(...(lockfile.pluginTree?.[name]?.dependencies || []));
+
+    // Wrapped crafts are reachable through the plugin that wraps them
+    for (const [other, otherEntry] of Object.entries(lockfile.crafts || {})) {
+      if (otherEntry.wrappedBy === name) queue.push(other);
+    }
+  }
+
+  return reachable;
+}
+
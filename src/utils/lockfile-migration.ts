@@ -0,0 +1,40 @@
+/**
+ * Lockfile format versions and migration of older craftdesk.lock files
+ *
+ * v1 records resolved versions and sources (git crafts only their commit).
+ * v2 adds a `treeHash` of each craft's installed files, verified after every install.
+ */
+
+import { CraftDeskLock } from '../types/craftdesk-lock';
+import { logger } from './logger';
+
+/** Lockfile format written by this version of craftdesk */
+export const LOCKFILE_VERSION = 2;
+
+/**
+ * Upgrades a lockfile read from disk to the current format, in place
+ *
+ * v1 lockfiles only need their version bumped: tree hashes are missing until
+ * the next install records them.
+ *
+ * @param lockfile - Parsed craftdesk.lock
+ * @returns The same lockfile, at LOCKFILE_VERSION
+ * @throws Error if the lockfile was written by a newer version of craftdesk
+ */
+export function migrateLockfile(lockfile: CraftDeskLock): CraftDeskLock {
+  const version = lockfile.lockfileVersion || 1;
+
+  if (version > LOCKFILE_VERSION) {
+    throw new Error(
+      `craftdesk.lock uses lockfile v${version}, but this version of craftdesk only supports up to v${LOCKFILE_VERSION}. ` +
+      'Upgrade craftdesk to use it.'
+    );
+  }
+
+  if (version < LOCKFILE_VERSION) {
+    logger.debug(`Migrating craftdesk.lock from lockfile v${version} to v${LOCKFILE_VERSION}`);
+    lockfile.lockfileVersion = LOCKFILE_VERSION;
+  }
+
+  return lockfile;
+}
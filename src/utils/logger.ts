@@ -18,19 +18,22 @@ const colors = {
 
 /**
  * Logger class for formatted console output
- * Supports success, error, warning, info, debug, and spinner states
+ * Supports success, error, warning, info, debug, spinner and concurrent progress states
  */
 export class Logger {
   /** Current spinner text (null if no spinner is active) */
   private spinnerText: string | null = null;
 
+  /** Per-item progress of a concurrent operation (null if none is active) */
+  private progress: { total: number; completed: number; active: string[] } | null = null;
+
   /**
    * Logs a success message with a green checkmark
    *
    * @param message - Success message to display
    */
   success(message: string): void {
-    console.log(`${colors.green}✓${colors.reset}`, message);
+    this.print(`${colors.green}✓${colors.reset}`, message);
   }
 
   /**
@@ -39,7 +42,7 @@ export class Logger {
    * @param message - Error message to display
    */
   error(message: string): void {
-    console.error(`${colors.red}✗${colors.reset}`, message);
+    this.print(`${colors.red}✗${colors.reset}`, message, true);
   }
 
   /**
@@ -48,7 +51,7 @@ export class Logger {
    * @param message - Warning message to display
    */
   warn(message: string): void {
-    console.log(`${colors.yellow}!${colors.reset}`, message);
+    this.print(`${colors.yellow}!${colors.reset}`, message);
   }
 
   /**
@@ -57,7 +60,7 @@ export class Logger {
    * @param message - Info message to display
    */
   info(message: string): void {
-    console.log(`${colors.blue}→${colors.reset}`, message);
+    this.print(`${colors.blue}→${colors.reset}`, message);
   }
 
   /**
@@ -67,7 +70,7 @@ export class Logger {
    */
   debug(message: string): void {
     if (process.env.DEBUG) {
-      console.log(`${colors.gray}[DEBUG]${colors.reset}`, message);
+      this.print(`${colors.gray}[DEBUG]${colors.reset}`, message);
     }
   }
 
@@ -78,7 +81,7 @@ export class Logger {
    */
   startSpinner(text: string): void {
     this.spinnerText = text;
-    console.log(`${colors.cyan}⋯${colors.reset}`, text);
+    this.print(`${colors.cyan}⋯${colors.reset}`, text);
   }
 
   /**
@@ -89,7 +92,7 @@ export class Logger {
   updateSpinner(text: string): void {
     if (this.spinnerText) {
       this.spinnerText = text;
-      console.log('  ', text);
+      this.print('  ', text);
     }
   }
 
@@ -100,7 +103,7 @@ export class Logger {
    */
   succeedSpinner(text?: string): void {
     if (this.spinnerText) {
-      console.log(`${colors.green}✓${colors.reset}`, text || this.spinnerText);
+      this.print(`${colors.green}✓${colors.reset}`, text || this.spinnerText);
       this.spinnerText = null;
     }
   }
@@ -112,7 +115,7 @@ export class Logger {
    */
   failSpinner(text?: string): void {
     if (this.spinnerText) {
-      console.log(`${colors.red}✗${colors.reset}`, text || this.spinnerText);
+      this.print(`${colors.red}✗${colors.reset}`, text || this.spinnerText);
       this.spinnerText = null;
     }
   }
@@ -124,13 +127,68 @@ export class Logger {
     this.spinnerText = null;
   }
 
+  /**
+   * Starts tracking per-item progress of a concurrent operation
+   *
+   * Each item reports its own completion as a single line, so output from
+   * items finishing in parallel never interleaves. On a terminal, the items
+   * currently in flight are shown on a status line that is redrawn in place.
+   *
+   * @param total - Number of items that will be processed
+   */
+  startProgress(total: number): void {
+    this.progress = { total, completed: 0, active: [] };
+    this.renderStatusLine();
+  }
+
+  /**
+   * Marks an item as in flight
+   *
+   * @param label - Item label (e.g. craft name and version)
+   */
+  progressStarted(label: string): void {
+    if (!this.progress) return;
+    this.progress.active.push(label);
+    this.clearStatusLine();
+    this.renderStatusLine();
+  }
+
+  /**
+   * Marks an item as finished successfully
+   *
+   * @param label - Item label passed to progressStarted
+   */
+  progressSucceeded(label: string): void {
+    this.finishProgressItem(label, `${colors.green}✓${colors.reset} ${label}`);
+  }
+
+  /**
+   * Marks an item as failed
+   *
+   * @param label - Item label passed to progressStarted
+   * @param message - Failure reason
+   */
+  progressFailed(label: string, message: string): void {
+    this.finishProgressItem(label, `${colors.red}✗${colors.reset} ${label}: ${message}`);
+  }
+
+  /**
+   * Stops tracking progress and removes the status line
+   */
+  stopProgress(): void {
+    this.clearStatusLine();
+    this.progress = null;
+  }
+
   /**
    * Logs a plain message without formatting
    *
    * @param message - Message to display
    */
   log(message: string): void {
+    this.clearStatusLine();
     console.log(message);
+    this.renderStatusLine();
   }
 
   /**
@@ -152,6 +210,60 @@ export class Logger {
   dim(text: string): string {
     return `${colors.dim}${text}${colors.reset}`;
   }
+
+  /**
+   * Prints a prefixed message, keeping the progress status line below it
+   *
+   * @param prefix - Colored status symbol
+   * @param message - Message to display
+   * @param toStderr - Whether to print to stderr instead of stdout
+   */
+  private print(prefix: string, message: string, toStderr = false): void {
+    this.clearStatusLine();
+    if (toStderr) {
+      console.error(prefix, message);
+    } else {
+      console.log(prefix, message);
+    }
+    this.renderStatusLine();
+  }
+
+  /**
+   * Removes an item from the in-flight list and prints its result line
+   *
+   * @param label - Item label
+   * @param line - Result line to print
+   */
+  private finishProgressItem(label: string, line: string): void {
+    if (!this.progress) return;
+    const { progress } = this;
+    progress.active = progress.active.filter(item => item !== label);
+    progress.completed++;
+
+    this.clearStatusLine();
+    console.log(`   ${line} ${colors.dim}(${progress.completed}/${progress.total})${colors.reset}`);
+    this.renderStatusLine();
+  }
+
+  /**
+   * Draws the in-flight status line (terminals only)
+   */
+  private renderStatusLine(): void {
+    if (!this.progress || !process.stdout.isTTY || this.progress.active.length === 0) return;
+    const { completed, total, active } = this.progress;
+    const line = `${colors.cyan}⋯${colors.reset} [${completed}/${total}] ${active.join(', ')}`;
+    const width = process.stdout.columns || 80;
+    // Status line must fit on one row so it can be cleared with a carriage return
+    process.stdout.write(line.length > width ? `${line.slice(0, width - 1)}…${colors.reset}` : line);
+  }
+
+  /**
+   * Erases the in-flight status line (terminals only)
+   */
+  private clearStatusLine(): void {
+    if (!this.progress || !process.stdout.isTTY) return;
+    process.stdout.write('\r\x1b[K');
+  }
 }
 
 /** Global logger instance for use throughout the application */
@@ -0,0 +1,67 @@
+/**
+ * Validation of peer dependencies
+ *
+ * A craft's peer dependencies are never installed for it: the project must
+ * declare them itself, in a version the craft accepts (like a plugin that
+ * extends a skill the project already uses).
+ */
+
+import { CraftDeskLock } from '../types/craftdesk-lock';
+import { isValidRange, parseVersion, satisfies } from './semver';
+
+/**
+ * A peer dependency the project does not provide, or provides in a version outside the requested range
+ */
+export interface PeerDependencyProblem {
+  /** Craft declaring the peer dependency */
+  craft: string;
+  /** Name of the peer dependency */
+  peer: string;
+  /** Requested range or source */
+  range: string;
+  /** Locked version of the peer, if the project provides it */
+  provided?: string;
+}
+
+/**
+ * Finds the peer dependencies of locked crafts that the project does not satisfy
+ *
+ * A peer is provided when the project declares it and it is locked. Its
+ * version is only checked against semver ranges (git and local sources are
+ * satisfied by any version).
+ *
+ * @param lockfile - Resolved lockfile
+ * @param provided - Names the project declares itself
+ * @returns Unmet and mismatched peer dependencies, sorted by craft
+ */
+export function findPeerDependencyProblems(lockfile: CraftDeskLock, provided: string[]): PeerDependencyProblem[] {
+  const declared = new Set(provided);
+  const problems: PeerDependencyProblem[] = [];
+
+  for (const [craft, entry] of Object.entries(lockfile.crafts)) {
+    for (const [peer, range] of Object.entries(entry.peerDependencies || {})) {
+      const locked = declared.has(peer) ? lockfile.crafts[peer] : undefined;
+
+      if (!locked) {
+        problems.push({ craft, peer, range });
+      } else if (isValidRange(range) && parseVersion(locked.version) && !satisfies(locked.version, range)) {
+        problems.push({ craft, peer, range, provided: locked.version });
+      }
+    }
+  }
+
+  return problems.sort((a, b) => a.craft.localeCompare(b.craft) || a.peer.localeCompare(b.peer));
+}
+
+/**
+ * Formats peer dependency problems as indented lines for terminal output
+ *
+ * @param problems - Problems from `findPeerDependencyProblems`
+ * @returns One line per problem
+ */
+export function formatPeerDependencyProblems(problems: PeerDependencyProblem[]): string[] {
+  return problems.map(({ craft, peer, range, provided }) => provided
+    ? `  ~ ${craft} requires peer ${peer}@${range}, but ${peer}@${provided} is installed`
+    : `  - ${craft} requires peer ${peer}@${range}, which craftdesk.json does not declare`
+  );
+}
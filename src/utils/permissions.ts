@@ -0,0 +1,186 @@
+/**
+ * Capabilities of installed crafts
+ *
+ * A craft's permissions are what it declares in craftdesk.json or
+ * .claude-plugin/plugin.json (`permissions`) plus what its hooks, MCP servers
+ * and lifecycle scripts show: the commands they run, the environment variables
+ * MCP servers receive and the hosts remote MCP servers connect to. Installs ask
+ * for consent to permissions that are neither approved in craftdesk.lock nor
+ * allowed in craftdesk.json.
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import type { CraftPermissions } from '../types/craftdesk-json';
+import type { MCPServerConfig, PluginManifest } from '../types/claude-settings';
+
+/** Kinds of permissions, in display order */
+export const PERMISSION_KINDS = ['commands', 'network', 'env', 'filesystem'] as const;
+
+const PERMISSION_LABELS: Record<typeof PERMISSION_KINDS[number], string> = {
+  commands: 'Commands',
+  network: 'Network',
+  env: 'Env vars',
+  filesystem: 'Filesystem'
+};
+
+/**
+ * Collects hook commands from a hooks configuration
+ *
+ * Accepts craftdesk.json hooks (`{ event: ["command"] }`) and Claude Code
+ * hooks (`{ hooks: { event: [{ matcher, hooks: [{ type, command }] }] } }`).
+ *
+ * @param config - Parsed hooks configuration
+ * @returns Commands with the event they run on
+ */
+export function collectHookCommands(config: unknown): Array<{ event: string; command: string }> {
+  if (!isObject(config)) return [];
+  const events = isObject(config.hooks) ? config.hooks : config;
+  const commands: Array<{ event: string; command: string }> = [];
+
+  const collect = (event: string, value: unknown): void => {
+    if (typeof value === 'string') {
+      commands.push({ event, command: value });
+    } else if (Array.isArray(value)) {
+      value.forEach(item => collect(event, item));
+    } else if (isObject(value)) {
+      if (typeof value.command === 'string') commands.push({ event, command: value.command });
+      if (value.hooks) collect(event, value.hooks);
+    }
+  };
+
+  for (const [event, value] of Object.entries(events)) {
+    collect(event, value);
+  }
+  return commands;
+}
+
+/**
+ * Collects MCP server configurations
+ *
+ * @param config - Inline `mcpServers` or a parsed .mcp.json (with or without a `mcpServers` key)
+ * @returns Server names and configurations
+ */
+export function collectMCPServers(config: unknown): Array<[string, Partial<MCPServerConfig>]> {
+  if (!isObject(config)) return [];
+  const servers = isObject(config.mcpServers) ? config.mcpServers : config;
+  return Object.entries(servers).filter((entry): entry is [string, Partial<MCPServerConfig>] => isObject(entry[1]));
+}
+
+/**
+ * Reads the permissions of a craft from its files
+ *
+ * @param craftDir - Directory the craft was fetched into
+ * @returns Declared and detected permissions, sorted and without duplicates
+ */
+export async function readCraftPermissions(craftDir: string): Promise<CraftPermissions> {
+  const craftJson = await readJson<{ permissions?: CraftPermissions; hooks?: unknown }>(path.join(craftDir, 'craftdesk.json'));
+  const manifest = await readJson<PluginManifest>(path.join(craftDir, '.claude-plugin', 'plugin.json'));
+
+  const permissions: Required<CraftPermissions> = { commands: [], network: [], env: [], filesystem: [] };
+  for (const declared of [craftJson?.permissions, manifest?.permissions]) {
+    for (const kind of PERMISSION_KINDS) {
+      permissions[kind].push(...(declared?.[kind] || []).filter(item => typeof item === 'string'));
+    }
+  }
+
+  // Hooks: craftdesk.json, then the plugin's hooks (inline or a file, hooks/hooks.json by default)
+  const hooks = [craftJson?.hooks];
+  hooks.push(typeof manifest?.hooks === 'object'
+    ? manifest.hooks
+    : await readJson(path.join(craftDir, typeof manifest?.hooks === 'string' ? manifest.hooks : 'hooks/hooks.json')));
+  for (const config of hooks) {
+    permissions.commands.push(...collectHookCommands(config).map(hook => hook.command));
+  }
+
+  // MCP servers: inline or a file, .mcp.json by default
+  const servers = typeof manifest?.mcpServers === 'object'
+    ? manifest.mcpServers
+    : await readJson(path.join(craftDir, typeof manifest?.mcpServers === 'string' ? manifest.mcpServers : '.mcp.json'));
+  for (const [, server] of collectMCPServers(servers)) {
+    if (server.command) permissions.commands.push([server.command, ...(server.args || [])].join(' '));
+    if (server.env) permissions.env.push(...Object.keys(server.env));
+    if (server.url) {
+      try {
+        permissions.network.push(new URL(server.url).hostname);
+      } catch {
+        permissions.network.push(server.url);
+      }
+    }
+  }
+
+  for (const script of Object.values(manifest?.scripts || {})) {
+    if (typeof script === 'string') permissions.commands.push(script);
+  }
+
+  const result: CraftPermissions = {};
+  for (const kind of PERMISSION_KINDS) {
+    if (permissions[kind].length > 0) result[kind] = [...new Set(permissions[kind])].sort();
+  }
+  return result;
+}
+
+/**
+ * Finds the permissions that are not covered by approved ones
+ *
+ * Approved items match exactly or as patterns, where `*` matches anything
+ * (e.g. 'npx prettier *'). An approval of '*' covers every permission.
+ *
+ * @param requested - Permissions a craft needs
+ * @param approved - Permissions already approved
+ * @returns The requested permissions that are not approved
+ */
+export function subtractPermissions(requested: CraftPermissions, approved?: CraftPermissions | '*'): CraftPermissions {
+  if (approved === '*') return {};
+
+  const result: CraftPermissions = {};
+  for (const kind of PERMISSION_KINDS) {
+    const patterns = approved?.[kind] || [];
+    const remaining = (requested[kind] || []).filter(item => !patterns.some(pattern => matchesPattern(item, pattern)));
+    if (remaining.length > 0) result[kind] = remaining;
+  }
+  return result;
+}
+
+/**
+ * Checks whether a craft needs any permissions
+ *
+ * @param permissions - Permissions to check
+ * @returns True if no kind lists any item
+ */
+export function isEmptyPermissions(permissions: CraftPermissions): boolean {
+  return PERMISSION_KINDS.every(kind => !permissions[kind]?.length);
+}
+
+/**
+ * Formats permissions for display
+ *
+ * @param permissions - Permissions to format
+ * @returns One indented line per item, labelled by kind
+ */
+export function formatPermissions(permissions: CraftPermissions): string[] {
+  const width = Math.max(...Object.values(PERMISSION_LABELS).map(label => label.length)) + 2;
+  const lines: string[] = [];
+
+  for (const kind of PERMISSION_KINDS) {
+    (permissions[kind] || []).forEach((item, index) => {
+      lines.push(`  ${(index === 0 ? `${PERMISSION_LABELS[kind]}:` : '').padEnd(width)}${item}`);
+    });
+  }
+  return lines;
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+  if (!pattern.includes('*')) return value === pattern;
+
+  const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${regex}$`).test(value);
+}
+
+async function readJson<T = unknown>(filePath: string): Promise<T | null> {
+  return fs.readJson(filePath).catch(() => null);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
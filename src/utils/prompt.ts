@@ -0,0 +1,31 @@
+/**
+ * Interactive terminal prompts
+ */
+
+import * as readline from 'readline';
+
+/**
+ * Checks whether the user can be asked questions
+ *
+ * @returns True if both stdin and stdout are terminals
+ */
+export function isInteractive(): boolean {
+  return !!process.stdin.isTTY && !!process.stdout.isTTY;
+}
+
+/**
+ * Asks a yes/no question, defaulting to no
+ *
+ * @param question - Question to ask (" [y/N] " is appended)
+ * @returns True if the user answered y or yes
+ */
+export function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+  return new Promise(resolve => {
+    rl.question(`${question} [y/N] `, answer => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * Detection of secrets embedded in craft files
+ *
+ * Matches well-known token formats (cloud provider keys, API tokens, private
+ * keys) line by line, and optionally long random-looking strings of unknown
+ * format. Values that look like placeholders are ignored.
+ */
+
+/**
+ * A kind of secret and how to recognize it
+ */
+export interface SecretRule {
+  /** Rule identifier (e.g. 'aws-access-key') */
+  id: string;
+  /** Human-readable name of the secret */
+  description: string;
+  /** Pattern matching the secret within a line */
+  pattern: RegExp;
+}
+
+/**
+ * A secret found in a file
+ */
+export interface SecretMatch {
+  /** Rule that matched */
+  rule: string;
+  /** Human-readable name of the secret */
+  description: string;
+  /** 1-based line number */
+  line: number;
+  /** Start of the matched value, the rest redacted */
+  preview: string;
+}
+
+/**
+ * Options for finding secrets
+ */
+export interface FindSecretsOptions {
+  /** Also report long random-looking strings that match no known format */
+  highEntropy?: boolean;
+}
+
+/** Secret formats, checked in order; the first rule matching a line wins */
+export const SECRET_RULES: SecretRule[] = [
+  { id: 'private-key', description: 'Private key', pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY(?: BLOCK)?-----/ },
+  { id: 'aws-access-key', description: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { id: 'github-token', description: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/ },
+  { id: 'anthropic-api-key', description: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { id: 'openai-api-key', description: 'OpenAI API key', pattern: /\bsk-(?!ant-)(?:proj-)?[A-Za-z0-9_-]{20,}/ },
+  { id: 'slack-token', description: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+  { id: 'stripe-key', description: 'Stripe live key', pattern: /\b[sr]k_live_[A-Za-z0-9]{20,}/ },
+  { id: 'google-api-key', description: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  {
+    id: 'generic-secret',
+    description: 'Hard-coded credential',
+    pattern: /\b(?:api[_-]?key|secret|token|password|passwd)["']?\s*[:=]\s*["']([A-Za-z0-9_\-+/=.]{16,})["']/i
+  }
+];
+
+/** Values that only stand in for a real secret */
+const PLACEHOLDER = /^(?:x{4,}|\*{4,}|\.{3,})|your[_-]|example|placeholder|changeme|dummy|<[^>]*>|\$\{/i;
+
+/** Base64 and URL-safe tokens long enough to be keys */
+const TOKEN = /(?<![A-Za-z0-9+/=_-])[A-Za-z0-9+/_-]{32,}={0,2}(?![A-Za-z0-9+/=_-])/g;
+
+/** Integrity hashes (sha512-...) are random but public */
+const INTEGRITY = /^sha(?:256|384|512)-/;
+
+/**
+ * Shannon entropy in bits per character above which a token counts as random.
+ * Hex digests stay below it (at most 4 bits); random base64 of 32+ characters
+ * lands around 4.6 and above.
+ */
+const ENTROPY_THRESHOLD = 4.3;
+
+/**
+ * Finds secrets in the contents of a text file
+ *
+ * @param content - File contents
+ * @param options - Which additional checks to run
+ * @returns One match per line containing a secret
+ */
+export function findSecrets(content: string, options: FindSecretsOptions = {}): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    for (const rule of SECRET_RULES) {
+      const match = text.match(rule.pattern);
+      const value = match && (match[1] ?? match[0]);
+      if (!value || PLACEHOLDER.test(value)) continue;
+
+      matches.push({ rule: rule.id, description: rule.description, line: index + 1, preview: redact(value) });
+      return;
+    }
+
+    const token = options.highEntropy && findRandomToken(text);
+    if (token) {
+      matches.push({ rule: 'high-entropy-string', description: 'High-entropy string', line: index + 1, preview: redact(token) });
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Finds a token that looks randomly generated
+ *
+ * @param text - Line to search
+ * @returns The first token with mixed case, digits and high entropy, if any
+ */
+function findRandomToken(text: string): string | undefined {
+  return text.match(TOKEN)?.find(token =>
+    /[a-z]/.test(token) && /[A-Z]/.test(token) && /[0-9]/.test(token) &&
+    !INTEGRITY.test(token) && !PLACEHOLDER.test(token) &&
+    entropy(token) >= ENTROPY_THRESHOLD
+  );
+}
+
+/**
+ * Calculates the Shannon entropy of a string
+ *
+ * @param value - String to measure
+ * @returns Bits per character
+ */
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/**
+ * Redacts a secret for display
+ *
+ * @param value - Secret value
+ * @returns The first few characters followed by an ellipsis
+ */
+function redact(value: string): string {
+  return `${value.slice(0, Math.min(8, Math.floor(value.length / 3)))}…`;
+}
@@ -0,0 +1,506 @@
+/**
+ * Semantic version range engine
+ *
+ * Implements the npm-style range grammar used in craftdesk.json:
+ * caret (^1.2.0), tilde (~1.2.0), x-ranges (1.x, 1.2.*), hyphen ranges
+ * (1.0.0 - 2.0.0), primitive comparators (>=, <, =), `||` unions,
+ * prerelease tags (1.0.0-beta.1) and build metadata (1.0.0+build.5).
+ */
+
+/**
+ * Fully parsed semantic version
+ */
+export interface SemVer {
+  /** Major version number */
+  major: number;
+  /** Minor version number */
+  minor: number;
+  /** Patch version number */
+  patch: number;
+  /** Prerelease identifiers (e.g., ['beta', 1] for -beta.1) */
+  prerelease: Array<string | number>;
+  /** Build metadata identifiers (ignored for precedence) */
+  build: string[];
+}
+
+/**
+ * A single primitive comparison such as `>=1.2.0`
+ */
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: SemVer;
+}
+
+/** A set of comparators that must all match (an AND of comparators) */
+type ComparatorSet = Comparator[];
+
+const IDENTIFIER = '[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*';
+const VERSION_PATTERN = new RegExp(
+  `^[=v]*(\\d+)\\.(\\d+)\\.(\\d+)(?:-(${IDENTIFIER}))?(?:\\+(${IDENTIFIER}))?$`
+);
+const PARTIAL_PATTERN = new RegExp(
+  `^[=v]*(\\d+|[xX*])(?:\\.(\\d+|[xX*]))?(?:\\.(\\d+|[xX*]))?(?:-(${IDENTIFIER}))?(?:\\+(${IDENTIFIER}))?$`
+);
+
+/**
+ * Parses a full semantic version string including prerelease and build metadata
+ *
+ * @param version - Version string (e.g., "1.2.3", "v1.2.3-beta.1+build.5")
+ * @returns Parsed version or null if the string is not a valid semver
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(VERSION_PATTERN);
+  if (!match) return null;
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2], 10),
+    patch: parseInt(match[3], 10),
+    prerelease: match[4] ? match[4].split('.').map(parseIdentifier) : [],
+    build: match[5] ? match[5].split('.') : []
+  };
+}
+
+/**
+ * Compares two parsed versions by semver precedence (build metadata is ignored)
+ *
+ * @param a - First version
+ * @param b - Second version
+ * @returns Negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  if (a.major !== b.major) return a.major - b.major;
+  if (a.minor !== b.minor) return a.minor - b.minor;
+  if (a.patch !== b.patch) return a.patch - b.patch;
+
+  // A version without prerelease has higher precedence than one with
+  if (a.prerelease.length === 0 && b.prerelease.length === 0) return 0;
+  if (a.prerelease.length === 0) return 1;
+  if (b.prerelease.length === 0) return -1;
+
+  const length = Math.max(a.prerelease.length, b.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+
+    // A larger set of prerelease fields has higher precedence
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    if (left === right) continue;
+
+    // Numeric identifiers always have lower precedence than alphanumeric ones
+    if (typeof left === 'number' && typeof right === 'number') return left - right;
+    if (typeof left === 'number') return -1;
+    if (typeof right === 'number') return 1;
+    return left < right ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Checks whether a string is an exact version rather than a range
+ *
+ * @param value - Version or range string
+ * @returns True if the value is a single exact semver version
+ */
+export function isExactVersion(value: string): boolean {
+  return parseVersion(value) !== null;
+}
+
+/**
+ * Checks whether a string is a valid version range
+ *
+ * @param range - Range string to validate
+ * @returns True if the range can be parsed
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Checks whether a version satisfies a range
+ *
+ * Prerelease versions only satisfy a range when at least one comparator in the
+ * matching set carries a prerelease on the same major.minor.patch tuple, so
+ * `^1.0.0` never silently picks up `1.1.0-beta`.
+ *
+ * @param version - Version string to test
+ * @param range - Range string to test against
+ * @returns True if the version satisfies the range
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  const sets = parseRange(range);
+  if (!parsed || !sets) return false;
+
+  return sets.some(set => testSet(set, parsed));
+}
+
+/**
+ * Picks the highest version from a list that satisfies a range
+ *
+ * @param versions - Candidate version strings (invalid entries are ignored)
+ * @param range - Range string to satisfy
+ * @returns The highest satisfying version (as given in the input) or null if none match
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  const sets = parseRange(range);
+  if (!sets) return null;
+
+  let best: { raw: string; parsed: SemVer } | null = null;
+
+  for (const raw of versions) {
+    const parsed = parseVersion(raw);
+    if (!parsed || !sets.some(set => testSet(set, parsed))) continue;
+
+    if (!best || compareVersions(parsed, best.parsed) > 0) {
+      best = { raw, parsed };
+    }
+  }
+
+  return best ? best.raw : null;
+}
+
+/**
+ * Picks the highest stable version from a list, falling back to prereleases
+ * when no stable version exists
+ *
+ * @param versions - Candidate version strings
+ * @returns The highest version or null if the list has no valid versions
+ */
+export function maxVersion(versions: string[]): string | null {
+  let best: { raw: string; parsed: SemVer } | null = null;
+
+  for (const raw of versions) {
+    const parsed = parseVersion(raw);
+    if (!parsed) continue;
+
+    if (!best) {
+      best = { raw, parsed };
+      continue;
+    }
+
+    const bestIsStable = best.parsed.prerelease.length === 0;
+    const isStable = parsed.prerelease.length === 0;
+    if ((isStable && !bestIsStable) || (isStable === bestIsStable && compareVersions(parsed, best.parsed) > 0)) {
+      best = { raw, parsed };
+    }
+  }
+
+  return best ? best.raw : null;
+}
+
+/**
+ * Computes the intersection of several ranges
+ *
+ * Unions are distributed (`(a || b) c` becomes `a c || b c`) and alternatives
+ * that can never match are dropped.
+ *
+ * @param ranges - Ranges that must all be satisfied
+ * @returns A single range equivalent to all inputs combined, or null if no version can satisfy every range
+ */
+export function intersectRanges(ranges: string[]): string | null {
+  let combined: Array<{ text: string; set: ComparatorSet }> = [{ text: '', set: [] }];
+
+  for (const range of ranges) {
+    const sets = parseRange(range);
+    if (!sets) return null;
+
+    const alternatives = range.trim() === '' ? [''] : range.split('||').map(part => part.trim());
+    const next: Array<{ text: string; set: ComparatorSet }> = [];
+
+    for (const current of combined) {
+      sets.forEach((set, index) => {
+        const merged = [...current.set, ...set];
+        if (!isSatisfiable(merged)) return;
+
+        const text = set.length === 0 ? '' : formatAlternative(alternatives[index], set);
+        next.push({ text: [current.text, text].filter(Boolean).join(' '), set: merged });
+      });
+    }
+
+    if (next.length === 0) return null;
+    combined = next;
+  }
+
+  const texts = [...new Set(combined.map(entry => entry.text || '*'))];
+  return texts.includes('*') ? '*' : texts.join(' || ');
+}
+
+/**
+ * Parses a range string into a union of comparator sets
+ *
+ * @param range - Range string (e.g., "^1.2.0 || >=2.1.0 <3.0.0")
+ * @returns Array of comparator sets (OR of ANDs) or null if the range is invalid
+ */
+function parseRange(range: string): ComparatorSet[] | null {
+  const trimmed = range.trim();
+  const alternatives = trimmed === '' ? [''] : trimmed.split('||');
+  const sets: ComparatorSet[] = [];
+
+  for (const alternative of alternatives) {
+    const set = parseComparatorSet(alternative.trim());
+    if (!set) return null;
+    sets.push(set);
+  }
+
+  return sets;
+}
+
+function parseComparatorSet(value: string): ComparatorSet | null {
+  if (value === '' || value === '*' || value === 'latest') return [];
+
+  // Hyphen range: "1.2.3 - 2.3.4"
+  const hyphen = value.match(/^(\S+)\s+-\s+(\S+)$/);
+  if (hyphen) {
+    const from = parsePartial(hyphen[1]);
+    const to = parsePartial(hyphen[2]);
+    if (!from || !to) return null;
+
+    const set: ComparatorSet = [];
+    if (from.major !== null) {
+      set.push({ operator: '>=', version: fillPartial(from) });
+    }
+    if (to.major !== null) {
+      set.push(to.patch !== null
+        ? { operator: '<=', version: fillPartial(to) }
+        : { operator: '<', version: withPrereleaseFloor(bumpPartial(to)) });
+    }
+    return set;
+  }
+
+  // Attach operators that were separated from their version by whitespace
+  const tokens = value.replace(/(<=|>=|<|>|=|\^|~>?)\s+/g, '$1').split(/\s+/);
+  const set: ComparatorSet = [];
+
+  for (const token of tokens) {
+    const comparators = parseComparator(token);
+    if (!comparators) return null;
+    set.push(...comparators);
+  }
+
+  return set;
+}
+
+function parseComparator(token: string): Comparator[] | null {
+  const match = token.match(/^(<=|>=|<|>|=|\^|~>?)?(.*)$/);
+  if (!match) return null;
+
+  const operator = match[1] || '';
+  const partial = parsePartial(match[2]);
+  if (!partial) return null;
+
+  // Wildcards match everything ("*", ">=*", "^x"); only "<*" and ">*" match nothing
+  if (partial.major === null) {
+    if (operator === '<' || operator === '>') {
+      return [{ operator: '<', version: zeroVersion() }];
+    }
+    return [];
+  }
+
+  const lower = fillPartial(partial);
+
+  switch (operator) {
+    case '^':
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: caretUpperBound(partial) }
+      ];
+    case '~':
+    case '~>':
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: withPrereleaseFloor(bumpPartial({ ...partial, patch: null })) }
+      ];
+    case '>':
+      // ">1.2" means greater than any 1.2.x
+      return [partial.patch === null
+        ? { operator: '>=', version: bumpPartial(partial) }
+        : { operator: '>', version: lower }];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+    case '<':
+      return [{ operator: '<', version: partial.patch === null ? withPrereleaseFloor(lower) : lower }];
+    case '<=':
+      // "<=1.2" means up to and including any 1.2.x
+      return [partial.patch === null
+        ? { operator: '<', version: withPrereleaseFloor(bumpPartial(partial)) }
+        : { operator: '<=', version: lower }];
+    default:
+      // Bare or "=" version: exact when complete, x-range otherwise
+      if (partial.patch !== null) {
+        return [{ operator: '=', version: lower }];
+      }
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: withPrereleaseFloor(bumpPartial(partial)) }
+      ];
+  }
+}
+
+/**
+ * Partially specified version used by ranges (e.g., "1", "1.2", "1.x")
+ */
+interface PartialVersion {
+  major: number | null;
+  minor: number | null;
+  patch: number | null;
+  prerelease: Array<string | number>;
+}
+
+function parsePartial(value: string): PartialVersion | null {
+  const match = value.match(PARTIAL_PATTERN);
+  if (!match) return null;
+
+  const toNumber = (part: string | undefined): number | null =>
+    part === undefined || /^[xX*]$/.test(part) ? null : parseInt(part, 10);
+
+  const major = toNumber(match[1]);
+  const minor = major === null ? null : toNumber(match[2]);
+  const patch = minor === null ? null : toNumber(match[3]);
+
+  return {
+    major,
+    minor,
+    patch,
+    prerelease: patch !== null && match[4] ? match[4].split('.').map(parseIdentifier) : []
+  };
+}
+
+function fillPartial(partial: PartialVersion): SemVer {
+  return {
+    major: partial.major ?? 0,
+    minor: partial.minor ?? 0,
+    patch: partial.patch ?? 0,
+    prerelease: partial.prerelease,
+    build: []
+  };
+}
+
+/**
+ * Returns the next version after an x-range such as "1" or "1.2" (or after a
+ * complete version, its next patch)
+ *
+ * @param partial - Partial version to bump
+ * @returns The first version outside the x-range
+ */
+function bumpPartial(partial: PartialVersion): SemVer {
+  const major = partial.major ?? 0;
+  if (partial.minor === null) return { major: major + 1, minor: 0, patch: 0, prerelease: [], build: [] };
+  if (partial.patch === null) return { major, minor: partial.minor + 1, patch: 0, prerelease: [], build: [] };
+  return { major, minor: partial.minor, patch: partial.patch + 1, prerelease: [], build: [] };
+}
+
+/**
+ * Returns the exclusive upper bound for a caret range: the next version that
+ * changes the left-most non-zero component
+ *
+ * @param partial - Partial version following the caret
+ * @returns Exclusive upper bound
+ */
+function caretUpperBound(partial: PartialVersion): SemVer {
+  if ((partial.major ?? 0) > 0 || partial.minor === null) {
+    return withPrereleaseFloor(bumpPartial({ ...partial, minor: null, patch: null }));
+  }
+  if (partial.minor > 0 || partial.patch === null) {
+    return withPrereleaseFloor(bumpPartial({ ...partial, patch: null }));
+  }
+  return withPrereleaseFloor(bumpPartial(partial));
+}
+
+/**
+ * Adds the lowest possible prerelease ("-0") so an exclusive upper bound also
+ * excludes prereleases of that version
+ *
+ * @param version - Upper bound version
+ * @returns The version with a "-0" prerelease
+ */
+function withPrereleaseFloor(version: SemVer): SemVer {
+  return { ...version, prerelease: [0] };
+}
+
+function zeroVersion(): SemVer {
+  return { major: 0, minor: 0, patch: 0, prerelease: [0], build: [] };
+}
+
+/**
+ * Renders a range alternative so it can be joined with others by whitespace.
+ * Hyphen ranges can't be combined textually, so they are spelled out.
+ *
+ * @param text - Original alternative text
+ * @param set - Parsed comparators for the alternative
+ * @returns Text safe to AND with other alternatives
+ */
+function formatAlternative(text: string, set: ComparatorSet): string {
+  if (!/\s-\s/.test(text)) return text;
+  return set.map(({ operator, version }) => `${operator === '=' ? '' : operator}${formatVersion(version)}`).join(' ');
+}
+
+function formatVersion(version: SemVer): string {
+  const base = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0 ? `${base}-${version.prerelease.join('.')}` : base;
+}
+
+/**
+ * Checks whether any version can fall between the lower and upper bounds of
+ * a comparator set
+ *
+ * @param set - Comparators that must all match
+ * @returns False if the bounds exclude every version
+ */
+function isSatisfiable(set: ComparatorSet): boolean {
+  let lower: { version: SemVer; inclusive: boolean } | null = null;
+  let upper: { version: SemVer; inclusive: boolean } | null = null;
+
+  for (const { operator, version } of set) {
+    if (operator === '>' || operator === '>=' || operator === '=') {
+      const inclusive = operator !== '>';
+      const cmp = lower ? compareVersions(version, lower.version) : 1;
+      if (cmp > 0 || (cmp === 0 && !inclusive)) lower = { version, inclusive };
+    }
+    if (operator === '<' || operator === '<=' || operator === '=') {
+      const inclusive = operator !== '<';
+      const cmp = upper ? compareVersions(version, upper.version) : -1;
+      if (cmp < 0 || (cmp === 0 && !inclusive)) upper = { version, inclusive };
+    }
+  }
+
+  if (!lower || !upper) return true;
+
+  const cmp = compareVersions(lower.version, upper.version);
+  return cmp < 0 || (cmp === 0 && lower.inclusive && upper.inclusive);
+}
+
+function parseIdentifier(identifier: string): string | number {
+  return /^\d+$/.test(identifier) ? parseInt(identifier, 10) : identifier;
+}
+
+function testComparator(comparator: Comparator, version: SemVer): boolean {
+  const cmp = compareVersions(version, comparator.version);
+  switch (comparator.operator) {
+    case '<': return cmp < 0;
+    case '<=': return cmp <= 0;
+    case '>': return cmp > 0;
+    case '>=': return cmp >= 0;
+    case '=': return cmp === 0;
+  }
+}
+
+function testSet(set: ComparatorSet, version: SemVer): boolean {
+  if (!set.every(comparator => testComparator(comparator, version))) {
+    return false;
+  }
+
+  if (version.prerelease.length === 0) {
+    return true;
+  }
+
+  // Prereleases only match when explicitly opted into on the same tuple
+  return set.some(({ version: bound }) =>
+    bound.prerelease.length > 0 &&
+    bound.major === version.major &&
+    bound.minor === version.minor &&
+    bound.patch === version.patch
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * Signing of published crafts
+ *
+ * `craftdesk publish` signs a digest of the files it uploads with the author's
+ * ed25519 key. The registry stores the signature and public key next to the
+ * version, and installs check the downloaded archive against them before
+ * extracting it. The signed payload names the craft and version, so a
+ * signature cannot be moved to another craft or version.
+ */
+
+import crypto from 'crypto';
+import { LockEntry } from '../types/craftdesk-lock';
+
+/** Signature algorithm of craft signatures */
+export const SIGNATURE_ALGORITHM = 'ed25519';
+
+/**
+ * A file covered by a craft signature
+ */
+export interface SignedFile {
+  /** Path relative to the craft root (either separator) */
+  path: string;
+  /** File contents (strings are hashed as UTF-8) */
+  content: string | Buffer;
+}
+
+/**
+ * Signature details reported by the registry for a craft version
+ */
+export interface RegistrySignature {
+  /** Base64 ed25519 signature */
+  signature?: string;
+  /** Base64 DER (SPKI) public key of the signer */
+  public_key?: string;
+}
+
+/**
+ * Calculates the fingerprint identifying a signing key
+ *
+ * @param publicKey - Base64 DER (SPKI) public key
+ * @returns `SHA256:` followed by the unpadded base64 SHA-256 of the key (as in OpenSSH)
+ */
+export function getKeyFingerprint(publicKey: string): string {
+  const digest = crypto.createHash('sha256').update(Buffer.from(publicKey, 'base64')).digest('base64');
+  return `SHA256:${digest.replace(/=+$/, '')}`;
+}
+
+/**
+ * Calculates the digest of a craft's files, independent of their order
+ *
+ * @param files - Files as uploaded by publish or read from a downloaded archive
+ * @returns Hex SHA-256 over the sorted paths and the SHA-256 of each file
+ */
+export function calculateFilesDigest(files: SignedFile[]): string {
+  const lines = files
+    .map(file => {
+      const content = typeof file.content === 'string' ? Buffer.from(file.content, 'utf-8') : file.content;
+      return `${file.path.split('\\').join('/')}\0${crypto.createHash('sha256').update(content).digest('hex')}\n`;
+    })
+    .sort();
+
+  return crypto.createHash('sha256').update(lines.join('')).digest('hex');
+}
+
+/**
+ * Builds the payload signed for a craft version
+ *
+ * @param author - Craft author
+ * @param name - Craft name without its author
+ * @param version - Craft version
+ * @param filesDigest - Digest from `calculateFilesDigest`
+ * @returns Payload to sign or verify
+ */
+export function createSignaturePayload(author: string, name: string, version: string, filesDigest: string): string {
+  return `craftdesk-signature-v1\n${author}/${name}@${version}\n${filesDigest}\n`;
+}
+
+/**
+ * Signs a payload
+ *
+ * @param payload - Payload from `createSignaturePayload`
+ * @param privateKey - PEM (PKCS#8) ed25519 private key
+ * @returns Base64 signature
+ */
+export function signPayload(payload: string, privateKey: string): string {
+  return crypto.sign(null, Buffer.from(payload, 'utf-8'), privateKey).toString('base64');
+}
+
+/**
+ * Verifies the signature of a payload
+ *
+ * @param payload - Payload from `createSignaturePayload`
+ * @param signature - Base64 signature
+ * @param publicKey - Base64 DER (SPKI) ed25519 public key
+ * @returns True if the signature is valid (false for malformed keys or signatures)
+ */
+export function verifyPayloadSignature(payload: string, signature: string, publicKey: string): boolean {
+  try {
+    const key = crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    return crypto.verify(null, Buffer.from(payload, 'utf-8'), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Picks the signature fields to record in a craft's lock entry
+ *
+ * @param info - Craft version from the registry
+ * @returns `signer`, `signature` and `publicKey`, or nothing if the version is unsigned
+ */
+export function toLockSignature(info: RegistrySignature): Pick<LockEntry, 'signer' | 'signature' | 'publicKey'> {
+  if (!info.signature || !info.public_key) return {};
+
+  return {
+    signer: getKeyFingerprint(info.public_key),
+    signature: info.signature,
+    publicKey: info.public_key
+  };
+}
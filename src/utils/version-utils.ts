@@ -1,5 +1,8 @@
 import * as path from 'path';
 import * as fs from 'fs';
+import { parseVersion, compareVersions } from './semver';
+import type { CraftDeskJson } from '../types/craftdesk-json';
+import type { CraftDeskLock } from '../types/craftdesk-lock';
 
 /**
  * Utilities for version comparison and semantic versioning operations
@@ -44,11 +47,20 @@ export function parseSemver(version: string): { major: number; minor: number; pa
 /**
  * Compares two semantic version strings
  *
+ * Full semver strings are compared by precedence, so prereleases sort below
+ * their release (1.0.0-beta < 1.0.0).
+ *
  * @param a - First version to compare
  * @param b - Second version to compare
  * @returns -1 if a < b, 0 if a == b, 1 if a > b
  */
 export function compareSemver(a: string, b: string): number {
+  const aFull = parseVersion(a);
+  const bFull = parseVersion(b);
+  if (aFull && bFull) {
+    return compareVersions(aFull, bFull);
+  }
+
   const aParsed = parseSemver(a);
   const bParsed = parseSemver(b);
 
@@ -85,6 +97,12 @@ export function isNewerVersion(current: string, latest: string): boolean {
  */
 export function sortTagsBySemver(tags: string[]): string[] {
   return [...tags].sort((a, b) => {
+    const aFull = parseVersion(a);
+    const bFull = parseVersion(b);
+    if (aFull && bFull) {
+      return compareVersions(bFull, aFull);
+    }
+
     const aParsed = parseSemver(a);
     const bParsed = parseSemver(b);
 
@@ -120,6 +138,38 @@ export function getUpdateType(current: string, latest: string): 'major' | 'minor
   return undefined;
 }
 
+/**
+ * Finds the version constraint that applies to a craft
+ *
+ * Looks at the project's dependencies, devDependencies and optionalDependencies
+ * first, then at the constraints declared by other locked crafts (for
+ * transitive dependencies).
+ *
+ * @param name - Craft name
+ * @param craftDeskJson - Project manifest
+ * @param lockfile - Optional lockfile for transitive constraints
+ * @returns The declared range, or '*' if the craft has no constraint
+ */
+export function findVersionConstraint(
+  name: string,
+  craftDeskJson: CraftDeskJson,
+  lockfile?: CraftDeskLock | null
+): string {
+  for (const deps of [craftDeskJson.dependencies, craftDeskJson.devDependencies, craftDeskJson.optionalDependencies]) {
+    const dep = deps?.[name];
+    if (dep !== undefined) {
+      return typeof dep === 'string' ? dep : (dep.version || '*');
+    }
+  }
+
+  for (const entry of Object.values(lockfile?.crafts || {})) {
+    const range = entry.dependencies?.[name] ?? entry.optionalDependencies?.[name] ?? entry.members?.[name];
+    if (range) return range;
+  }
+
+  return '*';
+}
+
 /**
  * Pads a string to the right with spaces
  *
@@ -0,0 +1,201 @@
+/**
+ * Workspaces: several crafts, each with its own craftdesk.json, in one repository
+ *
+ * The root craftdesk.json lists glob patterns (`"workspaces": ["skills/*", "agents/*"]`)
+ * matching the workspace directories. The root project installs every workspace
+ * craft as a linked local dependency, and workspace crafts depending on each
+ * other by name get linked to the workspace instead of being fetched.
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import { CraftDeskJson } from '../types/craftdesk-json';
+import { toLockedLocalPath } from './local-dependency';
+
+/**
+ * A craft found in one of the workspace directories
+ */
+export interface Workspace {
+  /** Craft name from its craftdesk.json */
+  name: string;
+  /** Absolute path of the workspace directory */
+  directory: string;
+  /** Workspace directory relative to the root, with forward slashes */
+  path: string;
+  /** The workspace's craftdesk.json */
+  craftDeskJson: CraftDeskJson;
+}
+
+/** Directories never searched for workspaces */
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', '.claude']);
+
+/**
+ * Finds the workspace crafts matching the root's workspace patterns
+ *
+ * Patterns are relative to the root and support `*` and `?` within a path
+ * segment and `**` for any number of directories. Patterns starting with `!`
+ * exclude directories. Only directories with a craftdesk.json are workspaces.
+ *
+ * @param rootDir - Directory of the root craftdesk.json
+ * @param patterns - The root's `workspaces` patterns
+ * @returns Workspaces sorted by path
+ * @throws Error if a workspace has no name or two workspaces share a name
+ */
+export async function findWorkspaces(rootDir: string, patterns: string[] = []): Promise<Workspace[]> {
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!');
+    for (const directory of await expandPattern(rootDir, negated ? pattern.slice(1) : pattern)) {
+      (negated ? excluded : included).add(directory);
+    }
+  }
+
+  const workspaces: Workspace[] = [];
+  const byName = new Map<string, Workspace>();
+
+  for (const directory of [...included].sort()) {
+    if (excluded.has(directory) || directory === path.resolve(rootDir)) continue;
+
+    const craftPath = path.join(directory, 'craftdesk.json');
+    if (!await fs.pathExists(craftPath)) continue;
+
+    const craftDeskJson = await fs.readJson(craftPath) as CraftDeskJson;
+    const relativePath = toLockedLocalPath(directory, rootDir);
+    if (!craftDeskJson.name) {
+      throw new Error(`Workspace ${relativePath} has no name in its craftdesk.json`);
+    }
+
+    const duplicate = byName.get(craftDeskJson.name);
+    if (duplicate) {
+      throw new Error(`Workspaces ${duplicate.path} and ${relativePath} are both named "${craftDeskJson.name}"`);
+    }
+
+    const workspace = { name: craftDeskJson.name, directory, path: relativePath, craftDeskJson };
+    byName.set(workspace.name, workspace);
+    workspaces.push(workspace);
+  }
+
+  return workspaces;
+}
+
+/**
+ * Adds every workspace the root does not declare itself as a linked local dependency
+ *
+ * @param craftDeskJson - Root craftdesk.json (not modified)
+ * @param workspaces - Workspaces from `findWorkspaces`
+ * @returns The manifest with the workspaces added to its dependencies
+ */
+export function addWorkspaceDependencies(craftDeskJson: CraftDeskJson, workspaces: Workspace[]): CraftDeskJson {
+  const declared = new Set([
+    ...Object.keys(craftDeskJson.dependencies || {}),
+    ...Object.keys(craftDeskJson.devDependencies || {}),
+    ...Object.keys(craftDeskJson.optionalDependencies || {})
+  ]);
+  const added = workspaces.filter(({ name }) => !declared.has(name));
+  if (added.length === 0) return craftDeskJson;
+
+  return {
+    ...craftDeskJson,
+    dependencies: {
+      ...Object.fromEntries(added.map(({ name, path: workspacePath }) => [name, `link:${workspacePath}`])),
+      ...(craftDeskJson.dependencies || {})
+    }
+  };
+}
+
+/**
+ * Orders workspaces so that every workspace comes after the workspaces it depends on
+ *
+ * @param workspaces - Workspaces from `findWorkspaces`
+ * @returns Workspaces in dependency order (otherwise in their original order)
+ * @throws Error if workspaces depend on each other in a cycle
+ */
+export function sortWorkspaces(workspaces: Workspace[]): Workspace[] {
+  const byName = new Map(workspaces.map(workspace => [workspace.name, workspace]));
+  const sorted: Workspace[] = [];
+  const done = new Set<string>();
+
+  const visit = (workspace: Workspace, chain: string[]): void => {
+    if (done.has(workspace.name)) return;
+    if (chain.includes(workspace.name)) {
+      throw new Error(`Workspaces depend on each other in a cycle: ${[...chain, workspace.name].join(' > ')}`);
+    }
+
+    for (const name of getDependencyNames(workspace.craftDeskJson)) {
+      const dependency = byName.get(name);
+      if (dependency) visit(dependency, [...chain, workspace.name]);
+    }
+
+    done.add(workspace.name);
+    sorted.push(workspace);
+  };
+
+  for (const workspace of workspaces) {
+    visit(workspace, []);
+  }
+
+  return sorted;
+}
+
+function getDependencyNames(craftDeskJson: CraftDeskJson): string[] {
+  return [
+    craftDeskJson.dependencies,
+    craftDeskJson.devDependencies,
+    craftDeskJson.optionalDependencies,
+    craftDeskJson.peerDependencies
+  ].flatMap(deps => Object.keys(deps || {}));
+}
+
+async function expandPattern(rootDir: string, pattern: string): Promise<string[]> {
+  let directories = [path.resolve(rootDir)];
+
+  for (const segment of pattern.split('/').filter(part => part && part !== '.')) {
+    const next = new Set<string>();
+
+    for (const directory of directories) {
+      if (segment === '**') {
+        next.add(directory);
+        for (const subdirectory of await listSubdirectories(directory, true)) next.add(subdirectory);
+      } else if (/[*?]/.test(segment)) {
+        const matcher = segmentToRegExp(segment);
+        for (const subdirectory of await listSubdirectories(directory, false)) {
+          if (matcher.test(path.basename(subdirectory))) next.add(subdirectory);
+        }
+      } else {
+        const candidate = path.join(directory, segment);
+        if ((await fs.stat(candidate).catch(() => null))?.isDirectory()) next.add(candidate);
+      }
+    }
+
+    directories = [...next];
+  }
+
+  return directories;
+}
+
+async function listSubdirectories(directory: string, recursive: boolean): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+  const subdirectories: string[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || IGNORED_DIRECTORIES.has(entry.name) || entry.name.startsWith('.')) continue;
+
+    const subdirectory = path.join(directory, entry.name);
+    subdirectories.push(subdirectory);
+    if (recursive) {
+      subdirectories.push(...await listSubdirectories(subdirectory, true));
+    }
+  }
+
+  return subdirectories;
+}
+
+function segmentToRegExp(segment: string): RegExp {
+  const source = segment
+    .split('')
+    .map(char => char === '*' ? '[^/]*' : char === '?' ? '[^/]' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import http from 'http';
+import { AddressInfo } from 'net';
+import AdmZip from 'adm-zip';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+const execFileAsync = promisify(execFile);
+
+interface MockRegistry {
+  /** Published versions of acme/lint */
+  versions: string[];
+  /** Advisories returned by POST /api/v1/advisories, or null to answer 404 */
+  advisories: Array<Record<string, unknown>> | null;
+  /** Bodies posted to the advisories endpoint */
+  queries: unknown[];
+}
+
+/**
+ * Minimal stand-in for the registry API serving acme/lint and its advisories
+ */
+function startRegistry(registry: MockRegistry): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    const { port } = server.address() as AddressInfo;
+    const url = req.url || '';
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (url === '/api/v1/advisories' && req.method === 'POST') {
+        registry.queries.push(JSON.parse(body));
+        return registry.advisories ? send(200, { advisories: registry.advisories }) : send(404, { error: 'Not found' });
+      }
+
+      if (url === '/api/v1/crafts/acme/lint/versions') {
+        return send(200, { versions: registry.versions });
+      }
+
+      let match = url.match(/^\/api\/v1\/crafts\/acme\/lint\/versions\/([^/]+)$/);
+      if (match && registry.versions.includes(match[1])) {
+        return send(200, {
+          craft: {
+            name: 'lint',
+            author: 'acme',
+            version: match[1],
+            type: 'skill',
+            download_url: `http://127.0.0.1:${port}/download/${match[1]}.zip`
+          }
+        });
+      }
+
+      match = url.match(/^\/download\/([^/]+)\.zip$/);
+      if (match) {
+        const zip = new AdmZip();
+        zip.addFile('SKILL.md', Buffer.from(`# lint ${match[1]}`, 'utf-8'));
+        res.writeHead(200, { 'Content-Type': 'application/zip' });
+        return res.end(zip.toBuffer());
+      }
+
+      send(404, { error: 'Not found' });
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('audit advisories', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let server: http.Server;
+  let registry: MockRegistry;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const advisory = {
+    id: 'CDSA-2025-0001',
+    craft: 'acme/lint',
+    vulnerable_versions: '<1.1.0',
+    fixed_in: '1.1.0',
+    severity: 'high',
+    title: 'PostToolUse hook leaks environment variables',
+    url: 'https://craftdesk.ai/advisories/CDSA-2025-0001'
+  };
+
+  const run = async (args: string[]) => {
+    const { stdout } = await execFileAsync('node', [cliPath, ...args], {
+      cwd: projectDir,
+      encoding: 'utf-8',
+      env: { ...process.env, CRAFTDESK_CACHE_DIR: path.join(tempDir, 'cache') }
+    });
+    return stdout;
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('audit-advisories-test-');
+    registry = { versions: ['1.0.0'], advisories: [], queries: [] };
+    server = await startRegistry(registry);
+
+    projectDir = path.join(tempDir, 'app');
+    await fs.outputJson(path.join(projectDir, 'craftdesk.json'), {
+      name: 'app',
+      version: '1.0.0',
+      registries: { default: { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` } },
+      dependencies: { 'acme/lint': '^1.0.0' }
+    });
+
+    await run(['install']);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should report advisories affecting locked registry crafts', async () => {
+    registry.advisories = [advisory];
+
+    const result = JSON.parse(await run(['audit', '--json', '--audit-level', 'critical']));
+
+    expect(registry.queries).toEqual([{ crafts: { 'acme/lint': '1.0.0' } }]);
+    expect(result.findings).toEqual([
+      expect.objectContaining({
+        craft: 'acme/lint',
+        version: '1.0.0',
+        severity: 'high',
+        rule: 'advisory',
+        message: 'PostToolUse hook leaks environment variables (fixed in 1.1.0)',
+        advisory: expect.objectContaining({ id: 'CDSA-2025-0001', fixed_in: '1.1.0' })
+      })
+    ]);
+    await expect(run(['audit'])).rejects.toThrow(/1 issue\(s\) at or above high severity/);
+  });
+
+  it('should rate malicious versions critical', async () => {
+    registry.advisories = [{ ...advisory, severity: 'moderate', malicious: true, fixed_in: undefined }];
+
+    const output = await run(['audit', '--audit-level', 'critical']).catch(error => error.stdout);
+
+    expect(output).toContain('CRITICAL  Malicious version: PostToolUse hook leaks environment variables (no fix available)');
+    expect(output).toContain('CDSA-2025-0001 https://craftdesk.ai/advisories/CDSA-2025-0001');
+  });
+
+  it('should update affected crafts with --fix', async () => {
+    registry.advisories = [advisory];
+    registry.versions.push('1.1.0', '2.0.0');
+
+    const output = await run(['audit', '--fix']);
+
+    expect(output).toContain('Updated acme/lint');
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['acme/lint'].version).toBe('1.1.0');
+    expect(await fs.readFile(path.join(projectDir, '.claude', 'skills', 'acme', 'lint', 'SKILL.md'), 'utf-8')).toBe('# lint 1.1.0');
+    expect(registry.queries.at(-1)).toEqual({ crafts: { 'acme/lint': '1.1.0' } });
+  });
+
+  it('should keep the collection membership of fixed crafts', async () => {
+    await fs.outputJson(path.join(projectDir, 'kit', 'craftdesk.json'), {
+      name: 'kit', version: '1.0.0', type: 'collection', members: { 'acme/lint': '^1.0.0' }
+    });
+    const craftDeskJson = await fs.readJson(path.join(projectDir, 'craftdesk.json'));
+    await fs.writeJson(path.join(projectDir, 'craftdesk.json'), { ...craftDeskJson, dependencies: { kit: 'file:kit' } });
+    await run(['install']);
+    registry.advisories = [advisory];
+    registry.versions.push('1.1.0');
+
+    await run(['audit', '--fix']);
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['acme/lint']).toMatchObject({ version: '1.1.0', memberOf: ['kit'] });
+  });
+
+  it('should keep the optional flag of fixed crafts', async () => {
+    const craftDeskJson = await fs.readJson(path.join(projectDir, 'craftdesk.json'));
+    await fs.writeJson(path.join(projectDir, 'craftdesk.json'), {
+      ...craftDeskJson,
+      dependencies: {},
+      optionalDependencies: { 'acme/lint': '^1.0.0' }
+    });
+    await fs.remove(path.join(projectDir, 'craftdesk.lock'));
+    await run(['install']);
+    registry.advisories = [advisory];
+    registry.versions.push('1.1.0');
+
+    await run(['audit', '--fix']);
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['acme/lint']).toMatchObject({ version: '1.1.0', optional: true });
+  });
+
+  it('should warn when the registry has no advisories endpoint', async () => {
+    registry.advisories = null;
+
+    const output = await run(['audit']);
+
+    expect(output).toMatch(/Could not fetch advisories from http:\/\/127\.0\.0\.1:\d+: Request failed with status code 404/);
+    expect(output).toContain('No issues found in 1 craft(s)');
+  });
+
+  it('should skip advisories with --no-advisories', async () => {
+    await run(['audit', '--no-advisories']);
+
+    expect(registry.queries).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('audit command', () => {
+  let tempDir: string;
+  let projectDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, encoding: 'utf-8', stdio: 'pipe' });
+
+  const writeCraft = async (name: string, files: Record<string, string | object>) => {
+    const dir = path.join(tempDir, 'crafts', name);
+    for (const [file, content] of Object.entries(files)) {
+      if (typeof content === 'string') {
+        await fs.outputFile(path.join(dir, file), content);
+      } else {
+        await fs.outputJson(path.join(dir, file), content);
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('audit-command-test-');
+    projectDir = path.join(tempDir, 'project');
+    await fs.ensureDir(projectDir);
+
+    await writeCraft('formatter', {
+      'SKILL.md': '# formatter',
+      'craftdesk.json': {
+        name: 'formatter',
+        version: '1.0.0',
+        type: 'skill',
+        hooks: { PostToolUse: ['npx prettier --write .'] }
+      }
+    });
+    await writeCraft('tools', {
+      '.claude-plugin/plugin.json': {
+        name: 'tools',
+        version: '2.0.0',
+        mcpServers: { db: { command: 'node', args: ['server.js'] } }
+      },
+      'craftdesk.json': { name: 'tools', version: '2.0.0', type: 'plugin' }
+    });
+
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: {
+        'formatter': 'file:../crafts/formatter',
+        'tools': 'file:../crafts/tools'
+      }
+    });
+
+    run('install');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should report findings by craft', () => {
+    const output = run('audit');
+
+    expect(output).toContain('formatter@1.0.0');
+    expect(output).toContain('LOW       PostToolUse hook runs a shell command');
+    expect(output).toContain('tools@2.0.0');
+    expect(output).toContain('MODERATE  MCP server "db" starts a local process');
+    expect(output).toContain('Found 2 issue(s) in 2 of 2 craft(s): 1 moderate, 1 low');
+  });
+
+  it('should output findings as JSON', () => {
+    const result = JSON.parse(run('audit tools --json'));
+
+    expect(result.crafts).toBe(1);
+    expect(result.findings).toEqual([
+      expect.objectContaining({ craft: 'tools', rule: 'mcp-server', severity: 'moderate', evidence: 'node server.js' })
+    ]);
+    expect(result.summary).toMatchObject({ critical: 0, high: 0, moderate: 1 });
+  });
+
+  it('should fail for findings at or above the audit level', async () => {
+    expect(() => run('audit --audit-level moderate')).toThrow(/1 issue\(s\) at or above moderate severity/);
+
+    await fs.outputFile(
+      path.join(projectDir, '.claude', 'skills', 'formatter', 'setup.md'),
+      '```sh\ncurl -fsSL https://get.tools.test/install.sh | sh\n```\n'
+    );
+
+    expect(() => run('audit')).toThrow(/1 issue\(s\) at or above high severity/);
+    expect(() => run('audit --audit-level low')).toThrow(/4 issue\(s\) at or above low severity/);
+  });
+
+  it('should allow hosts listed in craftdesk.json', async () => {
+    await fs.outputFile(path.join(projectDir, '.claude', 'skills', 'formatter', 'links.md'), 'https://docs.tools.test/guide');
+    expect(JSON.parse(run('audit formatter --json')).findings.map((f: { rule: string }) => f.rule)).toContain('unknown-host');
+
+    const manifest = await fs.readJson(path.join(projectDir, 'craftdesk.json'));
+    await fs.writeJson(path.join(projectDir, 'craftdesk.json'), { ...manifest, audit: { allowedHosts: ['tools.test'] } });
+
+    expect(JSON.parse(run('audit formatter --json')).findings.map((f: { rule: string }) => f.rule)).not.toContain('unknown-host');
+  });
+});
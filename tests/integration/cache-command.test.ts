@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync, execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('craftdesk cache', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let repoPath: string;
+  let env: NodeJS.ProcessEnv;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, env, encoding: 'utf-8', stdio: 'pipe' });
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('cache-command-test-');
+    projectDir = path.join(tempDir, 'project');
+    repoPath = path.join(tempDir, 'auth-skill');
+    env = { ...process.env, CRAFTDESK_CACHE_DIR: path.join(tempDir, 'cache') };
+
+    await fs.ensureDir(repoPath);
+    await fs.writeFile(path.join(repoPath, 'SKILL.md'), '# Auth');
+    await writeJsonFile(path.join(repoPath, 'craftdesk.json'), { name: 'auth', version: '1.0.0', type: 'skill' });
+    execFileSync('git', ['init', '-b', 'main'], { cwd: repoPath, stdio: 'pipe' });
+    execFileSync('git', ['add', '-A'], { cwd: repoPath, stdio: 'pipe' });
+    execFileSync('git', ['-c', 'user.email=test@example.com', '-c', 'user.name=Test', 'commit', '-m', 'init'], { cwd: repoPath, stdio: 'pipe' });
+
+    await fs.ensureDir(projectDir);
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: {
+        auth: { git: repoPath, branch: 'main' }
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should mirror git dependencies during install and list them', () => {
+    run('install');
+
+    const entries = JSON.parse(run('cache ls --json'));
+    expect(entries).toHaveLength(1);
+    expect(entries[0].kind).toBe('git');
+    expect(entries[0].url).toBe(repoPath);
+
+    const summary = run('cache');
+    expect(summary).toContain(`Cache directory: ${path.join(tempDir, 'cache')}`);
+    expect(summary).toContain('Git mirrors: 1');
+  });
+
+  it('should verify and clean the cache', () => {
+    run('install');
+
+    const verify = run('cache verify');
+    expect(verify).toContain('Verified 1 entries');
+    expect(verify).toContain('Removed: 0');
+
+    expect(run('cache clean')).toMatch(/Cache cleaned \(\d+(\.\d)? (B|KB|MB) freed\)/);
+    expect(run('cache ls')).toContain('Cache is empty');
+  });
+});
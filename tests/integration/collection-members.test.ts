@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('collection members', () => {
+  let projectDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, encoding: 'utf-8', stdio: 'pipe' });
+
+  const writeCraft = async (dir: string, name: string, type: string) => {
+    await fs.outputFile(path.join(dir, type === 'agent' ? 'AGENT.md' : 'SKILL.md'), `# ${name}`);
+    await writeJsonFile(path.join(dir, 'craftdesk.json'), { name, version: '1.0.0', type });
+  };
+
+  beforeEach(async () => {
+    projectDir = await createTempDir('collection-members-test-');
+
+    const collectionDir = path.join(projectDir, 'rails-kit');
+    await fs.ensureDir(collectionDir);
+    await writeJsonFile(path.join(collectionDir, 'craftdesk.json'), {
+      name: 'rails-kit',
+      version: '1.0.0',
+      type: 'collection',
+      members: { 'rubocop': 'file:skills/rubocop', 'reviewer': 'file:agents/reviewer' }
+    });
+    await writeCraft(path.join(collectionDir, 'skills', 'rubocop'), 'rubocop', 'skill');
+    await writeCraft(path.join(collectionDir, 'agents', 'reviewer'), 'reviewer', 'agent');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(projectDir);
+  });
+
+  it('should install each member into its own type directory', async () => {
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'app', version: '1.0.0', dependencies: { 'rails-kit': 'file:rails-kit' }
+    });
+
+    run('install');
+
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'skills', 'rubocop', 'SKILL.md'))).toBe(true);
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'agents', 'reviewer', 'AGENT.md'))).toBe(true);
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['rails-kit']).toMatchObject({ type: 'collection', members: { 'rubocop': 'file:skills/rubocop', 'reviewer': 'file:agents/reviewer' } });
+    expect(lockfile.crafts['rubocop']).toMatchObject({ type: 'skill', memberOf: ['rails-kit'] });
+    expect(lockfile.crafts['reviewer']).toMatchObject({ type: 'agent', memberOf: ['rails-kit'] });
+  });
+
+  it('should remove a collection with the members nothing else requires', async () => {
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'app',
+      version: '1.0.0',
+      dependencies: { 'rails-kit': 'file:rails-kit', 'rubocop': 'file:rails-kit/skills/rubocop' }
+    });
+    run('install');
+
+    run('remove rails-kit');
+
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'collections', 'rails-kit'))).toBe(false);
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'agents', 'reviewer'))).toBe(false);
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'skills', 'rubocop'))).toBe(true);
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(Object.keys(lockfile.crafts)).toEqual(['rubocop']);
+    expect(lockfile.crafts['rubocop'].memberOf).toBeUndefined();
+  });
+});
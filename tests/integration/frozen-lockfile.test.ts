@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync, execFile } from 'child_process';
+import { promisify } from 'util';
+import http from 'http';
+import { AddressInfo } from 'net';
+import AdmZip from 'adm-zip';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Minimal stand-in for a registry serving acme/lint 1.0.0
+ */
+function startRegistry(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const { port } = server.address() as AddressInfo;
+    const url = req.url || '';
+
+    if (url === '/api/v1/crafts/acme/lint/versions') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      return res.end(JSON.stringify({ versions: ['1.0.0'] }));
+    }
+    if (url === '/api/v1/crafts/acme/lint/versions/1.0.0') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      return res.end(JSON.stringify({
+        craft: { name: 'lint', author: 'acme', version: '1.0.0', type: 'skill', download_url: `http://127.0.0.1:${port}/lint.zip` }
+      }));
+    }
+    if (url === '/lint.zip') {
+      const zip = new AdmZip();
+      zip.addFile('SKILL.md', Buffer.from('# lint', 'utf-8'));
+      res.writeHead(200, { 'Content-Type': 'application/zip' });
+      return res.end(zip.toBuffer());
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('craftdesk install --frozen-lockfile', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('frozen-test-');
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should fail when craftdesk.lock is missing', async () => {
+    await writeJsonFile(path.join(tempDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: { 'acme/rails': '^1.0.0' }
+    });
+
+    try {
+      execSync(`node ${cliPath} install --frozen-lockfile`, { encoding: 'utf-8', stdio: 'pipe' });
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.status).toBe(1);
+      expect(error.stderr).toContain('craftdesk.lock is required with --frozen-lockfile');
+    }
+
+    expect(await fs.pathExists(path.join(tempDir, 'craftdesk.lock'))).toBe(false);
+  });
+
+  it('should fail with a diff when craftdesk.lock is out of sync', async () => {
+    await writeJsonFile(path.join(tempDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: {
+        'acme/new': '^1.0.0',
+        'auth': { git: 'https://github.com/acme/auth.git', branch: 'develop' }
+      }
+    });
+
+    const lockfile = {
+      version: '1.0.0',
+      lockfileVersion: 1,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      crafts: {
+        'acme/old': {
+          version: '1.0.0',
+          resolved: 'https://registry.test/old.zip',
+          integrity: 'abc',
+          type: 'skill'
+        },
+        'auth': {
+          version: '1.0.0',
+          resolved: 'https://github.com/acme/auth.git',
+          integrity: 'a'.repeat(40),
+          type: 'agent',
+          git: 'https://github.com/acme/auth.git',
+          branch: 'main'
+        }
+      }
+    };
+    await writeJsonFile(path.join(tempDir, 'craftdesk.lock'), lockfile);
+
+    try {
+      execSync(`node ${cliPath} install --frozen-lockfile`, { encoding: 'utf-8', stdio: 'pipe' });
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.status).toBe(1);
+      expect(error.stderr).toContain('out of sync');
+      expect(error.stdout).toContain('+ acme/new (^1.0.0)');
+      expect(error.stdout).toContain('- acme/old@1.0.0');
+      expect(error.stdout).toContain('~ auth: branch main → develop');
+    }
+
+    // Lockfile must be left untouched
+    const after = await fs.readJson(path.join(tempDir, 'craftdesk.lock'));
+    expect(after).toEqual(lockfile);
+  });
+
+  it('should install from a lockfile that matches craftdesk.json without rewriting it', async () => {
+    await writeJsonFile(path.join(tempDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: {}
+    });
+
+    const lockPath = path.join(tempDir, 'craftdesk.lock');
+    await writeJsonFile(lockPath, {
+      version: '1.0.0',
+      lockfileVersion: 1,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      crafts: {}
+    });
+    const before = await fs.readFile(lockPath, 'utf-8');
+
+    const output = execSync(`node ${cliPath} install --frozen-lockfile`, { encoding: 'utf-8' });
+
+    expect(output).toContain('Installation complete');
+    expect(await fs.readFile(lockPath, 'utf-8')).toBe(before);
+  });
+
+  it('should accept a lockfile written by install --production', async () => {
+    for (const name of ['lint', 'debug']) {
+      await fs.outputFile(path.join(tempDir, 'crafts', name, 'SKILL.md'), `# ${name}`);
+      await writeJsonFile(path.join(tempDir, 'crafts', name, 'craftdesk.json'), { name, version: '1.0.0', type: 'skill' });
+    }
+    await writeJsonFile(path.join(tempDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: { lint: 'file:crafts/lint' },
+      devDependencies: { debug: 'file:crafts/debug' }
+    });
+
+    execSync(`node ${cliPath} install --production`, { encoding: 'utf-8', stdio: 'pipe' });
+
+    expect(Object.keys((await fs.readJson(path.join(tempDir, 'craftdesk.lock'))).crafts).sort()).toEqual(['debug', 'lint']);
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'lint', 'SKILL.md'))).toBe(true);
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'debug'))).toBe(false);
+
+    execSync(`node ${cliPath} install --frozen-lockfile`, { encoding: 'utf-8', stdio: 'pipe' });
+
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'debug', 'SKILL.md'))).toBe(true);
+  });
+});
+
+describe('craftdesk install --frozen-lockfile with a custom registry', () => {
+  let tempDir: string;
+  let server: http.Server;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string[]) => execFileAsync('node', [cliPath, ...args], {
+    cwd: tempDir,
+    encoding: 'utf-8',
+    env: { ...process.env, CRAFTDESK_CACHE_DIR: path.join(tempDir, '.cache') }
+  });
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('frozen-registry-test-');
+    server = await startRegistry();
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should lock and install crafts from the registry a dependency declares', async () => {
+    await writeJsonFile(path.join(tempDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      registries: {
+        default: { url: 'http://127.0.0.1:9' },
+        acme: { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` }
+      },
+      dependencies: { 'acme/lint': { version: '^1.0.0', registry: 'acme' } }
+    });
+
+    await run(['install']);
+
+    const lockfile = await fs.readJson(path.join(tempDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['acme/lint']).toMatchObject({
+      version: '1.0.0',
+      resolved: expect.stringMatching(/\/lint\.zip$/),
+      integrity: expect.stringMatching(/^sha512-/),
+      registry: 'acme'
+    });
+
+    await fs.remove(path.join(tempDir, '.claude'));
+    await run(['install', '--frozen-lockfile']);
+
+    expect(await fs.readFile(path.join(tempDir, '.claude', 'skills', 'acme', 'lint', 'SKILL.md'), 'utf-8')).toBe('# lint');
+    expect(await fs.readJson(path.join(tempDir, 'craftdesk.lock'))).toEqual(lockfile);
+  });
+});
+
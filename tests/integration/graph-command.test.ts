@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('graph command', () => {
+  let projectDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, encoding: 'utf-8', stdio: 'pipe' });
+
+  const writeCraft = async (name: string, type: string, dependencies: Record<string, string> = {}) => {
+    const dir = path.join(projectDir, 'crafts', name);
+    await fs.outputFile(path.join(dir, type === 'agent' ? 'AGENT.md' : 'SKILL.md'), `# ${name}`);
+    await writeJsonFile(path.join(dir, 'craftdesk.json'), { name, version: '1.0.0', type, dependencies });
+  };
+
+  beforeEach(async () => {
+    projectDir = await createTempDir('graph-command-test-');
+
+    await writeCraft('reviewer', 'agent', { 'style-guide': 'file:../style-guide' });
+    await writeCraft('style-guide', 'skill');
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'graph-project',
+      version: '1.0.0',
+      dependencies: { 'reviewer': 'file:crafts/reviewer' }
+    });
+
+    run('install');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(projectDir);
+  });
+
+  it('should export DOT by default', () => {
+    const output = run('graph');
+
+    expect(output).toContain('digraph craftdesk {');
+    expect(output).toContain('"craftdesk.json" -> "reviewer" [label="dependency file:crafts/reviewer"];');
+    expect(output).toContain('"reviewer" -> "style-guide" [label="dependency file:');
+  });
+
+  it('should export Mermaid and JSON', () => {
+    expect(run('graph --format mermaid')).toContain('flowchart LR');
+
+    const graph = JSON.parse(run('graph --format json --outdated'));
+    expect(graph.nodes.map((n: { id: string }) => n.id)).toEqual(['craftdesk.json', 'reviewer', 'style-guide']);
+    expect(graph.nodes.find((n: { id: string }) => n.id === 'style-guide')).toMatchObject({ type: 'skill', source: 'local' });
+    expect(graph.nodes.some((n: { outdated?: unknown }) => n.outdated)).toBe(false);
+  });
+
+  it('should filter by type and write to a file', async () => {
+    run('graph --format json --type agent --output docs/graph.json');
+
+    const graph = await fs.readJson(path.join(projectDir, 'docs', 'graph.json'));
+    expect(graph.nodes.map((n: { id: string }) => n.id)).toEqual(['craftdesk.json', 'reviewer']);
+    expect(graph.edges).toHaveLength(1);
+  });
+
+  it('should reject unknown formats and types', () => {
+    expect(() => run('graph --format svg')).toThrow(/Invalid format: svg/);
+    expect(() => run('graph --type widget')).toThrow(/Invalid type: widget/);
+  });
+});
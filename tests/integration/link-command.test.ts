@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('link command', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let devDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string, cwd: string = projectDir) => execSync(`node ${cliPath} ${args}`, {
+    cwd,
+    encoding: 'utf-8',
+    stdio: 'pipe',
+    env: { ...process.env, CRAFTDESK_LINKS_DIR: path.join(tempDir, 'links') }
+  });
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('link-command-test-');
+    projectDir = path.join(tempDir, 'project');
+    devDir = path.join(tempDir, 'dev', 'helper');
+
+    await fs.outputFile(path.join(tempDir, 'released', 'helper', 'SKILL.md'), '# Helper 1.0');
+    await writeJsonFile(path.join(tempDir, 'released', 'helper', 'craftdesk.json'), {
+      name: 'helper',
+      version: '1.0.0',
+      type: 'skill'
+    });
+    await fs.outputFile(path.join(devDir, 'SKILL.md'), '# Helper dev');
+    await writeJsonFile(path.join(devDir, 'craftdesk.json'), {
+      name: 'helper',
+      version: '1.1.0-dev',
+      type: 'skill'
+    });
+
+    await fs.ensureDir(projectDir);
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: { 'helper': 'file:../released/helper' }
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should register the current craft and list it', async () => {
+    expect(run('link', devDir)).toContain('Registered helper');
+
+    expect(run('link --list')).toContain(`helper -> ${devDir}`);
+    expect((await fs.lstat(path.join(tempDir, 'links', 'helper'))).isSymbolicLink()).toBe(true);
+
+    expect(run('unlink', devDir)).toContain('Unregistered helper');
+    expect(run('link --list')).toContain('No crafts registered');
+  });
+
+  it('should fail to link a craft that is not registered', () => {
+    let output = '';
+    try {
+      run('link helper');
+    } catch (error: any) {
+      output = `${error.stdout}${error.stderr}`;
+    }
+    expect(output).toContain('helper is not registered');
+  });
+
+  it('should link over the installed craft, survive install and prune, and restore it on unlink', async () => {
+    run('install');
+    run('link', devDir);
+
+    run('link helper');
+    const craftPath = path.join(projectDir, '.claude', 'skills', 'helper');
+    expect((await fs.lstat(craftPath)).isSymbolicLink()).toBe(true);
+    expect(await fs.readFile(path.join(craftPath, 'SKILL.md'), 'utf-8')).toBe('# Helper dev');
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['helper']).toMatchObject({ version: '1.0.0', linked: await fs.realpath(devDir) });
+
+    expect(run('install')).toContain('Keeping helper linked');
+    expect(run('prune')).toContain('Nothing to prune');
+    expect((await fs.lstat(craftPath)).isSymbolicLink()).toBe(true);
+
+    run('unlink helper');
+    expect((await fs.lstat(craftPath)).isSymbolicLink()).toBe(false);
+    expect(await fs.readFile(path.join(craftPath, 'SKILL.md'), 'utf-8')).toBe('# Helper 1.0');
+    expect((await fs.readJson(path.join(projectDir, 'craftdesk.lock'))).crafts['helper'].linked).toBeUndefined();
+  });
+
+  it('should remove crafts that were only linked on unlink', async () => {
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), { name: 'test-project', version: '1.0.0', dependencies: {} });
+    run('link', devDir);
+
+    run('link helper');
+    expect((await fs.readJson(path.join(projectDir, 'craftdesk.lock'))).crafts['helper']).toMatchObject({ version: '1.1.0-dev', type: 'skill' });
+
+    run('unlink helper');
+    expect(await fs.lstat(path.join(projectDir, '.claude', 'skills', 'helper')).catch(() => null)).toBeNull();
+    expect((await fs.readJson(path.join(projectDir, 'craftdesk.lock'))).crafts['helper']).toBeUndefined();
+  });
+});
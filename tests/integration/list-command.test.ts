@@ -74,4 +74,39 @@ describe('craftdesk list command', () => {
 
     expect(output).toContain('No crafts installed');
   });
+
+  it('should show the dependency tree recorded by install', async () => {
+    const writeCraft = async (name: string, dependencies: Record<string, string> = {}) => {
+      const dir = path.join(tempDir, 'crafts', name);
+      await fs.outputFile(path.join(dir, 'SKILL.md'), `# ${name}`);
+      await writeJsonFile(path.join(dir, 'craftdesk.json'), { name, version: '1.0.0', type: 'skill', dependencies });
+    };
+
+    await writeCraft('auth', { 'helper': 'file:../helper' });
+    await writeCraft('billing', { 'helper': 'file:../helper' });
+    await writeCraft('helper');
+    await writeJsonFile(path.join(tempDir, 'craftdesk.json'), {
+      name: 'tree-project',
+      version: '1.0.0',
+      dependencies: { 'auth': 'file:crafts/auth', 'billing': 'file:crafts/billing' }
+    });
+
+    execSync(`node ${cliPath} install`, { encoding: 'utf-8' });
+
+    const lockfile = await fs.readJson(path.join(tempDir, 'craftdesk.lock'));
+    expect(lockfile.tree).toEqual({
+      'auth@1.0.0': { dependencies: { 'helper@1.0.0': {} } },
+      'billing@1.0.0': { dependencies: { 'helper@1.0.0': '(shared)' } }
+    });
+
+    const output = execSync(`node ${cliPath} list --tree`, { encoding: 'utf-8' });
+    expect(output).toContain('├── auth@1.0.0 (local crafts/auth)');
+    expect(output).toContain('│   └── helper@1.0.0 (local crafts/helper)');
+    expect(output).toContain('└── billing@1.0.0 (local crafts/billing)');
+    expect(output).toContain('    └── helper@1.0.0 (local crafts/helper) (shared)');
+
+    const shallow = execSync(`node ${cliPath} list --tree --depth 0`, { encoding: 'utf-8' });
+    expect(shallow).toContain('auth@1.0.0');
+    expect(shallow).not.toContain('helper@1.0.0');
+  });
 });
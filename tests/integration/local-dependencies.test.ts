@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('local path dependencies', () => {
+  let tempDir: string;
+  let projectDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, encoding: 'utf-8', stdio: 'pipe' });
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('local-deps-test-');
+    projectDir = path.join(tempDir, 'project');
+
+    await fs.outputFile(path.join(tempDir, 'skills', 'my-skill', 'SKILL.md'), '# My skill');
+    await writeJsonFile(path.join(tempDir, 'skills', 'my-skill', 'craftdesk.json'), {
+      name: 'my-skill',
+      version: '0.1.0',
+      type: 'skill',
+      dependencies: { 'helper': 'file:../helper' }
+    });
+    await fs.outputFile(path.join(tempDir, 'skills', 'helper', 'SKILL.md'), '# Helper');
+    await fs.outputFile(path.join(tempDir, 'agents', 'reviewer', 'AGENT.md'), '# Reviewer');
+    await writeJsonFile(path.join(tempDir, 'agents', 'reviewer', 'craftdesk.json'), {
+      name: 'reviewer',
+      version: '2.0.0',
+      type: 'agent'
+    });
+
+    await fs.ensureDir(projectDir);
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: {
+        'my-skill': 'file:../skills/my-skill',
+        'reviewer': { local: '../agents/reviewer', link: true }
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should copy, link and lock local crafts including transitive ones', async () => {
+    run('install');
+
+    const skillsDir = path.join(projectDir, '.claude', 'skills');
+    expect(await fs.readFile(path.join(skillsDir, 'my-skill', 'SKILL.md'), 'utf-8')).toBe('# My skill');
+    expect(await fs.readFile(path.join(skillsDir, 'helper', 'SKILL.md'), 'utf-8')).toBe('# Helper');
+
+    const linkPath = path.join(projectDir, '.claude', 'agents', 'reviewer');
+    expect((await fs.lstat(linkPath)).isSymbolicLink()).toBe(true);
+    expect(await fs.realpath(linkPath)).toBe(await fs.realpath(path.join(tempDir, 'agents', 'reviewer')));
+    expect(await fs.pathExists(path.join(tempDir, 'agents', 'reviewer', '.craftdesk-metadata.json'))).toBe(false);
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['my-skill']).toMatchObject({ version: '0.1.0', resolved: 'file:../skills/my-skill', local: '../skills/my-skill' });
+    expect(lockfile.crafts['my-skill'].integrity).toMatch(/^[a-f0-9]{64}$/);
+    expect(lockfile.crafts['helper']).toMatchObject({ local: '../skills/helper' });
+    expect(lockfile.crafts['reviewer']).toMatchObject({ type: 'agent', local: '../agents/reviewer', link: true });
+
+    expect(run('list')).toContain('reviewer@2.0.0');
+  });
+
+  it('should re-resolve local crafts whose contents changed', async () => {
+    run('install');
+    const before = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    await fs.writeFile(path.join(tempDir, 'skills', 'helper', 'SKILL.md'), '# Helper v2');
+
+    let frozenOutput = '';
+    try {
+      run('install --frozen-lockfile');
+    } catch (error: any) {
+      frozenOutput = `${error.stdout}${error.stderr}`;
+    }
+    expect(frozenOutput).toContain('~ my-skill: contents of ../skills/helper changed');
+
+    const output = run('install');
+    expect(output).toContain('Updated craftdesk.lock');
+
+    const after = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(after.crafts['helper'].integrity).not.toBe(before.crafts['helper'].integrity);
+    expect(await fs.readFile(path.join(projectDir, '.claude', 'skills', 'helper', 'SKILL.md'), 'utf-8')).toBe('# Helper v2');
+  });
+
+  it('should remove the link but keep the source when a linked craft is dropped', async () => {
+    run('install');
+    const craftDeskJson = await fs.readJson(path.join(projectDir, 'craftdesk.json'));
+    delete craftDeskJson.dependencies.reviewer;
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), craftDeskJson);
+
+    run('install');
+
+    expect(await fs.lstat(path.join(projectDir, '.claude', 'agents', 'reviewer')).catch(() => null)).toBeNull();
+    expect(await fs.readFile(path.join(tempDir, 'agents', 'reviewer', 'AGENT.md'), 'utf-8')).toBe('# Reviewer');
+  });
+});
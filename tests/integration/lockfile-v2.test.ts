@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync, execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('lockfile v2 tree hashes', () => {
+  let projectDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+  const lockPath = () => path.join(projectDir, 'craftdesk.lock');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, encoding: 'utf-8', stdio: 'pipe' });
+
+  beforeEach(async () => {
+    projectDir = await createTempDir('lockfile-v2-test-');
+
+    await fs.outputFile(path.join(projectDir, 'crafts', 'lint', 'SKILL.md'), '# lint');
+    await writeJsonFile(path.join(projectDir, 'crafts', 'lint', 'craftdesk.json'), { name: 'lint', version: '1.0.0', type: 'skill' });
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'app', version: '1.0.0', dependencies: { 'lint': 'file:crafts/lint' }
+    });
+
+    run('install');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(projectDir);
+  });
+
+  it('should record the tree hash of every installed craft', async () => {
+    const lockfile = await fs.readJson(lockPath());
+
+    expect(lockfile.lockfileVersion).toBe(2);
+    expect(lockfile.crafts['lint'].treeHash).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('should migrate v1 lockfiles and record their tree hashes', async () => {
+    const lockfile = await fs.readJson(lockPath());
+    const treeHash = lockfile.crafts['lint'].treeHash;
+    delete lockfile.crafts['lint'].treeHash;
+    await fs.writeJson(lockPath(), { ...lockfile, lockfileVersion: 1 });
+
+    const output = run('install');
+
+    expect(output).toContain('Recorded tree hashes of 1 craft(s) in craftdesk.lock');
+    const migrated = await fs.readJson(lockPath());
+    expect(migrated.lockfileVersion).toBe(2);
+    expect(migrated.crafts['lint'].treeHash).toBe(treeHash);
+  });
+
+  it('should fail when the installed files do not match the tree hash', async () => {
+    const lockfile = await fs.readJson(lockPath());
+    lockfile.crafts['lint'].treeHash = '0'.repeat(64);
+    await fs.writeJson(lockPath(), lockfile);
+
+    expect(() => run('install --frozen-lockfile')).toThrow(/Tree hash verification failed for lint@1.0.0/);
+    expect(await fs.readFile(path.join(projectDir, '.claude', 'skills', 'lint', 'SKILL.md'), 'utf-8')).toBe('# lint');
+  });
+});
+
+describe('lockfile v2 tree hashes of git crafts', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let repoPath: string;
+  let env: NodeJS.ProcessEnv;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, env, encoding: 'utf-8', stdio: 'pipe' });
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repoPath, stdio: 'pipe' });
+  const commit = async (content: string) => {
+    await fs.writeFile(path.join(repoPath, 'SKILL.md'), content);
+    git('add', '-A');
+    git('-c', 'user.email=test@example.com', '-c', 'user.name=Test', 'commit', '-m', content);
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('lockfile-v2-git-test-');
+    projectDir = path.join(tempDir, 'project');
+    repoPath = path.join(tempDir, 'auth-skill');
+    env = { ...process.env, CRAFTDESK_CACHE_DIR: path.join(tempDir, 'cache') };
+
+    await fs.ensureDir(repoPath);
+    await writeJsonFile(path.join(repoPath, 'craftdesk.json'), { name: 'auth', version: '1.0.0', type: 'skill' });
+    git('init', '-b', 'main');
+    await commit('# Auth v1');
+
+    await fs.ensureDir(projectDir);
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: { auth: { git: repoPath, branch: 'main' } }
+    });
+    run('install');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should install the locked commit after the branch moved forward', async () => {
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    await commit('# Auth v2');
+    await fs.remove(path.join(projectDir, '.claude'));
+
+    run('install');
+    run('install --frozen-lockfile');
+
+    expect(await fs.readFile(path.join(projectDir, '.claude', 'skills', 'auth', 'SKILL.md'), 'utf-8')).toBe('# Auth v1');
+    expect(await fs.readJson(path.join(projectDir, 'craftdesk.lock'))).toEqual(lockfile);
+  });
+});
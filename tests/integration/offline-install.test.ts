@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync, execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('install --offline', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let repoPath: string;
+  let env: NodeJS.ProcessEnv;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, env, encoding: 'utf-8', stdio: 'pipe' });
+
+  const runFailing = (args: string): string => {
+    try {
+      run(args);
+    } catch (error: any) {
+      expect(error.status).toBe(1);
+      return `${error.stdout}${error.stderr}`;
+    }
+    throw new Error(`Expected "craftdesk ${args}" to fail`);
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('offline-install-test-');
+    projectDir = path.join(tempDir, 'project');
+    repoPath = path.join(tempDir, 'auth-skill');
+    env = { ...process.env, CRAFTDESK_CACHE_DIR: path.join(tempDir, 'cache') };
+
+    await fs.ensureDir(repoPath);
+    await fs.writeFile(path.join(repoPath, 'SKILL.md'), '# Auth');
+    await writeJsonFile(path.join(repoPath, 'craftdesk.json'), { name: 'auth', version: '1.0.0', type: 'skill' });
+    execFileSync('git', ['init', '-b', 'main'], { cwd: repoPath, stdio: 'pipe' });
+    execFileSync('git', ['add', '-A'], { cwd: repoPath, stdio: 'pipe' });
+    execFileSync('git', ['-c', 'user.email=test@example.com', '-c', 'user.name=Test', 'commit', '-m', 'init'], { cwd: repoPath, stdio: 'pipe' });
+
+    await fs.ensureDir(projectDir);
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: {
+        auth: { git: repoPath, branch: 'main' }
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should install from the cache without reaching the git remote', async () => {
+    run('install');
+    await fs.remove(path.join(projectDir, '.claude'));
+    await fs.remove(repoPath);
+
+    const output = run('install --offline');
+
+    expect(output).toContain('Installing from craftdesk.lock (offline)');
+    expect(await fs.readFile(path.join(projectDir, '.claude', 'skills', 'auth', 'SKILL.md'), 'utf-8')).toBe('# Auth');
+  });
+
+  it('should list every craft that is not cached', async () => {
+    run('install');
+    await fs.remove(path.join(tempDir, 'cache'));
+
+    const lockfile = await fs.readJSON(path.join(projectDir, 'craftdesk.lock'));
+    lockfile.crafts['registry-skill'] = {
+      version: '2.0.0',
+      resolved: 'https://craftdesk.ai/download/registry-skill-2.0.0.zip',
+      integrity: 'a'.repeat(64),
+      type: 'skill',
+      author: 'acme',
+      dependencies: {}
+    };
+    await writeJsonFile(path.join(projectDir, 'craftdesk.lock'), lockfile);
+    const craftDeskJson = await fs.readJSON(path.join(projectDir, 'craftdesk.json'));
+    craftDeskJson.dependencies['registry-skill'] = '2.0.0';
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), craftDeskJson);
+
+    const output = runFailing('install --offline');
+
+    expect(output).toContain('2 craft(s) are not in the cache:');
+    expect(output).toContain(`auth@${lockfile.crafts.auth.version}: git ${repoPath}`);
+    expect(output).toContain('registry-skill@2.0.0: archive aaaaaaaaaaaa...');
+    expect(output).toContain('--prefer-offline');
+  });
+
+  it('should require a lockfile', () => {
+    expect(runFailing('install --offline')).toContain('craftdesk.lock is required with --offline');
+  });
+
+  it('should reject --offline together with --prefer-offline', () => {
+    expect(runFailing('install --offline --prefer-offline')).toContain('--offline cannot be combined with --prefer-offline');
+  });
+
+  it('should reuse the cached mirror with --prefer-offline', async () => {
+    run('install');
+    await fs.remove(path.join(projectDir, '.claude'));
+    await fs.remove(repoPath);
+
+    run('install --prefer-offline');
+
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'skills', 'auth', 'SKILL.md'))).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('optional and peer dependencies', () => {
+  let tempDir: string;
+  let projectDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args} 2>&1`, { cwd: projectDir, encoding: 'utf-8', stdio: 'pipe' });
+
+  const runFailing = (args: string): string => {
+    try {
+      run(args);
+    } catch (error: any) {
+      return `${error.stdout}${error.stderr}`;
+    }
+    throw new Error(`craftdesk ${args} should have failed`);
+  };
+
+  const writeCraft = async (name: string, version: string, extra: Record<string, unknown> = {}) => {
+    await fs.outputFile(path.join(tempDir, name, 'SKILL.md'), `# ${name}`);
+    await writeJsonFile(path.join(tempDir, name, 'craftdesk.json'), { name, version, type: 'skill', ...extra });
+  };
+
+  const writeProject = (extra: Record<string, unknown>) => writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+    name: 'test-project',
+    version: '1.0.0',
+    ...extra
+  });
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('optional-peer-test-');
+    projectDir = path.join(tempDir, 'project');
+    await fs.ensureDir(projectDir);
+
+    await writeCraft('rails-plugin', '1.0.0', { peerDependencies: { 'rails': '^7.0.0' } });
+    await writeCraft('rails', '6.1.0');
+    await writeCraft('extras', '1.0.0');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should install optional dependencies and skip the ones that fail to resolve', async () => {
+    await writeProject({
+      dependencies: { 'rails-plugin': 'file:../rails-plugin', 'rails': 'file:../rails' },
+      optionalDependencies: { 'extras': 'file:../extras', 'missing': 'file:../missing' }
+    });
+    await writeCraft('rails', '7.1.0');
+
+    const output = run('install');
+    expect(output).toContain('Skipping optional dependency missing');
+    expect(output).not.toContain('peer dependency problem');
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['extras']).toMatchObject({ version: '1.0.0', optional: true });
+    expect(lockfile.crafts['missing']).toBeUndefined();
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'skills', 'extras', 'SKILL.md'))).toBe(true);
+
+    // The skipped optional dependency does not make the lockfile out of sync for CI
+    expect(run('install --frozen-lockfile')).toContain('Skipping optional dependencies not in craftdesk.lock: missing');
+  });
+
+  it('should warn about peers the project does not declare', async () => {
+    await writeProject({ dependencies: { 'rails-plugin': 'file:../rails-plugin' } });
+
+    const output = run('install');
+    expect(output).toContain('1 peer dependency problem(s)');
+    expect(output).toContain('rails-plugin requires peer rails@^7.0.0, which craftdesk.json does not declare');
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'skills', 'rails-plugin'))).toBe(true);
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'skills', 'rails'))).toBe(false);
+  });
+
+  it('should fail on mismatched peers with --strict-peer-deps', async () => {
+    await writeProject({ dependencies: { 'rails-plugin': 'file:../rails-plugin', 'rails': 'file:../rails' } });
+
+    const output = runFailing('install --strict-peer-deps');
+    expect(output).toContain('rails-plugin requires peer rails@^7.0.0, but rails@6.1.0 is installed');
+    expect(await fs.pathExists(path.join(projectDir, 'craftdesk.lock'))).toBe(false);
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'skills', 'rails-plugin'))).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('overrides', () => {
+  let tempDir: string;
+  let projectDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, encoding: 'utf-8', stdio: 'pipe' });
+
+  const writeCraft = async (dir: string, name: string, version: string, dependencies: Record<string, string> = {}) => {
+    await fs.outputFile(path.join(dir, 'SKILL.md'), `# ${name} ${version}`);
+    await writeJsonFile(path.join(dir, 'craftdesk.json'), { name, version, type: 'skill', dependencies });
+  };
+
+  const writeProject = (overrides?: Record<string, string>) => writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+    name: 'test-project',
+    version: '1.0.0',
+    dependencies: { 'auth': 'file:../skills/auth' },
+    ...(overrides && { overrides })
+  });
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('overrides-test-');
+    projectDir = path.join(tempDir, 'project');
+
+    await writeCraft(path.join(tempDir, 'skills', 'auth'), 'auth', '1.0.0', { 'helper': 'file:../helper' });
+    await writeCraft(path.join(tempDir, 'skills', 'helper'), 'helper', '1.0.0');
+    await writeCraft(path.join(projectDir, 'vendor', 'helper'), 'helper', '1.0.1-patched');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should install the overridden craft and record the override', async () => {
+    await writeProject({ 'auth>helper': 'file:vendor/helper' });
+    run('install');
+
+    const helperPath = path.join(projectDir, '.claude', 'skills', 'helper', 'SKILL.md');
+    expect(await fs.readFile(helperPath, 'utf-8')).toBe('# helper 1.0.1-patched');
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.overrides).toEqual({ 'auth>helper': 'file:vendor/helper' });
+    expect(lockfile.crafts['helper']).toMatchObject({ version: '1.0.1-patched', local: 'vendor/helper', override: 'auth>helper' });
+    expect(lockfile.crafts['auth'].dependencies).toEqual({ 'helper': 'file:vendor/helper' });
+
+    const output = run('list --tree');
+    expect(output).toContain('Overrides:');
+    expect(output).toContain('auth>helper → file:vendor/helper (helper@1.0.1-patched)');
+  });
+
+  it('should re-resolve affected crafts when an override is removed', async () => {
+    await writeProject({ 'auth>helper': 'file:vendor/helper' });
+    run('install');
+
+    await writeProject();
+    const output = run('install');
+    expect(output).toContain('~ auth: override "auth>helper" removed');
+
+    const helperPath = path.join(projectDir, '.claude', 'skills', 'helper', 'SKILL.md');
+    expect(await fs.readFile(helperPath, 'utf-8')).toBe('# helper 1.0.0');
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.overrides).toBeUndefined();
+    expect(lockfile.crafts['helper'].override).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import http from 'http';
+import { AddressInfo } from 'net';
+import AdmZip from 'adm-zip';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Minimal stand-in for the registry API serving versions of the acme/db-tools plugin
+ */
+function startRegistry(versions: Map<string, Record<string, unknown>>): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    const { port } = server.address() as AddressInfo;
+    const url = req.url || '';
+
+    if (url === '/api/v1/crafts/acme/db-tools/versions') {
+      return send(200, { versions: [...versions.keys()] });
+    }
+
+    let match = url.match(/^\/api\/v1\/crafts\/acme\/db-tools\/versions\/([^/]+)$/);
+    if (match && versions.has(match[1])) {
+      return send(200, {
+        craft: {
+          name: 'db-tools',
+          author: 'acme',
+          version: match[1],
+          type: 'plugin',
+          download_url: `http://127.0.0.1:${port}/download/${match[1]}.zip`
+        }
+      });
+    }
+
+    match = url.match(/^\/download\/([^/]+)\.zip$/);
+    const manifest = match && versions.get(match[1]);
+    if (manifest) {
+      const zip = new AdmZip();
+      zip.addFile('.claude-plugin/plugin.json', Buffer.from(JSON.stringify(manifest), 'utf-8'));
+      res.writeHead(200, { 'Content-Type': 'application/zip' });
+      return res.end(zip.toBuffer());
+    }
+
+    send(404, { error: 'Not found' });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('permission consent', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let server: http.Server;
+  const versions = new Map<string, Record<string, unknown>>();
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = async (args: string[]) => {
+    const { stdout } = await execFileAsync('node', [cliPath, ...args], {
+      cwd: projectDir,
+      encoding: 'utf-8',
+      env: { ...process.env, CRAFTDESK_CACHE_DIR: path.join(tempDir, 'cache') }
+    });
+    return stdout;
+  };
+
+  const writeProject = async (allowedPermissions?: Record<string, unknown>) => {
+    await fs.outputJson(path.join(projectDir, 'craftdesk.json'), {
+      name: 'app',
+      version: '1.0.0',
+      registries: { default: { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` } },
+      dependencies: { 'acme/db-tools': '^1.0.0' },
+      ...(allowedPermissions && { allowedPermissions })
+    });
+  };
+
+  const readLockfile = () => fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('permissions-test-');
+    versions.clear();
+    versions.set('1.0.0', {
+      name: 'db-tools',
+      mcpServers: { postgres: { command: 'npx', args: ['-y', '@acme/pg-mcp'] } }
+    });
+    server = await startRegistry(versions);
+    projectDir = path.join(tempDir, 'app');
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should refuse unapproved permissions when not run in a terminal', async () => {
+    await writeProject();
+
+    await expect(run(['install'])).rejects.toThrow(
+      /acme\/db-tools@1.0.0 requests permissions that have not been approved:\n {2}Commands: {3}npx -y @acme\/pg-mcp/
+    );
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'plugins', 'acme', 'db-tools'))).toBe(false);
+    expect(await fs.pathExists(path.join(projectDir, 'craftdesk.lock'))).toBe(false);
+  });
+
+  it('should install with permissions allowed in craftdesk.json and record them', async () => {
+    await writeProject({ 'acme/db-tools': { commands: ['npx -y @acme/*'] } });
+
+    await run(['install']);
+
+    expect((await readLockfile()).crafts['acme/db-tools'].permissions).toEqual({ commands: ['npx -y @acme/pg-mcp'] });
+    const settings = await fs.readJson(path.join(projectDir, '.claude', 'settings.json'));
+    expect(settings.mcpServers.postgres.command).toBe('npx');
+  });
+
+  it('should not ask again for permissions approved in craftdesk.lock', async () => {
+    await writeProject({ 'acme/db-tools': '*' });
+    await run(['install']);
+
+    await writeProject();
+    await fs.remove(path.join(projectDir, '.claude'));
+    await run(['install', '--frozen-lockfile']);
+
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'plugins', 'acme', 'db-tools', '.claude-plugin', 'plugin.json'))).toBe(true);
+  });
+
+  it('should ask again when an update adds permissions', async () => {
+    await writeProject({ 'acme/db-tools': '*' });
+    await run(['install']);
+    await writeProject();
+
+    versions.set('1.1.0', {
+      name: 'db-tools',
+      mcpServers: { postgres: { command: 'npx', args: ['-y', '@acme/pg-mcp'], env: { PGPASSWORD: '${PGPASSWORD}' } } }
+    });
+
+    const output = await run(['update']);
+
+    expect(output).toMatch(/acme\/db-tools@1.1.0 requests permissions that have not been approved:\n {2}Env vars: {3}PGPASSWORD\n/);
+    expect((await readLockfile()).crafts['acme/db-tools'].version).toBe('1.0.0');
+  });
+});
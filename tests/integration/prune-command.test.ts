@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('craftdesk prune', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { encoding: 'utf-8', stdio: 'pipe' });
+
+  const installManaged = async (typeDir: string, name: string, type: string) => {
+    const craftDir = path.join(tempDir, '.claude', typeDir, name);
+    await fs.ensureDir(craftDir);
+    await writeJsonFile(path.join(craftDir, '.craftdesk-metadata.json'), { name, version: '1.0.0', type });
+    return craftDir;
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('prune-test-');
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    await writeJsonFile(path.join(tempDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: {
+        'kept-skill': '^1.0.0'
+      },
+      embedded: ['my-embedded']
+    });
+    await writeJsonFile(path.join(tempDir, 'craftdesk.lock'), {
+      version: '1.0.0',
+      lockfileVersion: 1,
+      crafts: {
+        'kept-skill': {
+          version: '1.0.0',
+          resolved: 'https://registry.invalid/kept-skill.zip',
+          integrity: 'abc',
+          type: 'skill',
+          dependencies: {}
+        }
+      }
+    });
+
+    await installManaged('skills', 'kept-skill', 'skill');
+    await installManaged('skills', 'old-skill', 'skill');
+    await installManaged('agents', 'old-agent', 'agent');
+    await installManaged('plugins', 'old-plugin', 'plugin');
+    await installManaged('skills', 'my-embedded', 'skill');
+    await fs.ensureDir(path.join(tempDir, '.claude', 'skills', 'hand-written'));
+    await writeJsonFile(path.join(tempDir, '.claude', 'settings.json'), {
+      plugins: {
+        'old-plugin': { name: 'old-plugin', version: '1.0.0', type: 'plugin', enabled: true }
+      }
+    });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should remove managed crafts of every type that are not in craftdesk.lock', async () => {
+    const output = run('prune');
+
+    expect(output).toContain('Pruned 3 craft(s)');
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'old-skill'))).toBe(false);
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'agents', 'old-agent'))).toBe(false);
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'plugins', 'old-plugin'))).toBe(false);
+
+    const settings = await fs.readJson(path.join(tempDir, '.claude', 'settings.json'));
+    expect(settings.plugins['old-plugin']).toBeUndefined();
+  });
+
+  it('should never touch locked, embedded or unmanaged crafts', async () => {
+    run('prune');
+
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'kept-skill'))).toBe(true);
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'my-embedded'))).toBe(true);
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'hand-written'))).toBe(true);
+  });
+
+  it('should remove scoped crafts that are not in craftdesk.lock', async () => {
+    const lockfile = await fs.readJson(path.join(tempDir, 'craftdesk.lock'));
+    lockfile.crafts['acme/lint'] = { ...lockfile.crafts['kept-skill'], resolved: 'https://registry.invalid/lint.zip' };
+    await writeJsonFile(path.join(tempDir, 'craftdesk.lock'), lockfile);
+    await installManaged('skills', 'acme/lint', 'skill');
+    await installManaged('skills', 'acme/old-lint', 'skill');
+
+    const output = run('prune');
+
+    expect(output).toContain('Pruned 4 craft(s)');
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'acme', 'old-lint'))).toBe(false);
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'acme', 'lint'))).toBe(true);
+  });
+
+  it('should only list orphaned crafts with --dry-run', async () => {
+    const output = run('prune --dry-run');
+
+    expect(output).toContain('Would remove 3 craft(s):');
+    expect(output).toContain('old-agent (agent)');
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'agents', 'old-agent'))).toBe(true);
+  });
+
+  it('should report when there is nothing to prune', async () => {
+    run('prune');
+
+    expect(run('prune')).toContain('Nothing to prune');
+  });
+
+  it('should prune during install unless --no-prune is given', async () => {
+    // Only the orphans, so the install does not need the registry
+    await fs.remove(path.join(tempDir, '.claude', 'skills', 'kept-skill'));
+    await writeJsonFile(path.join(tempDir, 'craftdesk.json'), { name: 'test-project', version: '1.0.0', embedded: ['my-embedded'] });
+    await writeJsonFile(path.join(tempDir, 'craftdesk.lock'), { version: '1.0.0', lockfileVersion: 1, crafts: {} });
+
+    run('install --no-prune');
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'old-skill'))).toBe(true);
+
+    const output = run('install');
+    expect(output).toContain('Removed old-skill');
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'old-skill'))).toBe(false);
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'plugins', 'old-plugin'))).toBe(false);
+    expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'my-embedded'))).toBe(true);
+  });
+});
@@ -217,4 +217,52 @@ describe('craftdesk publish command', () => {
     expect(output).toContain('SKILL.md');
     expect(output).toContain('helper.ts');
   });
+
+  describe('secrets', () => {
+    // Assembled at runtime so the test file itself does not trip secret scanners
+    const githubToken = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+
+    beforeEach(async () => {
+      await writeJsonFile(path.join(tempDir, 'craftdesk.json'), {
+        name: 'leaky-craft',
+        version: '1.0.0',
+        author: 'testuser',
+        type: 'skill'
+      });
+      await fs.writeFile(path.join(tempDir, 'SKILL.md'), `# Skill\n\nRun \`gh auth login --with-token ${githubToken}\`\n`);
+    });
+
+    it('should refuse files that contain secrets, also on --dry-run', async () => {
+      try {
+        execSync(`node ${cliPath} publish --dry-run`, { encoding: 'utf-8', stdio: 'pipe' });
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.stderr).toContain('Found 1 possible secret(s) in the files to publish:');
+        expect(error.stderr).toContain('SKILL.md:3  GitHub token (ghp_a1B2…)');
+        expect(error.stderr).not.toContain(githubToken);
+        expect(error.stdout).toContain('--allow-secrets');
+      }
+    });
+
+    it('should continue with --allow-secrets', async () => {
+      const output = execSync(`node ${cliPath} publish --dry-run --allow-secrets 2>&1`, { encoding: 'utf-8' });
+
+      expect(output).toContain('SKILL.md:3  GitHub token');
+      expect(output).toContain('Publishing anyway (--allow-secrets)');
+      expect(output).toContain('Dry run complete');
+    });
+
+    it('should leave out files listed in .craftdeskignore', async () => {
+      await fs.writeFile(path.join(tempDir, '.craftdeskignore'), '# local notes\nSKILL.md\nscratch/\n');
+      await fs.outputFile(path.join(tempDir, 'scratch', 'todo.md'), '# todo');
+      await fs.writeFile(path.join(tempDir, 'README.md'), '# Leaky craft');
+
+      const output = execSync(`node ${cliPath} publish --dry-run 2>&1`, { encoding: 'utf-8' });
+
+      expect(output).toContain('README.md');
+      expect(output).not.toContain('SKILL.md');
+      expect(output).not.toContain('todo.md');
+      expect(output).toContain('Total: 2 file(s)');
+    });
+  });
 });
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('require integrity', () => {
+  let projectDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, encoding: 'utf-8', stdio: 'pipe' });
+
+  const writeProject = async (install?: Record<string, unknown>) => {
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'app', version: '1.0.0', dependencies: { 'lint': '^1.0.0' }, ...(install && { install })
+    });
+  };
+
+  beforeEach(async () => {
+    projectDir = await createTempDir('require-integrity-test-');
+
+    // Written by an older craftdesk when the registry reported no integrity
+    await writeJsonFile(path.join(projectDir, 'craftdesk.lock'), {
+      version: '1.0.0',
+      lockfileVersion: 2,
+      generatedAt: new Date().toISOString(),
+      crafts: {
+        'lint': {
+          version: '1.0.0',
+          resolved: 'https://registry.invalid/download/lint-1.0.0.zip',
+          integrity: 'sha256-pending',
+          type: 'skill',
+          author: 'acme',
+          dependencies: {}
+        }
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(projectDir);
+  });
+
+  it('should refuse to install registry crafts without integrity when install.requireIntegrity is set', async () => {
+    await writeProject({ requireIntegrity: true });
+
+    expect(() => run('install --frozen-lockfile')).toThrow(/1 registry craft\(s\) have no integrity hash in craftdesk.lock: lint/);
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'skills', 'lint'))).toBe(false);
+  });
+
+  it('should refuse them with --require-integrity', async () => {
+    await writeProject();
+
+    expect(() => run('install --require-integrity')).toThrow(/have no integrity hash in craftdesk.lock: lint/);
+  });
+});
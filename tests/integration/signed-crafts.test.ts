@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import http from 'http';
+import { AddressInfo } from 'net';
+import AdmZip from 'adm-zip';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+const execFileAsync = promisify(execFile);
+
+interface PublishedVersion {
+  type: string;
+  files: Array<{ path: string; content: string }>;
+  signature?: string;
+  public_key?: string;
+}
+
+/**
+ * Minimal stand-in for the registry API: stores published versions in memory
+ * and serves them back as ZIP archives
+ */
+function startRegistry(versions: Map<string, PublishedVersion>): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    const { port } = server.address() as AddressInfo;
+    const url = req.url || '';
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      let match = url.match(/^\/api\/v1\/crafts\/([^/]+)\/([^/]+)\/versions$/);
+      if (match && req.method === 'POST') {
+        const data = JSON.parse(body);
+        versions.set(`${match[1]}/${match[2]}@${data.version}`, data);
+        return send(201, { success: true });
+      }
+
+      if (url.endsWith('/publish') && req.method === 'PATCH') {
+        return send(200, { success: true });
+      }
+
+      match = url.match(/^\/api\/v1\/crafts\/([^/]+)\/([^/]+)\/versions\/([^/]+)$/);
+      const published = match && versions.get(`${match[1]}/${match[2]}@${match[3]}`);
+      if (match && published) {
+        return send(200, {
+          craft: {
+            name: match[2],
+            author: match[1],
+            version: match[3],
+            type: published.type,
+            download_url: `http://127.0.0.1:${port}/download/${match[1]}/${match[2]}/${match[3]}.zip`,
+            signature: published.signature,
+            public_key: published.public_key
+          }
+        });
+      }
+
+      match = url.match(/^\/download\/([^/]+)\/([^/]+)\/([^/]+)\.zip$/);
+      const download = match && versions.get(`${match[1]}/${match[2]}@${match[3]}`);
+      if (download) {
+        const zip = new AdmZip();
+        for (const file of download.files) {
+          zip.addFile(file.path, Buffer.from(file.content, 'utf-8'));
+        }
+        res.writeHead(200, { 'Content-Type': 'application/zip' });
+        return res.end(zip.toBuffer());
+      }
+
+      send(404, { error: 'Not found' });
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('signed crafts', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let craftDir: string;
+  let server: http.Server;
+  let registryUrl: string;
+  const versions = new Map<string, PublishedVersion>();
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = async (args: string[], cwd: string) => {
+    const { stdout } = await execFileAsync('node', [cliPath, ...args], {
+      cwd,
+      encoding: 'utf-8',
+      env: {
+        ...process.env,
+        CRAFTDESK_AUTH_127_0_0_1: 'test-token',
+        CRAFTDESK_KEYS_DIR: path.join(tempDir, 'keys'),
+        CRAFTDESK_CACHE_DIR: path.join(tempDir, 'cache')
+      }
+    });
+    return stdout;
+  };
+
+  const writeProject = async (policy: Record<string, unknown> = {}) => {
+    await fs.outputJson(path.join(projectDir, 'craftdesk.json'), {
+      name: 'app',
+      version: '1.0.0',
+      registries: { default: { url: registryUrl } },
+      dependencies: { 'acme/lint': '1.0.0' },
+      ...policy
+    });
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('signed-crafts-test-');
+    versions.clear();
+    server = await startRegistry(versions);
+    registryUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    craftDir = path.join(tempDir, 'lint');
+    await fs.outputFile(path.join(craftDir, 'SKILL.md'), '# lint');
+    await fs.outputJson(path.join(craftDir, 'craftdesk.json'), {
+      name: 'lint',
+      version: '1.0.0',
+      author: 'acme',
+      type: 'skill',
+      registries: { default: { url: registryUrl } }
+    });
+
+    projectDir = path.join(tempDir, 'app');
+    await fs.ensureDir(projectDir);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should sign on publish and record the signer when installing', async () => {
+    const generated = await run(['keys', 'generate'], tempDir);
+    const fingerprint = generated.match(/Fingerprint: (SHA256:\S+)/)?.[1];
+    expect(fingerprint).toBeDefined();
+
+    await run(['publish'], craftDir);
+    expect(versions.get('acme/lint@1.0.0')?.signature).toBeDefined();
+
+    await writeProject({ trustedSigners: [fingerprint], requireSignatures: true });
+    await run(['install'], projectDir);
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['acme/lint'].signer).toBe(fingerprint);
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'skills', 'acme', 'lint', 'SKILL.md'))).toBe(true);
+  });
+
+  it('should refuse archives that do not match their signature', async () => {
+    await run(['keys', 'generate'], tempDir);
+    await run(['publish'], craftDir);
+    versions.get('acme/lint@1.0.0')!.files[0].content = '# tampered';
+
+    await writeProject();
+
+    await expect(run(['install'], projectDir)).rejects.toThrow(/Signature verification failed for acme\/lint@1.0.0/);
+    expect(await fs.pathExists(path.join(projectDir, '.claude', 'skills', 'acme', 'lint'))).toBe(false);
+  });
+
+  it('should refuse crafts signed by keys that are not trusted', async () => {
+    await run(['keys', 'generate'], tempDir);
+    await run(['publish'], craftDir);
+
+    await writeProject({ trustedSigners: ['SHA256:someone-else'] });
+
+    await expect(run(['install'], projectDir)).rejects.toThrow(/acme\/lint@1.0.0 is signed by SHA256:\S+, which is not in trustedSigners/);
+  });
+
+  it('should refuse unsigned crafts when signatures are required', async () => {
+    const output = await run(['publish'], craftDir);
+    expect(output).toContain('publishing lint@1.0.0 unsigned');
+
+    await writeProject({ requireSignatures: true });
+
+    await expect(run(['install'], projectDir)).rejects.toThrow(/acme\/lint@1.0.0 is not signed, and craftdesk.json sets requireSignatures/);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('craftdesk install with a stale lockfile', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const staleLockfile = {
+    version: '1.0.0',
+    lockfileVersion: 1,
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    crafts: {
+      'old-helper': {
+        version: '1.0.0',
+        resolved: 'https://registry.invalid/old-helper.zip',
+        integrity: 'abc',
+        type: 'skill'
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('stale-lock-test-');
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    await writeJsonFile(path.join(tempDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: {}
+    });
+    await writeJsonFile(path.join(tempDir, 'craftdesk.lock'), staleLockfile);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should prune crafts removed from craftdesk.json and rewrite the lockfile', async () => {
+    const craftDir = path.join(tempDir, '.claude', 'skills', 'old-helper');
+    await fs.ensureDir(craftDir);
+    await fs.writeFile(path.join(craftDir, 'SKILL.md'), '# Old helper');
+
+    const output = execSync(`node ${cliPath} install`, { encoding: 'utf-8', stdio: 'pipe' });
+
+    expect(output).toContain('- old-helper@1.0.0 is locked but no longer declared');
+    expect(output).toContain('Updated craftdesk.lock');
+    expect(await fs.pathExists(craftDir)).toBe(false);
+
+    const lockfile = await fs.readJson(path.join(tempDir, 'craftdesk.lock'));
+    expect(lockfile.crafts).toEqual({});
+  });
+
+  it('should ignore the lockfile with --no-lockfile', async () => {
+    const output = execSync(`node ${cliPath} install --no-lockfile`, { encoding: 'utf-8', stdio: 'pipe' });
+
+    expect(output).toContain('No dependencies to install');
+    expect(await fs.readJson(path.join(tempDir, 'craftdesk.lock'))).toEqual(staleLockfile);
+  });
+});
@@ -1,9 +1,62 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { execSync } from 'child_process';
+import { execSync, execFile, execFileSync } from 'child_process';
+import { promisify } from 'util';
+import http from 'http';
+import { AddressInfo } from 'net';
+import AdmZip from 'adm-zip';
 import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
 import path from 'path';
 import fs from 'fs-extra';
 
+const execFileAsync = promisify(execFile);
+
+/**
+ * Minimal stand-in for the registry API serving skills by acme
+ *
+ * @param versions - Published versions by craft name, modified by the tests
+ * @returns The listening server
+ */
+function startRegistry(versions: Record<string, string[]>): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    const { port } = server.address() as AddressInfo;
+    const url = req.url || '';
+
+    let match = url.match(/^\/api\/v1\/crafts\/acme\/([^/]+)\/versions$/);
+    if (match && versions[match[1]]) {
+      return send(200, { versions: versions[match[1]] });
+    }
+
+    match = url.match(/^\/api\/v1\/crafts\/acme\/([^/]+)\/versions\/([^/]+)$/);
+    if (match && versions[match[1]]?.includes(match[2])) {
+      return send(200, {
+        craft: {
+          name: match[1],
+          author: 'acme',
+          version: match[2],
+          type: 'skill',
+          download_url: `http://127.0.0.1:${port}/download/${match[1]}/${match[2]}.zip`
+        }
+      });
+    }
+
+    match = url.match(/^\/download\/([^/]+)\/([^/]+)\.zip$/);
+    if (match) {
+      const zip = new AdmZip();
+      zip.addFile('SKILL.md', Buffer.from(`# ${match[1]} ${match[2]}`, 'utf-8'));
+      res.writeHead(200, { 'Content-Type': 'application/zip' });
+      return res.end(zip.toBuffer());
+    }
+
+    send(404, { error: 'Not found' });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
 describe('craftdesk update command', () => {
   let tempDir: string;
   let originalCwd: string;
@@ -266,3 +319,123 @@ describe('craftdesk update command', () => {
     expect(output).toMatch(/(All crafts are up to date|No crafts installed)/i);
   });
 });
+
+describe('craftdesk update of registry crafts', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let server: http.Server;
+  let versions: Record<string, string[]>;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = async (args: string[]) => {
+    const { stdout } = await execFileAsync('node', [cliPath, ...args], {
+      cwd: projectDir,
+      encoding: 'utf-8',
+      env: { ...process.env, CRAFTDESK_CACHE_DIR: path.join(tempDir, 'cache') }
+    });
+    return stdout;
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('update-registry-test-');
+    versions = { lint: ['1.0.0'], format: ['1.0.0'] };
+    server = await startRegistry(versions);
+
+    projectDir = path.join(tempDir, 'app');
+    await fs.ensureDir(path.join(projectDir, 'kit'));
+    await writeJsonFile(path.join(projectDir, 'kit', 'craftdesk.json'), {
+      name: 'kit',
+      version: '1.0.0',
+      type: 'collection',
+      members: { 'acme/lint': '^1.0.0' }
+    });
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'app',
+      version: '1.0.0',
+      registries: { default: { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` } },
+      dependencies: { 'kit': 'file:kit' },
+      optionalDependencies: { 'acme/format': '^1.0.0' }
+    });
+
+    await run(['install']);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should keep collection membership and optional flags of updated crafts', async () => {
+    versions.lint.push('1.1.0');
+    versions.format.push('1.1.0');
+
+    await run(['update']);
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['acme/lint']).toMatchObject({ version: '1.1.0', memberOf: ['kit'] });
+    expect(lockfile.crafts['acme/format']).toMatchObject({ version: '1.1.0', optional: true });
+
+    await run(['remove', 'kit']);
+
+    const afterRemove = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(Object.keys(afterRemove.crafts)).toEqual(['acme/format']);
+  });
+});
+
+describe('craftdesk update of git tags', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let repoPath: string;
+  let env: NodeJS.ProcessEnv;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, env, encoding: 'utf-8', stdio: 'pipe' });
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repoPath, stdio: 'pipe' });
+  const release = async (tag: string) => {
+    await fs.writeFile(path.join(repoPath, 'SKILL.md'), `# Auth ${tag}`);
+    git('add', '-A');
+    git('-c', 'user.email=test@example.com', '-c', 'user.name=Test', 'commit', '-m', tag);
+    git('tag', tag);
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('update-git-tag-test-');
+    projectDir = path.join(tempDir, 'project');
+    repoPath = path.join(tempDir, 'auth-skill');
+    env = { ...process.env, CRAFTDESK_CACHE_DIR: path.join(tempDir, 'cache') };
+
+    await fs.ensureDir(repoPath);
+    await writeJsonFile(path.join(repoPath, 'craftdesk.json'), { name: 'auth', version: '1.0.0', type: 'skill' });
+    git('init', '-b', 'main');
+    await release('v1.0.0');
+
+    await fs.ensureDir(projectDir);
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: { auth: { git: repoPath, tag: 'v1.0.0' } }
+    });
+    run('install');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should keep the new tag on the next install', async () => {
+    await release('v1.1.0');
+
+    run('update');
+
+    const craftDeskJson = await fs.readJson(path.join(projectDir, 'craftdesk.json'));
+    expect(craftDeskJson.dependencies.auth.tag).toBe('v1.1.0');
+
+    const output = run('install');
+    run('install --frozen-lockfile');
+
+    expect(output).not.toContain('out of sync');
+    expect((await fs.readJson(path.join(projectDir, 'craftdesk.lock'))).crafts['auth'].tag).toBe('v1.1.0');
+    expect(await fs.readFile(path.join(projectDir, '.claude', 'skills', 'auth', 'SKILL.md'), 'utf-8')).toBe('# Auth v1.1.0');
+  });
+});
+
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('why command', () => {
+  let tempDir: string;
+  let projectDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, encoding: 'utf-8', stdio: 'pipe' });
+
+  const writeCraft = async (name: string, dependencies: Record<string, string> = {}) => {
+    const dir = path.join(tempDir, 'skills', name);
+    await fs.outputFile(path.join(dir, 'SKILL.md'), `# ${name}`);
+    await writeJsonFile(path.join(dir, 'craftdesk.json'), { name, version: '1.0.0', type: 'skill', dependencies });
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('why-command-test-');
+    projectDir = path.join(tempDir, 'project');
+    await fs.ensureDir(projectDir);
+
+    await writeCraft('auth', { 'helper': 'file:../helper' });
+    await writeCraft('billing', { 'helper': 'file:../helper' });
+    await writeCraft('helper');
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'test-project',
+      version: '1.0.0',
+      dependencies: { 'auth': 'file:../skills/auth' },
+      devDependencies: { 'billing': 'file:../skills/billing' }
+    });
+
+    run('install');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should print every path to the craft', () => {
+    const output = run('why helper');
+
+    expect(output).toContain('helper@1.0.0 (skill)');
+    expect(output).toContain('└── auth@1.0.0 (dependencies: file:../skills/auth)');
+    expect(output).toContain('└── billing@1.0.0 (devDependencies: file:../skills/billing)');
+    expect(output).toContain('    └── helper@1.0.0 (dependencies: file:');
+    expect(output).toContain('2 dependency path(s) lead to helper');
+  });
+
+  it('should output paths as JSON', () => {
+    const result = JSON.parse(run('why helper --json'));
+
+    expect(result).toMatchObject({ name: 'helper', version: '1.0.0', type: 'skill' });
+    expect(result.paths.map((p: Array<{ name: string; source: string }>) => p.map(hop => `${hop.name}:${hop.source}`))).toEqual([
+      ['auth:dependencies', 'helper:dependencies'],
+      ['billing:devDependencies', 'helper:dependencies']
+    ]);
+  });
+
+  it('should fail for crafts that are not locked', () => {
+    expect(() => run('why missing')).toThrow(/missing is not in craftdesk.lock/);
+  });
+});
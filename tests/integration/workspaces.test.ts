@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('workspaces', () => {
+  let projectDir: string;
+  const cliPath = path.join(__dirname, '../../dist/index.js');
+
+  const run = (args: string) => execSync(`node ${cliPath} ${args}`, { cwd: projectDir, encoding: 'utf-8', stdio: 'pipe' });
+
+  const writeCraft = async (name: string, version: string, dependencies: Record<string, string> = {}) => {
+    const dir = path.join(projectDir, 'skills', name);
+    await fs.outputFile(path.join(dir, 'SKILL.md'), `# ${name} ${version}`);
+    await writeJsonFile(path.join(dir, 'craftdesk.json'), { name, version, author: 'acme', type: 'skill', dependencies });
+  };
+
+  beforeEach(async () => {
+    projectDir = await createTempDir('workspaces-test-');
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), {
+      name: 'monorepo',
+      version: '1.0.0',
+      workspaces: ['skills/*']
+    });
+    await writeCraft('auth', '1.0.0', { 'helper': '^1.0.0' });
+    await writeCraft('helper', '1.1.0');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(projectDir);
+  });
+
+  it('should install workspaces as linked crafts with a single root lockfile', async () => {
+    const output = run('install');
+    expect(output).toContain('Found 2 workspace(s)');
+
+    const lockfile = await fs.readJson(path.join(projectDir, 'craftdesk.lock'));
+    expect(lockfile.crafts['auth']).toMatchObject({ version: '1.0.0', local: 'skills/auth', link: true });
+    expect(lockfile.crafts['helper']).toMatchObject({ version: '1.1.0', local: 'skills/helper', link: true });
+    expect(await fs.pathExists(path.join(projectDir, 'skills', 'auth', 'craftdesk.lock'))).toBe(false);
+
+    const helperLink = path.join(projectDir, '.claude', 'skills', 'helper');
+    expect((await fs.lstat(helperLink)).isSymbolicLink()).toBe(true);
+    expect(await fs.realpath(helperLink)).toBe(await fs.realpath(path.join(projectDir, 'skills', 'helper')));
+  });
+
+  it('should list workspaces in dependency order for publish --workspaces --dry-run', async () => {
+    const output = run('publish --workspaces --dry-run');
+
+    expect(output).toContain('Publishing 2 workspace(s) in dependency order');
+    expect(output.indexOf('helper@1.1.0')).toBeLessThan(output.indexOf('auth@1.0.0'));
+    expect(output).toContain('Dry run complete');
+  });
+
+  it('should require workspaces for publish --workspaces', async () => {
+    await writeJsonFile(path.join(projectDir, 'craftdesk.json'), { name: 'single', version: '1.0.0' });
+
+    expect(() => run('publish --workspaces --dry-run')).toThrow(/No workspaces configured/);
+  });
+});
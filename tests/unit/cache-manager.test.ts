@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CacheManager } from '../../src/services/cache-manager';
+import { calculateFileChecksum, calculateIntegrity } from '../../src/utils/crypto';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils';
+import { execFileSync } from 'child_process';
+import path from 'path';
+import fs from 'fs-extra';
+
+function git(args: string[], cwd: string): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: 'pipe' }).trim();
+}
+
+async function commitFile(repoPath: string, file: string, content: string): Promise<string> {
+  await fs.writeFile(path.join(repoPath, file), content);
+  git(['add', '-A'], repoPath);
+  git(['-c', 'user.email=test@example.com', '-c', 'user.name=Test', 'commit', '-m', `Update ${file}`], repoPath);
+  return git(['rev-parse', 'HEAD'], repoPath);
+}
+
+describe('CacheManager', () => {
+  let tempDir: string;
+  let cacheManager: CacheManager;
+  let originalCacheDir: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('cache-manager-test-');
+    originalCacheDir = process.env.CRAFTDESK_CACHE_DIR;
+    process.env.CRAFTDESK_CACHE_DIR = path.join(tempDir, 'cache');
+    cacheManager = new CacheManager();
+  });
+
+  afterEach(async () => {
+    process.env.CRAFTDESK_CACHE_DIR = originalCacheDir;
+    await cleanupTempDir(tempDir);
+  });
+
+  describe('archives', () => {
+    let archivePath: string;
+    let integrity: string;
+
+    beforeEach(async () => {
+      archivePath = path.join(tempDir, 'craft.zip');
+      await fs.writeFile(archivePath, 'archive contents');
+      integrity = await calculateFileChecksum(archivePath);
+    });
+
+    it('should store and restore archives by integrity', async () => {
+      const restoredPath = path.join(tempDir, 'restored.zip');
+      expect(await cacheManager.restoreArchive(integrity, restoredPath)).toBe(false);
+
+      await cacheManager.storeArchive(archivePath, integrity);
+
+      expect(await cacheManager.restoreArchive(integrity, restoredPath)).toBe(true);
+      expect(await fs.readFile(restoredPath, 'utf-8')).toBe('archive contents');
+    });
+
+    it('should ignore integrity values that are not valid integrity strings', async () => {
+      await cacheManager.storeArchive(archivePath, 'sha256-pending');
+
+      expect(await cacheManager.list()).toEqual([]);
+      expect(await cacheManager.restoreArchive('sha256-pending', path.join(tempDir, 'x.zip'))).toBe(false);
+    });
+
+    it('should find archives cached under legacy hex keys by their SRI integrity', async () => {
+      await cacheManager.storeArchive(archivePath, integrity);
+
+      expect(await cacheManager.hasArchive(await calculateIntegrity(archivePath, 'sha256'))).toBe(true);
+      expect(await cacheManager.hasArchive(await calculateIntegrity(archivePath))).toBe(false);
+    });
+
+    it('should key archives by their strongest hash', async () => {
+      const sri = `${await calculateIntegrity(archivePath, 'sha256')} ${await calculateIntegrity(archivePath)}`;
+      await cacheManager.storeArchive(archivePath, sri);
+
+      const [entry] = await cacheManager.list();
+      expect(entry.key).toBe(cacheManager.getArchiveKey(sri));
+      expect(entry.key).toMatch(/^sha512-[a-f0-9]{128}$/);
+      expect((await cacheManager.verify()).valid).toHaveLength(1);
+    });
+
+    it('should remove corrupt archives on verify', async () => {
+      await cacheManager.storeArchive(archivePath, integrity);
+      const otherPath = path.join(tempDir, 'other.zip');
+      await fs.writeFile(otherPath, 'other contents');
+      const otherIntegrity = await calculateFileChecksum(otherPath);
+      await cacheManager.storeArchive(otherPath, otherIntegrity);
+
+      await fs.writeFile(cacheManager.getArchivePath(otherIntegrity), 'tampered');
+
+      const { valid, removed } = await cacheManager.verify();
+
+      expect(valid.map(e => e.key)).toEqual([integrity]);
+      expect(removed.map(e => e.key)).toEqual([otherIntegrity]);
+      expect(await fs.pathExists(cacheManager.getArchivePath(otherIntegrity))).toBe(false);
+    });
+  });
+
+  describe('git mirrors', () => {
+    let repoPath: string;
+
+    beforeEach(async () => {
+      repoPath = path.join(tempDir, 'origin');
+      await fs.ensureDir(repoPath);
+      git(['init', '-b', 'main'], repoPath);
+      await commitFile(repoPath, 'SKILL.md', '# v1');
+    });
+
+    it('should create a bare mirror on first use', async () => {
+      const mirrorPath = await cacheManager.getGitMirror(repoPath);
+
+      expect(mirrorPath).toBe(cacheManager.getGitMirrorPath(repoPath));
+      expect(git(['rev-parse', '--is-bare-repository'], mirrorPath)).toBe('true');
+      expect(git(['config', '--get', 'remote.origin.url'], mirrorPath)).toBe(repoPath);
+    });
+
+    it('should fetch commits that are not mirrored yet', async () => {
+      await cacheManager.getGitMirror(repoPath);
+      const newCommit = await commitFile(repoPath, 'SKILL.md', '# v2');
+
+      const mirrorPath = await cacheManager.getGitMirror(repoPath, newCommit);
+
+      expect(git(['cat-file', '-t', newCommit], mirrorPath)).toBe('commit');
+    });
+
+    it('should not contact the remote when a pinned commit is already mirrored', async () => {
+      const commit = git(['rev-parse', 'HEAD'], repoPath);
+      await cacheManager.getGitMirror(repoPath);
+      await fs.remove(repoPath);
+
+      await expect(new CacheManager().getGitMirror(repoPath, commit)).resolves.toBe(
+        cacheManager.getGitMirrorPath(repoPath)
+      );
+    });
+
+    it('should fetch branch updates once per process', async () => {
+      await cacheManager.getGitMirror(repoPath);
+      const newCommit = await commitFile(repoPath, 'SKILL.md', '# v2');
+
+      // Same process: the mirror was just fetched
+      const mirrorPath = await cacheManager.getGitMirror(repoPath);
+      expect(git(['rev-parse', 'main'], mirrorPath)).not.toBe(newCommit);
+
+      // New process: fetches new refs
+      await new CacheManager().getGitMirror(repoPath);
+      expect(git(['rev-parse', 'main'], mirrorPath)).toBe(newCommit);
+    });
+
+    it('should serialize concurrent requests for the same repository', async () => {
+      const paths = await Promise.all([
+        cacheManager.getGitMirror(repoPath),
+        cacheManager.getGitMirror(repoPath),
+        cacheManager.getGitMirror(repoPath)
+      ]);
+
+      expect(new Set(paths).size).toBe(1);
+      expect((await cacheManager.list()).filter(e => e.kind === 'git')).toHaveLength(1);
+    });
+
+    it('should never contact the remote in offline mode', async () => {
+      const commit = git(['rev-parse', 'HEAD'], repoPath);
+      cacheManager.setNetworkMode('offline');
+
+      await expect(cacheManager.getGitMirror(repoPath)).rejects.toThrow('is not in the cache (offline mode)');
+
+      cacheManager.setNetworkMode('online');
+      await cacheManager.getGitMirror(repoPath);
+      const newCommit = await commitFile(repoPath, 'SKILL.md', '# v2');
+
+      const offline = new CacheManager();
+      offline.setNetworkMode('offline');
+      await expect(offline.getGitMirror(repoPath, commit)).resolves.toBe(cacheManager.getGitMirrorPath(repoPath));
+      await expect(offline.getGitMirror(repoPath, newCommit)).rejects.toThrow(
+        `Commit ${newCommit.slice(0, 7)} of ${repoPath} is not in the cache`
+      );
+    });
+
+    it('should only fetch on a cache miss when preferring offline', async () => {
+      await cacheManager.getGitMirror(repoPath);
+      const newCommit = await commitFile(repoPath, 'SKILL.md', '# v2');
+
+      const preferOffline = new CacheManager();
+      preferOffline.setNetworkMode('prefer-offline');
+
+      // An existing mirror is good enough for a branch...
+      const mirrorPath = await preferOffline.getGitMirror(repoPath);
+      expect(git(['rev-parse', 'main'], mirrorPath)).not.toBe(newCommit);
+
+      // ...but a missing commit is fetched
+      await preferOffline.getGitMirror(repoPath, newCommit);
+      expect(git(['rev-parse', 'main'], mirrorPath)).toBe(newCommit);
+    });
+
+    it('should report whether a repository and commit are mirrored', async () => {
+      const commit = git(['rev-parse', 'HEAD'], repoPath);
+      expect(await cacheManager.hasGitMirror(repoPath)).toBe(false);
+
+      await cacheManager.getGitMirror(repoPath);
+
+      expect(await cacheManager.hasGitMirror(repoPath)).toBe(true);
+      expect(await cacheManager.hasGitMirror(repoPath, commit)).toBe(true);
+      expect(await cacheManager.hasGitMirror(repoPath, 'f'.repeat(40))).toBe(false);
+    });
+
+    it('should pass URLs to git as a single argument', async () => {
+      const maliciousUrl = `${repoPath}; touch ${path.join(tempDir, 'pwned')}`;
+
+      await expect(cacheManager.getGitMirror(maliciousUrl)).rejects.toThrow();
+      expect(await fs.pathExists(path.join(tempDir, 'pwned'))).toBe(false);
+    });
+  });
+
+  describe('list / clean', () => {
+    it('should report entries with their size and remote URL', async () => {
+      const repoPath = path.join(tempDir, 'origin');
+      await fs.ensureDir(repoPath);
+      git(['init', '-b', 'main'], repoPath);
+      await commitFile(repoPath, 'SKILL.md', '# skill');
+      await cacheManager.getGitMirror(repoPath);
+
+      const archivePath = path.join(tempDir, 'craft.zip');
+      await fs.writeFile(archivePath, 'archive contents');
+      await cacheManager.storeArchive(archivePath, await calculateFileChecksum(archivePath));
+
+      const entries = await cacheManager.list();
+
+      expect(entries.map(e => e.kind)).toEqual(['archive', 'git']);
+      expect(entries[0].size).toBe('archive contents'.length);
+      expect(entries[1].url).toBe(repoPath);
+      expect(entries[1].size).toBeGreaterThan(0);
+      expect(await cacheManager.getSize()).toBeGreaterThanOrEqual(entries[0].size + entries[1].size);
+    });
+
+    it('should remove everything and report the freed size', async () => {
+      const archivePath = path.join(tempDir, 'craft.zip');
+      await fs.writeFile(archivePath, 'archive contents');
+      await cacheManager.storeArchive(archivePath, await calculateFileChecksum(archivePath));
+
+      expect(await cacheManager.clean()).toBe('archive contents'.length);
+      expect(await cacheManager.list()).toEqual([]);
+      expect(await cacheManager.clean()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency, parseConcurrency } from '../../src/utils/concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('concurrency', () => {
+  describe('mapWithConcurrency', () => {
+    it('should keep results in input order', async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+        await delay(ms);
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2]);
+    });
+
+    it('should never exceed the limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(5);
+        inFlight--;
+      });
+
+      expect(maxInFlight).toBe(3);
+    });
+
+    it('should rethrow the first error and stop starting new items', async () => {
+      const started: number[] = [];
+
+      await expect(
+        mapWithConcurrency([0, 1, 2, 3, 4], 2, async (item) => {
+          started.push(item);
+          await delay(5);
+          if (item === 0) throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      expect(started).toEqual([0, 1]);
+    });
+
+    it('should handle empty input', async () => {
+      expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+    });
+  });
+
+  describe('parseConcurrency', () => {
+    it('should accept positive integers', () => {
+      expect(parseConcurrency('8')).toBe(8);
+      expect(parseConcurrency(1)).toBe(1);
+    });
+
+    it('should reject anything else', () => {
+      expect(() => parseConcurrency('0')).toThrow('Invalid concurrency "0"');
+      expect(() => parseConcurrency('2.5')).toThrow('expected a positive integer');
+      expect(() => parseConcurrency('many')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs-extra';
+import { parseIgnorePatterns, readIgnoreFile } from '../../src/utils/craftdeskignore';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils';
+
+describe('craftdeskignore', () => {
+  describe('parseIgnorePatterns', () => {
+    it('should match names at any depth unless anchored', () => {
+      const isIgnored = parseIgnorePatterns('secrets.json\n/notes.md\n');
+
+      expect(isIgnored('secrets.json', false)).toBe(true);
+      expect(isIgnored('config/secrets.json', false)).toBe(true);
+      expect(isIgnored('notes.md', false)).toBe(true);
+      expect(isIgnored('docs/notes.md', false)).toBe(false);
+    });
+
+    it('should support wildcards', () => {
+      const isIgnored = parseIgnorePatterns('*.pem\nfixtures/**/*.json\ndraft-?.md');
+
+      expect(isIgnored('keys/server.pem', false)).toBe(true);
+      expect(isIgnored('fixtures/users.json', false)).toBe(true);
+      expect(isIgnored('fixtures/api/v1/users.json', false)).toBe(true);
+      expect(isIgnored('examples/users.json', false)).toBe(false);
+      expect(isIgnored('draft-1.md', false)).toBe(true);
+      expect(isIgnored('draft-10.md', false)).toBe(false);
+    });
+
+    it('should only match directories with a trailing slash', () => {
+      const isIgnored = parseIgnorePatterns('private/');
+
+      expect(isIgnored('private', true)).toBe(true);
+      expect(isIgnored('private', false)).toBe(false);
+    });
+
+    it('should re-include negated patterns and skip comments', () => {
+      const isIgnored = parseIgnorePatterns('# test data\n*.json\n!craftdesk.json\n');
+
+      expect(isIgnored('data.json', false)).toBe(true);
+      expect(isIgnored('craftdesk.json', false)).toBe(false);
+      expect(isIgnored('# test data', false)).toBe(false);
+    });
+  });
+
+  describe('readIgnoreFile', () => {
+    let craftDir: string;
+
+    beforeEach(async () => {
+      craftDir = await createTempDir('craftdeskignore-test-');
+    });
+
+    afterEach(async () => {
+      await cleanupTempDir(craftDir);
+    });
+
+    it('should read patterns from .craftdeskignore', async () => {
+      await fs.writeFile(path.join(craftDir, '.craftdeskignore'), 'scratch/\n');
+
+      expect((await readIgnoreFile(craftDir))('scratch', true)).toBe(true);
+    });
+
+    it('should ignore nothing without the file', async () => {
+      expect((await readIgnoreFile(craftDir))('SKILL.md', false)).toBe(false);
+    });
+  });
+});
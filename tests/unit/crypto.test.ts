@@ -1,5 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { calculateFileChecksum, verifyFileChecksum, formatChecksum } from '../../src/utils/crypto';
+import {
+  calculateFileChecksum,
+  calculateDirectoryChecksum,
+  verifyFileChecksum,
+  formatChecksum,
+  calculateIntegrity,
+  parseIntegrity,
+  isValidIntegrity,
+  normalizeIntegrity,
+  verifyIntegrity
+} from '../../src/utils/crypto';
 import fs from 'fs-extra';
 import path from 'path';
 import os from 'os';
@@ -96,6 +106,43 @@ describe('Crypto Utils', () => {
     });
   });
 
+  describe('calculateDirectoryChecksum', () => {
+    beforeEach(async () => {
+      await fs.outputFile(path.join(tempDir, 'SKILL.md'), '# Skill');
+      await fs.outputFile(path.join(tempDir, 'docs', 'usage.md'), 'Usage');
+    });
+
+    it('should be stable for unchanged contents', async () => {
+      const checksum = await calculateDirectoryChecksum(tempDir);
+
+      expect(checksum).toMatch(/^[a-f0-9]{64}$/);
+      expect(await calculateDirectoryChecksum(tempDir)).toBe(checksum);
+    });
+
+    it('should change when a file is edited, added or renamed', async () => {
+      const original = await calculateDirectoryChecksum(tempDir);
+
+      await fs.writeFile(path.join(tempDir, 'SKILL.md'), '# Edited');
+      const edited = await calculateDirectoryChecksum(tempDir);
+      expect(edited).not.toBe(original);
+
+      await fs.outputFile(path.join(tempDir, 'extra.md'), '');
+      const added = await calculateDirectoryChecksum(tempDir);
+      expect(added).not.toBe(edited);
+
+      await fs.move(path.join(tempDir, 'extra.md'), path.join(tempDir, 'renamed.md'));
+      expect(await calculateDirectoryChecksum(tempDir)).not.toBe(added);
+    });
+
+    it('should ignore .git directories', async () => {
+      const checksum = await calculateDirectoryChecksum(tempDir);
+
+      await fs.outputFile(path.join(tempDir, '.git', 'HEAD'), 'ref: refs/heads/main');
+
+      expect(await calculateDirectoryChecksum(tempDir)).toBe(checksum);
+    });
+  });
+
   describe('verifyFileChecksum', () => {
     it('should return true for matching checksum', async () => {
       const testFile = path.join(tempDir, 'test.txt');
@@ -155,6 +202,47 @@ describe('Crypto Utils', () => {
     });
   });
 
+  describe('integrity strings', () => {
+    // Known digests of "Hello, World!"
+    const sha256 = 'sha256-3/1gIbsr1bCvZ2KQgJ7DpTGR3YHH9wpLKGiKNiGCmG8=';
+    const sha512 = 'sha512-N015SpXNz9izWZMYX++bo2jxYNja9DLQi6nx7R5avmzGkpHg+i/gAGpSVw7xjBne9OYXwzzlLvCm5fvjGMsDhw==';
+    let testFile: string;
+
+    beforeEach(async () => {
+      testFile = path.join(tempDir, 'test.txt');
+      await fs.writeFile(testFile, 'Hello, World!');
+    });
+
+    it('should calculate sha512 integrity by default', async () => {
+      expect(await calculateIntegrity(testFile)).toBe(sha512);
+      expect(await calculateIntegrity(testFile, 'sha256')).toBe(sha256);
+    });
+
+    it('should parse multiple hashes and legacy hex SHA-256', () => {
+      expect(parseIntegrity(`${sha512} ${sha256}?opt`).map(h => h.algorithm)).toEqual(['sha512', 'sha256']);
+      expect(normalizeIntegrity('dffd6021bb2bd5b0af676290809ec3a53191dd81c7f70a4b28688a362182986f')).toBe(sha256);
+    });
+
+    it('should reject placeholders, unknown algorithms and truncated digests', () => {
+      expect(isValidIntegrity('sha256-pending')).toBe(false);
+      expect(isValidIntegrity('sha1-lDpwLQbzRZmu4fjajvn3KWAx1pk=')).toBe(false);
+      expect(isValidIntegrity(sha512.slice(0, 40))).toBe(false);
+      expect(isValidIntegrity(undefined)).toBe(false);
+      expect(() => parseIntegrity('sha256-pending')).toThrow('Invalid integrity "sha256-pending"');
+    });
+
+    it('should verify against the strongest algorithm only', async () => {
+      const wrongSha256 = `sha256-${Buffer.alloc(32).toString('base64')}`;
+
+      expect(await verifyIntegrity(testFile, sha512)).toBe(true);
+      expect(await verifyIntegrity(testFile, `${wrongSha256} ${sha512}`)).toBe(true);
+      expect(await verifyIntegrity(testFile, wrongSha256)).toBe(false);
+
+      await fs.writeFile(testFile, 'Modified content');
+      expect(await verifyIntegrity(testFile, sha512)).toBe(false);
+    });
+  });
+
   describe('formatChecksum', () => {
     it('should return first 12 characters', () => {
       const checksum = 'dffd6021bb2bd5b0af676290809ec3a53191dd81c7f70a4b28688a362182986f';
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { buildDependencyGraph, formatDot, formatMermaid, GRAPH_ROOT } from '../../src/utils/dependency-graph';
+import { CraftDeskJson } from '../../src/types/craftdesk-json';
+import { CraftDeskLock, LockEntry } from '../../src/types/craftdesk-lock';
+
+function entry(version: string, extra: Partial<LockEntry> = {}): LockEntry {
+  return { version, resolved: 'https://example.com', integrity: 'sha256-abc', type: 'skill', ...extra };
+}
+
+describe('dependency graph', () => {
+  const craftDeskJson: CraftDeskJson = {
+    name: 'project',
+    version: '1.0.0',
+    dependencies: { 'rails-stack': '^2.0.0', 'acme/rails-plugin': '^1.0.0', 'formatter': '^1.0.0' },
+    devDependencies: { 'test-agent': 'file:agents/test' }
+  };
+
+  const lockfile: CraftDeskLock = {
+    version: '1.0.0',
+    lockfileVersion: 1,
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    crafts: {
+      'rails-stack': entry('2.0.0', { type: 'collection', dependencies: { 'ruby': '^3.0.0' } }),
+      'ruby': entry('3.1.0'),
+      'acme/rails-plugin': entry('1.0.0', { type: 'plugin' }),
+      'rspec': entry('3.12.0', { installedAs: 'dependency', git: 'https://github.com/acme/rspec.git' }),
+      'formatter': entry('1.0.0', { installedAs: 'wrapped', wrappedBy: 'formatter-plugin' }),
+      'test-agent': entry('0.1.0', { type: 'agent', local: 'agents/test' })
+    },
+    pluginTree: {
+      'acme/rails-plugin': { version: '1.0.0', dependencies: ['rspec'] }
+    }
+  };
+
+  it('should include crafts, plugin trees, wrappers and collection members', () => {
+    const graph = buildDependencyGraph(craftDeskJson, lockfile);
+
+    expect(graph.nodes[0]).toEqual({ id: GRAPH_ROOT, name: 'project', version: '1.0.0', type: 'project' });
+    expect(graph.nodes.find(n => n.id === 'rspec')).toMatchObject({ version: '3.12.0', source: 'git' });
+    expect(graph.nodes.find(n => n.id === 'formatter-plugin')).toMatchObject({ type: 'plugin' });
+    expect(graph.edges).toEqual(expect.arrayContaining([
+      { from: GRAPH_ROOT, to: 'rails-stack', kind: 'dependency', constraint: '^2.0.0' },
+      { from: GRAPH_ROOT, to: 'test-agent', kind: 'devDependency', constraint: 'file:agents/test' },
+      { from: 'rails-stack', to: 'ruby', kind: 'collection', constraint: '^3.0.0' },
+      { from: 'acme/rails-plugin', to: 'rspec', kind: 'plugin' },
+      { from: 'formatter-plugin', to: 'formatter', kind: 'wraps' }
+    ]));
+    expect(graph.edges).toHaveLength(7);
+  });
+
+  it('should keep only crafts of the requested types', () => {
+    const graph = buildDependencyGraph(craftDeskJson, lockfile, ['plugin', 'skill']);
+
+    expect(graph.nodes.map(n => n.id)).toEqual([GRAPH_ROOT, 'ruby', 'acme/rails-plugin', 'rspec', 'formatter', 'formatter-plugin']);
+    expect(graph.edges.some(e => e.from === 'rails-stack' || e.to === 'rails-stack')).toBe(false);
+  });
+
+  it('should render DOT with outdated crafts highlighted', () => {
+    const graph = buildDependencyGraph(craftDeskJson, lockfile, ['collection', 'skill']);
+    const ruby = graph.nodes.find(n => n.id === 'ruby');
+    if (ruby) ruby.outdated = { wanted: '3.1.0', latest: '3.2.0' };
+
+    const dot = formatDot(graph);
+
+    expect(dot).toMatch(/^digraph craftdesk \{/);
+    expect(dot).toContain('"craftdesk.json" [label="project@1.0.0", shape=doubleoctagon];');
+    expect(dot).toContain('"ruby" [label="ruby@3.1.0\\nskill, registry\\noutdated: 3.2.0 available", style="rounded,filled", fillcolor="#fde68a", color="#b45309"];');
+    expect(dot).toContain('"rails-stack" -> "ruby" [label="collection ^3.0.0"];');
+  });
+
+  it('should render Mermaid with safe node ids', () => {
+    const graph = buildDependencyGraph(craftDeskJson, lockfile, ['plugin', 'skill']);
+    const plugin = graph.nodes.find(n => n.id === 'acme/rails-plugin');
+    if (plugin) plugin.outdated = { wanted: '1.0.0', latest: '2.0.0' };
+
+    const mermaid = formatMermaid(graph).split('\n');
+
+    expect(mermaid[0]).toBe('flowchart LR');
+    expect(mermaid).toContain('  n0[["project@1.0.0"]]');
+    expect(mermaid).toContain('  n2["acme/rails-plugin@1.0.0<br/>plugin, registry<br/>outdated: 2.0.0 available"]');
+    expect(mermaid).toContain('  n2 -->|"plugin"| n3');
+    expect(mermaid).toContain('  n5 -.->|"wraps"| n4');
+    expect(mermaid).toContain('  class n2 outdated');
+  });
+});
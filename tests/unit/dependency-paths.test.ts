@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { findDependencyPaths, formatDependencyPath } from '../../src/utils/dependency-paths';
+import { CraftDeskJson } from '../../src/types/craftdesk-json';
+import { CraftDeskLock, LockEntry } from '../../src/types/craftdesk-lock';
+
+function entry(version: string, extra: Partial<LockEntry> = {}): LockEntry {
+  return { version, resolved: 'https://example.com', integrity: 'sha256-abc', type: 'skill', ...extra };
+}
+
+function lock(crafts: Record<string, LockEntry>, extra: Partial<CraftDeskLock> = {}): CraftDeskLock {
+  return { version: '1.0.0', lockfileVersion: 1, generatedAt: '2026-01-01T00:00:00.000Z', crafts, ...extra };
+}
+
+describe('dependency paths', () => {
+  const craftDeskJson: CraftDeskJson = {
+    name: 'project',
+    version: '1.0.0',
+    dependencies: { 'auth': '^1.0.0', 'rails-stack': '^2.0.0' },
+    devDependencies: { 'test-runner': { git: 'https://github.com/acme/test-runner.git', branch: 'main' } }
+  };
+
+  it('should find every path with the constraint and source of each hop', () => {
+    const lockfile = lock({
+      'auth': entry('1.2.0', { dependencies: { 'helper': '^1.0.0' } }),
+      'rails-stack': entry('2.0.0', { type: 'collection', dependencies: { 'helper': '~1.1.0' } }),
+      'test-runner': entry('abc1234', { optionalDependencies: { 'helper': '*' } }),
+      'helper': entry('1.1.3')
+    });
+
+    expect(findDependencyPaths(craftDeskJson, lockfile, 'helper')).toEqual([
+      [
+        { name: 'auth', version: '1.2.0', constraint: '^1.0.0', source: 'dependencies' },
+        { name: 'helper', version: '1.1.3', constraint: '^1.0.0', source: 'dependencies' }
+      ],
+      [
+        { name: 'rails-stack', version: '2.0.0', constraint: '^2.0.0', source: 'dependencies' },
+        { name: 'helper', version: '1.1.3', constraint: '~1.1.0', source: 'collection' }
+      ],
+      [
+        { name: 'test-runner', version: 'abc1234', constraint: 'https://github.com/acme/test-runner.git#main', source: 'devDependencies' },
+        { name: 'helper', version: '1.1.3', constraint: '*', source: 'optionalDependencies' }
+      ]
+    ]);
+  });
+
+  it('should follow plugin trees and nested dependency trees', () => {
+    const lockfile = lock({
+      'auth': entry('1.2.0', { type: 'plugin' }),
+      'session-store': entry('1.0.0', { type: 'plugin', dependencies: { 'helper': '^1.0.0' } }),
+      'helper': entry('1.0.0')
+    }, {
+      pluginTree: {
+        'auth': { version: '1.2.0', dependencies: ['session-store'] },
+        'session-store': { version: '1.0.0', isDependency: true, requiredBy: ['auth'] }
+      },
+      tree: {
+        'session-store@1.0.0': { dependencies: { 'helper@1.0.0': '(shared)' } }
+      }
+    });
+
+    const paths = findDependencyPaths(craftDeskJson, lockfile, 'helper');
+
+    expect(paths).toHaveLength(1);
+    expect(paths[0].map(hop => [hop.name, hop.source, hop.constraint])).toEqual([
+      ['auth', 'dependencies', '^1.0.0'],
+      ['session-store', 'plugin', undefined],
+      ['helper', 'plugin', '^1.0.0']
+    ]);
+  });
+
+  it('should return no paths for crafts nothing requires', () => {
+    const lockfile = lock({ 'auth': entry('1.2.0'), 'stray': entry('1.0.0') });
+
+    expect(findDependencyPaths(craftDeskJson, lockfile, 'stray')).toEqual([]);
+  });
+
+  it('should format paths as an indented chain from craftdesk.json', () => {
+    const lockfile = lock({
+      'auth': entry('1.2.0', { dependencies: { 'helper': 'file:vendor/helper' } }),
+      'helper': entry('1.0.1', { override: 'auth>helper' })
+    });
+
+    const [path] = findDependencyPaths(craftDeskJson, lockfile, 'helper');
+
+    expect(formatDependencyPath(path, lockfile)).toEqual([
+      'craftdesk.json',
+      '└── auth@1.2.0 (dependencies: ^1.0.0)',
+      '    └── helper@1.0.1 (dependencies: file:vendor/helper) [override "auth>helper"]'
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { buildDependencyTree, parseTreeKey } from '../../src/utils/dependency-tree';
+import { LockEntry } from '../../src/types/craftdesk-lock';
+
+function entry(version: string, extra: Partial<LockEntry> = {}): LockEntry {
+  return { version, resolved: 'https://example.com', integrity: 'sha256-abc', type: 'skill', ...extra };
+}
+
+describe('dependency tree', () => {
+  it('should nest dependencies and mark crafts that appear again as shared', () => {
+    const crafts = {
+      'auth': entry('1.2.0', { dependencies: { 'helper': '^1.0.0', 'session': '^2.0.0' } }),
+      'billing': entry('3.0.0', { optionalDependencies: { 'helper': '^1.0.0' } }),
+      'helper': entry('1.1.0'),
+      'session': entry('2.0.1', { dependencies: { 'auth': '^1.0.0' } })
+    };
+
+    expect(buildDependencyTree(['auth', 'billing'], { crafts })).toEqual({
+      'auth@1.2.0': {
+        dependencies: {
+          'helper@1.1.0': {},
+          'session@2.0.1': { dependencies: { 'auth@1.2.0': '(shared)' } }
+        }
+      },
+      'billing@3.0.0': { dependencies: { 'helper@1.1.0': '(shared)' } }
+    });
+  });
+
+  it('should include plugin tree dependencies and skip crafts that are not locked', () => {
+    const crafts = {
+      'rails-plugin': entry('1.0.0', { type: 'plugin' }),
+      'rspec': entry('3.12.0')
+    };
+    const pluginTree = { 'rails-plugin': { version: '1.0.0', dependencies: ['rspec', 'not-installed'] } };
+
+    expect(buildDependencyTree(['rails-plugin', 'dev-only'], { crafts, pluginTree })).toEqual({
+      'rails-plugin@1.0.0': { dependencies: { 'rspec@3.12.0': {} } }
+    });
+  });
+
+  it('should parse tree keys with scoped names', () => {
+    expect(parseTreeKey('@acme/auth@1.2.0')).toEqual({ name: '@acme/auth', version: '1.2.0' });
+    expect(parseTreeKey('helper@abc1234')).toEqual({ name: 'helper', version: 'abc1234' });
+  });
+});
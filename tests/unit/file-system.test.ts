@@ -59,6 +59,20 @@ describe('File System Utils', () => {
       expect(result).toBeNull();
     });
 
+    it('should migrate v1 lockfiles to the current format', async () => {
+      await fs.writeJSON('craftdesk.lock', { version: '1.0.0', lockfileVersion: 1, generatedAt: '2025-01-01T00:00:00.000Z', crafts: {} });
+
+      const result = await readCraftDeskLock();
+
+      expect(result?.lockfileVersion).toBe(2);
+    });
+
+    it('should reject lockfiles from a newer version of craftdesk', async () => {
+      await fs.writeJSON('craftdesk.lock', { version: '1.0.0', lockfileVersion: 3, generatedAt: '2025-01-01T00:00:00.000Z', crafts: {} });
+
+      await expect(readCraftDeskLock()).rejects.toThrow(/lockfile v3/);
+    });
+
     it('should read from custom directory', async () => {
       const customDir = path.join(tempDir, 'custom');
       await fs.ensureDir(customDir);
@@ -207,7 +221,7 @@ describe('File System Utils', () => {
     it('should read and parse lockfile', async () => {
       const testLock: CraftDeskLock = {
         version: '1.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: 2,
         generatedAt: '2025-01-01T00:00:00.000Z',
         crafts: {
           'test/craft': {
@@ -248,7 +262,7 @@ describe('File System Utils', () => {
 
       const testLock: CraftDeskLock = {
         version: '1.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: 2,
         crafts: {}
       };
 
@@ -262,7 +276,7 @@ describe('File System Utils', () => {
     it('should handle lockfile with multiple crafts', async () => {
       const testLock: CraftDeskLock = {
         version: '1.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: 2,
         crafts: {
           'author1/craft1': {
             version: '1.0.0',
@@ -295,7 +309,7 @@ describe('File System Utils', () => {
     it('should handle git dependencies in lockfile', async () => {
       const testLock: CraftDeskLock = {
         version: '1.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: 2,
         crafts: {
           'author/craft': {
             version: 'main',
@@ -323,7 +337,7 @@ describe('File System Utils', () => {
     it('should write formatted lockfile', async () => {
       const testLock: CraftDeskLock = {
         version: '1.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: 2,
         generatedAt: '2025-01-01T00:00:00.000Z',
         crafts: {
           'test/craft': {
@@ -349,7 +363,7 @@ describe('File System Utils', () => {
     it('should preserve lockfile structure', async () => {
       const testLock: CraftDeskLock = {
         version: '1.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: 2,
         generatedAt: '2025-01-01T00:00:00.000Z',
         crafts: {
           'a/b': {
@@ -380,13 +394,13 @@ describe('File System Utils', () => {
     it('should overwrite existing lockfile', async () => {
       const lock1: CraftDeskLock = {
         version: '1.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: 2,
         crafts: { 'a/b': { version: '1.0.0', resolved: '', integrity: '', type: 'skill', author: 'a', dependencies: {} } }
       };
 
       const lock2: CraftDeskLock = {
         version: '2.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: 2,
         crafts: { 'c/d': { version: '2.0.0', resolved: '', integrity: '', type: 'agent', author: 'c', dependencies: {} } }
       };
 
@@ -453,7 +467,7 @@ describe('File System Utils', () => {
       // Write lockfile
       const lock: CraftDeskLock = {
         version: '1.0.0',
-        lockfileVersion: 1,
+        lockfileVersion: 2,
         crafts: {
           'author/craft': {
             version: '1.2.0',
@@ -10,6 +10,13 @@ vi.mock('child_process', () => ({
   execFileSync: vi.fn()
 }));
 
+// Clone straight from the given URL instead of a cached mirror
+vi.mock('../../src/services/cache-manager', () => ({
+  cacheManager: {
+    getGitMirror: vi.fn(async (url: string) => url)
+  }
+}));
+
 describe('GitResolver', () => {
   let gitResolver: GitResolver;
   let tempDir: string;
@@ -330,6 +337,466 @@ describe('GitResolver', () => {
       expect(result.resolved['jwt-helper'].version).toBe('^2.0.0');
     });
 
+    describe('constraint conflicts', () => {
+      /**
+       * Mocks git clone so each URL is served from its own fixture directory
+       */
+      const mockRepos = async (repos: Record<string, object>) => {
+        const repoDirs: Record<string, string> = {};
+        for (const [url, craftJson] of Object.entries(repos)) {
+          const repoDir = path.join(tempDir, `repo-${Object.keys(repoDirs).length}`);
+          await fs.ensureDir(repoDir);
+          await writeJsonFile(path.join(repoDir, 'craftdesk.json'), craftJson);
+          repoDirs[url] = repoDir;
+        }
+
+        vi.mocked(execFileSync).mockImplementation((_cmd: any, args?: any, options?: any) => {
+          const argsArr = args as string[];
+          if (argsArr[0] === 'clone') {
+            const targetDir = argsArr[argsArr.length - 1];
+            fs.copySync(repoDirs[argsArr[argsArr.length - 2]], targetDir);
+            return Buffer.from('');
+          } else if (argsArr[0] === 'rev-parse') {
+            const output = 'abc123def456789012345678901234567890abcd\n';
+            return options?.encoding === 'utf8' ? output : Buffer.from(output);
+          }
+          return Buffer.from('');
+        });
+      };
+
+      it('should combine compatible registry constraints', async () => {
+        await mockRepos({
+          'https://github.com/company/auth.git': {
+            name: 'auth', version: '1.0.0', type: 'agent',
+            dependencies: { 'jwt-helper': '^2.1.0' }
+          }
+        });
+
+        const result = await gitResolver.resolveAllDependencies({
+          'jwt-helper': '^2.0.0',
+          'auth': { git: 'https://github.com/company/auth.git', branch: 'main' }
+        });
+
+        expect(result.resolved['jwt-helper'].version).toBe('^2.0.0 ^2.1.0');
+        expect(result.resolved['auth'].dependencies).toEqual({ 'jwt-helper': '^2.1.0' });
+      });
+
+      it('should report incompatible registry constraints with their paths', async () => {
+        await mockRepos({
+          'https://github.com/company/auth.git': {
+            name: 'auth', version: '1.0.0', type: 'agent',
+            dependencies: { 'jwt-helper': '^3.0.0' }
+          }
+        });
+
+        const promise = gitResolver.resolveAllDependencies({
+          'jwt-helper': '^2.0.0',
+          'auth': { git: 'https://github.com/company/auth.git', branch: 'main' }
+        });
+
+        await expect(promise).rejects.toThrow(/jwt-helper/);
+        await expect(promise).rejects.toThrow('^2.0.0 required by craftdesk.json');
+        await expect(promise).rejects.toThrow('^3.0.0 required by auth (via craftdesk.json > auth > jwt-helper)');
+      });
+
+      it('should report the same craft requested from different git sources', async () => {
+        await mockRepos({
+          'https://github.com/company/auth.git': {
+            name: 'auth', version: '1.0.0', type: 'agent',
+            dependencies: {
+              'shared': { git: 'https://github.com/company/shared.git', tag: 'v2.0.0' }
+            }
+          },
+          'https://github.com/company/shared.git': {
+            name: 'shared', version: '1.0.0', type: 'skill'
+          }
+        });
+
+        await expect(gitResolver.resolveAllDependencies({
+          'shared': { git: 'https://github.com/company/shared.git', tag: 'v1.0.0' },
+          'auth': { git: 'https://github.com/company/auth.git', branch: 'main' }
+        })).rejects.toThrow('git+https://github.com/company/shared.git#v2.0.0 required by auth');
+      });
+
+      it('should check git craft versions against declared ranges', async () => {
+        await mockRepos({
+          'https://github.com/company/auth.git': {
+            name: 'auth', version: '1.0.0', type: 'agent',
+            dependencies: { 'shared': '^1.0.0' }
+          },
+          'https://github.com/company/shared.git': {
+            name: 'shared', version: '1.4.0', type: 'skill'
+          }
+        });
+
+        const result = await gitResolver.resolveAllDependencies({
+          'shared': { git: 'https://github.com/company/shared.git', tag: 'v1.4.0' },
+          'auth': { git: 'https://github.com/company/auth.git', branch: 'main' }
+        });
+        expect(result.resolved['shared'].version).toBe('1.4.0');
+
+        await mockRepos({
+          'https://github.com/company/auth.git': {
+            name: 'auth', version: '1.0.0', type: 'agent',
+            dependencies: { 'shared': '^2.0.0' }
+          },
+          'https://github.com/company/shared.git': {
+            name: 'shared', version: '1.4.0', type: 'skill'
+          }
+        });
+
+        await expect(gitResolver.resolveAllDependencies({
+          'shared': { git: 'https://github.com/company/shared.git', tag: 'v1.4.0' },
+          'auth': { git: 'https://github.com/company/auth.git', branch: 'main' }
+        })).rejects.toThrow('version conflict');
+      });
+    });
+
+    describe('local dependencies', () => {
+      let projectDir: string;
+      let originalCwd: string;
+
+      beforeEach(async () => {
+        projectDir = path.join(tempDir, 'project');
+        await fs.ensureDir(projectDir);
+        originalCwd = process.cwd();
+        process.chdir(projectDir);
+
+        await fs.outputFile(path.join(tempDir, 'skills', 'auth', 'SKILL.md'), '# Auth');
+        await writeJsonFile(path.join(tempDir, 'skills', 'auth', 'craftdesk.json'), {
+          name: 'auth', version: '1.2.0', type: 'skill',
+          dependencies: { 'helper': 'link:../helper', 'rails': '^7.0.0' }
+        });
+        await fs.outputFile(path.join(tempDir, 'skills', 'helper', 'AGENT.md'), '# Helper');
+      });
+
+      afterEach(() => {
+        process.chdir(originalCwd);
+      });
+
+      it('should read craftdesk.json from the directory and lock it with a content hash', async () => {
+        const result = await gitResolver.resolveAllDependencies({ 'auth': 'file:../skills/auth' });
+
+        expect(result.resolved['auth']).toEqual({
+          version: '1.2.0',
+          resolved: 'file:../skills/auth',
+          integrity: expect.stringMatching(/^[a-f0-9]{64}$/),
+          type: 'skill',
+          author: undefined,
+          local: '../skills/auth',
+          dependencies: { 'helper': 'link:../helper', 'rails': '^7.0.0' }
+        });
+        expect(execFileSync).not.toHaveBeenCalled();
+      });
+
+      it('should resolve transitive local paths relative to the declaring craft', async () => {
+        const result = await gitResolver.resolveAllDependencies({ 'auth': { local: '../skills/auth' } });
+
+        expect(result.resolved['helper']).toMatchObject({
+          version: '0.0.0',
+          type: 'agent',
+          local: '../skills/helper',
+          link: true
+        });
+        expect(result.resolved['rails'].resolved).toBe('registry');
+      });
+
+      it('should accept the same directory declared from different crafts', async () => {
+        const result = await gitResolver.resolveAllDependencies({
+          'auth': 'file:../skills/auth',
+          'helper': 'link:../skills/helper'
+        });
+
+        expect(result.resolved['helper'].local).toBe('../skills/helper');
+      });
+
+      it('should report different directories for the same craft as a conflict', async () => {
+        await fs.outputFile(path.join(projectDir, 'helper', 'SKILL.md'), '# Other helper');
+
+        await expect(gitResolver.resolveAllDependencies({
+          'helper': 'file:helper',
+          'auth': 'file:../skills/auth'
+        })).rejects.toThrow('version conflict');
+      });
+
+      it('should fail when the directory does not exist', async () => {
+        await expect(gitResolver.resolveAllDependencies({ 'missing': 'file:../nowhere' }))
+          .rejects.toThrow(`Local craft directory not found: ${path.join(tempDir, 'nowhere')}`);
+      });
+    });
+
+    describe('optional and peer dependencies', () => {
+      let projectDir: string;
+      let originalCwd: string;
+
+      beforeEach(async () => {
+        projectDir = path.join(tempDir, 'project');
+        await fs.ensureDir(projectDir);
+        originalCwd = process.cwd();
+        process.chdir(projectDir);
+
+        await fs.outputFile(path.join(tempDir, 'skills', 'auth', 'SKILL.md'), '# Auth');
+        await writeJsonFile(path.join(tempDir, 'skills', 'auth', 'craftdesk.json'), {
+          name: 'auth', version: '1.2.0', type: 'skill',
+          optionalDependencies: { 'helper': 'file:../helper', 'gone': 'file:../gone' },
+          peerDependencies: { 'rails': '^7.0.0' }
+        });
+        await fs.outputFile(path.join(tempDir, 'skills', 'helper', 'SKILL.md'), '# Helper');
+        await writeJsonFile(path.join(tempDir, 'skills', 'helper', 'craftdesk.json'), {
+          name: 'helper', version: '1.0.0', type: 'skill',
+          dependencies: { 'util': 'file:../util' }
+        });
+        await fs.outputFile(path.join(tempDir, 'skills', 'util', 'SKILL.md'), '# Util');
+      });
+
+      afterEach(() => {
+        process.chdir(originalCwd);
+      });
+
+      it('should record optional and peer dependencies without resolving peers', async () => {
+        const result = await gitResolver.resolveAllDependencies({ 'auth': 'file:../skills/auth' });
+
+        expect(result.resolved['auth']).toMatchObject({
+          optionalDependencies: { 'helper': 'file:../helper', 'gone': 'file:../gone' },
+          peerDependencies: { 'rails': '^7.0.0' }
+        });
+        expect(result.resolved['auth'].optional).toBeUndefined();
+        expect(result.resolved['rails']).toBeUndefined();
+      });
+
+      it('should mark optional crafts and everything they depend on as optional', async () => {
+        const result = await gitResolver.resolveAllDependencies({ 'auth': 'file:../skills/auth' });
+
+        expect(result.resolved['helper'].optional).toBe(true);
+        expect(result.resolved['util'].optional).toBe(true);
+      });
+
+      it('should skip optional dependencies that fail to resolve', async () => {
+        const result = await gitResolver.resolveAllDependencies({}, {
+          optionalDependencies: { 'auth': 'file:../skills/auth', 'missing': 'file:../nowhere' }
+        });
+
+        expect(result.resolved['auth'].optional).toBe(true);
+        expect(result.resolved['missing']).toBeUndefined();
+        expect(result.resolved['gone']).toBeUndefined();
+      });
+
+      it('should not mark crafts that are also required as optional', async () => {
+        const result = await gitResolver.resolveAllDependencies(
+          { 'auth': 'file:../skills/auth', 'util': 'file:../skills/util' },
+          { optionalDependencies: { 'helper': 'file:../skills/helper' } }
+        );
+
+        expect(result.resolved['util'].optional).toBeUndefined();
+        expect(result.resolved['helper'].optional).toBe(true);
+      });
+    });
+
+    describe('overrides', () => {
+      let projectDir: string;
+      let originalCwd: string;
+
+      beforeEach(async () => {
+        projectDir = path.join(tempDir, 'project');
+        await fs.ensureDir(projectDir);
+        originalCwd = process.cwd();
+        process.chdir(projectDir);
+
+        for (const name of ['auth', 'billing']) {
+          await fs.outputFile(path.join(tempDir, 'skills', name, 'SKILL.md'), `# ${name}`);
+          await writeJsonFile(path.join(tempDir, 'skills', name, 'craftdesk.json'), {
+            name, version: '1.0.0', type: 'skill',
+            dependencies: { 'helper': '^1.0.0', 'rails': '^6.0.0' }
+          });
+        }
+        await fs.outputFile(path.join(projectDir, 'vendor', 'helper', 'SKILL.md'), '# Patched helper');
+      });
+
+      afterEach(() => {
+        process.chdir(originalCwd);
+      });
+
+      const dependencies = { 'auth': 'file:../skills/auth', 'billing': 'file:../skills/billing' };
+
+      it('should replace transitive constraints by craft name and record the override', async () => {
+        const overrides = { 'rails': '^7.0.0' };
+        const result = await gitResolver.resolveAllDependencies(dependencies, { overrides });
+
+        expect(result.resolved['rails'].override).toBe('rails');
+        expect(result.resolved['auth'].dependencies).toEqual({ 'helper': '^1.0.0', 'rails': '^7.0.0' });
+        expect(result.lockfile.overrides).toEqual(overrides);
+      });
+
+      it('should prefer parent>child paths over craft names', async () => {
+        const result = await gitResolver.resolveAllDependencies(dependencies, {
+          overrides: { 'rails': '^7.0.0', 'billing>rails': '^7.1.0' }
+        });
+
+        expect(result.resolved['auth'].dependencies?.['rails']).toBe('^7.0.0');
+        expect(result.resolved['billing'].dependencies?.['rails']).toBe('^7.1.0');
+      });
+
+      it('should resolve local override paths from the project', async () => {
+        const result = await gitResolver.resolveAllDependencies(dependencies, {
+          overrides: { 'helper': 'file:vendor/helper' }
+        });
+
+        expect(result.resolved['helper']).toMatchObject({ local: 'vendor/helper', override: 'helper' });
+      });
+
+      it('should not override the project\'s own dependencies', async () => {
+        const result = await gitResolver.resolveAllDependencies({ 'rails': '^6.0.0' }, { overrides: { 'rails': '^7.0.0' } });
+
+        expect(result.resolved['rails'].version).toBe('^6.0.0');
+        expect(result.resolved['rails'].override).toBeUndefined();
+      });
+
+      it('should name the override in conflict reports', async () => {
+        await expect(gitResolver.resolveAllDependencies(
+          { ...dependencies, 'rails': '^6.0.0' },
+          { overrides: { 'auth>rails': '^7.0.0' } }
+        )).rejects.toThrow('^7.0.0 required by auth (via craftdesk.json > auth > rails) [override "auth>rails"]');
+      });
+
+      it('should reject override keys with empty segments', async () => {
+        await expect(gitResolver.resolveAllDependencies(dependencies, { overrides: { 'auth>': '^1.0.0' } }))
+          .rejects.toThrow('Invalid override "auth>"');
+      });
+    });
+
+    describe('workspaces', () => {
+      let originalCwd: string;
+
+      const workspace = (name: string, version: string) => ({
+        name,
+        directory: path.join(tempDir, 'skills', name),
+        path: `skills/${name}`,
+        craftDeskJson: { name, version }
+      });
+
+      beforeEach(async () => {
+        originalCwd = process.cwd();
+        process.chdir(tempDir);
+
+        await fs.outputFile(path.join(tempDir, 'skills', 'auth', 'SKILL.md'), '# auth');
+        await writeJsonFile(path.join(tempDir, 'skills', 'auth', 'craftdesk.json'), {
+          name: 'auth', version: '1.0.0', type: 'skill', dependencies: { 'helper': '^1.0.0' }
+        });
+        await fs.outputFile(path.join(tempDir, 'skills', 'helper', 'SKILL.md'), '# helper');
+        await writeJsonFile(path.join(tempDir, 'skills', 'helper', 'craftdesk.json'), {
+          name: 'helper', version: '1.2.0', type: 'skill'
+        });
+      });
+
+      afterEach(() => {
+        process.chdir(originalCwd);
+      });
+
+      it('should link workspace crafts requested by a matching range', async () => {
+        const result = await gitResolver.resolveAllDependencies({ 'auth': 'link:skills/auth' }, {
+          workspaces: [workspace('auth', '1.0.0'), workspace('helper', '1.2.0')]
+        });
+
+        expect(result.resolved['helper']).toMatchObject({ version: '1.2.0', local: 'skills/helper', link: true });
+        expect(result.resolved['auth'].dependencies).toEqual({ 'helper': '^1.0.0' });
+        expect(result.lockfile.tree).toEqual({ 'auth@1.0.0': { dependencies: { 'helper@1.2.0': {} } } });
+      });
+
+      it('should fall back to the registry when the workspace version does not satisfy the range', async () => {
+        const result = await gitResolver.resolveAllDependencies({ 'auth': 'link:skills/auth' }, {
+          workspaces: [workspace('auth', '1.0.0'), workspace('helper', '2.0.0')]
+        });
+
+        expect(result.resolved['helper'].local).toBeUndefined();
+      });
+    });
+
+    describe('collections', () => {
+      let originalCwd: string;
+
+      beforeEach(() => {
+        originalCwd = process.cwd();
+        process.chdir(tempDir);
+      });
+
+      afterEach(() => {
+        process.chdir(originalCwd);
+      });
+
+      it('should expand the members of a local collection into their own entries', async () => {
+        const collectionDir = path.join(tempDir, 'rails-kit');
+        await fs.outputJson(path.join(collectionDir, 'craftdesk.json'), {
+          name: 'rails-kit',
+          version: '1.0.0',
+          type: 'collection',
+          members: { 'lint': 'file:skills/lint', 'reviewer': 'file:agents/reviewer' }
+        });
+        await fs.outputFile(path.join(collectionDir, 'skills', 'lint', 'SKILL.md'), '# lint');
+        await fs.outputJson(path.join(collectionDir, 'skills', 'lint', 'craftdesk.json'), { name: 'lint', version: '1.0.0', type: 'skill' });
+        await fs.outputFile(path.join(collectionDir, 'agents', 'reviewer', 'AGENT.md'), '# reviewer');
+        await fs.outputJson(path.join(collectionDir, 'agents', 'reviewer', 'craftdesk.json'), { name: 'reviewer', version: '2.0.0', type: 'agent' });
+
+        const result = await gitResolver.resolveAllDependencies({ 'rails-kit': 'file:rails-kit', 'lint': 'file:rails-kit/skills/lint' });
+
+        expect(result.resolved['rails-kit'].members).toEqual({ 'lint': 'file:skills/lint', 'reviewer': 'file:agents/reviewer' });
+        expect(result.resolved['lint']).toMatchObject({ type: 'skill', local: 'rails-kit/skills/lint', memberOf: ['rails-kit'] });
+        expect(result.resolved['reviewer']).toMatchObject({ type: 'agent', version: '2.0.0', memberOf: ['rails-kit'] });
+        expect(result.lockfile.tree).toEqual({
+          'rails-kit@1.0.0': { dependencies: { 'lint@1.0.0': {}, 'reviewer@2.0.0': {} } },
+          'lint@1.0.0': '(shared)'
+        });
+      });
+
+      it('should resolve local members of a git collection from the same commit', async () => {
+        const mockRepoPath = path.join(tempDir, 'mock-kit-repo');
+        await fs.outputJson(path.join(mockRepoPath, 'collections', 'rails', 'craftdesk.json'), {
+          name: 'rails-kit',
+          version: '1.0.0',
+          type: 'collection',
+          members: { 'lint': 'file:../../skills/lint' }
+        });
+        await fs.outputFile(path.join(mockRepoPath, 'skills', 'lint', 'SKILL.md'), '# lint');
+
+        vi.mocked(execFileSync).mockImplementation((_cmd: any, args?: any, options?: any) => {
+          const argsArr = args as string[];
+          if (argsArr[0] === 'clone') {
+            fs.copySync(mockRepoPath, argsArr[argsArr.length - 1]);
+          } else if (argsArr[0] === 'rev-parse' && argsArr[1] === 'HEAD') {
+            const output = 'abc123def456789012345678901234567890abcd\n';
+            return options?.encoding === 'utf8' ? output : Buffer.from(output);
+          }
+          return Buffer.from('');
+        });
+
+        const result = await gitResolver.resolveAllDependencies({
+          'rails-kit': { git: 'https://github.com/test/kit.git', tag: 'v1.0.0', path: 'collections/rails' }
+        });
+
+        expect(result.resolved['rails-kit'].members).toEqual({
+          'lint': 'git+https://github.com/test/kit.git#abc123def456789012345678901234567890abcd#path:skills/lint'
+        });
+        expect(result.resolved['lint']).toMatchObject({ type: 'skill', path: 'skills/lint', memberOf: ['rails-kit'] });
+      });
+
+      it('should reject git collection members outside the repository', async () => {
+        const mockRepoPath = path.join(tempDir, 'mock-escape-repo');
+        await fs.outputJson(path.join(mockRepoPath, 'craftdesk.json'), {
+          name: 'rails-kit', version: '1.0.0', type: 'collection', members: { 'lint': 'file:../lint' }
+        });
+
+        vi.mocked(execFileSync).mockImplementation((_cmd: any, args?: any) => {
+          const argsArr = args as string[];
+          if (argsArr[0] === 'clone') {
+            fs.copySync(mockRepoPath, argsArr[argsArr.length - 1]);
+          }
+          return argsArr[0] === 'rev-parse' ? 'abc123def456789012345678901234567890abcd\n' : Buffer.from('');
+        });
+
+        await expect(gitResolver.resolveAllDependencies({ 'rails-kit': { git: 'https://github.com/test/kit.git' } }))
+          .rejects.toThrow(/Member file:\.\.\/lint of collection rails-kit is outside its repository/);
+      });
+    });
+
     it('should avoid circular dependencies', async () => {
       const dependencies = {
         'package-a': '^1.0.0'
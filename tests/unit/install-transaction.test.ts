@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { InstallTransaction, STAGING_DIR, BACKUP_DIR } from '../../src/services/install-transaction';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('InstallTransaction', () => {
+  let tempDir: string;
+  let installDir: string;
+  let transaction: InstallTransaction;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('install-transaction-test-');
+    installDir = path.join(tempDir, '.claude');
+    await fs.outputFile(path.join(installDir, 'skills', 'auth', 'SKILL.md'), '# old');
+    transaction = new InstallTransaction(installDir);
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should swap staged paths into place on commit', async () => {
+    await transaction.begin([]);
+    await fs.outputFile(path.join(transaction.getStagingPath('skills/auth'), 'SKILL.md'), '# new');
+
+    await transaction.replace('skills/auth');
+    await transaction.commit();
+
+    expect(await fs.readFile(path.join(installDir, 'skills', 'auth', 'SKILL.md'), 'utf-8')).toBe('# new');
+    expect(await fs.pathExists(path.join(installDir, STAGING_DIR))).toBe(false);
+    expect(await fs.pathExists(path.join(installDir, BACKUP_DIR))).toBe(false);
+  });
+
+  it('should restore replaced and removed paths on rollback', async () => {
+    await fs.outputFile(path.join(installDir, 'agents', 'reviewer', 'AGENT.md'), '# reviewer');
+    await transaction.begin([]);
+    await fs.outputFile(path.join(transaction.getStagingPath('skills/auth'), 'SKILL.md'), '# new');
+    await fs.outputFile(path.join(transaction.getStagingPath('skills/extra'), 'SKILL.md'), '# extra');
+
+    await transaction.replace('skills/auth');
+    await transaction.replace('skills/extra');
+    await transaction.remove('agents/reviewer');
+    await transaction.rollback();
+
+    expect(await fs.readFile(path.join(installDir, 'skills', 'auth', 'SKILL.md'), 'utf-8')).toBe('# old');
+    expect(await fs.readFile(path.join(installDir, 'agents', 'reviewer', 'AGENT.md'), 'utf-8')).toBe('# reviewer');
+    expect(await fs.pathExists(path.join(installDir, 'skills', 'extra'))).toBe(false);
+    expect(await fs.pathExists(path.join(installDir, STAGING_DIR))).toBe(false);
+    expect(await fs.pathExists(path.join(installDir, BACKUP_DIR))).toBe(false);
+  });
+
+  it('should restore shared files, removing those that did not exist', async () => {
+    const settingsPath = path.join(installDir, 'settings.json');
+    const gitignorePath = path.join(installDir, 'skills', '.gitignore');
+    await fs.writeFile(settingsPath, '{"plugins":{}}');
+
+    await transaction.begin([settingsPath, gitignorePath]);
+    await fs.writeFile(settingsPath, '{"plugins":{"partial":{}}}');
+    await fs.writeFile(gitignorePath, 'auth/');
+    await transaction.rollback();
+
+    expect(await fs.readFile(settingsPath, 'utf-8')).toBe('{"plugins":{}}');
+    expect(await fs.pathExists(gitignorePath)).toBe(false);
+  });
+
+  it('should discard leftovers of an interrupted install', async () => {
+    await fs.outputFile(path.join(installDir, STAGING_DIR, 'skills', 'stale', 'SKILL.md'), '# stale');
+    await fs.outputFile(path.join(installDir, BACKUP_DIR, 'skills', 'stale', 'SKILL.md'), '# stale');
+
+    await transaction.begin([]);
+
+    expect(await fs.readdir(path.join(installDir, STAGING_DIR))).toEqual([]);
+    expect(await fs.pathExists(path.join(installDir, BACKUP_DIR))).toBe(false);
+  });
+});
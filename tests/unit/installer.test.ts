@@ -4,11 +4,13 @@ import { createTempDir, cleanupTempDir } from '../helpers/test-utils';
 import path from 'path';
 import fs from 'fs-extra';
 import AdmZip from 'adm-zip';
+import type { CraftPermissions } from '../../src/types/craftdesk-json';
 
 // Mock dependencies
 vi.mock('axios');
 vi.mock('adm-zip');
 vi.mock('child_process', () => ({
+  execFile: vi.fn(),
   execFileSync: vi.fn()
 }));
 vi.mock('../../src/utils/logger', () => ({
@@ -20,13 +22,26 @@ vi.mock('../../src/utils/logger', () => ({
     success: vi.fn(),
     updateSpinner: vi.fn(),
     succeedSpinner: vi.fn(),
-    failSpinner: vi.fn()
+    failSpinner: vi.fn(),
+    startProgress: vi.fn(),
+    progressStarted: vi.fn(),
+    progressSucceeded: vi.fn(),
+    progressFailed: vi.fn(),
+    stopProgress: vi.fn(),
+    stopSpinner: vi.fn(),
+    log: vi.fn()
   }
 }));
-vi.mock('../../src/utils/crypto', () => ({
-  verifyFileChecksum: vi.fn(),
+vi.mock('../../src/utils/prompt', () => ({
+  isInteractive: vi.fn(() => false),
+  confirm: vi.fn()
+}));
+vi.mock('../../src/utils/crypto', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/crypto')>(),
+  verifyIntegrity: vi.fn(),
   formatChecksum: vi.fn((hash) => hash.substring(0, 12)),
-  calculateFileChecksum: vi.fn()
+  calculateFileChecksum: vi.fn(),
+  calculateDirectoryChecksum: vi.fn(async () => 'a'.repeat(64))
 }));
 
 describe('Installer', () => {
@@ -88,7 +103,7 @@ describe('Installer', () => {
       const entry = {
         version: '1.0.0',
         resolved: 'https://craftdesk.ai/download',
-        integrity: 'sha256-test',
+        integrity: 'sha256-n4bQgYhMfWWaL+qgxVrQFaO/TxsrC4Is0V1sFbDwCgg=',
         type: 'skill' as const,
         author: 'test-author',
         dependencies: {}
@@ -135,7 +150,7 @@ describe('Installer', () => {
 
     it('should install multiple crafts sequentially', async () => {
       const axios = await import('axios');
-      const { verifyFileChecksum } = await import('../../src/utils/crypto');
+      const { verifyIntegrity } = await import('../../src/utils/crypto');
 
       // Mock successful downloads and verifications
       (axios.default as any).mockResolvedValue({
@@ -144,7 +159,7 @@ describe('Installer', () => {
           on: vi.fn()
         }
       });
-      (verifyFileChecksum as any).mockResolvedValue(true);
+      (verifyIntegrity as any).mockResolvedValue(true);
 
       // Mock AdmZip extraction
       const mockExtract = vi.fn();
@@ -159,7 +174,7 @@ describe('Installer', () => {
           'author1/craft1': {
             version: '1.0.0',
             resolved: 'https://registry.com/craft1.zip',
-            integrity: 'sha256-abc123',
+            integrity: 'sha256-bKE9UspwyIPg8LsQHkJaiehiTeUdstI5JZOvaoQRgJA=',
             type: 'skill' as const,
             author: 'author1',
             dependencies: {}
@@ -167,7 +182,7 @@ describe('Installer', () => {
           'author2/craft2': {
             version: '2.0.0',
             resolved: 'https://registry.com/craft2.zip',
-            integrity: 'sha256-def456',
+            integrity: 'sha256-j2GtXPoMRxyMv4EOooXLHl+cLF5eXk9YoyKWZ3A+FYc=',
             type: 'agent' as const,
             author: 'author2',
             dependencies: {}
@@ -189,7 +204,7 @@ describe('Installer', () => {
       await installer.installFromLockfile(lockfile);
 
       expect(mockExtract).toHaveBeenCalledTimes(2);
-      expect(verifyFileChecksum).toHaveBeenCalledTimes(2);
+      expect(verifyIntegrity).toHaveBeenCalledTimes(2);
     });
 
     it('should fail fast if craft installation fails', async () => {
@@ -203,7 +218,7 @@ describe('Installer', () => {
           'author/craft': {
             version: '1.0.0',
             resolved: 'https://registry.com/craft.zip',
-            integrity: 'sha256-abc',
+            integrity: 'sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=',
             type: 'skill' as const,
             author: 'author',
             dependencies: {}
@@ -213,13 +228,308 @@ describe('Installer', () => {
 
       await expect(installer.installFromLockfile(lockfile)).rejects.toThrow('Download failed');
     });
+
+    describe('concurrency', () => {
+      const makeLockfile = (count: number) => ({
+        version: '1.0.0',
+        lockfileVersion: 1,
+        crafts: Object.fromEntries(
+          Array.from({ length: count }, (_, i) => [
+            `author/craft${i}`,
+            {
+              version: '1.0.0',
+              resolved: `https://registry.com/craft${i}.zip`,
+              integrity: 'sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=',
+              type: 'skill' as const,
+              dependencies: {}
+            }
+          ])
+        )
+      });
+
+      let inFlight: number;
+      let maxInFlight: number;
+
+      beforeEach(async () => {
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
+        (verifyIntegrity as any).mockResolvedValue(true);
+        (AdmZip as any).mockImplementation(function() {
+          return { extractAllTo: vi.fn() };
+        });
+
+        inFlight = 0;
+        maxInFlight = 0;
+        vi.spyOn(installer as any, 'downloadFile').mockImplementation(async () => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise(resolve => setTimeout(resolve, 10));
+          inFlight--;
+        });
+      });
+
+      it('should fetch crafts concurrently up to the given limit', async () => {
+        await installer.installFromLockfile(makeLockfile(6), { concurrency: 3 });
+
+        expect(maxInFlight).toBe(3);
+        expect((installer as any).downloadFile).toHaveBeenCalledTimes(6);
+      });
+
+      it('should use install.concurrency from craftdesk.json when no limit is given', async () => {
+        await fs.writeJson(path.join(tempDir, 'craftdesk.json'), {
+          name: 'test',
+          version: '1.0.0',
+          install: { concurrency: 1 }
+        });
+
+        await installer.installFromLockfile(makeLockfile(3));
+
+        expect(maxInFlight).toBe(1);
+      });
+
+      it('should stop starting new crafts after a failure', async () => {
+        (installer as any).downloadFile.mockImplementationOnce(async () => {
+          throw new Error('Download failed');
+        });
+
+        await expect(
+          installer.installFromLockfile(makeLockfile(6), { concurrency: 2 })
+        ).rejects.toThrow('Download failed');
+
+        // The failing craft and the one already in flight, nothing more
+        expect((installer as any).downloadFile).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe('rollback', () => {
+      const makeEntry = (version: string, type: 'skill' | 'plugin' = 'skill') => ({
+        version,
+        resolved: `https://registry.com/${version}.zip`,
+        integrity: 'sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=',
+        type,
+        dependencies: {}
+      });
+
+      beforeEach(async () => {
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
+        (verifyIntegrity as any).mockResolvedValue(true);
+        (AdmZip as any).mockImplementation(function() {
+          return { extractAllTo: vi.fn((dir: string) => fs.writeFileSync(path.join(dir, 'SKILL.md'), '# new')) };
+        });
+        vi.spyOn(installer as any, 'downloadFile').mockImplementation(async (url: any) => {
+          if (String(url).includes('broken')) throw new Error('Download failed');
+        });
+
+        await fs.outputFile(path.join(tempDir, '.claude', 'skills', 'first', 'SKILL.md'), '# old');
+        await fs.outputFile(path.join(tempDir, '.claude', 'skills', 'pruned', 'SKILL.md'), '# pruned');
+        await fs.outputFile(path.join(tempDir, '.claude', 'skills', '.gitignore'), '# managed\n');
+        await fs.outputJson(path.join(tempDir, '.claude', 'settings.json'), { plugins: { pruned: { name: 'pruned' } } });
+      });
+
+      it('should leave the install directory untouched when a craft fails', async () => {
+        const settingsBefore = await fs.readFile(path.join(tempDir, '.claude', 'settings.json'), 'utf-8');
+
+        await expect(installer.installFromLockfile({
+          version: '1.0.0',
+          lockfileVersion: 1,
+          crafts: { first: makeEntry('2.0.0'), second: makeEntry('broken') }
+        }, { concurrency: 1, remove: [{ name: 'pruned', type: 'skill' }] })).rejects.toThrow('Download failed');
+
+        const skillsDir = path.join(tempDir, '.claude', 'skills');
+        expect(await fs.readFile(path.join(skillsDir, 'first', 'SKILL.md'), 'utf-8')).toBe('# old');
+        expect(await fs.readFile(path.join(skillsDir, 'pruned', 'SKILL.md'), 'utf-8')).toBe('# pruned');
+        expect(await fs.pathExists(path.join(skillsDir, 'second'))).toBe(false);
+        expect(await fs.readFile(path.join(skillsDir, '.gitignore'), 'utf-8')).toBe('# managed\n');
+        expect(await fs.readFile(path.join(tempDir, '.claude', 'settings.json'), 'utf-8')).toBe(settingsBefore);
+        expect(await fs.readdir(path.join(tempDir, '.claude'))).toEqual(['settings.json', 'skills']);
+      });
+
+      it('should restore replaced crafts and settings.json when finalizing fails', async () => {
+        const settingsBefore = await fs.readFile(path.join(tempDir, '.claude', 'settings.json'), 'utf-8');
+        vi.spyOn(installer as any, 'finalizeCraft').mockImplementation(async (name: any) => {
+          await fs.writeJson(path.join(tempDir, '.claude', 'settings.json'), { plugins: { partial: {} } });
+          if (name === 'second') throw new Error('Finalize failed');
+        });
+
+        await expect(installer.installFromLockfile({
+          version: '1.0.0',
+          lockfileVersion: 1,
+          crafts: { first: makeEntry('2.0.0'), second: makeEntry('2.0.0') }
+        })).rejects.toThrow('Finalize failed');
+
+        const skillsDir = path.join(tempDir, '.claude', 'skills');
+        expect(await fs.readFile(path.join(skillsDir, 'first', 'SKILL.md'), 'utf-8')).toBe('# old');
+        expect(await fs.pathExists(path.join(skillsDir, 'second'))).toBe(false);
+        expect(await fs.readFile(path.join(tempDir, '.claude', 'settings.json'), 'utf-8')).toBe(settingsBefore);
+        expect(await fs.readdir(path.join(tempDir, '.claude'))).toEqual(['settings.json', 'skills']);
+      });
+
+      it('should swap in every craft and remove pruned ones on success', async () => {
+        await installer.installFromLockfile({
+          version: '1.0.0',
+          lockfileVersion: 1,
+          crafts: { first: makeEntry('2.0.0'), second: makeEntry('2.0.0') }
+        }, { remove: [{ name: 'pruned', type: 'skill' }] });
+
+        const skillsDir = path.join(tempDir, '.claude', 'skills');
+        expect(await fs.readFile(path.join(skillsDir, 'first', 'SKILL.md'), 'utf-8')).toBe('# new');
+        expect(await fs.pathExists(path.join(skillsDir, 'second', '.craftdesk-metadata.json'))).toBe(true);
+        expect(await fs.pathExists(path.join(skillsDir, 'pruned'))).toBe(false);
+        expect(await fs.readdir(path.join(tempDir, '.claude'))).toEqual(['settings.json', 'skills']);
+      });
+
+      it('should skip optional crafts that fail to fetch and install the rest', async () => {
+        await installer.installFromLockfile({
+          version: '1.0.0',
+          lockfileVersion: 1,
+          crafts: { first: makeEntry('2.0.0'), second: { ...makeEntry('broken'), optional: true } }
+        });
+
+        const skillsDir = path.join(tempDir, '.claude', 'skills');
+        expect(await fs.readFile(path.join(skillsDir, 'first', 'SKILL.md'), 'utf-8')).toBe('# new');
+        expect(await fs.pathExists(path.join(skillsDir, 'second'))).toBe(false);
+        expect(await fs.readdir(path.join(tempDir, '.claude'))).toEqual(['settings.json', 'skills']);
+      });
+    });
+
+    describe('tree hashes', () => {
+      const makeEntry = (treeHash?: string) => ({
+        version: '1.0.0',
+        resolved: 'https://registry.com/1.0.0.zip',
+        integrity: 'sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=',
+        type: 'skill' as const,
+        ...(treeHash && { treeHash })
+      });
+
+      beforeEach(async () => {
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
+        (verifyIntegrity as any).mockResolvedValue(true);
+        (AdmZip as any).mockImplementation(function() {
+          return { extractAllTo: vi.fn((dir: string) => fs.writeFileSync(path.join(dir, 'SKILL.md'), '# new')) };
+        });
+        vi.spyOn(installer as any, 'downloadFile').mockResolvedValue(undefined);
+      });
+
+      it('should record missing tree hashes on the lock entries', async () => {
+        const lockfile = {
+          version: '1.0.0',
+          lockfileVersion: 2,
+          crafts: { first: makeEntry(), second: makeEntry('a'.repeat(64)) }
+        };
+
+        const { recorded } = await installer.installFromLockfile(lockfile);
+
+        expect(recorded).toEqual(['first']);
+        expect(lockfile.crafts.first.treeHash).toBe('a'.repeat(64));
+      });
+
+      it('should fail when the installed files do not match the locked tree hash', async () => {
+        await expect(installer.installFromLockfile({
+          version: '1.0.0',
+          lockfileVersion: 2,
+          crafts: { first: makeEntry('b'.repeat(64)) }
+        })).rejects.toThrow(/Tree hash verification failed for first@1.0.0/);
+
+        expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'first'))).toBe(false);
+      });
+    });
+
+    describe('permissions', () => {
+      const hooks = { PostToolUse: ['npx prettier --write .'] };
+      const makeLockfile = (permissions?: CraftPermissions) => ({
+        version: '1.0.0',
+        lockfileVersion: 2,
+        crafts: {
+          formatter: {
+            version: '1.0.0',
+            resolved: 'https://registry.com/1.0.0.zip',
+            integrity: 'sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=',
+            type: 'skill' as const,
+            ...(permissions && { permissions })
+          }
+        }
+      });
+
+      beforeEach(async () => {
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
+        (verifyIntegrity as any).mockResolvedValue(true);
+        (AdmZip as any).mockImplementation(function() {
+          return {
+            extractAllTo: vi.fn((dir: string) => {
+              fs.writeFileSync(path.join(dir, 'SKILL.md'), '# formatter');
+              fs.writeJsonSync(path.join(dir, 'craftdesk.json'), { name: 'formatter', hooks, permissions: { network: ['api.prettier.io'] } });
+            })
+          };
+        });
+        vi.spyOn(installer as any, 'downloadFile').mockResolvedValue(undefined);
+        await fs.writeJson(path.join(tempDir, 'craftdesk.json'), { name: 'app', version: '1.0.0' });
+      });
+
+      it('should refuse unapproved permissions without a terminal and roll back', async () => {
+        await expect(installer.installFromLockfile(makeLockfile()))
+          .rejects.toThrow(/formatter@1.0.0 requests permissions that have not been approved:\n {2}Commands: {3}npx prettier --write \.\n {2}Network: {4}api.prettier.io/);
+
+        expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'formatter'))).toBe(false);
+      });
+
+      it('should ask for consent in a terminal and record the approved permissions', async () => {
+        const { isInteractive, confirm } = await import('../../src/utils/prompt');
+        (isInteractive as any).mockReturnValueOnce(true);
+        (confirm as any).mockResolvedValueOnce(true);
+        const lockfile = makeLockfile();
+
+        const { approved } = await installer.installFromLockfile(lockfile);
+
+        expect(confirm).toHaveBeenCalledWith('Allow?');
+        expect(approved).toEqual(['formatter']);
+        expect(lockfile.crafts.formatter.permissions).toEqual({ commands: ['npx prettier --write .'], network: ['api.prettier.io'] });
+      });
+
+      it('should fail when consent is declined', async () => {
+        const { isInteractive, confirm } = await import('../../src/utils/prompt');
+        (isInteractive as any).mockReturnValueOnce(true);
+        (confirm as any).mockResolvedValueOnce(false);
+
+        await expect(installer.installFromLockfile(makeLockfile())).rejects.toThrow('Permissions of formatter@1.0.0 were not approved');
+      });
+
+      it('should accept permissions allowed in craftdesk.json', async () => {
+        await fs.writeJson(path.join(tempDir, 'craftdesk.json'), {
+          name: 'app',
+          version: '1.0.0',
+          allowedPermissions: { '*': { network: ['*.prettier.io'] }, formatter: { commands: ['npx prettier *'] } }
+        });
+        const lockfile = makeLockfile();
+
+        expect((await installer.installFromLockfile(lockfile)).approved).toEqual(['formatter']);
+        expect(lockfile.crafts.formatter.permissions?.commands).toEqual(['npx prettier --write .']);
+      });
+
+      it('should only ask for permissions that are not approved in the lock entry', async () => {
+        const { isInteractive, confirm } = await import('../../src/utils/prompt');
+        const { logger } = await import('../../src/utils/logger');
+        (isInteractive as any).mockReturnValueOnce(true);
+        (confirm as any).mockResolvedValueOnce(true);
+
+        await installer.installFromLockfile(makeLockfile({ commands: ['npx prettier --write .'] }));
+
+        expect(logger.warn).toHaveBeenCalledWith('formatter@1.0.0 requests new permissions:');
+        expect(logger.log).toHaveBeenCalledWith('  Network:    api.prettier.io');
+        expect(logger.log).not.toHaveBeenCalledWith(expect.stringContaining('prettier --write'));
+      });
+
+      it('should not ask again once every permission is approved', async () => {
+        const lockfile = makeLockfile({ commands: ['npx prettier --write .'], network: ['api.prettier.io'] });
+
+        expect((await installer.installFromLockfile(lockfile)).approved).toEqual([]);
+      });
+    });
   });
 
   describe('installCraft', () => {
     describe('registry source', () => {
       it('should download, verify, and extract archive', async () => {
         const axios = await import('axios');
-        const { verifyFileChecksum } = await import('../../src/utils/crypto');
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
 
         // Mock successful download
         const mockWriteStream = {
@@ -239,7 +549,7 @@ describe('Installer', () => {
         });
 
         // Mock checksum verification
-        (verifyFileChecksum as any).mockResolvedValue(true);
+        (verifyIntegrity as any).mockResolvedValue(true);
 
         // Mock ZIP extraction
         const mockExtract = vi.fn();
@@ -250,7 +560,7 @@ describe('Installer', () => {
         const entry = {
           version: '1.0.0',
           resolved: 'https://registry.com/craft.zip',
-          integrity: 'sha256-abc123def456',
+          integrity: 'sha256-6GGy6rZ5knz6Nv4lbp3rGWmwRorQdE1hBk+dGIMzrsY=',
           type: 'skill' as const,
           author: 'test-author',
           dependencies: {}
@@ -266,7 +576,7 @@ describe('Installer', () => {
         });
 
         // Verify checksum was verified
-        expect(verifyFileChecksum).toHaveBeenCalled();
+        expect(verifyIntegrity).toHaveBeenCalled();
 
         // Verify extraction happened
         expect(mockExtract).toHaveBeenCalled();
@@ -281,7 +591,7 @@ describe('Installer', () => {
 
       it('should fail on checksum mismatch', async () => {
         const axios = await import('axios');
-        const { verifyFileChecksum } = await import('../../src/utils/crypto');
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
 
         // Mock successful download
         const mockWriteStream = {
@@ -301,12 +611,12 @@ describe('Installer', () => {
         });
 
         // Mock failed checksum verification
-        (verifyFileChecksum as any).mockResolvedValue(false);
+        (verifyIntegrity as any).mockResolvedValue(false);
 
         const entry = {
           version: '1.0.0',
           resolved: 'https://registry.com/craft.zip',
-          integrity: 'sha256-expected',
+          integrity: 'sha256-zqI91Lh+iwDRn7nMqu+T6XNTxzU+IHDzuvBa6zmV3/Q=',
           type: 'skill' as const,
           author: 'test-author',
           dependencies: {}
@@ -362,7 +672,7 @@ describe('Installer', () => {
 
       it('should clean up archive after extraction', async () => {
         const axios = await import('axios');
-        const { verifyFileChecksum } = await import('../../src/utils/crypto');
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
 
         // Mock successful download
         const mockWriteStream = {
@@ -381,7 +691,7 @@ describe('Installer', () => {
           }
         });
 
-        (verifyFileChecksum as any).mockResolvedValue(true);
+        (verifyIntegrity as any).mockResolvedValue(true);
 
         const mockExtract = vi.fn();
         (AdmZip as any).mockImplementation(function() {
@@ -391,7 +701,7 @@ describe('Installer', () => {
         const entry = {
           version: '1.0.0',
           resolved: 'https://registry.com/craft.zip',
-          integrity: 'sha256-abc',
+          integrity: 'sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=',
           type: 'skill' as const,
           author: 'test-author',
           dependencies: {}
@@ -412,7 +722,7 @@ describe('Installer', () => {
         const entry = {
           version: '1.0.0',
           resolved: 'https://registry.com/craft.zip',
-          integrity: 'sha256-abc',
+          integrity: 'sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=',
           type: 'skill' as const,
           author: 'test-author',
           dependencies: {}
@@ -425,7 +735,7 @@ describe('Installer', () => {
 
       it('should handle extraction errors', async () => {
         const axios = await import('axios');
-        const { verifyFileChecksum } = await import('../../src/utils/crypto');
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
 
         // Mock successful download
         const mockWriteStream = {
@@ -444,7 +754,7 @@ describe('Installer', () => {
           }
         });
 
-        (verifyFileChecksum as any).mockResolvedValue(true);
+        (verifyIntegrity as any).mockResolvedValue(true);
 
         // Mock failed extraction
         (AdmZip as any).mockImplementation(function() {
@@ -458,7 +768,7 @@ describe('Installer', () => {
         const entry = {
           version: '1.0.0',
           resolved: 'https://registry.com/craft.zip',
-          integrity: 'sha256-abc',
+          integrity: 'sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=',
           type: 'skill' as const,
           author: 'test-author',
           dependencies: {}
@@ -470,6 +780,116 @@ describe('Installer', () => {
       });
     });
 
+    describe('global cache', () => {
+      const integrity = 'a'.repeat(64);
+      const entry = {
+        version: '1.0.0',
+        resolved: 'https://registry.com/craft.zip',
+        integrity,
+        type: 'skill' as const,
+        dependencies: {}
+      };
+      let originalCacheDir: string | undefined;
+
+      beforeEach(async () => {
+        originalCacheDir = process.env.CRAFTDESK_CACHE_DIR;
+        process.env.CRAFTDESK_CACHE_DIR = path.join(tempDir, 'cache');
+
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
+        (verifyIntegrity as any).mockResolvedValue(true);
+        (AdmZip as any).mockImplementation(function() {
+          return { extractAllTo: vi.fn() };
+        });
+      });
+
+      afterEach(() => {
+        process.env.CRAFTDESK_CACHE_DIR = originalCacheDir;
+      });
+
+      it('should store downloaded archives in the cache', async () => {
+        vi.spyOn(installer as any, 'downloadFile').mockImplementation(async (_url: any, dest: any) => {
+          await fs.writeFile(dest, 'zip');
+        });
+
+        await installer.installCraft('test-craft', entry);
+
+        const { cacheManager } = await import('../../src/services/cache-manager');
+        expect(await fs.readFile(cacheManager.getArchivePath(integrity), 'utf-8')).toBe('zip');
+      });
+
+      it('should install cached archives without downloading', async () => {
+        const { cacheManager } = await import('../../src/services/cache-manager');
+        await fs.ensureDir(path.dirname(cacheManager.getArchivePath(integrity)));
+        await fs.writeFile(cacheManager.getArchivePath(integrity), 'zip');
+        const download = vi.spyOn(installer as any, 'downloadFile');
+
+        await installer.installCraft('test-craft', entry);
+
+        expect(download).not.toHaveBeenCalled();
+        expect(await fs.pathExists(path.join(tempDir, '.claude', 'skills', 'test-craft', '.craftdesk-metadata.json'))).toBe(true);
+      });
+
+      it('should fail instead of downloading in offline mode', async () => {
+        const { cacheManager } = await import('../../src/services/cache-manager');
+        const download = vi.spyOn(installer as any, 'downloadFile');
+        cacheManager.setNetworkMode('offline');
+
+        try {
+          await expect(installer.installCraft('test-craft', entry)).rejects.toThrow(
+            'test-craft@1.0.0 is not in the cache (offline mode)'
+          );
+          expect(download).not.toHaveBeenCalled();
+        } finally {
+          cacheManager.setNetworkMode('online');
+        }
+      });
+
+      it('should list crafts that cannot be installed from the cache', async () => {
+        const { cacheManager } = await import('../../src/services/cache-manager');
+        const cachedIntegrity = 'b'.repeat(64);
+        await fs.ensureDir(path.dirname(cacheManager.getArchivePath(cachedIntegrity)));
+        await fs.writeFile(cacheManager.getArchivePath(cachedIntegrity), 'zip');
+
+        const uncached = await installer.findUncachedCrafts({
+          version: '1.0.0',
+          lockfileVersion: 1,
+          crafts: {
+            'cached': { ...entry, integrity: cachedIntegrity },
+            'not-cached': entry,
+            'no-hash': { ...entry, integrity: 'sha256-pending' },
+            'git-craft': {
+              ...entry,
+              integrity: 'c'.repeat(40),
+              git: 'https://github.com/acme/skills.git',
+              branch: 'main'
+            }
+          }
+        });
+
+        expect(uncached.map(u => [u.name, u.reason])).toEqual([
+          ['not-cached', 'archive aaaaaaaaaaaa...'],
+          ['no-hash', 'no integrity hash to look up (sha256-pending)'],
+          ['git-craft', 'git https://github.com/acme/skills.git @ ccccccc']
+        ]);
+      });
+
+      it('should evict a corrupt cached archive and download again', async () => {
+        const { cacheManager } = await import('../../src/services/cache-manager');
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
+        await fs.ensureDir(path.dirname(cacheManager.getArchivePath(integrity)));
+        await fs.writeFile(cacheManager.getArchivePath(integrity), 'corrupt');
+        (verifyIntegrity as any).mockResolvedValueOnce(false).mockResolvedValue(true);
+        const download = vi.spyOn(installer as any, 'downloadFile').mockImplementation(async (_url: any, dest: any) => {
+          await fs.writeFile(dest, 'zip');
+        });
+
+        await installer.installCraft('test-craft', entry);
+
+        expect(download).toHaveBeenCalledTimes(1);
+        expect(await fs.readFile(cacheManager.getArchivePath(integrity), 'utf-8')).toBe('zip');
+      });
+    });
+
     // NOTE: Git source tests are skipped because they require complex mocking
     // of child_process.execSync and actual git commands. These will be covered
     // by integration tests instead.
@@ -484,7 +904,7 @@ describe('Installer', () => {
     describe('craft type routing', () => {
       it('should install skills to skills directory', async () => {
         const axios = await import('axios');
-        const { verifyFileChecksum } = await import('../../src/utils/crypto');
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
 
         const mockWriteStream = {
           on: vi.fn((event, handler) => {
@@ -497,7 +917,7 @@ describe('Installer', () => {
         vi.spyOn(fs, 'createWriteStream').mockReturnValue(mockWriteStream as any);
 
         (axios.default as any).mockResolvedValue({ data: { pipe: vi.fn() } });
-        (verifyFileChecksum as any).mockResolvedValue(true);
+        (verifyIntegrity as any).mockResolvedValue(true);
 
         const mockExtract = vi.fn();
         (AdmZip as any).mockImplementation(function() {
@@ -507,7 +927,7 @@ describe('Installer', () => {
         const entry = {
           version: '1.0.0',
           resolved: 'https://registry.com/craft.zip',
-          integrity: 'sha256-abc',
+          integrity: 'sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=',
           type: 'skill' as const,
           author: 'author',
           dependencies: {}
@@ -522,7 +942,7 @@ describe('Installer', () => {
 
       it('should install agents to agents directory', async () => {
         const axios = await import('axios');
-        const { verifyFileChecksum } = await import('../../src/utils/crypto');
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
 
         const mockWriteStream = {
           on: vi.fn((event, handler) => {
@@ -535,7 +955,7 @@ describe('Installer', () => {
         vi.spyOn(fs, 'createWriteStream').mockReturnValue(mockWriteStream as any);
 
         (axios.default as any).mockResolvedValue({ data: { pipe: vi.fn() } });
-        (verifyFileChecksum as any).mockResolvedValue(true);
+        (verifyIntegrity as any).mockResolvedValue(true);
 
         const mockExtract = vi.fn();
         (AdmZip as any).mockImplementation(function() {
@@ -545,7 +965,7 @@ describe('Installer', () => {
         const entry = {
           version: '1.0.0',
           resolved: 'https://registry.com/agent.zip',
-          integrity: 'sha256-def',
+          integrity: 'sha256-y4N5rCCYqhZQKeOTilHaC87PwAj9Z5X0AReGR/lsWzQ=',
           type: 'agent' as const,
           author: 'author',
           dependencies: {}
@@ -560,7 +980,7 @@ describe('Installer', () => {
 
       it('should install commands to commands directory', async () => {
         const axios = await import('axios');
-        const { verifyFileChecksum } = await import('../../src/utils/crypto');
+        const { verifyIntegrity } = await import('../../src/utils/crypto');
 
         const mockWriteStream = {
           on: vi.fn((event, handler) => {
@@ -573,7 +993,7 @@ describe('Installer', () => {
         vi.spyOn(fs, 'createWriteStream').mockReturnValue(mockWriteStream as any);
 
         (axios.default as any).mockResolvedValue({ data: { pipe: vi.fn() } });
-        (verifyFileChecksum as any).mockResolvedValue(true);
+        (verifyIntegrity as any).mockResolvedValue(true);
 
         const mockExtract = vi.fn();
         (AdmZip as any).mockImplementation(function() {
@@ -583,7 +1003,7 @@ describe('Installer', () => {
         const entry = {
           version: '1.0.0',
           resolved: 'https://registry.com/command.zip',
-          integrity: 'sha256-ghi',
+          integrity: 'sha256-UK5h6EH6xOj55AuvKtNuyGiSLqSDaMGPlTXkfbVt1/s=',
           type: 'command' as const,
           author: 'author',
           dependencies: {}
@@ -622,6 +1042,40 @@ describe('Installer', () => {
     });
   });
 
+  describe('findOrphanedCrafts', () => {
+    const writeMetadata = async (typeDir: string, name: string) => {
+      await fs.outputJson(path.join(tempDir, '.claude', typeDir, name, '.craftdesk-metadata.json'), { name });
+    };
+
+    it('should report managed crafts whose name or type is not locked', async () => {
+      await writeMetadata('skills', 'locked');
+      await writeMetadata('skills', 'moved');
+      await writeMetadata('hooks', 'stale-hook');
+      await fs.ensureDir(path.join(tempDir, '.claude', 'commands', 'unmanaged'));
+
+      const orphaned = await installer.findOrphanedCrafts({
+        version: '1.0.0',
+        lockfileVersion: 1,
+        crafts: {
+          locked: { version: '1.0.0', resolved: '', integrity: '', type: 'skill', dependencies: {} },
+          moved: { version: '1.0.0', resolved: '', integrity: '', type: 'agent', dependencies: {} }
+        }
+      });
+
+      expect(orphaned).toEqual([
+        { name: 'moved', type: 'skill' },
+        { name: 'stale-hook', type: 'hook' }
+      ]);
+    });
+
+    it('should skip embedded crafts', async () => {
+      await fs.writeJson(path.join(tempDir, 'craftdesk.json'), { name: 'test', version: '1.0.0', embedded: ['local'] });
+      await writeMetadata('skills', 'local');
+
+      expect(await installer.findOrphanedCrafts({ version: '1.0.0', lockfileVersion: 1, crafts: {} })).toEqual([]);
+    });
+  });
+
   describe('listInstalled', () => {
     it('should list all installed crafts', async () => {
       // Create multiple crafts
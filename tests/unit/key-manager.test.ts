@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs-extra';
+import { keyManager } from '../../src/services/key-manager';
+import { createKeysCommand } from '../../src/commands/keys';
+import { verifyPayloadSignature } from '../../src/utils/signing';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils';
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    success: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    log: vi.fn()
+  }
+}));
+
+import { logger } from '../../src/utils/logger';
+
+describe('keys', () => {
+  let keysDir: string;
+  const originalKeysDir = process.env.CRAFTDESK_KEYS_DIR;
+
+  beforeEach(async () => {
+    keysDir = await createTempDir('keys-test-');
+    process.env.CRAFTDESK_KEYS_DIR = keysDir;
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    if (originalKeysDir === undefined) {
+      delete process.env.CRAFTDESK_KEYS_DIR;
+    } else {
+      process.env.CRAFTDESK_KEYS_DIR = originalKeysDir;
+    }
+    await cleanupTempDir(keysDir);
+  });
+
+  describe('KeyManager', () => {
+    it('should use CRAFTDESK_KEYS_DIR', () => {
+      expect(keyManager.getKeysDir()).toBe(path.resolve(keysDir));
+    });
+
+    it('should generate a key pair readable by the owner only', async () => {
+      const key = await keyManager.generate('default');
+
+      expect(key.name).toBe('default');
+      expect(key.fingerprint).toMatch(/^SHA256:/);
+      expect(await fs.readFile(path.join(keysDir, 'default.pub'), 'utf-8')).toContain('BEGIN PUBLIC KEY');
+      if (process.platform !== 'win32') {
+        expect((await fs.stat(path.join(keysDir, 'default.key'))).mode & 0o777).toBe(0o600);
+      }
+    });
+
+    it('should refuse to replace an existing key unless forced', async () => {
+      const original = await keyManager.generate('default');
+
+      await expect(keyManager.generate('default')).rejects.toThrow('Signing key "default" already exists (use --force to replace it)');
+      expect((await keyManager.get('default'))?.fingerprint).toBe(original.fingerprint);
+
+      const replaced = await keyManager.generate('default', { force: true });
+      expect(replaced.fingerprint).not.toBe(original.fingerprint);
+    });
+
+    it('should reject key names that are not plain file names', async () => {
+      await expect(keyManager.generate('../escape')).rejects.toThrow('Invalid key name: ../escape');
+      await expect(keyManager.get('.hidden')).rejects.toThrow('Invalid key name: .hidden');
+      expect(await fs.readdir(keysDir)).toEqual([]);
+    });
+
+    it('should list keys sorted by name', async () => {
+      await keyManager.generate('release');
+      await keyManager.generate('default');
+      await fs.writeFile(path.join(keysDir, 'notes.txt'), 'not a key');
+
+      expect((await keyManager.list()).map(key => key.name)).toEqual(['default', 'release']);
+      expect(await keyManager.get('missing')).toBeNull();
+    });
+
+    it('should sign payloads that verify against the public key', async () => {
+      const key = await keyManager.generate('default');
+
+      const signature = await keyManager.sign('default', 'payload');
+
+      expect(verifyPayloadSignature('payload', signature, key.publicKey)).toBe(true);
+      expect(verifyPayloadSignature('other payload', signature, key.publicKey)).toBe(false);
+      await expect(keyManager.sign('missing', 'payload')).rejects.toThrow(`Signing key "missing" not found in ${path.resolve(keysDir)}`);
+    });
+  });
+
+  describe('keys command', () => {
+    it('should generate a key and print its fingerprint', async () => {
+      await createKeysCommand().parseAsync(['node', 'test', 'generate', 'ci']);
+
+      const key = await keyManager.get('ci');
+      expect(logger.success).toHaveBeenCalledWith('Generated signing key "ci"');
+      expect(logger.log).toHaveBeenCalledWith(`  Fingerprint: ${key?.fingerprint}`);
+    });
+
+    it('should fail for an existing key without --force', async () => {
+      await keyManager.generate('default');
+      const exit = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      try {
+        await expect(createKeysCommand().parseAsync(['node', 'test', 'generate'])).rejects.toThrow('process.exit');
+        expect(logger.error).toHaveBeenCalledWith(
+          'Failed to generate signing key: Signing key "default" already exists (use --force to replace it)'
+        );
+        expect(exit).toHaveBeenCalledWith(1);
+
+        await createKeysCommand().parseAsync(['node', 'test', 'generate', '--force']);
+        expect(logger.success).toHaveBeenCalledWith('Generated signing key "default"');
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    it('should list keys with their fingerprints', async () => {
+      const key = await keyManager.generate('default');
+
+      await createKeysCommand().parseAsync(['node', 'test']);
+
+      expect(logger.log).toHaveBeenCalledWith(`  ${'default'.padEnd(16)} ${key.fingerprint}`);
+    });
+
+    it('should list keys as JSON', async () => {
+      const key = await keyManager.generate('default');
+      const consoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      try {
+        await createKeysCommand().parseAsync(['node', 'test', '--json']);
+        expect(JSON.parse(consoleLog.mock.calls[0][0])).toEqual([key]);
+      } finally {
+        consoleLog.mockRestore();
+      }
+    });
+
+    it('should explain how to create the first key', async () => {
+      await createKeysCommand().parseAsync(['node', 'test']);
+
+      expect(logger.info).toHaveBeenCalledWith(`No signing keys in ${path.resolve(keysDir)}`);
+      expect(logger.info).toHaveBeenCalledWith('Run "craftdesk keys generate" to create one');
+    });
+  });
+});
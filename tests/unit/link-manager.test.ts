@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { linkManager } from '../../src/services/link-manager';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('LinkManager', () => {
+  let tempDir: string;
+  let originalLinksDir: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('link-manager-test-');
+    originalLinksDir = process.env.CRAFTDESK_LINKS_DIR;
+    process.env.CRAFTDESK_LINKS_DIR = path.join(tempDir, 'links');
+    await fs.ensureDir(path.join(tempDir, 'crafts', 'my-skill'));
+    await fs.ensureDir(path.join(tempDir, 'crafts', 'scoped'));
+  });
+
+  afterEach(async () => {
+    process.env.CRAFTDESK_LINKS_DIR = originalLinksDir;
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should register, resolve and unregister crafts', async () => {
+    const craftDir = path.join(tempDir, 'crafts', 'my-skill');
+    await linkManager.register('my-skill', craftDir);
+
+    expect(await linkManager.resolve('my-skill')).toBe(await fs.realpath(craftDir));
+    expect(await linkManager.resolve('unknown')).toBeNull();
+
+    expect(await linkManager.unregister('my-skill')).toBe(true);
+    expect(await linkManager.unregister('my-skill')).toBe(false);
+    expect(await linkManager.resolve('my-skill')).toBeNull();
+    expect(await fs.pathExists(craftDir)).toBe(true);
+  });
+
+  it('should list scoped and unscoped crafts sorted by name', async () => {
+    await linkManager.register('my-skill', path.join(tempDir, 'crafts', 'my-skill'));
+    await linkManager.register('author/scoped', path.join(tempDir, 'crafts', 'scoped'));
+
+    expect(await linkManager.list()).toEqual([
+      { name: 'author/scoped', target: path.join(tempDir, 'crafts', 'scoped') },
+      { name: 'my-skill', target: path.join(tempDir, 'crafts', 'my-skill') }
+    ]);
+  });
+
+  it('should reject names that escape the links directory', async () => {
+    await expect(linkManager.register('../evil', tempDir)).rejects.toThrow('Invalid craft name');
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, it, expect } from 'vitest';
+import { diffLockfile, findChangedOverrides, isLockfileInSync, formatLockfileDiff, mergeLockfile, findExclusiveMembers } from '../../src/utils/lockfile-diff';
+import type { CraftDeskLock, LockEntry } from '../../src/types/craftdesk-lock';
+
+function lockWith(crafts: Record<string, LockEntry>, extra: Partial<CraftDeskLock> = {}): CraftDeskLock {
+  return {
+    version: '1.0.0',
+    lockfileVersion: 1,
+    generatedAt: new Date().toISOString(),
+    crafts,
+    ...extra
+  };
+}
+
+const registryEntry = (version: string, dependencies?: Record<string, string>): LockEntry => ({
+  version,
+  resolved: `https://registry.test/${version}.zip`,
+  integrity: 'abc123',
+  type: 'skill',
+  ...(dependencies && { dependencies })
+});
+
+const gitEntry = (fields: Partial<LockEntry>): LockEntry => ({
+  version: '1.0.0',
+  resolved: 'https://github.com/acme/auth.git',
+  integrity: 'a'.repeat(40),
+  type: 'agent',
+  git: 'https://github.com/acme/auth.git',
+  ...fields
+});
+
+describe('lockfile-diff', () => {
+  describe('diffLockfile', () => {
+    it('should report no differences when in sync', () => {
+      const diff = diffLockfile(
+        {
+          'acme/rails': '^1.2.0',
+          'auth': { git: 'https://github.com/acme/auth.git', branch: 'main' }
+        },
+        lockWith({
+          'acme/rails': registryEntry('1.4.0'),
+          'auth': gitEntry({ branch: 'main' })
+        })
+      );
+
+      expect(isLockfileInSync(diff)).toBe(true);
+    });
+
+    it('should report declared crafts missing from the lockfile', () => {
+      const diff = diffLockfile({ 'acme/rails': '^1.0.0' }, lockWith({}));
+
+      expect(diff.missing).toEqual([{ name: 'acme/rails', declared: '^1.0.0' }]);
+    });
+
+    it('should report locked crafts that are no longer declared', () => {
+      const diff = diffLockfile({}, lockWith({ 'acme/old': registryEntry('1.0.0') }));
+
+      expect(diff.extra.map(e => e.name)).toEqual(['acme/old']);
+    });
+
+    it('should not report transitive dependencies as extra', () => {
+      const diff = diffLockfile(
+        { 'acme/rails': '^1.0.0', 'acme/plugin': '^1.0.0' },
+        lockWith(
+          {
+            'acme/rails': registryEntry('1.0.0', { 'acme/helper': '^2.0.0' }),
+            'acme/helper': registryEntry('2.1.0'),
+            'acme/plugin': { ...registryEntry('1.0.0'), type: 'plugin' },
+            'acme/plugin-dep': { ...registryEntry('1.0.0'), installedAs: 'dependency' }
+          },
+          { pluginTree: { 'acme/plugin': { version: '1.0.0', dependencies: ['acme/plugin-dep'] } } }
+        )
+      );
+
+      expect(diff.extra).toEqual([]);
+    });
+
+    it('should not report optional dependencies of locked crafts as extra', () => {
+      const diff = diffLockfile(
+        { 'acme/rails': '^1.0.0' },
+        lockWith({
+          'acme/rails': { ...registryEntry('1.0.0'), optionalDependencies: { 'acme/extras': '^1.0.0' } },
+          'acme/extras': { ...registryEntry('1.0.0'), optional: true }
+        })
+      );
+
+      expect(diff.extra).toEqual([]);
+    });
+
+    it('should report registry versions outside the declared range', () => {
+      const diff = diffLockfile(
+        { 'acme/rails': '^2.0.0' },
+        lockWith({ 'acme/rails': registryEntry('1.4.0') })
+      );
+
+      expect(diff.changed).toHaveLength(1);
+      expect(diff.changed[0].reasons).toEqual(['locked 1.4.0 does not satisfy ^2.0.0']);
+    });
+
+    it('should report changed git refs, paths and files', () => {
+      const diff = diffLockfile(
+        { 'auth': { git: 'https://github.com/acme/auth.git', branch: 'develop', path: 'crafts/auth' } },
+        lockWith({ 'auth': gitEntry({ branch: 'main' }) })
+      );
+
+      expect(diff.changed[0].reasons).toEqual([
+        'branch main → develop',
+        'path (none) → crafts/auth'
+      ]);
+    });
+
+    it('should accept abbreviated declared commits', () => {
+      const commit = '0123456789abcdef0123456789abcdef01234567';
+      const declared = { 'auth': { git: 'https://github.com/acme/auth.git', commit: '0123456' } };
+
+      expect(isLockfileInSync(diffLockfile(declared, lockWith({ 'auth': gitEntry({ commit }) })))).toBe(true);
+      expect(diffLockfile(declared, lockWith({ 'auth': gitEntry({ commit: 'f'.repeat(40) }) })).changed).toHaveLength(1);
+    });
+
+    it('should report a switch between git and registry sources', () => {
+      const diff = diffLockfile(
+        { 'auth': '^1.0.0' },
+        lockWith({ 'auth': gitEntry({ branch: 'main' }) })
+      );
+
+      expect(diff.changed[0].reasons).toEqual(['source git → registry']);
+    });
+
+    it('should compare local dependencies by directory and link mode', () => {
+      const localEntry: LockEntry = {
+        version: '1.0.0',
+        resolved: 'file:../skills/auth',
+        integrity: 'b'.repeat(64),
+        type: 'skill',
+        local: '../skills/auth'
+      };
+      const lockfile = lockWith({ 'auth': localEntry });
+
+      expect(isLockfileInSync(diffLockfile({ 'auth': 'file:../skills/auth/' }, lockfile))).toBe(true);
+      expect(isLockfileInSync(diffLockfile({ 'auth': { local: '../skills/auth' } }, lockfile))).toBe(true);
+      expect(diffLockfile({ 'auth': 'file:../other' }, lockfile).changed[0].reasons).toEqual(['local ../skills/auth → ../other']);
+      expect(diffLockfile({ 'auth': 'link:../skills/auth' }, lockfile).changed[0].reasons).toEqual(['copy → link']);
+      expect(diffLockfile({ 'auth': '^1.0.0' }, lockfile).changed[0].reasons).toEqual(['source local → registry']);
+      expect(diffLockfile({ 'auth': 'file:../skills/auth' }, lockWith({ 'auth': registryEntry('1.0.0') })).changed[0].reasons)
+        .toEqual(['source registry → local']);
+    });
+  });
+
+  describe('findChangedOverrides', () => {
+    const declared = { 'acme/rails': '^1.0.0', 'acme/plugin': '^1.0.0' };
+    const lockfile = lockWith(
+      {
+        'acme/rails': registryEntry('1.0.0', { 'acme/helper': '^2.0.0' }),
+        'acme/helper': { ...registryEntry('2.1.0'), override: 'acme/rails>acme/helper' },
+        'acme/plugin': registryEntry('1.0.0')
+      },
+      { overrides: { 'acme/rails>acme/helper': '^2.0.0' } }
+    );
+
+    it('should report nothing when the overrides are unchanged', () => {
+      const diff = diffLockfile(declared, lockfile);
+      expect(findChangedOverrides(declared, { 'acme/rails>acme/helper': '^2.0.0' }, lockfile, diff)).toEqual([]);
+    });
+
+    it('should report the declared crafts that reach a changed or removed override', () => {
+      const diff = diffLockfile(declared, lockfile);
+
+      expect(findChangedOverrides(declared, { 'acme/rails>acme/helper': '^2.1.0' }, lockfile, diff)).toEqual([
+        { name: 'acme/rails', declared: '^1.0.0', locked: lockfile.crafts['acme/rails'], reasons: ['override "acme/rails>acme/helper" ^2.0.0 → ^2.1.0'] }
+      ]);
+      expect(findChangedOverrides(declared, {}, lockfile, diff)[0].reasons).toEqual(['override "acme/rails>acme/helper" removed']);
+    });
+
+    it('should ignore added overrides for crafts that are not locked', () => {
+      const diff = diffLockfile(declared, lockfile);
+      expect(findChangedOverrides(declared, { ...lockfile.overrides, 'acme/other': '^1.0.0' }, lockfile, diff)).toEqual([]);
+    });
+  });
+
+  describe('formatLockfileDiff', () => {
+    it('should format each kind of difference', () => {
+      const lines = formatLockfileDiff({
+        missing: [{ name: 'new', declared: '^1.0.0' }],
+        extra: [{ name: 'old', locked: registryEntry('0.9.0') }],
+        changed: [{ name: 'auth', declared: '^2.0.0', locked: registryEntry('1.0.0'), reasons: ['locked 1.0.0 does not satisfy ^2.0.0'] }]
+      });
+
+      expect(lines).toEqual([
+        '  + new (^1.0.0) is declared but not locked',
+        '  - old@0.9.0 is locked but no longer declared',
+        '  ~ auth: locked 1.0.0 does not satisfy ^2.0.0'
+      ]);
+    });
+  });
+
+  describe('mergeLockfile', () => {
+    it('should add resolved entries and keep unchanged ones', () => {
+      const lockfile = lockWith({ 'acme/rails': registryEntry('1.4.0') });
+      const { lockfile: merged, pruned } = mergeLockfile(
+        lockfile,
+        { 'acme/rails': '^1.0.0', 'auth': { git: 'https://github.com/acme/auth.git', branch: 'main' } },
+        { 'auth': gitEntry({ branch: 'main' }) }
+      );
+
+      expect(Object.keys(merged.crafts).sort()).toEqual(['acme/rails', 'auth']);
+      expect(merged.crafts['acme/rails']).toBe(lockfile.crafts['acme/rails']);
+      expect(pruned).toEqual([]);
+      // The input lockfile is left untouched
+      expect(Object.keys(lockfile.crafts)).toEqual(['acme/rails']);
+    });
+
+    it('should prune removed crafts and their orphaned dependencies', () => {
+      const { lockfile: merged, pruned } = mergeLockfile(
+        lockWith({
+          'acme/rails': registryEntry('1.0.0'),
+          'acme/old': registryEntry('1.0.0', { 'acme/old-helper': '^1.0.0' }),
+          'acme/old-helper': registryEntry('1.2.0')
+        }),
+        { 'acme/rails': '^1.0.0' },
+        {}
+      );
+
+      expect(Object.keys(merged.crafts)).toEqual(['acme/rails']);
+      expect(pruned.map(p => p.name)).toEqual(['acme/old', 'acme/old-helper']);
+    });
+
+    it('should drop dependencies only the old version of a changed craft needed', () => {
+      const { lockfile: merged, pruned } = mergeLockfile(
+        lockWith({
+          'acme/rails': registryEntry('1.0.0', { 'acme/legacy': '^1.0.0', 'acme/shared': '^1.0.0' }),
+          'acme/legacy': registryEntry('1.0.0'),
+          'acme/shared': registryEntry('1.0.0')
+        }),
+        { 'acme/rails': '^2.0.0' },
+        { 'acme/rails': registryEntry('2.0.0', { 'acme/shared': '^1.0.0' }) }
+      );
+
+      expect(merged.crafts['acme/rails'].version).toBe('2.0.0');
+      expect(Object.keys(merged.crafts).sort()).toEqual(['acme/rails', 'acme/shared']);
+      expect(pruned.map(p => p.name)).toEqual(['acme/legacy']);
+      expect(merged.tree).toEqual({ 'acme/rails@2.0.0': { dependencies: { 'acme/shared@1.0.0': {} } } });
+    });
+
+    it('should keep the approved permissions of re-resolved crafts', () => {
+      const permissions = { commands: ['node server.js'] };
+      const { lockfile: merged } = mergeLockfile(
+        lockWith({ 'acme/rails': { ...registryEntry('1.0.0'), permissions } }),
+        { 'acme/rails': '^2.0.0' },
+        { 'acme/rails': registryEntry('2.0.0') }
+      );
+
+      expect(merged.crafts['acme/rails']).toMatchObject({ version: '2.0.0', permissions });
+    });
+
+    it('should remove plugin tree entries of pruned and re-resolved plugins', () => {
+      const { lockfile: merged } = mergeLockfile(
+        lockWith(
+          {
+            'acme/plugin': { ...registryEntry('1.0.0'), type: 'plugin' },
+            'acme/plugin-dep': { ...registryEntry('1.0.0'), installedAs: 'dependency' },
+            'acme/gone': { ...registryEntry('1.0.0'), type: 'plugin' }
+          },
+          {
+            pluginTree: {
+              'acme/plugin': { version: '1.0.0', dependencies: ['acme/plugin-dep'] },
+              'acme/gone': { version: '1.0.0' }
+            }
+          }
+        ),
+        { 'acme/plugin': '^2.0.0' },
+        { 'acme/plugin': { ...registryEntry('2.0.0'), type: 'plugin' } }
+      );
+
+      expect(merged.pluginTree).toEqual({});
+      expect(Object.keys(merged.crafts)).toEqual(['acme/plugin']);
+    });
+  });
+
+  describe('findExclusiveMembers', () => {
+    const lockfile = lockWith({
+      'rails-kit': { ...registryEntry('1.0.0'), type: 'collection', members: { 'lint': '^1.0.0', 'testing-kit': '^1.0.0', 'formatter': '^1.0.0' } },
+      'testing-kit': { ...registryEntry('1.0.0'), type: 'collection', members: { 'rspec': '^3.0.0' }, memberOf: ['rails-kit'] },
+      'lint': { ...registryEntry('1.0.0'), memberOf: ['rails-kit'] },
+      'rspec': { ...registryEntry('3.0.0'), memberOf: ['testing-kit'] },
+      'formatter': { ...registryEntry('1.0.0'), memberOf: ['rails-kit'] },
+      'reviewer': registryEntry('1.0.0', { 'formatter': '^1.0.0' })
+    });
+
+    it('should include members of nested collections', () => {
+      expect(findExclusiveMembers(lockfile, ['rails-kit'], 'rails-kit')).toEqual(['lint', 'testing-kit', 'formatter', 'rspec']);
+    });
+
+    it('should keep members other declared crafts lead to', () => {
+      expect(findExclusiveMembers(lockfile, ['rails-kit', 'reviewer', 'rspec'], 'rails-kit')).toEqual(['lint', 'testing-kit']);
+    });
+  });
+});
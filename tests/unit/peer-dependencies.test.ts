@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { findPeerDependencyProblems, formatPeerDependencyProblems } from '../../src/utils/peer-dependencies';
+import { CraftDeskLock, LockEntry } from '../../src/types/craftdesk-lock';
+
+function entry(version: string, extra: Partial<LockEntry> = {}): LockEntry {
+  return { version, resolved: 'https://example.com', integrity: 'sha256-abc', type: 'skill', ...extra };
+}
+
+describe('peer dependencies', () => {
+  const lockfile: CraftDeskLock = {
+    version: '1.0.0',
+    lockfileVersion: 1,
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    crafts: {
+      'rails-plugin': entry('1.0.0', { peerDependencies: { 'rails': '^7.0.0', 'postgres': '^2.0.0' } }),
+      'api-helper': entry('1.0.0', { peerDependencies: { 'rails': '^6.0.0', 'custom': 'git+https://github.com/acme/custom.git#main' } }),
+      'rails': entry('7.1.0'),
+      'postgres': entry('2.0.0'),
+      'custom': entry('abc1234', { git: 'https://github.com/acme/custom.git' })
+    }
+  };
+
+  it('should accept peers the project declares in a matching version', () => {
+    expect(findPeerDependencyProblems(lockfile, ['rails-plugin', 'rails', 'postgres'])
+      .filter(p => p.craft === 'rails-plugin')).toEqual([]);
+  });
+
+  it('should report peers that are only installed transitively as missing', () => {
+    expect(findPeerDependencyProblems(lockfile, ['rails-plugin', 'rails'])).toContainEqual(
+      { craft: 'rails-plugin', peer: 'postgres', range: '^2.0.0' }
+    );
+  });
+
+  it('should report mismatched versions and skip version checks for git sources', () => {
+    expect(findPeerDependencyProblems(lockfile, ['api-helper', 'rails', 'custom'])).toEqual([
+      { craft: 'api-helper', peer: 'rails', range: '^6.0.0', provided: '7.1.0' },
+      { craft: 'rails-plugin', peer: 'postgres', range: '^2.0.0' }
+    ]);
+  });
+
+  it('should format missing and mismatched peers', () => {
+    expect(formatPeerDependencyProblems([
+      { craft: 'api-helper', peer: 'rails', range: '^6.0.0', provided: '7.1.0' },
+      { craft: 'rails-plugin', peer: 'postgres', range: '^2.0.0' }
+    ])).toEqual([
+      '  ~ api-helper requires peer rails@^6.0.0, but rails@7.1.0 is installed',
+      '  - rails-plugin requires peer postgres@^2.0.0, which craftdesk.json does not declare'
+    ]);
+  });
+});
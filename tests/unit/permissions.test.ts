@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  readCraftPermissions,
+  subtractPermissions,
+  isEmptyPermissions,
+  formatPermissions
+} from '../../src/utils/permissions';
+import { createTempDir, cleanupTempDir } from '../helpers/test-utils';
+
+describe('permissions', () => {
+  let craftDir: string;
+
+  beforeEach(async () => {
+    craftDir = await createTempDir('permissions-test-');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(craftDir);
+  });
+
+  describe('readCraftPermissions', () => {
+    it('should combine declared permissions with hooks, MCP servers and scripts', async () => {
+      await fs.writeJson(path.join(craftDir, 'craftdesk.json'), {
+        name: 'db-tools',
+        permissions: { filesystem: ['~/.pgpass'], network: ['db.acme.dev'] },
+        hooks: { SessionStart: ['./scripts/check.sh'] }
+      });
+      await fs.outputJson(path.join(craftDir, '.claude-plugin', 'plugin.json'), {
+        name: 'db-tools',
+        hooks: './config/hooks.json',
+        mcpServers: './config/mcp.json',
+        scripts: { postInstall: 'npm ci' }
+      });
+      await fs.outputJson(path.join(craftDir, 'config', 'hooks.json'), {
+        hooks: { PreToolUse: [{ matcher: 'Bash', hooks: [{ type: 'command', command: './scripts/guard.sh' }] }] }
+      });
+      await fs.outputJson(path.join(craftDir, 'config', 'mcp.json'), {
+        mcpServers: {
+          postgres: { command: 'npx', args: ['-y', '@acme/pg-mcp'], env: { PGPASSWORD: '${PGPASSWORD}' } },
+          docs: { type: 'sse', url: 'https://mcp.acme.dev/sse' }
+        }
+      });
+
+      expect(await readCraftPermissions(craftDir)).toEqual({
+        commands: ['./scripts/check.sh', './scripts/guard.sh', 'npm ci', 'npx -y @acme/pg-mcp'],
+        network: ['db.acme.dev', 'mcp.acme.dev'],
+        env: ['PGPASSWORD'],
+        filesystem: ['~/.pgpass']
+      });
+    });
+
+    it('should read hooks/hooks.json and .mcp.json by default', async () => {
+      await fs.outputJson(path.join(craftDir, 'hooks', 'hooks.json'), { Stop: ['say done'] });
+      await fs.writeJson(path.join(craftDir, '.mcp.json'), { files: { command: 'node', args: ['server.js'] } });
+
+      expect(await readCraftPermissions(craftDir)).toEqual({ commands: ['node server.js', 'say done'] });
+    });
+
+    it('should return no permissions for plain crafts', async () => {
+      await fs.writeFile(path.join(craftDir, 'SKILL.md'), '# skill');
+
+      expect(isEmptyPermissions(await readCraftPermissions(craftDir))).toBe(true);
+    });
+  });
+
+  describe('subtractPermissions', () => {
+    const requested = { commands: ['npx prettier --write .', 'curl https://x.dev'], env: ['TOKEN'] };
+
+    it('should keep permissions that are not approved', () => {
+      expect(subtractPermissions(requested, { commands: ['npx prettier --write .'] })).toEqual({
+        commands: ['curl https://x.dev'],
+        env: ['TOKEN']
+      });
+    });
+
+    it('should match approvals with wildcards', () => {
+      expect(subtractPermissions(requested, { commands: ['npx prettier *', 'curl *'], env: ['*'] })).toEqual({});
+      expect(subtractPermissions(requested, '*')).toEqual({});
+      expect(subtractPermissions(requested, { commands: ['npx *.'] })).toEqual({ commands: ['curl https://x.dev'], env: ['TOKEN'] });
+    });
+
+    it('should keep everything when nothing is approved', () => {
+      expect(subtractPermissions(requested)).toEqual(requested);
+    });
+  });
+
+  describe('formatPermissions', () => {
+    it('should label the first item of each kind', () => {
+      expect(formatPermissions({ commands: ['node server.js', 'npm ci'], env: ['TOKEN'] })).toEqual([
+        '  Commands:   node server.js',
+        '              npm ci',
+        '  Env vars:   TOKEN'
+      ]);
+    });
+  });
+});
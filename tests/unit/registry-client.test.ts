@@ -202,6 +202,64 @@ describe('RegistryClient', () => {
     });
   });
 
+  describe('resolveVersion', () => {
+    it('should pick the highest version satisfying a range', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { versions: ['1.0.0', '1.4.2', '1.5.0-beta.1', '2.0.0'] }
+      });
+
+      const version = await registryClient.resolveVersion('author/craft', '^1.0.0');
+
+      expect(version).toBe('1.4.2');
+    });
+
+    it('should return exact versions without querying the registry', async () => {
+      const version = await registryClient.resolveVersion('author/craft', '1.2.3');
+
+      expect(version).toBe('1.2.3');
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    });
+
+    it('should return undefined for wildcards', async () => {
+      expect(await registryClient.resolveVersion('author/craft', '*')).toBeUndefined();
+      expect(await registryClient.resolveVersion('author/craft', 'latest')).toBeUndefined();
+    });
+
+    it('should return null when no version satisfies the range', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { versions: ['1.0.0'] }
+      });
+
+      const version = await registryClient.resolveVersion('author/craft', '^2.0.0');
+
+      expect(version).toBeNull();
+    });
+  });
+
+  describe('getCraftInfo with ranges', () => {
+    it('should fetch the resolved version for a range', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { versions: ['1.2.0', '1.3.1', '2.0.0'] } })
+        .mockResolvedValueOnce({ data: { name: 'craft', author: 'author', version: '1.3.1', type: 'skill' } });
+
+      const result = await registryClient.getCraftInfo('author/craft', '~1.3.0');
+
+      expect(result?.version).toBe('1.3.1');
+      expect(mockAxiosInstance.get).toHaveBeenLastCalledWith(
+        '/api/v1/crafts/author/craft/versions/1.3.1'
+      );
+    });
+
+    it('should return null when the range cannot be satisfied', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: { versions: ['1.0.0'] } });
+
+      const result = await registryClient.getCraftInfo('author/craft', '>=3.0.0');
+
+      expect(result).toBeNull();
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('searchCrafts', () => {
     it('should search crafts with query', async () => {
       const { configManager } = await import('../../src/services/config-manager');
@@ -297,6 +355,84 @@ describe('RegistryClient', () => {
     });
   });
 
+  describe('getAdvisories', () => {
+    const advisory = {
+      id: 'CDSA-0001',
+      craft: 'acme/lint',
+      vulnerable_versions: '<1.2.0',
+      fixed_in: '1.2.0',
+      severity: 'high',
+      title: 'Hook leaks environment variables'
+    };
+
+    it('should post the installed versions to the advisories endpoint', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { advisories: [advisory] } });
+
+      const result = await registryClient.getAdvisories({ 'acme/lint': '1.1.0' }, 'https://test-registry.com');
+
+      expect(result).toEqual([advisory]);
+      expect(axios.create).toHaveBeenCalledWith(expect.objectContaining({ baseURL: 'https://test-registry.com' }));
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/api/v1/advisories', { crafts: { 'acme/lint': '1.1.0' } });
+    });
+
+    it('should drop advisories that do not affect the installed version', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { advisories: [advisory, { ...advisory, id: 'CDSA-0002', craft: 'acme/other' }] }
+      });
+
+      expect(await registryClient.getAdvisories({ 'acme/lint': '1.2.0' }, 'https://test-registry.com')).toEqual([]);
+    });
+
+    it('should throw on API error', async () => {
+      mockAxiosInstance.post.mockRejectedValue(new Error('Request failed with status code 404'));
+
+      await expect(registryClient.getAdvisories({ 'acme/lint': '1.1.0' }, 'https://test-registry.com'))
+        .rejects.toThrow('status code 404');
+    });
+  });
+
+  describe('resolveIntegrity', () => {
+    const craftInfo = {
+      name: 'test-craft',
+      author: 'acme',
+      version: '1.0.0',
+      type: 'skill' as const,
+      download_url: 'https://test-registry.com/download/test-craft.zip'
+    };
+
+    it('should use the integrity reported by the registry in SRI form', async () => {
+      const download = vi.spyOn(registryClient, 'downloadCraft');
+
+      const integrity = await registryClient.resolveIntegrity({ ...craftInfo, integrity: 'dffd6021bb2bd5b0af676290809ec3a53191dd81c7f70a4b28688a362182986f' });
+
+      expect(integrity).toBe('sha256-3/1gIbsr1bCvZ2KQgJ7DpTGR3YHH9wpLKGiKNiGCmG8=');
+      expect(download).not.toHaveBeenCalled();
+    });
+
+    it('should hash the archive when the registry reports no integrity', async () => {
+      const fs = await import('fs');
+      vi.spyOn(registryClient, 'downloadCraft').mockImplementation(async (_url, outputPath) => {
+        await fs.promises.writeFile(outputPath, 'Hello, World!');
+      });
+
+      const integrity = await registryClient.resolveIntegrity(craftInfo);
+
+      expect(integrity).toBe('sha512-N015SpXNz9izWZMYX++bo2jxYNja9DLQi6nx7R5avmzGkpHg+i/gAGpSVw7xjBne9OYXwzzlLvCm5fvjGMsDhw==');
+    });
+
+    it('should refuse crafts without integrity when it is required', async () => {
+      await expect(registryClient.resolveIntegrity(craftInfo, { require: true })).rejects.toThrow(
+        'Registry did not provide an integrity for test-craft@1.0.0 (integrity is required)'
+      );
+    });
+
+    it('should reject invalid integrity values', async () => {
+      await expect(registryClient.resolveIntegrity({ ...craftInfo, integrity: 'sha1-abc' })).rejects.toThrow(
+        'Registry provided an invalid integrity for test-craft@1.0.0: sha1-abc'
+      );
+    });
+  });
+
   describe.skip('downloadCraft', () => {
     it('should download craft to file', async () => {
       const fs = await import('fs');
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseVersion,
+  compareVersions,
+  isExactVersion,
+  isValidRange,
+  satisfies,
+  maxSatisfying,
+  maxVersion,
+  intersectRanges
+} from '../../src/utils/semver';
+
+describe('semver', () => {
+  describe('parseVersion', () => {
+    it('should parse prerelease and build metadata', () => {
+      expect(parseVersion('v1.2.3-beta.1+build.5')).toEqual({
+        major: 1,
+        minor: 2,
+        patch: 3,
+        prerelease: ['beta', 1],
+        build: ['build', '5']
+      });
+    });
+
+    it('should reject partial and invalid versions', () => {
+      expect(parseVersion('1.2')).toBeNull();
+      expect(parseVersion('^1.2.3')).toBeNull();
+      expect(parseVersion('1.2.3.4')).toBeNull();
+    });
+  });
+
+  describe('compareVersions', () => {
+    const cmp = (a: string, b: string) => compareVersions(parseVersion(a)!, parseVersion(b)!);
+
+    it('should order prereleases below their release', () => {
+      expect(cmp('1.0.0-alpha', '1.0.0')).toBeLessThan(0);
+      expect(cmp('1.0.0', '1.0.0-rc.1')).toBeGreaterThan(0);
+    });
+
+    it('should follow semver prerelease precedence', () => {
+      const ordered = [
+        '1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta',
+        '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0'
+      ];
+      for (let i = 0; i < ordered.length - 1; i++) {
+        expect(cmp(ordered[i], ordered[i + 1])).toBeLessThan(0);
+      }
+    });
+
+    it('should ignore build metadata', () => {
+      expect(cmp('1.0.0+build.1', '1.0.0+build.2')).toBe(0);
+    });
+  });
+
+  describe('isExactVersion / isValidRange', () => {
+    it('should distinguish exact versions from ranges', () => {
+      expect(isExactVersion('1.2.3')).toBe(true);
+      expect(isExactVersion('^1.2.3')).toBe(false);
+      expect(isExactVersion('1.x')).toBe(false);
+    });
+
+    it('should validate ranges', () => {
+      expect(isValidRange('^1.2.3 || ~2.0')).toBe(true);
+      expect(isValidRange('1.0.0 - 2.0.0')).toBe(true);
+      expect(isValidRange('*')).toBe(true);
+      expect(isValidRange('^banana')).toBe(false);
+    });
+  });
+
+  describe('satisfies', () => {
+    it('should handle caret ranges', () => {
+      expect(satisfies('1.9.9', '^1.2.0')).toBe(true);
+      expect(satisfies('2.0.0', '^1.2.0')).toBe(false);
+      expect(satisfies('1.1.0', '^1.2.0')).toBe(false);
+      expect(satisfies('0.2.9', '^0.2.3')).toBe(true);
+      expect(satisfies('0.3.0', '^0.2.3')).toBe(false);
+      expect(satisfies('0.0.4', '^0.0.3')).toBe(false);
+    });
+
+    it('should handle tilde ranges', () => {
+      expect(satisfies('1.2.9', '~1.2.0')).toBe(true);
+      expect(satisfies('1.3.0', '~1.2.0')).toBe(false);
+      expect(satisfies('1.9.0', '~1')).toBe(true);
+    });
+
+    it('should handle x-ranges', () => {
+      expect(satisfies('1.5.0', '1.x')).toBe(true);
+      expect(satisfies('2.0.0', '1.x')).toBe(false);
+      expect(satisfies('1.2.7', '1.2.*')).toBe(true);
+      expect(satisfies('1.3.0', '1.2')).toBe(false);
+    });
+
+    it('should handle hyphen ranges', () => {
+      expect(satisfies('1.5.0', '1.2.3 - 2.3.4')).toBe(true);
+      expect(satisfies('2.3.5', '1.2.3 - 2.3.4')).toBe(false);
+      expect(satisfies('2.3.9', '1.2.3 - 2.3')).toBe(true);
+      expect(satisfies('2.4.0', '1.2.3 - 2.3')).toBe(false);
+    });
+
+    it('should handle comparators and unions', () => {
+      expect(satisfies('1.0.0', '>= 1.0.0 < 2.0.0')).toBe(true);
+      expect(satisfies('2.0.0', '>=1.0.0 <2.0.0')).toBe(false);
+      expect(satisfies('3.1.0', '^1.0.0 || ^3.0.0')).toBe(true);
+      expect(satisfies('2.1.0', '^1.0.0 || ^3.0.0')).toBe(false);
+      expect(satisfies('2.0.0', '>1')).toBe(true);
+      expect(satisfies('1.10.0', '<=1.9')).toBe(false);
+    });
+
+    it('should only match prereleases that are opted into', () => {
+      expect(satisfies('1.3.0-beta', '^1.2.0')).toBe(false);
+      expect(satisfies('5.0.0-rc.1', '*')).toBe(false);
+      expect(satisfies('1.2.3-beta.2', '^1.2.3-beta.1')).toBe(true);
+      expect(satisfies('1.2.4-beta.2', '^1.2.3-beta.1')).toBe(false);
+    });
+
+    it('should ignore build metadata', () => {
+      expect(satisfies('1.2.3+build.5', '1.2.3')).toBe(true);
+    });
+  });
+
+  describe('maxSatisfying', () => {
+    it('should pick the highest satisfying version', () => {
+      const versions = ['1.0.0', '1.2.0', '1.9.1', '2.0.0', '1.10.0-beta'];
+      expect(maxSatisfying(versions, '^1.0.0')).toBe('1.9.1');
+      expect(maxSatisfying(versions, '~1.2')).toBe('1.2.0');
+      expect(maxSatisfying(versions, '*')).toBe('2.0.0');
+    });
+
+    it('should return null when nothing satisfies the range', () => {
+      expect(maxSatisfying(['1.0.0'], '^2.0.0')).toBeNull();
+      expect(maxSatisfying(['1.0.0'], 'not a range')).toBeNull();
+    });
+  });
+
+  describe('maxVersion', () => {
+    it('should prefer stable releases', () => {
+      expect(maxVersion(['1.0.0', '2.0.0-beta.1'])).toBe('1.0.0');
+    });
+
+    it('should fall back to prereleases when nothing stable exists', () => {
+      expect(maxVersion(['1.0.0-alpha', '1.0.0-beta'])).toBe('1.0.0-beta');
+      expect(maxVersion([])).toBeNull();
+    });
+  });
+
+  describe('intersectRanges', () => {
+    it('should combine compatible ranges', () => {
+      expect(intersectRanges(['^1.2.0', '^1.4.0'])).toBe('^1.2.0 ^1.4.0');
+      expect(intersectRanges(['*', '~1.2'])).toBe('~1.2');
+      expect(intersectRanges(['1.2.3', '^1.0.0'])).toBe('1.2.3 ^1.0.0');
+    });
+
+    it('should distribute unions and drop impossible alternatives', () => {
+      expect(intersectRanges(['^1.0.0 || ^2.0.0', '>=2.1.0'])).toBe('^2.0.0 >=2.1.0');
+    });
+
+    it('should spell out hyphen ranges', () => {
+      const combined = intersectRanges(['1.0.0 - 2.0.0', '^1.5.0']);
+      expect(combined).toBe('>=1.0.0 <=2.0.0 ^1.5.0');
+      expect(satisfies('1.9.0', combined!)).toBe(true);
+    });
+
+    it('should return null for incompatible ranges', () => {
+      expect(intersectRanges(['^1.0.0', '^2.0.0'])).toBeNull();
+      expect(intersectRanges(['1.2.3', '1.2.4'])).toBeNull();
+      expect(intersectRanges(['<1.0.0', '>=1.0.0'])).toBeNull();
+    });
+  });
+});
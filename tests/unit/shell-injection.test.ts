@@ -10,6 +10,13 @@ vi.mock('child_process', () => ({
   execFileSync: vi.fn()
 }));
 
+// Clone straight from the given URL instead of a cached mirror
+vi.mock('../../src/services/cache-manager', () => ({
+  cacheManager: {
+    getGitMirror: vi.fn(async (url: string) => url)
+  }
+}));
+
 /**
  * Shell injection security tests.
  *
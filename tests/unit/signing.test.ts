@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+  calculateFilesDigest,
+  createSignaturePayload,
+  getKeyFingerprint,
+  signPayload,
+  toLockSignature,
+  verifyPayloadSignature
+} from '../../src/utils/signing';
+
+describe('signing', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const privatePem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  const publicDer = publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+
+  describe('calculateFilesDigest', () => {
+    it('should not depend on file order, path separators or content encoding', () => {
+      const digest = calculateFilesDigest([
+        { path: 'SKILL.md', content: '# lint' },
+        { path: 'docs/usage.md', content: 'usage' }
+      ]);
+
+      expect(calculateFilesDigest([
+        { path: 'docs\\usage.md', content: Buffer.from('usage') },
+        { path: 'SKILL.md', content: Buffer.from('# lint') }
+      ])).toBe(digest);
+    });
+
+    it('should change when a file is edited or renamed', () => {
+      const digest = calculateFilesDigest([{ path: 'SKILL.md', content: '# lint' }]);
+
+      expect(calculateFilesDigest([{ path: 'SKILL.md', content: '# lint!' }])).not.toBe(digest);
+      expect(calculateFilesDigest([{ path: 'README.md', content: '# lint' }])).not.toBe(digest);
+    });
+  });
+
+  describe('signatures', () => {
+    const payload = createSignaturePayload('acme', 'lint', '1.0.0', 'a'.repeat(64));
+
+    it('should verify signatures made with the matching key', () => {
+      expect(verifyPayloadSignature(payload, signPayload(payload, privatePem), publicDer)).toBe(true);
+    });
+
+    it('should bind the signature to the craft and version', () => {
+      const signature = signPayload(payload, privatePem);
+
+      expect(verifyPayloadSignature(createSignaturePayload('acme', 'lint', '1.0.1', 'a'.repeat(64)), signature, publicDer)).toBe(false);
+      expect(verifyPayloadSignature(createSignaturePayload('acme', 'format', '1.0.0', 'a'.repeat(64)), signature, publicDer)).toBe(false);
+    });
+
+    it('should reject malformed keys and signatures', () => {
+      expect(verifyPayloadSignature(payload, 'not-a-signature', publicDer)).toBe(false);
+      expect(verifyPayloadSignature(payload, signPayload(payload, privatePem), 'not-a-key')).toBe(false);
+    });
+  });
+
+  describe('toLockSignature', () => {
+    it('should record the signer fingerprint with the signature', () => {
+      const fields = toLockSignature({ signature: 'c2ln', public_key: publicDer });
+
+      expect(fields).toEqual({ signer: getKeyFingerprint(publicDer), signature: 'c2ln', publicKey: publicDer });
+      expect(fields.signer).toMatch(/^SHA256:[A-Za-z0-9+/]{43}$/);
+    });
+
+    it('should record nothing for unsigned crafts', () => {
+      expect(toLockSignature({})).toEqual({});
+    });
+  });
+});
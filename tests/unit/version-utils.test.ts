@@ -5,6 +5,7 @@ import {
   isNewerVersion,
   sortTagsBySemver,
   getUpdateType,
+  findVersionConstraint,
   padRight,
   colorize
 } from '../../src/utils/version-utils';
@@ -48,6 +49,11 @@ describe('version-utils', () => {
       expect(compareSemver('v1.0.0', '1.0.0')).toBe(0);
     });
 
+    it('should order prereleases below their release', () => {
+      expect(compareSemver('1.0.0-beta.1', '1.0.0')).toBeLessThan(0);
+      expect(compareSemver('1.0.0-beta.2', '1.0.0-beta.10')).toBeLessThan(0);
+    });
+
     it('should fall back to string comparison for non-semver', () => {
       expect(compareSemver('abc', 'def')).toBeLessThan(0);
       expect(compareSemver('def', 'abc')).toBeGreaterThan(0);
@@ -123,6 +129,46 @@ describe('version-utils', () => {
     });
   });
 
+  describe('findVersionConstraint', () => {
+    const craftDeskJson = {
+      name: 'project',
+      version: '1.0.0',
+      dependencies: {
+        'author/direct': '^1.2.0',
+        'author/config': { version: '~2.0.0', registry: 'private' }
+      },
+      devDependencies: {
+        'author/dev': '1.x'
+      }
+    };
+
+    it('should read constraints from dependencies and devDependencies', () => {
+      expect(findVersionConstraint('author/direct', craftDeskJson)).toBe('^1.2.0');
+      expect(findVersionConstraint('author/config', craftDeskJson)).toBe('~2.0.0');
+      expect(findVersionConstraint('author/dev', craftDeskJson)).toBe('1.x');
+    });
+
+    it('should fall back to constraints declared by locked crafts', () => {
+      const lockfile = {
+        version: '1.0.0',
+        lockfileVersion: 1,
+        generatedAt: '',
+        crafts: {
+          'author/direct': {
+            version: '1.2.0',
+            resolved: 'https://example.com',
+            integrity: 'abc',
+            type: 'skill' as const,
+            dependencies: { 'author/transitive': '^0.4.0' }
+          }
+        }
+      };
+
+      expect(findVersionConstraint('author/transitive', craftDeskJson, lockfile)).toBe('^0.4.0');
+      expect(findVersionConstraint('author/unknown', craftDeskJson, lockfile)).toBe('*');
+    });
+  });
+
   describe('padRight', () => {
     it('should pad string to specified length', () => {
       expect(padRight('test', 10)).toBe('test      ');
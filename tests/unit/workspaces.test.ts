@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs-extra';
+import { createTempDir, cleanupTempDir, writeJsonFile } from '../helpers/test-utils';
+import { findWorkspaces, addWorkspaceDependencies, sortWorkspaces, Workspace } from '../../src/utils/workspaces';
+import { CraftDeskJson } from '../../src/types/craftdesk-json';
+
+function workspace(name: string, dependencies: Record<string, string> = {}): Workspace {
+  return {
+    name,
+    directory: `/repo/skills/${name}`,
+    path: `skills/${name}`,
+    craftDeskJson: { name, version: '1.0.0', dependencies }
+  };
+}
+
+describe('workspaces', () => {
+  let rootDir: string;
+
+  const writeCraft = async (relativeDir: string, name?: string) => {
+    await fs.ensureDir(path.join(rootDir, relativeDir));
+    await writeJsonFile(path.join(rootDir, relativeDir, 'craftdesk.json'), { name, version: '1.0.0' });
+  };
+
+  beforeEach(async () => {
+    rootDir = await createTempDir('workspaces-test-');
+    await writeJsonFile(path.join(rootDir, 'craftdesk.json'), { name: 'root', version: '1.0.0' });
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(rootDir);
+  });
+
+  describe('findWorkspaces', () => {
+    it('should find directories matching the patterns that have a craftdesk.json', async () => {
+      await writeCraft('skills/auth', 'auth');
+      await writeCraft('skills/helper', 'helper');
+      await writeCraft('agents/reviewer', 'reviewer');
+      await fs.ensureDir(path.join(rootDir, 'skills', 'empty'));
+
+      const workspaces = await findWorkspaces(rootDir, ['skills/*', 'agents/*']);
+
+      expect(workspaces.map(w => [w.name, w.path])).toEqual([
+        ['reviewer', 'agents/reviewer'],
+        ['auth', 'skills/auth'],
+        ['helper', 'skills/helper']
+      ]);
+      expect(workspaces[1].directory).toBe(path.join(rootDir, 'skills', 'auth'));
+    });
+
+    it('should support ** and ! exclusions', async () => {
+      await writeCraft('crafts/skills/auth', 'auth');
+      await writeCraft('crafts/agents/reviewer', 'reviewer');
+      await writeCraft('crafts/node_modules/ignored', 'ignored');
+
+      const workspaces = await findWorkspaces(rootDir, ['crafts/**', '!crafts/agents/*']);
+
+      expect(workspaces.map(w => w.name)).toEqual(['auth']);
+    });
+
+    it('should reject workspaces without a name or with duplicate names', async () => {
+      await writeCraft('skills/auth', 'auth');
+      await writeCraft('other/auth', 'auth');
+      await expect(findWorkspaces(rootDir, ['skills/*', 'other/*']))
+        .rejects.toThrow('Workspaces other/auth and skills/auth are both named "auth"');
+
+      await writeCraft('unnamed/craft');
+      await expect(findWorkspaces(rootDir, ['unnamed/*']))
+        .rejects.toThrow('Workspace unnamed/craft has no name');
+    });
+  });
+
+  describe('addWorkspaceDependencies', () => {
+    it('should link undeclared workspaces and keep explicit declarations', () => {
+      const craftDeskJson: CraftDeskJson = {
+        name: 'root',
+        version: '1.0.0',
+        dependencies: { 'auth': 'file:skills/auth' }
+      };
+
+      const result = addWorkspaceDependencies(craftDeskJson, [workspace('auth'), workspace('helper')]);
+
+      expect(result.dependencies).toEqual({ 'auth': 'file:skills/auth', 'helper': 'link:skills/helper' });
+      expect(craftDeskJson.dependencies).toEqual({ 'auth': 'file:skills/auth' });
+    });
+  });
+
+  describe('sortWorkspaces', () => {
+    it('should order workspaces after the workspaces they depend on', () => {
+      const sorted = sortWorkspaces([
+        workspace('app', { 'auth': '^1.0.0', 'external': '^2.0.0' }),
+        workspace('auth', { 'helper': '^1.0.0' }),
+        workspace('helper')
+      ]);
+
+      expect(sorted.map(w => w.name)).toEqual(['helper', 'auth', 'app']);
+    });
+
+    it('should reject dependency cycles', () => {
+      expect(() => sortWorkspaces([workspace('a', { 'b': '*' }), workspace('b', { 'a': '*' })]))
+        .toThrow('Workspaces depend on each other in a cycle: a > b > a');
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import path from 'path';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
@@ -8,6 +9,11 @@ export default defineConfig({
     fileParallelism: false,
     pool: 'forks',
     maxWorkers: 1,
+    // Keep the global download/git cache and registered links out of the developer's home directory
+    env: {
+      CRAFTDESK_CACHE_DIR: path.resolve('.test-tmp', 'cache'),
+      CRAFTDESK_LINKS_DIR: path.resolve('.test-tmp', 'links')
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],